@@ -19,12 +19,19 @@ import { Analytics } from './pages/Analytics';
 import { Billing } from './pages/Billing';
 import { BillingSuccess } from './pages/billing/Success';
 import { Team } from './pages/Team';
+import { CoachReview } from './pages/CoachReview';
+import { TeamQuestions } from './pages/TeamQuestions';
 import { Invitations } from './pages/Invitations';
 import { InvitationAccept } from './pages/InvitationAccept';
 import { Quiz } from './pages/Quiz';
 import { QuickStartQuiz } from './pages/QuickStartQuiz';
 import { CreateOwnQuiz } from './pages/CreateOwnQuiz';
 import { StudyScheduleQuiz } from './pages/StudyScheduleQuiz';
+import { LiveQuizJoin } from './pages/LiveQuizJoin';
+import { SharedQuizJoin } from './pages/SharedQuizJoin';
+import { CompetitionQuiz } from './pages/CompetitionQuiz';
+import { ReviewQuiz } from './pages/ReviewQuiz';
+import { Flashcards } from './pages/Flashcards';
 import { Achievements } from './pages/Achievements';
 import { Schedule } from './pages/Schedule';
 import { Leaderboard } from './pages/Leaderboard';
@@ -80,6 +87,18 @@ function App() {
                   </ProtectedRoute>
                 } />
                 
+                <Route path="/team/review" element={
+                  <ProtectedRoute allowedTeamRoles={['owner', 'admin']}>
+                    <CoachReview />
+                  </ProtectedRoute>
+                } />
+                
+                <Route path="/team/questions" element={
+                  <ProtectedRoute allowedTeamRoles={['owner', 'admin']}>
+                    <TeamQuestions />
+                  </ProtectedRoute>
+                } />
+                
                 <Route path="/quiz" element={
                   <ProtectedRoute allowedTeamRoles={['owner', 'admin', 'member']}>
                     <Quiz />
@@ -104,6 +123,42 @@ function App() {
                   </ProtectedRoute>
                 } />
                 
+                <Route path="/quiz/competition" element={
+                  <ProtectedRoute allowedTeamRoles={['owner', 'admin', 'member']}>
+                    <CompetitionQuiz />
+                  </ProtectedRoute>
+                } />
+                
+                <Route path="/quiz/review" element={
+                  <ProtectedRoute allowedTeamRoles={['owner', 'admin', 'member']}>
+                    <ReviewQuiz />
+                  </ProtectedRoute>
+                } />
+                
+                <Route path="/quiz/flashcards" element={
+                  <ProtectedRoute allowedTeamRoles={['owner', 'admin', 'member']}>
+                    <Flashcards />
+                  </ProtectedRoute>
+                } />
+                
+                <Route path="/quiz/live/join" element={
+                  <ProtectedRoute allowedTeamRoles={['owner', 'admin', 'member']}>
+                    <LiveQuizJoin />
+                  </ProtectedRoute>
+                } />
+                
+                <Route path="/quiz/shared" element={
+                  <ProtectedRoute allowedTeamRoles={['owner', 'admin', 'member']}>
+                    <SharedQuizJoin />
+                  </ProtectedRoute>
+                } />
+                
+                <Route path="/quiz/shared/:code" element={
+                  <ProtectedRoute allowedTeamRoles={['owner', 'admin', 'member']}>
+                    <SharedQuizJoin />
+                  </ProtectedRoute>
+                } />
+                
                 <Route path="/quiz/runner/:quizSessionId" element={
                   <ProtectedRoute allowedTeamRoles={['owner', 'admin', 'member']}>
                     <QuizRunner />
@@ -157,7 +212,7 @@ function App() {
                 } />
                 
                 <Route path="/admin/questions" element={
-                  <ProtectedRoute requireAdmin>
+                  <ProtectedRoute requireQuestionReviewer>
                     <QuestionManagement />
                   </ProtectedRoute>
                 } />
@@ -1,10 +1,13 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { canReviewQuestions } from '../utils/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requireAdmin?: boolean;
+  // Admins or question reviewers
+  requireQuestionReviewer?: boolean;
   requireUser?: boolean;
   allowedTeamRoles?: ('owner' | 'admin' | 'member')[];
 }
@@ -12,6 +15,7 @@ interface ProtectedRouteProps {
 export function ProtectedRoute({ 
   children, 
   requireAdmin = false, 
+  requireQuestionReviewer = false,
   requireUser = false,
   allowedTeamRoles,
 }: ProtectedRouteProps) {
@@ -46,6 +50,10 @@ export function ProtectedRoute({
     return <Navigate to="/dashboard" replace />;
   }
 
+  if (requireQuestionReviewer && !canReviewQuestions(user)) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
   // Prevent system admins from accessing user-only features
   if (requireUser && user.role === 'admin') {
     return <Navigate to="/dashboard" replace />;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { Copy, GitMerge } from 'lucide-react';
+import { Modal } from '../common/Modal';
+import { AlertMessage } from '../common/AlertMessage';
+import { useQuestion } from '../../contexts/QuestionContext';
+import { Question } from '../../types';
+import { DuplicateQuestionPair } from '../../utils/questionDuplicates';
+import { formatQuestionReference } from '../../utils/verseReferences';
+
+interface DuplicateQuestionsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pairs: DuplicateQuestionPair[];
+}
+
+// Review probable duplicates and merge each pair into the question worth keeping
+export function DuplicateQuestionsModal({ isOpen, onClose, pairs }: DuplicateQuestionsModalProps) {
+  const { mergeQuestions } = useQuestion();
+  const [merging, setMerging] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleMerge = async (keep: Question, remove: Question) => {
+    if (!window.confirm(
+      `Keep "${keep.question}" and delete "${remove.question}"? Answer history for the deleted question moves to the one kept.`
+    )) {
+      return;
+    }
+
+    setMerging(remove.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const moved = await mergeQuestions(keep.id, remove.id);
+      setMessage(`Merged. ${moved} logged answer${moved !== 1 ? 's' : ''} moved to the kept question.`);
+    } catch (err) {
+      setError((err as { message?: string })?.message || 'Failed to merge questions');
+    } finally {
+      setMerging(null);
+    }
+  };
+
+  const renderQuestion = (keep: Question, remove: Question) => (
+    <div className="flex-1 min-w-0 p-3 bg-gray-50 rounded-lg flex flex-col">
+      <div className="text-xs text-gray-500 mb-1">
+        {formatQuestionReference(keep)} · {keep.points} pts · added {new Date(keep.created_at).toLocaleDateString()}
+      </div>
+      <p className="text-sm font-medium text-gray-900">{keep.question}</p>
+      <p className="text-sm text-gray-600 italic mt-1 flex-1">{keep.answer}</p>
+      <button
+        onClick={() => handleMerge(keep, remove)}
+        disabled={merging !== null}
+        className="mt-3 self-start flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+      >
+        <GitMerge className="h-4 w-4" />
+        <span>{merging === remove.id ? 'Merging...' : 'Keep this one'}</span>
+      </button>
+    </div>
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Probable Duplicates" maxWidth="4xl">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Questions in the same chapter with nearly the same wording. Keeping one deletes the other and moves its answer history over.
+        </p>
+
+        {error && <AlertMessage type="error" message={error} />}
+        {message && <AlertMessage type="success" message={message} dismissible onDismiss={() => setMessage(null)} />}
+
+        {pairs.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Copy className="h-10 w-10 mx-auto mb-2 text-gray-300" />
+            <p>No probable duplicates found.</p>
+          </div>
+        ) : (
+          <ul className="space-y-3">
+            {pairs.map(pair => (
+              <li key={`${pair.first.id}-${pair.second.id}`} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3 text-sm">
+                  <span className="font-medium text-gray-900">{Math.round(pair.similarity * 100)}% similar</span>
+                  <span className={pair.sameAnswer ? 'text-green-700' : 'text-yellow-700'}>
+                    {pair.sameAnswer ? 'Same answer' : 'Different answers'}
+                  </span>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  {renderQuestion(pair.first, pair.second)}
+                  {renderQuestion(pair.second, pair.first)}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { Download, Printer } from 'lucide-react';
+import { Question } from '../../types';
+import {
+  buildQuestionsCsv,
+  buildQuestionsJson,
+  buildStudyGuideHtml,
+  downloadTextFile,
+  getQuestionExportFileName,
+} from '../../utils/questionExport';
+
+interface QuestionExportActionsProps {
+  // Describes the current filters, used in file names and the study guide title
+  label: string;
+  questions: Question[];
+}
+
+const BUTTON_CLASS = 'flex items-center space-x-2 px-3 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 disabled:opacity-50';
+
+// Export the filtered question bank as CSV or JSON, or print it as a study guide
+export function QuestionExportActions({ label, questions }: QuestionExportActionsProps) {
+  const [error, setError] = useState<string | null>(null);
+  const unavailable = questions.length === 0;
+
+  const handleCsv = () => {
+    downloadTextFile(buildQuestionsCsv(questions), getQuestionExportFileName(label, 'csv'), 'text/csv');
+  };
+
+  const handleJson = () => {
+    downloadTextFile(buildQuestionsJson(questions), getQuestionExportFileName(label, 'json'), 'application/json');
+  };
+
+  const handlePrint = () => {
+    setError(null);
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setError('Allow pop-ups for this site to print the study guide.');
+      return;
+    }
+
+    printWindow.document.write(buildStudyGuideHtml(label ? `Study Guide: ${label}` : 'Study Guide', questions));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <button onClick={handleCsv} disabled={unavailable} className={BUTTON_CLASS} title="Spreadsheet that can be edited and imported again">
+        <Download className="h-4 w-4" />
+        <span>CSV</span>
+      </button>
+      <button onClick={handleJson} disabled={unavailable} className={BUTTON_CLASS} title="Backup including answer parts">
+        <Download className="h-4 w-4" />
+        <span>JSON</span>
+      </button>
+      <button onClick={handlePrint} disabled={unavailable} className={BUTTON_CLASS} title="Questions and answers grouped by book and chapter">
+        <Printer className="h-4 w-4" />
+        <span>Study Guide</span>
+      </button>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+}
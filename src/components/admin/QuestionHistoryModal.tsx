@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RotateCcw, History } from 'lucide-react';
+import { Modal } from '../common/Modal';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { AlertMessage } from '../common/AlertMessage';
+import { useQuestion } from '../../contexts/QuestionContext';
+import { Question, QuestionRevision } from '../../types';
+import { getRevisionChanges } from '../../utils/questionRevisions';
+import { formatTimeAgo } from '../../utils/formatters';
+
+interface QuestionHistoryModalProps {
+  question: Question | null;
+  onClose: () => void;
+}
+
+// Every saved version of a question, with what changed and a way to go back to it
+export function QuestionHistoryModal({ question, onClose }: QuestionHistoryModalProps) {
+  const { fetchQuestionRevisions, revertQuestion } = useQuestion();
+  const [revisions, setRevisions] = useState<QuestionRevision[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [reverting, setReverting] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async (questionId: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRevisions(await fetchQuestionRevisions(questionId));
+    } catch (err) {
+      setError((err as { message?: string })?.message || 'Failed to load revision history');
+      setRevisions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchQuestionRevisions]);
+
+  useEffect(() => {
+    if (question) loadRevisions(question.id);
+  }, [question, loadRevisions]);
+
+  const handleRevert = async (revision: QuestionRevision) => {
+    if (!window.confirm(`Revert this question to revision ${revision.revision}? The current version stays in the history.`)) {
+      return;
+    }
+
+    setReverting(revision.revision);
+    setError(null);
+    try {
+      await revertQuestion(revision);
+      await loadRevisions(revision.question_id);
+    } catch (err) {
+      setError((err as { message?: string })?.message || 'Failed to revert question');
+    } finally {
+      setReverting(null);
+    }
+  };
+
+  // Revisions are newest first, so the one before each is next in the list
+  const currentRevision = revisions[0]?.revision;
+
+  return (
+    <Modal isOpen={!!question} onClose={onClose} title="Revision History" maxWidth="2xl">
+      <div className="space-y-4">
+        {error && <AlertMessage type="error" message={error} />}
+
+        {loading ? (
+          <LoadingSpinner text="Loading history..." />
+        ) : revisions.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <History className="h-10 w-10 mx-auto mb-2 text-gray-300" />
+            <p>No revisions recorded for this question.</p>
+          </div>
+        ) : (
+          <ol className="space-y-3">
+            {revisions.map((revision, index) => {
+              const changes = getRevisionChanges(revision, revisions[index + 1]);
+              const isCurrent = revision.revision === currentRevision;
+
+              return (
+                <li key={revision.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-start justify-between mb-2">
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        Revision {revision.revision}
+                        {isCurrent && <span className="ml-2 text-xs font-normal text-green-700 bg-green-50 border border-green-200 rounded px-2 py-0.5">Current</span>}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {revision.changed_fields.length === 0 ? 'Created' : 'Edited'}
+                        {revision.changed_by_name ? ` by ${revision.changed_by_name}` : ''} · {formatTimeAgo(revision.created_at)}
+                      </div>
+                    </div>
+                    {!isCurrent && (
+                      <button
+                        onClick={() => handleRevert(revision)}
+                        disabled={reverting !== null}
+                        className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-700 disabled:opacity-50"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                        <span>{reverting === revision.revision ? 'Reverting...' : 'Revert'}</span>
+                      </button>
+                    )}
+                  </div>
+
+                  {changes.length === 0 ? (
+                    <p className="text-sm text-gray-700">{revision.question}</p>
+                  ) : (
+                    <dl className="space-y-2">
+                      {changes.map(change => (
+                        <div key={change.field} className="text-sm">
+                          <dt className="text-xs font-medium text-gray-500 uppercase tracking-wide">{change.label}</dt>
+                          <dd className="mt-1 space-y-1">
+                            <div className="px-2 py-1 rounded bg-red-50 text-red-800 line-through decoration-red-400">
+                              {change.before || <span className="italic no-underline">(empty)</span>}
+                            </div>
+                            <div className="px-2 py-1 rounded bg-green-50 text-green-800">
+                              {change.after || <span className="italic">(empty)</span>}
+                            </div>
+                          </dd>
+                        </div>
+                      ))}
+                    </dl>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </Modal>
+  );
+}
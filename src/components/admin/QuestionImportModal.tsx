@@ -0,0 +1,310 @@
+import React, { useState, useMemo } from 'react';
+import { Upload, Download, AlertTriangle, CheckCircle, Copy, RefreshCw } from 'lucide-react';
+import { Modal } from '../common/Modal';
+import { AlertMessage } from '../common/AlertMessage';
+import { useQuestion } from '../../contexts/QuestionContext';
+import { QuestionStatus } from '../../types';
+import {
+  guessColumnMapping,
+  IMPORT_DEFAULTS,
+  ImportColumnMapping,
+  ParsedImportFile,
+  parseQuestionFile,
+  QUESTION_IMPORT_FIELDS,
+  validateImportRows
+} from '../../utils/questionImport';
+import { formatQuestionReference } from '../../utils/verseReferences';
+import { downloadTextFile } from '../../utils/questionExport';
+
+interface QuestionImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (count: number) => void;
+}
+
+const TEMPLATE_CSV = 'Book,Chapter,Verse,Question,Answer,Points,Time,Tier\nDaniel,1,8,"What did Daniel purpose in his heart?","Not to defile himself with the king\'s food",10,30,free\n';
+
+export function QuestionImportModal({ isOpen, onClose, onImported }: QuestionImportModalProps) {
+  const { questions, importQuestions } = useQuestion();
+  const [fileName, setFileName] = useState('');
+  const [parsedFile, setParsedFile] = useState<ParsedImportFile | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [newQuestionStatus, setNewQuestionStatus] = useState<QuestionStatus>('draft');
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // Dry run: nothing is saved until the import button is pressed
+  const results = useMemo(() => {
+    if (!parsedFile || !mapping) return [];
+    return validateImportRows(parsedFile.rows, mapping, questions, fileName.toLowerCase().endsWith('.json') ? 1 : 2);
+  }, [parsedFile, mapping, questions, fileName]);
+
+  const missingRequired = QUESTION_IMPORT_FIELDS.filter(({ field, required }) => required && !mapping?.[field]);
+  const errorRows = results.filter(row => row.errors.length > 0);
+  const duplicateRows = results.filter(row => row.data && row.duplicateOf !== null);
+  const rowsToImport = results.filter(row => row.data && !row.unchanged && (!skipDuplicates || row.duplicateOf === null));
+  const updateCount = rowsToImport.filter(row => row.questionId).length;
+  const unchangedCount = results.filter(row => row.unchanged).length;
+  const canImport = !!parsedFile && missingRequired.length === 0 && errorRows.length === 0 && rowsToImport.length > 0 && !importing;
+
+  const resetState = () => {
+    setFileName('');
+    setParsedFile(null);
+    setMapping(null);
+    setParseError(null);
+    setImportError(null);
+    setSkipDuplicates(true);
+  };
+
+  const handleClose = () => {
+    resetState();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setParseError(null);
+    setImportError(null);
+    try {
+      const parsed = parseQuestionFile(await file.text(), file.name);
+      if (parsed.rows.length === 0) throw new Error('The file has no question rows');
+      setFileName(file.name);
+      setParsedFile(parsed);
+      setMapping(guessColumnMapping(parsed.headers));
+    } catch (err) {
+      setFileName('');
+      setParsedFile(null);
+      setMapping(null);
+      setParseError(err instanceof Error ? err.message : 'Could not read the file');
+    }
+  };
+
+  const handleDownloadTemplate = () => {
+    downloadTextFile(TEMPLATE_CSV, 'question-import-template.csv', 'text/csv');
+  };
+
+  const handleImport = async () => {
+    if (!canImport) return;
+
+    setImporting(true);
+    setImportError(null);
+    try {
+      const count = await importQuestions(
+        rowsToImport.filter(row => !row.questionId).map(row => ({ ...row.data!, status: newQuestionStatus })),
+        rowsToImport.filter(row => row.questionId).map(row => ({ ...row.data!, id: row.questionId! }))
+      );
+      onImported(count);
+      handleClose();
+    } catch (err) {
+      // Rows are saved in one transaction, so a failure leaves the question bank unchanged
+      setImportError((err as { message?: string })?.message || 'Failed to import questions');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Import Questions"
+      maxWidth="4xl"
+      footer={
+        <>
+          <button
+            onClick={handleClose}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <Upload className="h-4 w-4" />
+            <span>{importing ? 'Importing...' : `Save ${rowsToImport.length} Question${rowsToImport.length !== 1 ? 's' : ''}`}</span>
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-6">
+        {/* File */}
+        <div>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <label className="flex items-center justify-center space-x-2 px-4 py-2 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-indigo-400 hover:bg-indigo-50 transition-colors duration-200">
+              <Upload className="h-4 w-4 text-gray-500" />
+              <span className="text-sm text-gray-700">{fileName || 'Choose a CSV or JSON file'}</span>
+              <input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} className="hidden" />
+            </label>
+            <button
+              onClick={handleDownloadTemplate}
+              className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800 transition-colors duration-200"
+            >
+              <Download className="h-4 w-4" />
+              <span>Download CSV template</span>
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Export your spreadsheet as CSV with a header row, or upload a JSON array of question objects.
+            Rows with a question ID update that question, so an exported file can be edited and imported again.
+            Points, time and tier default to {IMPORT_DEFAULTS.points}, {IMPORT_DEFAULTS.time_to_answer}s and {IMPORT_DEFAULTS.tier} when left empty.
+          </p>
+        </div>
+
+        {parseError && <AlertMessage type="error" message={parseError} />}
+        {importError && <AlertMessage type="error" message={importError} />}
+
+        {parsedFile && mapping && (
+          <>
+            {/* Column mapping */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-3">Columns</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                {QUESTION_IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">
+                      {label}{required && <span className="text-red-500"> *</span>}
+                    </label>
+                    <select
+                      value={mapping[field]}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+                      className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+                    >
+                      <option value="">{required ? 'Select a column' : 'Not in file'}</option>
+                      {parsedFile.headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {missingRequired.length > 0 ? (
+              <AlertMessage
+                type="warning"
+                message={`Choose columns for ${missingRequired.map(({ label }) => label).join(', ')} to check the rows.`}
+              />
+            ) : (
+              <>
+                {/* Dry-run summary */}
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                    <div className="text-2xl font-bold text-green-700">{results.length - errorRows.length}</div>
+                    <div className="text-xs text-green-700">Valid rows</div>
+                  </div>
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <div className="text-2xl font-bold text-red-700">{errorRows.length}</div>
+                    <div className="text-xs text-red-700">Rows with errors</div>
+                  </div>
+                  <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                    <div className="text-2xl font-bold text-yellow-700">{duplicateRows.length}</div>
+                    <div className="text-xs text-yellow-700">Likely duplicates</div>
+                  </div>
+                  <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                    <div className="text-2xl font-bold text-blue-700">{updateCount}</div>
+                    <div className="text-xs text-blue-700">
+                      Updates{unchangedCount > 0 ? ` (${unchangedCount} unchanged)` : ''}
+                    </div>
+                  </div>
+                </div>
+
+                {errorRows.length > 0 && (
+                  <AlertMessage
+                    type="error"
+                    message="Fix the rows with errors in your file and upload it again. Nothing is imported until every row is valid."
+                  />
+                )}
+
+                {updateCount < rowsToImport.length && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span>Save new questions as</span>
+                    <select
+                      value={newQuestionStatus}
+                      onChange={(e) => setNewQuestionStatus(e.target.value as QuestionStatus)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+                    >
+                      <option value="draft">Drafts</option>
+                      <option value="in_review">Submitted for review</option>
+                      <option value="published">Published</option>
+                    </select>
+                  </label>
+                )}
+
+                {duplicateRows.length > 0 && (
+                  <label className="flex items-center space-x-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={skipDuplicates}
+                      onChange={(e) => setSkipDuplicates(e.target.checked)}
+                      className="rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span>Skip likely duplicates</span>
+                  </label>
+                )}
+
+                {/* Row preview */}
+                <div className="border border-gray-200 rounded-lg overflow-hidden">
+                  <div className="max-h-80 overflow-y-auto">
+                    <table className="min-w-full divide-y divide-gray-200 text-sm">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Reference</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Question</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {results.map((row, index) => (
+                          <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50' : row.duplicateOf !== null ? 'bg-yellow-50' : ''}>
+                            <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                            <td className="px-3 py-2 whitespace-nowrap text-gray-900">{row.data ? formatQuestionReference(row.data) : '—'}</td>
+                            <td className="px-3 py-2 text-gray-700">
+                              <div className="line-clamp-2">{row.data?.question || parsedFile.rows[index][mapping.question] || ''}</div>
+                            </td>
+                            <td className="px-3 py-2">
+                              {row.errors.length > 0 ? (
+                                <div className="flex items-start space-x-1 text-red-700">
+                                  <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                                  <span>{row.errors.join('; ')}</span>
+                                </div>
+                              ) : row.duplicateOf !== null ? (
+                                <div className="flex items-center space-x-1 text-yellow-700">
+                                  <Copy className="h-4 w-4 flex-shrink-0" />
+                                  <span>
+                                    {row.duplicateOf === 'existing' ? 'Already in the question bank' : `Same as row ${row.duplicateOf}`}
+                                  </span>
+                                </div>
+                              ) : row.questionId ? (
+                                <div className="flex items-center space-x-1 text-blue-700">
+                                  <RefreshCw className="h-4 w-4 flex-shrink-0" />
+                                  <span>{row.unchanged ? 'No changes' : 'Updates existing question'}</span>
+                                </div>
+                              ) : (
+                                <div className="flex items-center space-x-1 text-green-700">
+                                  <CheckCircle className="h-4 w-4 flex-shrink-0" />
+                                  <span>New question</span>
+                                </div>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useAnalyticsContext } from '../../contexts/AnalyticsContext';
+import { useAssignedQuizResults } from '../../hooks/useAssignedQuizResults';
+import { buildAssignedQuizComparison } from '../../utils/assignedQuizUtils';
+import { LoadingSpinner } from '../common/LoadingSpinner';
+import { AlertMessage } from '../common/AlertMessage';
+import { ClipboardList } from 'lucide-react';
+import { formatQuestionReference } from '../../utils/verseReferences';
+
+// Cell colour by share of points earned
+const getCellClass = (pointsEarned: number, totalPoints: number): string => {
+  if (pointsEarned >= totalPoints) return 'bg-green-100 text-green-800';
+  if (pointsEarned > 0) return 'bg-amber-100 text-amber-800';
+  return 'bg-red-100 text-red-800';
+};
+
+export function AssignedQuizzesTab() {
+  const { assignedQuizzes, assignedQuizzesLoading, assignedQuizzesError } = useAnalyticsContext();
+  const [selectedQuizId, setSelectedQuizId] = useState<string | null>(null);
+  const { data: memberResults, loading, error } = useAssignedQuizResults(selectedQuizId);
+
+  // Default to the most recently due quiz
+  useEffect(() => {
+    if (!selectedQuizId && assignedQuizzes.length > 0) {
+      setSelectedQuizId(assignedQuizzes[assignedQuizzes.length - 1].id);
+    }
+  }, [assignedQuizzes, selectedQuizId]);
+
+  const selectedQuiz = assignedQuizzes.find(quiz => quiz.id === selectedQuizId);
+
+  const rows = useMemo(
+    () => (selectedQuiz ? buildAssignedQuizComparison(selectedQuiz.questions, memberResults) : []),
+    [selectedQuiz, memberResults]
+  );
+
+  if (assignedQuizzesLoading) {
+    return <LoadingSpinner text="Loading assigned quizzes..." className="py-8" />;
+  }
+
+  if (assignedQuizzesError) {
+    return <AlertMessage type="error" message={assignedQuizzesError} />;
+  }
+
+  if (assignedQuizzes.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <ClipboardList className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">No Assigned Quizzes</h3>
+        <p className="text-gray-600">Assign a fixed quiz from the Study Schedule to compare answers here.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Assigned Quiz Results</h3>
+          <p className="text-sm text-gray-600">Every member answered the same questions, so results can be compared question by question.</p>
+        </div>
+        <select
+          value={selectedQuizId || ''}
+          onChange={(e) => setSelectedQuizId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+        >
+          {assignedQuizzes.map(quiz => (
+            <option key={quiz.id} value={quiz.id}>
+              {quiz.title} (due {new Date(quiz.due_at).toLocaleDateString()})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <AlertMessage type="error" message={error} />}
+
+      {loading ? (
+        <LoadingSpinner text="Loading results..." className="py-8" />
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-3 text-left font-medium text-gray-700">Question</th>
+                {memberResults.map(member => (
+                  <th key={member.user_id} className="px-3 py-3 text-center font-medium text-gray-700 whitespace-nowrap">
+                    <div>{member.user_name}</div>
+                    <div className="text-xs font-normal text-gray-500">
+                      {member.completed_at
+                        ? `${member.total_points ?? 0}/${member.max_points ?? 0} pts`
+                        : 'Not completed'}
+                    </div>
+                  </th>
+                ))}
+                <th className="px-3 py-3 text-center font-medium text-gray-700">Average</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map((row, index) => (
+                <tr key={row.question.id}>
+                  <td className="px-4 py-3 text-gray-900 max-w-xs">
+                    <div className="truncate" title={row.question.question}>
+                      {index + 1}. {row.question.question}
+                    </div>
+                    <div className="text-xs text-gray-500">{formatQuestionReference(row.question)}</div>
+                  </td>
+                  {row.results.map((result, memberIndex) => (
+                    <td key={memberResults[memberIndex].user_id} className="px-3 py-3 text-center">
+                      {result ? (
+                        <span
+                          className={`inline-block px-2 py-0.5 rounded ${getCellClass(result.pointsEarned, result.totalPoints)}`}
+                          title={`${result.timeSpent}s`}
+                        >
+                          {result.pointsEarned}/{result.totalPoints}
+                        </span>
+                      ) : (
+                        <span className="text-gray-400">-</span>
+                      )}
+                    </td>
+                  ))}
+                  <td className="px-3 py-3 text-center font-medium text-gray-900">
+                    {row.averagePercent !== null ? `${row.averagePercent}%` : '-'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,21 +1,33 @@
 import React from 'react';
 import { useAnalyticsContext } from '../../contexts/AnalyticsContext';
 import { KnowledgeGapsSection } from './KnowledgeGapsSection';
+import { ReviewCoverageSection } from './ReviewCoverageSection';
 
 export function KnowledgeGapsTab() {
   const {
     selectedMemberId,
     knowledgeGapsData,
     knowledgeGapsLoading,
-    knowledgeGapsError
+    knowledgeGapsError,
+    reviewCoverageData,
+    reviewCoverageLoading,
+    reviewCoverageError
   } = useAnalyticsContext();
 
   return (
-    <KnowledgeGapsSection
-      data={knowledgeGapsData}
-      loading={knowledgeGapsLoading}
-      error={knowledgeGapsError}
-      showIndividual={selectedMemberId !== undefined}
-    />
+    <div className="space-y-6">
+      <KnowledgeGapsSection
+        data={knowledgeGapsData}
+        loading={knowledgeGapsLoading}
+        error={knowledgeGapsError}
+        showIndividual={selectedMemberId !== undefined}
+      />
+      <ReviewCoverageSection
+        data={reviewCoverageData}
+        loading={reviewCoverageLoading}
+        error={reviewCoverageError}
+        showIndividual={selectedMemberId !== undefined}
+      />
+    </div>
   );
-}
\ No newline at end of file
+}
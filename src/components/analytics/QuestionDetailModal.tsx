@@ -2,6 +2,9 @@ import React, { useState, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
 import { Modal } from '../common/Modal';
 import { Badge } from '../common/Badge';
+import { ComponentMissRate } from '../../utils/answerRubric';
+import { RevisionAttemptSummary } from '../../utils/questionRevisions';
+import { formatVerseRange } from '../../utils/verseReferences';
 import { LoadingSpinner } from '../common/LoadingSpinner';
 import { AlertMessage } from '../common/AlertMessage';
 import { formatTime, formatTimeAgo } from '../../utils/formatters';
@@ -16,7 +19,8 @@ import {
   BarChart3,
   AlertTriangle,
   Users,
-  Calendar
+  Calendar,
+  History
 } from 'lucide-react';
 
 type FilterType = 'all' | 'correct' | 'incorrect';
@@ -46,6 +50,8 @@ interface QuestionPerformanceData {
   answer_text: string;
   book_of_bible: string;
   chapter: number;
+  verse_start?: number | null;
+  verse_end?: number | null;
   tier: string;
   points: number;
   total_attempts: number;
@@ -55,6 +61,9 @@ interface QuestionPerformanceData {
   average_time_spent: number;
   total_points_earned: number;
   total_points_possible: number;
+  component_miss_rates?: ComponentMissRate[];
+  current_revision?: number;
+  revision_attempts?: RevisionAttemptSummary[];
 }
 
 interface QuestionDetailModalProps {
@@ -173,6 +182,7 @@ export function QuestionDetailModal({ isOpen, onClose, question, teamId }: Quest
               <div>
                 <h3 className="font-semibold text-gray-900">
                   {question.book_of_bible} Chapter {question.chapter}
+                  {question.verse_start ? `, verses ${formatVerseRange(question)}` : ''}
                 </h3>
                 <div className="flex items-center space-x-2 mt-1">
                   <Badge type="tier" value={question.tier} showIcon />
@@ -318,6 +328,60 @@ export function QuestionDetailModal({ isOpen, onClose, question, teamId }: Quest
           </div>
         </div>
 
+        {/* Answer parts members miss, for questions with a rubric */}
+        {question.component_miss_rates && question.component_miss_rates.length > 0 && (
+          <div>
+            <h4 className="font-medium text-gray-900 mb-3 flex items-center space-x-2">
+              <AlertTriangle className="h-4 w-4 text-orange-600" />
+              <span>Answer Parts Missed</span>
+            </h4>
+            <div className="space-y-2">
+              {question.component_miss_rates.map(part => (
+                <div key={part.componentId} className="p-3 bg-gray-50 rounded-lg">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-sm font-medium text-gray-700">{part.text}</span>
+                    <span className={`text-sm font-bold ${getAccuracyColor(100 - part.missRate)}`}>
+                      Missed {part.misses} of {part.attempts} ({part.missRate}%)
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-orange-500 h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${part.missRate}%` }}
+                    ></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Attempts answered against earlier wordings of an edited question */}
+        {question.revision_attempts && question.revision_attempts.some(summary => !summary.isCurrent) && (
+          <div>
+            <h4 className="font-medium text-gray-900 mb-3 flex items-center space-x-2">
+              <History className="h-4 w-4 text-gray-600" />
+              <span>Attempts by Revision</span>
+            </h4>
+            <p className="text-sm text-gray-600 mb-2">
+              This question was edited after some members answered it. The question and answer above are revision {question.current_revision}.
+            </p>
+            <div className="space-y-2">
+              {question.revision_attempts.map(summary => (
+                <div key={summary.revision} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                  <span className="text-sm font-medium text-gray-700">
+                    Revision {summary.revision}{summary.isCurrent ? ' (current)' : ''}
+                  </span>
+                  <span className="text-sm text-gray-700">
+                    {summary.correctAttempts} of {summary.attempts} correct ·{' '}
+                    <span className={`font-bold ${getAccuracyColor(summary.accuracyRate)}`}>{summary.accuracyRate}%</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Visual Progress Bar */}
         <div>
           <h4 className="font-medium text-gray-900 mb-3">Response Distribution</h4>
@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { Table, TableColumn } from '../common/Table';
 import { Badge } from '../common/Badge';
+import { ComponentMissRate } from '../../utils/answerRubric';
 import { QuestionDetailModal } from './QuestionDetailModal';
+import { formatVerseRange } from '../../utils/verseReferences';
 import { 
   BookOpen, 
   Target, 
@@ -18,6 +20,8 @@ interface QuestionPerformanceData {
   answer_text: string;
   book_of_bible: string;
   chapter: number;
+  verse_start?: number | null;
+  verse_end?: number | null;
   tier: string;
   points: number;
   total_attempts: number;
@@ -27,6 +31,7 @@ interface QuestionPerformanceData {
   average_time_spent: number;
   total_points_earned: number;
   total_points_possible: number;
+  component_miss_rates?: ComponentMissRate[];
 }
 
 interface QuestionPerformanceTableProps {
@@ -119,7 +124,10 @@ export function QuestionPerformanceTable({ data, loading, error, showIndividual,
       render: (question) => (
         <div className="text-sm">
           <div className="font-medium text-gray-900">{question.book_of_bible}</div>
-          <div className="text-gray-500">Chapter {question.chapter}</div>
+          <div className="text-gray-500">
+            Chapter {question.chapter}
+            {question.verse_start ? `, verses ${formatVerseRange(question)}` : ''}
+          </div>
         </div>
       ),
       className: 'whitespace-nowrap',
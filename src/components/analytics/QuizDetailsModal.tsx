@@ -4,6 +4,12 @@ import { supabase } from '../../lib/supabase';
 import { LoadingSpinner } from '../common/LoadingSpinner';
 import { AlertMessage } from '../common/AlertMessage';
 import { formatTime } from '../../utils/formatters';
+import { useQuizSession } from '../../contexts/QuizSessionContext';
+import { useRetryMissedQuestions } from '../../hooks/useRetryMissedQuestions';
+import { useSharedQuiz } from '../../hooks/useSharedQuiz';
+import { getMissedQuestions, getRetryChain } from '../../utils/quizUtils';
+import { QuizPacketActions } from '../quiz/QuizPacketActions';
+import { isTeamQuestion } from '../../utils/teamQuestions';
 import { 
   CheckCircle, 
   XCircle, 
@@ -12,8 +18,11 @@ import {
   Award,
   Clock,
   Target,
-  AlertTriangle
+  AlertTriangle,
+  RotateCcw,
+  Share2
 } from 'lucide-react';
+import { formatQuestionReference } from '../../utils/verseReferences';
 
 interface QuizQuestionDetail {
   id: string;
@@ -23,6 +32,9 @@ interface QuizQuestionDetail {
   time_spent: number;
   is_correct: boolean;
   answered_at: string;
+  typed_answer?: string | null;
+  auto_graded_points?: number | null;
+  self_graded_points?: number | null;
   question: {
     book_of_bible: string;
     chapter: number;
@@ -47,11 +59,42 @@ export function QuizDetailsModal({ isOpen, onClose, quizSessionId, quizTitle }:
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState<FilterType>('all');
+  const { sessions } = useQuizSession();
+  const { creating: creatingRetry, error: retryError, getRetryableSession, startRetrySession } = useRetryMissedQuestions();
+
+  // Retry is only offered for the member's own sessions with missed questions
+  const retryableSession = getRetryableSession(quizSessionId);
+  const retryChain = quizSessionId ? getRetryChain(sessions, quizSessionId) : [];
+  const retryCount = quizSessionId ? sessions.filter(s => s.source_session_id === quizSessionId).length : 0;
+
+  // Seeded quizzes can be shared so others get the same questions
+  const { sharing, error: shareError, shareSession } = useSharedQuiz();
+  const shareableSession = sessions.find(s => s.id === quizSessionId && (s.quiz_definition || s.share_code));
+  // A session with team questions isn't linked to its code, so the code is only kept here
+  const [createdShareCode, setCreatedShareCode] = useState<string | null>(null);
+  const shareCode = shareableSession?.share_code || createdShareCode;
+  const hasTeamQuestions = !!shareableSession?.questions.some(isTeamQuestion);
+
+  const handleShareSession = async () => {
+    if (!shareableSession) return;
+    const code = await shareSession(shareableSession);
+    if (code) setCreatedShareCode(code);
+  };
+
+  // The member's own sessions carry their questions, so they can be printed for paper practice
+  const printableSession = sessions.find(s => s.id === quizSessionId && s.status === 'completed');
+
+  // Coach review outcome for the member's own sessions
+  const reviewedSession = sessions.find(s => s.id === quizSessionId && (s.reviewed_at || s.approval_status === 'pending'));
+  const coachChangedCount = questionDetails.filter(
+    detail => detail.self_graded_points !== null && detail.self_graded_points !== undefined
+  ).length;
 
   useEffect(() => {
     if (isOpen && quizSessionId) {
       fetchQuestionDetails();
     }
+    setCreatedShareCode(null);
   }, [isOpen, quizSessionId]);
 
   const fetchQuestionDetails = async () => {
@@ -73,6 +116,9 @@ export function QuizDetailsModal({ isOpen, onClose, quizSessionId, quizTitle }:
           time_spent,
           is_correct,
           answered_at,
+          typed_answer,
+          auto_graded_points,
+          self_graded_points,
           questions!inner (
             book_of_bible,
             chapter,
@@ -131,12 +177,41 @@ export function QuizDetailsModal({ isOpen, onClose, quizSessionId, quizTitle }:
       title={`Quiz Details${quizTitle ? `: ${quizTitle}` : ''}`}
       maxWidth="4xl"
       footer={
-        <button
-          onClick={onClose}
-          className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors duration-200"
-        >
-          Close
-        </button>
+        <>
+          {retryableSession && (
+            <button
+              onClick={() => startRetrySession(retryableSession)}
+              disabled={creatingRetry}
+              className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50"
+            >
+              <RotateCcw className="h-4 w-4" />
+              <span>{creatingRetry ? 'Starting...' : `Retry ${getMissedQuestions(retryableSession).length} Missed`}</span>
+            </button>
+          )}
+          {printableSession && (
+            <QuizPacketActions
+              title={printableSession.title}
+              questions={printableSession.questions}
+              timer={printableSession}
+            />
+          )}
+          {shareableSession && !shareCode && (
+            <button
+              onClick={handleShareSession}
+              disabled={sharing}
+              className="flex items-center space-x-2 px-4 py-2 bg-white text-indigo-700 border border-indigo-200 rounded-lg hover:bg-indigo-50 transition-colors duration-200 disabled:opacity-50"
+            >
+              <Share2 className="h-4 w-4" />
+              <span>{sharing ? 'Creating Code...' : 'Share Quiz'}</span>
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors duration-200"
+          >
+            Close
+          </button>
+        </>
       }
     >
       {loading ? (
@@ -145,6 +220,53 @@ export function QuizDetailsModal({ isOpen, onClose, quizSessionId, quizTitle }:
         <AlertMessage type="error" message={error} />
       ) : (
         <div className="space-y-6">
+          {retryError && <AlertMessage type="error" message={retryError} />}
+          {shareError && <AlertMessage type="error" message={shareError} />}
+
+          {shareCode && (
+            <div className="flex items-center space-x-2 text-sm text-gray-600">
+              <Share2 className="h-4 w-4 text-indigo-600" />
+              <span>
+                Share code <span className="font-bold tracking-widest text-gray-900">{shareCode}</span>: anyone who enters it gets the same questions in the same order.
+                {hasTeamQuestions && ' Your team\'s own questions are left out of the shared copy.'}
+              </span>
+            </div>
+          )}
+
+          {reviewedSession && (
+            reviewedSession.approval_status === 'pending' ? (
+              <AlertMessage type="info" message="This quiz is waiting for your coach to review it." />
+            ) : (
+              <AlertMessage
+                type={reviewedSession.approval_status === 'rejected' ? 'warning' : 'success'}
+                title={reviewedSession.approval_status === 'rejected' ? 'Rejected by your coach' : 'Approved by your coach'}
+                message={[
+                  coachChangedCount > 0
+                    ? `Your coach changed ${coachChangedCount} of your grade${coachChangedCount === 1 ? '' : 's'}.`
+                    : 'Your grades were kept as marked.',
+                  reviewedSession.review_note ? `Note: ${reviewedSession.review_note}` : ''
+                ].filter(Boolean).join(' ')}
+              />
+            )
+          )}
+
+          {/* Retry chain */}
+          {(retryChain.length > 1 || retryCount > 0) && (
+            <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-gray-600">
+              <RotateCcw className="h-4 w-4 text-indigo-600" />
+              {retryChain.length > 1 && (
+                <span>
+                  Retry chain: {retryChain.map(s => `${s.title} (${new Date(s.created_at).toLocaleDateString()})`).join(' → ')}
+                </span>
+              )}
+              {retryCount > 0 && (
+                <span>
+                  {retryChain.length > 1 && '• '}Retried {retryCount} time{retryCount !== 1 ? 's' : ''}
+                </span>
+              )}
+            </div>
+          )}
+
           {/* Summary Stats */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-center">
@@ -238,7 +360,7 @@ export function QuizDetailsModal({ isOpen, onClose, quizSessionId, quizTitle }:
                       {detail.question ? (
                         <div className="flex items-center space-x-2 text-sm text-gray-600">
                           <BookOpen className="h-4 w-4" />
-                          <span>{detail.question.book_of_bible} Chapter {detail.question.chapter}</span>
+                          <span>{formatQuestionReference(detail.question)}</span>
                           <span>•</span>
                           <span className="capitalize">{detail.question.tier} tier</span>
                         </div>
@@ -266,6 +388,11 @@ export function QuizDetailsModal({ isOpen, onClose, quizSessionId, quizTitle }:
                       <Clock className="h-4 w-4 text-orange-600" />
                       <span>{formatTime(detail.time_spent)}</span>
                     </div>
+                    {detail.self_graded_points !== null && detail.self_graded_points !== undefined && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+                        You marked {detail.self_graded_points} pts, coach changed to {detail.points_earned} pts
+                      </span>
+                    )}
                   </div>
 
                   {detail.question ? (
@@ -280,6 +407,18 @@ export function QuizDetailsModal({ isOpen, onClose, quizSessionId, quizTitle }:
                         <div className="text-gray-900">{detail.question.answer}</div>
                       </div>
 
+                      {detail.typed_answer && (
+                        <div>
+                          <div className="text-sm font-medium text-gray-700 mb-1">Typed Answer:</div>
+                          <div className="text-gray-900">{detail.typed_answer}</div>
+                          {detail.auto_graded_points !== null && detail.auto_graded_points !== undefined && detail.auto_graded_points !== detail.points_earned && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              Auto-graded {detail.auto_graded_points} pts, overridden to {detail.points_earned} pts
+                            </div>
+                          )}
+                        </div>
+                      )}
+
                       {!detail.is_correct && (
                         <div className="bg-red-100 border border-red-200 rounded p-2">
                           <div className="text-sm font-medium text-red-700 mb-1">Result:</div>
@@ -11,7 +11,7 @@ import { useAuth } from '../../contexts/AuthContext';
 interface QuizHistoryEntry {
   id: string;
   title: string;
-  type: 'quick-start' | 'custom' | 'study-assignment';
+  type: 'quick-start' | 'custom' | 'study-assignment' | 'live' | 'competition' | 'review' | 'retry' | 'assigned';
   completed_at: string;
   created_at: string; // Add created_at to the type
   total_points: number;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { AlertTriangle, Layers } from 'lucide-react';
+import { ReviewCoverageRow } from '../../types';
+
+interface ReviewCoverageSectionProps {
+  data: ReviewCoverageRow[];
+  loading: boolean;
+  error: string | null;
+  showIndividual: boolean; // Whether showing individual or team data
+}
+
+export function ReviewCoverageSection({ data, loading, error, showIndividual }: ReviewCoverageSectionProps) {
+  const formatPercent = (value: number | null) => (value === null ? '—' : `${value}%`);
+
+  const getPercentColor = (value: number | null) => {
+    if (value === null) return 'text-gray-400';
+    if (value >= 90) return 'text-green-600';
+    if (value >= 70) return 'text-orange-600';
+    return 'text-red-600';
+  };
+
+  // Confident on flashcards but well short of that in quizzes, or reviewed but never tested
+  const getCoverageNote = (row: ReviewCoverageRow) => {
+    if (row.flashcardReviews === 0) return 'Tested only';
+    if (row.quizAttempts === 0) return 'Reviewed only';
+    if (row.confidentPercent !== null && row.quizScorePercent !== null && row.confidentPercent - row.quizScorePercent >= 20) {
+      return 'Overconfident';
+    }
+    return '';
+  };
+
+  if (error) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm p-8 text-center">
+        <div className="text-red-600 mb-4">
+          <AlertTriangle className="h-12 w-12 mx-auto mb-2" />
+          <h3 className="text-lg font-semibold">Error Loading Review Coverage</h3>
+          <p className="text-sm">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm">
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <Layers className="h-6 w-6 text-teal-500" />
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Reviewed vs Tested</h2>
+            <p className="text-sm text-gray-600">
+              {showIndividual
+                ? 'Chapters this individual has studied with flashcards compared with their quiz results'
+                : 'Chapters the team has studied with flashcards compared with their quiz results'
+              }
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-6">
+        {loading ? (
+          <div className="text-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Comparing flashcard reviews with quiz results...</p>
+          </div>
+        ) : data.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600">No flashcard reviews or quiz answers in this date range.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Chapter</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Cards Reviewed</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Confident</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Quiz Answers</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Quiz Score</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"></th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data.map(row => (
+                  <tr key={`${row.book}-${row.chapter}`} className="hover:bg-gray-50">
+                    <td className="px-4 py-3 text-sm font-medium text-gray-900">{row.book} {row.chapter}</td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-700">{row.flashcardReviews}</td>
+                    <td className={`px-4 py-3 text-sm text-right font-medium ${getPercentColor(row.confidentPercent)}`}>
+                      {formatPercent(row.confidentPercent)}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-right text-gray-700">{row.quizAttempts}</td>
+                    <td className={`px-4 py-3 text-sm text-right font-medium ${getPercentColor(row.quizScorePercent)}`}>
+                      {formatPercent(row.quizScorePercent)}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500">{getCoverageNote(row)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
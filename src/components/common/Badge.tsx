@@ -2,7 +2,7 @@ import React from 'react';
 import { Crown, Shield, Users, Star, CheckCircle, Clock, XCircle, AlertCircle } from 'lucide-react';
 
 interface BadgeProps {
-  type: 'role' | 'status' | 'tier' | 'plan' | 'teamRole';
+  type: 'role' | 'status' | 'tier' | 'plan' | 'teamRole' | 'questionStatus';
   value: string;
   showIcon?: boolean;
   size?: 'sm' | 'md';
@@ -14,6 +14,7 @@ export function Badge({ type, value, showIcon = false, size = 'sm' }: BadgeProps
       case 'role':
         switch (value) {
           case 'admin': return 'bg-purple-100 text-purple-800';
+          case 'reviewer': return 'bg-teal-100 text-teal-800';
           case 'user': return 'bg-blue-100 text-blue-800';
           default: return 'bg-gray-100 text-gray-800';
         }
@@ -43,6 +44,15 @@ export function Badge({ type, value, showIcon = false, size = 'sm' }: BadgeProps
           default: return 'bg-gray-100 text-gray-800';
         }
       
+      case 'questionStatus':
+        switch (value) {
+          case 'draft': return 'bg-gray-100 text-gray-800';
+          case 'in_review': return 'bg-yellow-100 text-yellow-800';
+          case 'published': return 'bg-green-100 text-green-800';
+          case 'retired': return 'bg-red-100 text-red-800';
+          default: return 'bg-gray-100 text-gray-800';
+        }
+
       case 'teamRole':
         switch (value) {
           case 'owner': return 'bg-yellow-100 text-yellow-800';
@@ -97,7 +107,7 @@ export function Badge({ type, value, showIcon = false, size = 'sm' }: BadgeProps
   return (
     <span className={`inline-flex items-center ${sizeClasses} font-semibold rounded-full ${getColorClasses()}`}>
       {icon && <span className="mr-1">{icon}</span>}
-      <span className="capitalize">{value}</span>
+      <span className="capitalize">{value.replace(/_/g, ' ')}</span>
     </span>
   );
 }
\ No newline at end of file
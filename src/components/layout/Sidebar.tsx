@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { canReviewQuestions } from '../../utils/permissions';
 import { 
   LayoutDashboard, 
   Users, 
@@ -16,7 +17,9 @@ import {
   ChevronLeft,
   ChevronRight,
   X,
-  DollarSign
+  DollarSign,
+  ClipboardCheck,
+  FileText
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -77,6 +80,18 @@ export function Sidebar({ isSidebarOpen, toggleSidebar }: SidebarProps) {
       path: '/team',
       show: isTeamOwnerOrAdmin,
     },
+    {
+      name: 'Quiz Review',
+      icon: ClipboardCheck,
+      path: '/team/review',
+      show: isTeamOwnerOrAdmin,
+    },
+    {
+      name: 'Team Questions',
+      icon: FileText,
+      path: '/team/questions',
+      show: isTeamOwnerOrAdmin,
+    },
     {
       name: 'Analytics',
       icon: BarChart3,
@@ -108,7 +123,7 @@ export function Sidebar({ isSidebarOpen, toggleSidebar }: SidebarProps) {
       name: 'Question Management',
       icon: BookOpen,
       path: '/admin/questions',
-      show: isAdmin,
+      show: canReviewQuestions(user),
     },
     {
       name: 'Plan Management',
@@ -178,7 +193,7 @@ export function Sidebar({ isSidebarOpen, toggleSidebar }: SidebarProps) {
             ))}
           </nav>
           
-          {isAdmin && (
+          {adminItems.some(item => item.show) && (
             <>
               <div className="mt-8 mb-2 px-3">
                 <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
@@ -274,7 +289,7 @@ export function Sidebar({ isSidebarOpen, toggleSidebar }: SidebarProps) {
             ))}
           </nav>
           
-          {isAdmin && (
+          {adminItems.some(item => item.show) && (
             <>
               <div className={`mt-8 mb-2 ${isCollapsed ? 'text-center' : 'px-3'}`}>
                 {!isCollapsed && (
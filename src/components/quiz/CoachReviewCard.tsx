@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { CheckCircle, XCircle, Clock, User } from 'lucide-react';
+import { PendingQuizReview } from '../../types';
+import { ReviewOverride, getReviewOverrides, getReviewedTotal } from '../../utils/coachReview';
+import { getQuizTypeDisplayName } from '../../utils/quizUtils';
+
+interface CoachReviewCardProps {
+  review: PendingQuizReview;
+  submitting: boolean;
+  onSubmit: (status: 'approved' | 'rejected', overrides: ReviewOverride[], note: string) => void;
+}
+
+export function CoachReviewCard({ review, submitting, onSubmit }: CoachReviewCardProps) {
+  const [grades, setGrades] = useState<Record<string, number>>({});
+  const [note, setNote] = useState('');
+
+  const resultsByQuestion = new Map((review.results || []).map(result => [result.questionId, result]));
+  const answeredQuestions = (review.questions || []).filter(question => resultsByQuestion.has(question.id));
+
+  const overrides = getReviewOverrides(review.results || [], grades);
+  const reviewedTotal = getReviewedTotal(review.results || [], grades);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+      <div className="p-4 sm:p-6 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{review.title}</h3>
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600 mt-1">
+            <span className="flex items-center space-x-1">
+              <User className="h-4 w-4" />
+              <span>{review.user_name}</span>
+            </span>
+            <span>{getQuizTypeDisplayName(review.type)}</span>
+            <span>{new Date(review.completed_at).toLocaleString()}</span>
+          </div>
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-bold text-gray-900">
+            {reviewedTotal} / {review.max_points}
+          </p>
+          {reviewedTotal !== review.total_points && (
+            <p className="text-xs text-amber-600">Self-graded: {review.total_points}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="divide-y divide-gray-200">
+        {answeredQuestions.map((question, index) => {
+          const result = resultsByQuestion.get(question.id)!;
+          const points = grades[question.id] ?? result.pointsEarned;
+          const pointOptions = Array.from({ length: result.totalPoints + 1 }, (_, value) => value);
+
+          return (
+            <div key={question.id} className="p-4 sm:px-6">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {index + 1}. {question.question}
+                  </p>
+                  <p className="text-sm text-gray-600 mt-1">Answer: {question.answer}</p>
+                  {result.typedAnswer && (
+                    <p className="text-sm text-gray-600 mt-1">Typed: {result.typedAnswer}</p>
+                  )}
+                  <div className="flex items-center space-x-3 text-xs text-gray-500 mt-1">
+                    <span>Self-graded {result.pointsEarned} / {result.totalPoints}</span>
+                    <span className="flex items-center space-x-1">
+                      <Clock className="h-3 w-3" />
+                      <span>{result.timeSpent}s</span>
+                    </span>
+                  </div>
+                </div>
+                <select
+                  value={points}
+                  onChange={(e) => setGrades(prev => ({ ...prev, [question.id]: Number(e.target.value) }))}
+                  disabled={submitting}
+                  className={`flex-shrink-0 px-2 py-1 border rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50 ${
+                    points !== result.pointsEarned ? 'border-amber-400 bg-amber-50' : 'border-gray-300'
+                  }`}
+                  aria-label={`Points for question ${index + 1}`}
+                >
+                  {pointOptions.map(value => (
+                    <option key={value} value={value}>
+                      {value} / {result.totalPoints} pts
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="p-4 sm:p-6 border-t border-gray-200 space-y-3">
+        <textarea
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Optional note for the member"
+          rows={2}
+          disabled={submitting}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+        />
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            {overrides.length === 0
+              ? 'No grades changed'
+              : `${overrides.length} grade${overrides.length === 1 ? '' : 's'} changed`}
+          </p>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => onSubmit('rejected', overrides, note)}
+              disabled={submitting}
+              className="flex items-center space-x-2 px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors duration-200 disabled:opacity-50"
+            >
+              <XCircle className="h-4 w-4" />
+              <span>Reject</span>
+            </button>
+            <button
+              onClick={() => onSubmit('approved', overrides, note)}
+              disabled={submitting}
+              className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors duration-200 disabled:opacity-50"
+            >
+              <CheckCircle className="h-4 w-4" />
+              <span>Approve</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
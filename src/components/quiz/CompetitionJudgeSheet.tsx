@@ -0,0 +1,128 @@
+import React, { useState, useMemo } from 'react';
+import { Gavel, Sparkles, CheckCircle } from 'lucide-react';
+import { Question, QuizResult } from '../../types';
+import { getCompetitionPlacement } from '../../utils/competitionUtils';
+import { formatQuestionReference } from '../../utils/verseReferences';
+
+interface CompetitionJudgeSheetProps {
+  questions: Question[];
+  results: QuizResult[];
+  submitting: boolean;
+  onSubmit: (scores: Record<string, number>) => void;
+}
+
+export function CompetitionJudgeSheet({
+  questions,
+  results,
+  submitting,
+  onSubmit
+}: CompetitionJudgeSheetProps) {
+  // Start from the automatic grader's suggestions so the judge only adjusts disagreements
+  const [scores, setScores] = useState<Record<string, number>>(() =>
+    results.reduce((acc, result) => {
+      acc[result.questionId] = result.autoGradedPoints ?? 0;
+      return acc;
+    }, {} as Record<string, number>)
+  );
+
+  const resultsByQuestion = useMemo(
+    () => new Map(results.map(result => [result.questionId, result])),
+    [results]
+  );
+
+  const pointsPossible = questions.reduce((sum, question) => sum + question.points, 0);
+  const pointsAwarded = Object.values(scores).reduce((sum, points) => sum + points, 0);
+  const percentage = pointsPossible > 0 ? Math.round((pointsAwarded / pointsPossible) * 1000) / 10 : 0;
+  const projectedPlacement = getCompetitionPlacement(pointsAwarded, pointsPossible);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div className="flex items-center space-x-3">
+            <div className="h-10 w-10 bg-amber-100 rounded-lg flex items-center justify-center">
+              <Gavel className="h-5 w-5 text-amber-700" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Judge Scoring</h2>
+              <p className="text-sm text-gray-600">
+                Compare each written answer with the official answer and award points.
+              </p>
+            </div>
+          </div>
+          <div className="text-right">
+            <p className="text-2xl font-bold text-gray-900">{pointsAwarded} / {pointsPossible}</p>
+            <p className="text-sm text-gray-600">{percentage}% · {projectedPlacement.label}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y divide-gray-200">
+        {questions.map((question, index) => {
+          const result = resultsByQuestion.get(question.id);
+          const writtenAnswer = result?.typedAnswer?.trim();
+          const awarded = scores[question.id] ?? 0;
+
+          return (
+            <div key={question.id} className="p-4 sm:p-6">
+              <div className="flex items-start justify-between gap-4 mb-3">
+                <div className="min-w-0">
+                  <p className="text-xs text-gray-500 mb-1">
+                    #{index + 1} · {formatQuestionReference(question)} · {question.points} {question.points === 1 ? 'pt' : 'pts'}
+                  </p>
+                  <p className="font-medium text-gray-900">{question.question}</p>
+                </div>
+                {awarded === question.points && <CheckCircle className="h-5 w-5 text-green-600 flex-shrink-0" />}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+                <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                  <p className="text-xs font-medium text-green-800 mb-1">Official answer</p>
+                  <p className="text-sm text-green-900">{question.answer}</p>
+                </div>
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                  <p className="text-xs font-medium text-gray-600 mb-1">Team answer</p>
+                  <p className={`text-sm ${writtenAnswer ? 'text-gray-900' : 'text-gray-400 italic'}`}>
+                    {writtenAnswer || 'No answer written'}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                {Array.from({ length: question.points + 1 }, (_, points) => (
+                  <button
+                    key={points}
+                    onClick={() => setScores(prev => ({ ...prev, [question.id]: points }))}
+                    className={`min-w-[2.5rem] px-3 py-1.5 rounded-md text-sm font-medium transition-colors duration-200 ${
+                      awarded === points
+                        ? 'bg-indigo-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {points}
+                  </button>
+                ))}
+                {result?.autoGradedPoints !== undefined && (
+                  <span className="inline-flex items-center space-x-1 text-xs text-gray-500 ml-2">
+                    <Sparkles className="h-3 w-3" />
+                    <span>Suggested {result.autoGradedPoints}</span>
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => onSubmit(scores)}
+          disabled={submitting}
+          className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50"
+        >
+          {submitting ? 'Saving Scores...' : 'Finalize Scores'}
+        </button>
+      </div>
+    </div>
+  );
+}
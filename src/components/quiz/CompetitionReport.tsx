@@ -0,0 +1,133 @@
+import React from 'react';
+import { Medal, Printer, RotateCcw, ArrowLeft } from 'lucide-react';
+import { CompetitionPlacement } from '../../types';
+import { COMPETITION_PLACEMENT_TIERS } from '../../constants/competition';
+import { CompetitionReport as CompetitionReportData } from '../../utils/competitionUtils';
+
+interface CompetitionReportProps {
+  title: string;
+  completedAt?: string;
+  report: CompetitionReportData;
+  onRestart: () => void;
+  onBack: () => void;
+}
+
+const placementColors: Record<CompetitionPlacement, string> = {
+  first: 'bg-yellow-100 text-yellow-800 border-yellow-300',
+  second: 'bg-gray-100 text-gray-800 border-gray-300',
+  third: 'bg-orange-100 text-orange-800 border-orange-300',
+  participation: 'bg-blue-100 text-blue-800 border-blue-300',
+};
+
+export function CompetitionReport({
+  title,
+  completedAt,
+  report,
+  onRestart,
+  onBack
+}: CompetitionReportProps) {
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 sm:p-8 text-center">
+          <p className="text-sm uppercase tracking-wide text-gray-500 mb-1">Competition Score Report</p>
+          <h1 className="text-2xl font-bold text-gray-900 mb-1">{title}</h1>
+          {completedAt && (
+            <p className="text-sm text-gray-500 mb-6">{new Date(completedAt).toLocaleDateString()}</p>
+          )}
+
+          <div className={`inline-flex items-center space-x-2 px-4 py-2 rounded-full border-2 font-semibold mb-6 ${placementColors[report.placement.placement]}`}>
+            <Medal className="h-5 w-5" />
+            <span>{report.placement.label}</span>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <div className="text-3xl font-bold text-indigo-600">{report.pointsEarned}</div>
+              <div className="text-sm text-gray-600">of {report.pointsPossible} points</div>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <div className="text-3xl font-bold text-green-600">{report.percentage}%</div>
+              <div className="text-sm text-gray-600">score</div>
+            </div>
+            <div className="bg-gray-50 p-4 rounded-lg">
+              <div className="text-3xl font-bold text-purple-600">{report.fullCreditAnswers}</div>
+              <div className="text-sm text-gray-600">full-credit answers</div>
+            </div>
+          </div>
+
+          {report.nextPlacement && (
+            <p className="text-sm text-gray-600 mt-4">
+              {report.pointsToNextPlacement} more {report.pointsToNextPlacement === 1 ? 'point' : 'points'} would have earned {report.nextPlacement.label}.
+            </p>
+          )}
+          {report.blankAnswers > 0 && (
+            <p className="text-sm text-gray-500 mt-1">
+              {report.blankAnswers} {report.blankAnswers === 1 ? 'question was' : 'questions were'} left blank.
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Placement Cutoffs</h2>
+          <div className="space-y-2">
+            {COMPETITION_PLACEMENT_TIERS.map(tier => (
+              <div
+                key={tier.placement}
+                className={`flex items-center justify-between px-4 py-2 rounded-lg border ${
+                  tier.placement === report.placement.placement ? placementColors[tier.placement] : 'border-gray-200'
+                }`}
+              >
+                <span className="font-medium">{tier.label}</span>
+                <span className="text-sm">
+                  {tier.minPercentage > 0 ? `${tier.minPercentage}% and above` : 'Below third place'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Score by Book</h2>
+          <div className="space-y-3">
+            {report.bookScores.map(book => (
+              <div key={book.book}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-900">{book.book}</span>
+                  <span className="text-gray-600">{book.pointsEarned} / {book.pointsPossible} ({book.percentage}%)</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div className="bg-indigo-600 h-2 rounded-full" style={{ width: `${book.percentage}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 justify-center print:hidden">
+          <button
+            onClick={() => window.print()}
+            className="flex items-center justify-center space-x-2 bg-indigo-600 text-white px-6 py-3 rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+          >
+            <Printer className="h-4 w-4" />
+            <span>Print Report</span>
+          </button>
+          <button
+            onClick={onRestart}
+            className="flex items-center justify-center space-x-2 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors duration-200"
+          >
+            <RotateCcw className="h-4 w-4" />
+            <span>New Competition Round</span>
+          </button>
+          <button
+            onClick={onBack}
+            className="flex items-center justify-center space-x-2 border border-gray-300 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to Quiz Center</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArrowLeft, Clock, FileText, Play, Send } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useQuizSession } from '../../contexts/QuizSessionContext';
+import { supabase } from '../../lib/supabase';
+import { QuizSession, QuizResult } from '../../types';
+import { useQuizTimer } from '../../hooks/useQuizTimer';
+import { COMPETITION_ANSWER_SECONDS } from '../../constants/competition';
+import { gradeTypedAnswer } from '../../utils/answerGrading';
+import { buildCompetitionReport } from '../../utils/competitionUtils';
+import { AlertMessage } from '../common/AlertMessage';
+import { CompetitionJudgeSheet } from './CompetitionJudgeSheet';
+import { CompetitionReport } from './CompetitionReport';
+import { formatQuestionReference } from '../../utils/verseReferences';
+
+interface CompetitionRunnerProps {
+  session: QuizSession;
+  onBack: () => void;
+  onRestart: () => void;
+}
+
+/**
+ * Runs an official-style competition round: the team writes an answer to every
+ * question within the answer window, then a judge scores the whole answer sheet.
+ */
+export function CompetitionRunner({ session: initialSession, onBack, onRestart }: CompetitionRunnerProps) {
+  const { user, developerLog } = useAuth();
+  const { updateQuizSession } = useQuizSession();
+  const [session, setSession] = useState<QuizSession>(initialSession);
+  const [roundStarted, setRoundStarted] = useState(false);
+  const [answer, setAnswer] = useState('');
+  const [submittingScores, setSubmittingScores] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const answerInputRef = useRef<HTMLTextAreaElement>(null);
+  // Guards against handing in the same question twice when the timer and the button race
+  const handedInIndexRef = useRef<number | null>(null);
+
+  const questionIndex = session.current_question_index;
+  const currentQuestion = session.questions[questionIndex];
+  const isRoundOver = questionIndex >= session.questions.length;
+
+  const saveSessionState = (updates: Partial<QuizSession>) => {
+    setSession(prev => ({ ...prev, ...updates }));
+    updateQuizSession(session.id, updates);
+  };
+
+  const submitAnswer = () => {
+    if (!currentQuestion || handedInIndexRef.current === questionIndex) return;
+    handedInIndexRef.current = questionIndex;
+
+    const writtenAnswer = answer.trim();
+    const grade = writtenAnswer ? gradeTypedAnswer(writtenAnswer, currentQuestion) : null;
+
+    // Points stay at zero until the judge scores the answer sheet
+    const result: QuizResult = {
+      questionId: currentQuestion.id,
+      pointsEarned: 0,
+      totalPoints: currentQuestion.points,
+      timeSpent: Math.max(1, COMPETITION_ANSWER_SECONDS - timeLeft),
+      answeredAt: new Date().toISOString(),
+      typedAnswer: writtenAnswer,
+      autoGradedPoints: grade ? grade.suggestedPoints : 0,
+      similarityScore: grade ? grade.similarity : 0,
+    };
+
+    developerLog('📝 CompetitionRunner: Answer written for question', questionIndex + 1, result);
+
+    setAnswer('');
+    saveSessionState({
+      results: [...session.results, result],
+      current_question_index: questionIndex + 1,
+      time_left: COMPETITION_ANSWER_SECONDS,
+    });
+  };
+
+  const {
+    timeLeft,
+    resetTimer,
+    stopTimer,
+    setTimerActiveState,
+    setTimerStartedState
+  } = useQuizTimer({
+    initialTime: COMPETITION_ANSWER_SECONDS,
+    // When the answer window closes, whatever is written is handed in
+    onTimeExpired: submitAnswer,
+    onTimeUpdate: React.useCallback(() => {}, [])
+  });
+
+  // Open the answer window for each question as it comes up
+  useEffect(() => {
+    if (!roundStarted || isRoundOver) {
+      stopTimer();
+      return;
+    }
+
+    resetTimer(COMPETITION_ANSWER_SECONDS);
+    setTimerActiveState(true);
+    setTimerStartedState(true);
+    answerInputRef.current?.focus();
+  }, [roundStarted, questionIndex, isRoundOver, resetTimer, stopTimer, setTimerActiveState, setTimerStartedState]);
+
+  const handleFinalizeScores = async (scores: Record<string, number>) => {
+    if (!user) return;
+
+    setSubmittingScores(true);
+    setError(null);
+
+    try {
+      const judgedResults = session.results.map(result => ({
+        ...result,
+        pointsEarned: scores[result.questionId] ?? 0,
+      }));
+
+      developerLog('⚖️ CompetitionRunner: Finalizing judged scores:', judgedResults);
+
+      const { error: logError } = await supabase
+        .from('quiz_question_logs')
+        .insert(judgedResults.map(result => ({
+          quiz_session_id: session.id,
+          user_id: user.id,
+          question_id: result.questionId,
+          points_earned: result.pointsEarned,
+          total_points_possible: result.totalPoints,
+          time_spent: result.timeSpent,
+          answered_at: result.answeredAt,
+          is_correct: result.pointsEarned === result.totalPoints,
+          typed_answer: result.typedAnswer || null,
+          auto_graded_points: result.autoGradedPoints ?? null,
+          similarity_score: result.similarityScore ?? null,
+          question_revision: session.questions.find(q => q.id === result.questionId)?.revision ?? null
+        })));
+
+      if (logError) {
+        developerLog('❌ Error logging competition results:', logError);
+        // Don't block the report on analytics logging
+      }
+
+      const completedAt = new Date().toISOString();
+      await updateQuizSession(session.id, {
+        results: judgedResults,
+        status: 'completed',
+        completed_at: completedAt,
+      });
+      setSession(prev => ({ ...prev, results: judgedResults, status: 'completed', completed_at: completedAt }));
+    } catch (err: any) {
+      developerLog('💥 Error finalizing competition scores:', err);
+      setError(err.message || 'Failed to save scores');
+    } finally {
+      setSubmittingScores(false);
+    }
+  };
+
+  if (session.status === 'completed') {
+    return (
+      <CompetitionReport
+        title={session.title}
+        completedAt={session.completed_at}
+        report={buildCompetitionReport(session.questions, session.results)}
+        onRestart={onRestart}
+        onBack={onBack}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 sm:p-6">
+      <div className="max-w-3xl mx-auto">
+        <button
+          onClick={onBack}
+          className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 mb-6 transition-colors duration-200"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          <span>Back to Quiz Center</span>
+        </button>
+
+        {error && (
+          <AlertMessage type="error" message={error} className="mb-4" />
+        )}
+
+        {isRoundOver ? (
+          <CompetitionJudgeSheet
+            questions={session.questions}
+            results={session.results}
+            submitting={submittingScores}
+            onSubmit={handleFinalizeScores}
+          />
+        ) : !roundStarted ? (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 sm:p-8 text-center">
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">{session.title}</h1>
+            <p className="text-gray-600 mb-6">{session.description}</p>
+            <ul className="text-sm text-gray-600 space-y-1 mb-6">
+              <li>{session.questions.length} questions · {session.max_points} possible points</li>
+              <li>{COMPETITION_ANSWER_SECONDS} seconds to write each answer</li>
+              <li>Answers are scored by a judge once the round is over</li>
+            </ul>
+            <button
+              onClick={() => setRoundStarted(true)}
+              className="inline-flex items-center space-x-2 bg-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-indigo-700 transition-colors duration-200"
+            >
+              <Play className="h-5 w-5" />
+              <span>{questionIndex > 0 ? `Resume at Question ${questionIndex + 1}` : 'Begin Round'}</span>
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <span className="text-sm text-gray-600">
+                  Question {questionIndex + 1} of {session.questions.length}
+                </span>
+                <span className={`inline-flex items-center space-x-1 font-mono font-semibold ${timeLeft <= 5 ? 'text-red-600' : 'text-gray-900'}`}>
+                  <Clock className="h-4 w-4" />
+                  <span>{timeLeft}s</span>
+                </span>
+              </div>
+
+              <p className="text-xs text-gray-500 mb-1">
+                {formatQuestionReference(currentQuestion)} · {currentQuestion.points} {currentQuestion.points === 1 ? 'point' : 'points'}
+              </p>
+              <p className="text-lg sm:text-xl font-medium text-gray-900 mb-4">{currentQuestion.question}</p>
+
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  submitAnswer();
+                }}
+                className="space-y-3"
+              >
+                <textarea
+                  ref={answerInputRef}
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value)}
+                  rows={3}
+                  placeholder="Write your team's answer..."
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    className="inline-flex items-center space-x-2 bg-indigo-600 text-white px-5 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors duration-200"
+                  >
+                    <Send className="h-4 w-4" />
+                    <span>Hand In Answer</span>
+                  </button>
+                </div>
+              </form>
+            </div>
+
+            {/* Team answer sheet */}
+            {session.results.length > 0 && (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <div className="flex items-center space-x-2 mb-3">
+                  <FileText className="h-5 w-5 text-gray-500" />
+                  <h2 className="font-semibold text-gray-900">Answer Sheet</h2>
+                </div>
+                <ol className="space-y-1 text-sm max-h-64 overflow-y-auto">
+                  {session.results.map((result, index) => (
+                    <li key={result.questionId} className="flex space-x-3">
+                      <span className="w-8 text-right text-gray-400">{index + 1}.</span>
+                      <span className={result.typedAnswer ? 'text-gray-900' : 'text-gray-400 italic'}>
+                        {result.typedAnswer || 'Blank'}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
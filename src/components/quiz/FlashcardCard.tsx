@@ -0,0 +1,68 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { FlashcardConfidence, Question } from '../../types';
+import { FLASHCARD_CONFIDENCE_OPTIONS } from '../../utils/flashcards';
+import { formatQuestionReference } from '../../utils/verseReferences';
+
+interface FlashcardCardProps {
+  question: Question;
+  flipped: boolean;
+  // Last rating the member gave this card, if any
+  previousConfidence?: FlashcardConfidence;
+  onFlip: () => void;
+  onRate: (confidence: FlashcardConfidence) => void;
+}
+
+const CONFIDENCE_STYLES: Record<FlashcardConfidence, string> = {
+  again: 'bg-red-600 hover:bg-red-700',
+  hard: 'bg-amber-500 hover:bg-amber-600',
+  good: 'bg-green-600 hover:bg-green-700',
+  easy: 'bg-blue-600 hover:bg-blue-700',
+};
+
+export function FlashcardCard({ question, flipped, previousConfidence, onFlip, onRate }: FlashcardCardProps) {
+  const previousLabel = FLASHCARD_CONFIDENCE_OPTIONS.find(option => option.value === previousConfidence)?.label;
+
+  return (
+    <div className="space-y-4">
+      <button
+        onClick={onFlip}
+        className="w-full min-h-[16rem] bg-white border border-gray-200 rounded-xl shadow-sm p-6 sm:p-10 text-center flex flex-col items-center justify-center hover:shadow-md transition-shadow duration-200"
+        aria-label={flipped ? 'Show question' : 'Show answer'}
+      >
+        <div className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-4">
+          {flipped ? 'Answer' : `${formatQuestionReference(question)} · ${question.points} pts`}
+        </div>
+        <p className={`text-lg sm:text-2xl ${flipped ? 'text-indigo-700 font-semibold' : 'text-gray-900'}`}>
+          {flipped ? question.answer : question.question}
+        </p>
+        <div className="flex items-center space-x-1 text-xs text-gray-400 mt-6">
+          <RotateCcw className="h-3 w-3" />
+          <span>{flipped ? 'Tap to see the question again' : 'Tap to flip'}</span>
+        </div>
+      </button>
+
+      {flipped ? (
+        <div>
+          <p className="text-sm text-gray-600 text-center mb-2">How well did you know it?</p>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            {FLASHCARD_CONFIDENCE_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => onRate(option.value)}
+                className={`px-3 py-2 rounded-lg text-white transition-colors duration-200 ${CONFIDENCE_STYLES[option.value]}`}
+              >
+                <div className="font-medium">{option.label}</div>
+                <div className="text-xs opacity-90">{option.description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        previousLabel && (
+          <p className="text-xs text-gray-500 text-center">Last time you rated this card: {previousLabel}</p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import React from 'react';
+import { Radio, Users, Zap, Eye, ArrowRight, Flag } from 'lucide-react';
+import { LiveHostState } from '../../utils/liveQuizUtils';
+
+interface LiveHostPanelProps {
+  joinCode: string | null;
+  isHosting: boolean;
+  canStartHosting: boolean;
+  starting: boolean;
+  error: string | null;
+  hostState: LiveHostState;
+  questionPoints: number;
+  showAnswer: boolean;
+  isLastQuestion: boolean;
+  themeClasses: any;
+  onStartHosting: () => void;
+  onRevealAnswer: () => void;
+  onAward: (userId: string, points: number) => void;
+  onAdvance: () => void;
+}
+
+export function LiveHostPanel({
+  joinCode,
+  isHosting,
+  canStartHosting,
+  starting,
+  error,
+  hostState,
+  questionPoints,
+  showAnswer,
+  isLastQuestion,
+  themeClasses,
+  onStartHosting,
+  onRevealAnswer,
+  onAward,
+  onAdvance
+}: LiveHostPanelProps) {
+  if (!isHosting) {
+    if (!canStartHosting) return null;
+
+    return (
+      <div className={`mt-4 rounded-xl border ${themeClasses.border} p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3`}>
+        <div>
+          <p className={`font-medium ${themeClasses.text}`}>Host this quiz live</p>
+          <p className={`text-sm ${themeClasses.textSecondary}`}>
+            Team members join with a code, buzz in and answer on their own devices.
+          </p>
+          {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+        </div>
+        <button
+          onClick={onStartHosting}
+          disabled={starting}
+          className="bg-indigo-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
+        >
+          <Radio className="h-4 w-4" />
+          <span>{starting ? 'Starting...' : 'Host Live'}</span>
+        </button>
+      </div>
+    );
+  }
+
+  const buzzOrder = (userId: string) => {
+    const position = hostState.buzzes.findIndex(b => b.userId === userId);
+    return position === -1 ? null : position + 1;
+  };
+
+  // Members who buzzed first are listed first
+  const participants = [...hostState.participants].sort((a, b) => {
+    const aOrder = buzzOrder(a.userId) ?? Number.MAX_SAFE_INTEGER;
+    const bOrder = buzzOrder(b.userId) ?? Number.MAX_SAFE_INTEGER;
+    return aOrder - bOrder;
+  });
+
+  const pointOptions = Array.from({ length: questionPoints + 1 }, (_, i) => i);
+
+  return (
+    <div className={`mt-4 rounded-xl border ${themeClasses.border} p-4 space-y-4`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <Radio className="h-5 w-5 text-red-500 animate-pulse" />
+          <span className={`font-medium ${themeClasses.text}`}>Live</span>
+        </div>
+        <div className="text-right">
+          <p className={`text-xs uppercase tracking-wide ${themeClasses.textSecondary}`}>Join code</p>
+          <p className={`text-2xl font-bold tracking-widest ${themeClasses.text}`}>{joinCode}</p>
+        </div>
+      </div>
+
+      <div>
+        <div className={`flex items-center space-x-2 mb-2 text-sm ${themeClasses.textSecondary}`}>
+          <Users className="h-4 w-4" />
+          <span>{hostState.participants.length} joined</span>
+        </div>
+
+        {participants.length === 0 ? (
+          <p className={`text-sm ${themeClasses.textSecondary}`}>Waiting for team members to join...</p>
+        ) : (
+          <ul className="space-y-2">
+            {participants.map(participant => {
+              const order = buzzOrder(participant.userId);
+              const submitted = hostState.answers[participant.userId];
+              const awarded = hostState.awards[participant.userId] ?? 0;
+
+              return (
+                <li
+                  key={participant.userId}
+                  className={`flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 rounded-lg border ${themeClasses.border} px-3 py-2`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      {order !== null && (
+                        <span className="inline-flex items-center space-x-1 rounded-full bg-yellow-100 text-yellow-800 px-2 py-0.5 text-xs font-medium">
+                          <Zap className="h-3 w-3" />
+                          <span>#{order}</span>
+                        </span>
+                      )}
+                      <span className={`font-medium truncate ${themeClasses.text}`}>{participant.name}</span>
+                    </div>
+                    {submitted && (
+                      <p className={`text-sm truncate ${themeClasses.textSecondary}`}>"{submitted.answer}"</p>
+                    )}
+                  </div>
+
+                  {showAnswer && (
+                    <div className="flex flex-wrap gap-1">
+                      {pointOptions.map(points => (
+                        <button
+                          key={points}
+                          onClick={() => onAward(participant.userId, points)}
+                          className={`min-w-[2.25rem] px-2 py-1 rounded-md text-sm font-medium transition-colors duration-200 ${
+                            awarded === points
+                              ? 'bg-indigo-600 text-white'
+                              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                          }`}
+                        >
+                          {points}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        {!showAnswer ? (
+          <button
+            onClick={onRevealAnswer}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-indigo-700 transition-colors duration-200 flex items-center space-x-2"
+          >
+            <Eye className="h-4 w-4" />
+            <span>Reveal Answer</span>
+          </button>
+        ) : (
+          <button
+            onClick={onAdvance}
+            className="bg-[#58c16c] text-white px-4 py-2 rounded-lg font-medium hover:bg-[#4a9f5a] transition-colors duration-200 flex items-center space-x-2"
+          >
+            {isLastQuestion ? <Flag className="h-4 w-4" /> : <ArrowRight className="h-4 w-4" />}
+            <span>{isLastQuestion ? 'Award & Finish' : 'Award & Next'}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import React from 'react';
+import { WifiOff, RefreshCw } from 'lucide-react';
+
+interface OfflineSyncStatusProps {
+  isOnline: boolean;
+  syncing: boolean;
+  pendingSyncCount: number;
+  themeClasses: any;
+}
+
+export function OfflineSyncStatus({
+  isOnline,
+  syncing,
+  pendingSyncCount,
+  themeClasses
+}: OfflineSyncStatusProps) {
+  if (isOnline && !syncing && pendingSyncCount === 0) return null;
+
+  const pendingLabel = `${pendingSyncCount} change${pendingSyncCount !== 1 ? 's' : ''}`;
+
+  return (
+    <div className={`mt-4 rounded-xl border ${themeClasses.border} px-4 py-3 flex items-center space-x-3`}>
+      {isOnline ? (
+        <RefreshCw className={`h-4 w-4 text-indigo-600 flex-shrink-0 ${syncing ? 'animate-spin' : ''}`} />
+      ) : (
+        <WifiOff className="h-4 w-4 text-amber-600 flex-shrink-0" />
+      )}
+      <p className={`text-sm ${themeClasses.textSecondary}`}>
+        {!isOnline
+          ? `You're offline. Keep going — ${pendingSyncCount > 0 ? pendingLabel + ' will' : 'your answers will'} sync when you reconnect.`
+          : syncing
+            ? 'Syncing answers saved while offline...'
+            : `${pendingLabel} waiting to sync.`}
+      </p>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import React from 'react';
+import { Check } from 'lucide-react';
 import { Modal } from '../common/Modal';
+import { AnswerComponent } from '../../types';
 
 interface PartialPointsModalProps {
   isOpen: boolean;
@@ -10,6 +12,10 @@ interface PartialPointsModalProps {
   onCancel: () => void;
   themeClasses: any;
   isFullScreen: boolean;
+  // Multi-part answers are credited part by part instead of with a single number
+  components?: AnswerComponent[];
+  earnedComponentIds?: string[];
+  onToggleComponent?: (componentId: string) => void;
 }
 
 export function PartialPointsModal({
@@ -20,8 +26,13 @@ export function PartialPointsModal({
   onConfirm,
   onCancel,
   themeClasses,
-  isFullScreen
+  isFullScreen,
+  components = [],
+  earnedComponentIds = [],
+  onToggleComponent
 }: PartialPointsModalProps) {
+  const useChecklist = components.length > 0 && !!onToggleComponent;
+
   return (
     <Modal
       isOpen={isOpen}
@@ -46,25 +57,64 @@ export function PartialPointsModal({
           </>
         }
     >
-      <p className={`${themeClasses.textSecondary || 'text-gray-600'} mb-6`}>
-        This question is worth {questionPoints} points. How many points did you earn?
-      </p>
-      
-      <div className="grid grid-cols-5 gap-2">
-        {Array.from({ length: questionPoints }, (_, i) => (
-          <button
-            key={i}
-            onClick={() => onPointsChange(i)}
-            className={`p-2 rounded-lg border-2 transition-colors duration-200 ${
-              selectedPoints === i
-                ? 'border-indigo-500 bg-indigo-50 text-indigo-600 dark:bg-indigo-900 dark:text-indigo-200'
-                : 'border-gray-200 hover:border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray dark:hover:border-gray-500'
-            }`}
-          >
-            {i}
-          </button>
-        ))}
-      </div>
+      {useChecklist ? (
+        <>
+          <p className={`${themeClasses.textSecondary || 'text-gray-600'} mb-4`}>
+            Check each part of the answer that was given.
+          </p>
+
+          <div className="space-y-2">
+            {components.map(component => {
+              const earned = earnedComponentIds.includes(component.id);
+              return (
+                <button
+                  key={component.id}
+                  onClick={() => onToggleComponent!(component.id)}
+                  className={`w-full flex items-center justify-between p-3 rounded-lg border-2 text-left transition-colors duration-200 ${
+                    earned
+                      ? 'border-green-500 bg-green-50 text-green-800 dark:bg-green-900 dark:text-green-100'
+                      : 'border-gray-200 hover:border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-200 dark:hover:border-gray-500'
+                  }`}
+                >
+                  <div className="flex items-center space-x-3">
+                    <span className={`h-5 w-5 flex items-center justify-center rounded border ${earned ? 'bg-green-600 border-green-600 text-white' : 'border-gray-300'}`}>
+                      {earned && <Check className="h-4 w-4" />}
+                    </span>
+                    <span>{component.text}</span>
+                  </div>
+                  <span className="text-sm font-medium">{component.points} pt{component.points !== 1 ? 's' : ''}</span>
+                </button>
+              );
+            })}
+          </div>
+
+          <p className={`mt-4 text-sm font-medium ${themeClasses.text || 'text-gray-900'}`}>
+            {selectedPoints} of {questionPoints} points
+          </p>
+        </>
+      ) : (
+        <>
+          <p className={`${themeClasses.textSecondary || 'text-gray-600'} mb-6`}>
+            This question is worth {questionPoints} points. How many points did you earn?
+          </p>
+          
+          <div className="grid grid-cols-5 gap-2">
+            {Array.from({ length: questionPoints }, (_, i) => (
+              <button
+                key={i}
+                onClick={() => onPointsChange(i)}
+                className={`p-2 rounded-lg border-2 transition-colors duration-200 ${
+                  selectedPoints === i
+                    ? 'border-indigo-500 bg-indigo-50 text-indigo-600 dark:bg-indigo-900 dark:text-indigo-200'
+                    : 'border-gray-200 hover:border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray dark:hover:border-gray-500'
+                }`}
+              >
+                {i}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
     </Modal>
   );
 }
\ No newline at end of file
@@ -1,18 +1,29 @@
 import React, { memo } from 'react';
 import { Question } from '../../types';
+import { AnswerGrade } from '../../utils/answerGrading';
 
 interface QuizAnswerProps {
   question: Question;
   isFullScreen: boolean;
   isDarkMode: boolean;
   themeClasses: any;
+  typedAnswer?: string;
+  grade?: AnswerGrade | null;
 }
 
-export function QuizAnswer({ 
-  question, 
-  isFullScreen, 
-  isDarkMode, 
-  themeClasses 
+const verdictStyles = {
+  correct: { label: 'Looks correct', className: 'border-green-200 bg-green-50 text-green-800' },
+  partial: { label: 'Partially correct', className: 'border-yellow-200 bg-yellow-50 text-yellow-800' },
+  incorrect: { label: 'Looks incorrect', className: 'border-red-200 bg-red-50 text-red-800' },
+};
+
+export function QuizAnswer({
+  question,
+  isFullScreen,
+  isDarkMode,
+  themeClasses,
+  typedAnswer,
+  grade
 }: QuizAnswerProps) {
   return (
     <div className="text-center">
@@ -25,8 +36,25 @@ export function QuizAnswer({
           {question.answer}
         </div>
       </div>
+
+      {grade && (
+        <div className={`max-w-2xl mx-auto mb-6 p-4 border-2 rounded-lg ${verdictStyles[grade.verdict].className}`}>
+          <div className="text-sm mb-1">Your answer:</div>
+          <div className="font-semibold text-lg mb-3 break-words">{typedAnswer}</div>
+          <div className="flex flex-wrap items-center justify-center gap-x-2 text-sm">
+            <span className="font-medium">{verdictStyles[grade.verdict].label}</span>
+            <span>•</span>
+            <span>{Math.round(grade.similarity * 100)}% match</span>
+            <span>•</span>
+            <span>Suggested {grade.suggestedPoints} of {grade.totalPoints} points</span>
+          </div>
+          <p className="text-xs mt-2 opacity-80">
+            Accept the suggested score or mark it yourself if the grader got it wrong.
+          </p>
+        </div>
+      )}
     </div>
   );
 }
 
-export default memo(QuizAnswer);
\ No newline at end of file
+export default memo(QuizAnswer);
@@ -1,5 +1,7 @@
 import React from 'react';
-import { Trophy, RotateCcw, ArrowLeft } from 'lucide-react';
+import { Trophy, RotateCcw, ArrowLeft, Repeat } from 'lucide-react';
+import { Question, QuizResult } from '../../types';
+import { QuizResultsReview } from './QuizResultsReview';
 
 interface QuizStats {
   accuracy: number;
@@ -19,6 +21,13 @@ interface QuizCompletionProps {
   onRestart: () => void;
   onBack: () => void;
   formatTime: (seconds: number) => string;
+  missedCount?: number;
+  onRetryMissed?: () => void;
+  retrying?: boolean;
+  questions?: Question[];
+  results?: QuizResult[];
+  regradingQuestionId?: string | null;
+  onRegrade?: (questionId: string, pointsEarned: number) => void;
 }
 
 export function QuizCompletion({
@@ -29,7 +38,14 @@ export function QuizCompletion({
   themeClasses,
   onRestart,
   onBack,
-  formatTime
+  formatTime,
+  missedCount = 0,
+  onRetryMissed,
+  retrying = false,
+  questions = [],
+  results = [],
+  regradingQuestionId = null,
+  onRegrade
 }: QuizCompletionProps) {
   const totalXpEarned = stats.totalPointsEarned + bonusXp;
 
@@ -140,6 +156,16 @@ export function QuizCompletion({
             </div>
 
             <div className="flex flex-col sm:flex-row gap-4 justify-center">
+              {missedCount > 0 && onRetryMissed && (
+                <button
+                  onClick={onRetryMissed}
+                  disabled={retrying}
+                  className="flex items-center space-x-2 bg-indigo-600 text-white px-6 py-3 rounded-lg hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50"
+                >
+                  <Repeat className="h-4 w-4" />
+                  <span>{retrying ? 'Starting...' : `Retry ${missedCount} Missed`}</span>
+                </button>
+              )}
               <button
                 onClick={onRestart}
                 className="flex items-center space-x-2 bg-green-600 text-white px-6 py-3 rounded-lg hover:bg-green-700 transition-colors duration-200"
@@ -156,6 +182,16 @@ export function QuizCompletion({
               </button>
             </div>
           </div>
+
+          {onRegrade && (
+            <QuizResultsReview
+              questions={questions}
+              results={results}
+              themeClasses={themeClasses}
+              regradingQuestionId={regradingQuestionId}
+              onRegrade={onRegrade}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Eye, EyeOff, Check, X, Play, RotateCcw } from 'lucide-react';
+import { Eye, EyeOff, Check, X, Play, RotateCcw, Sparkles } from 'lucide-react';
 
 interface QuizControlsProps {
   isFullScreen: boolean;
@@ -10,6 +10,8 @@ interface QuizControlsProps {
   onShowQuestion: () => void;
   onCorrect: () => void;
   onIncorrect: () => void;
+  suggestedPoints?: number | null;
+  onAcceptSuggestion?: () => void;
 }
 
 export function QuizControls({
@@ -20,8 +22,12 @@ export function QuizControls({
   onShowAnswer,
   onShowQuestion,
   onCorrect,
-  onIncorrect
+  onIncorrect,
+  suggestedPoints = null,
+  onAcceptSuggestion
 }: QuizControlsProps) {
+  const hasSuggestion = suggestedPoints !== null && !!onAcceptSuggestion;
+
   if (isFullScreen) {
     return (
       <div className="fixed bottom-4 sm:bottom-6 left-0 right-0 z-20 px-4 sm:px-6">
@@ -29,6 +35,16 @@ export function QuizControls({
           <>
             {/* Mobile layout - stacked buttons */}
             <div className="sm:hidden flex flex-col items-center space-y-3">
+              {hasSuggestion && (
+                <button
+                  onClick={onAcceptSuggestion}
+                  className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-indigo-700 transition-colors duration-200 flex items-center space-x-2 text-lg w-full max-w-xs justify-center"
+                >
+                  <Sparkles className="h-5 w-5" />
+                  <span>Accept {suggestedPoints} pts</span>
+                </button>
+              )}
+
               <button
                 onClick={onShowQuestion}
                 className={`${themeClasses.button} px-6 py-3 rounded-lg transition-colors duration-200 flex items-center space-x-2 text-lg w-full max-w-xs justify-center`}
@@ -56,6 +72,16 @@ export function QuizControls({
 
             {/* Desktop layout - horizontal buttons */}
             <div className="hidden sm:flex items-center justify-center space-x-8">
+              {hasSuggestion && (
+                <button
+                  onClick={onAcceptSuggestion}
+                  className="bg-indigo-600 text-white px-8 py-4 rounded-lg font-medium hover:bg-indigo-700 transition-colors duration-200 flex items-center space-x-2 text-[2.5vw]"
+                >
+                  <Sparkles className="h-[2vw] w-[2vw]" />
+                  <span>Accept {suggestedPoints} pts</span>
+                </button>
+              )}
+
               <button
                 onClick={onCorrect}
                 className="bg-[#58c16c] text-white px-8 py-4 rounded-lg font-medium hover:bg-[#4a9f5a] transition-colors duration-200 flex items-center space-x-2 text-[2.5vw]"
@@ -130,6 +156,16 @@ export function QuizControls({
             <EyeOff className="h-4 w-4" />
             <span>Show Question</span>
           </button>
+
+          {hasSuggestion && (
+            <button
+              onClick={onAcceptSuggestion}
+              className="w-full bg-indigo-600 text-white px-8 py-3 rounded-lg text-lg font-medium hover:bg-indigo-700 transition-colors duration-200 flex items-center space-x-2 justify-center"
+            >
+              <Sparkles className="h-5 w-5" />
+              <span>Accept Suggested Score ({suggestedPoints} pts)</span>
+            </button>
+          )}
           
           <div className="flex gap-4 justify-center">
             <button
@@ -1,5 +1,5 @@
 import React from 'react';
-import { ArrowLeft, Maximize, Minimize, Sun, Moon, Clock } from 'lucide-react';
+import { ArrowLeft, Maximize, Minimize, Sun, Moon, Clock, Volume2, VolumeX } from 'lucide-react';
 
 interface QuizHeaderProps {
   isFullScreen: boolean;
@@ -16,6 +16,13 @@ interface QuizHeaderProps {
   onToggleDarkMode: () => void;
   onStartTimer: () => void;
   formatTime: (seconds: number) => string;
+  // The timer starts by itself once the question has been read aloud
+  waitingToStart?: boolean;
+  readAloudEnabled?: boolean;
+  readAloudAvailable?: boolean;
+  onToggleReadAloud?: () => void;
+  // Untimed study quizzes have no clock to show
+  showTimer?: boolean;
 }
 
 export function QuizHeader({
@@ -32,8 +39,15 @@ export function QuizHeader({
   onToggleFullScreen,
   onToggleDarkMode,
   onStartTimer,
-  formatTime
+  formatTime,
+  waitingToStart = false,
+  readAloudEnabled = false,
+  readAloudAvailable = false,
+  onToggleReadAloud,
+  showTimer = true
 }: QuizHeaderProps) {
+  const readAloudTitle = readAloudEnabled ? 'Stop reading questions aloud' : 'Read questions aloud';
+
   if (isFullScreen) {
     return (
       <>
@@ -63,16 +77,32 @@ export function QuizHeader({
               </div>
             </div>
             <div className="flex items-center space-x-2 sm:space-x-4">
-              <button
-                onClick={onStartTimer}
-                disabled={timerStarted || showAnswer}
-                className={`flex items-center space-x-1 sm:space-x-2 px-2 sm:px-3 py-2 rounded-lg transition-all duration-200 ${themeClasses.timerButton}`}
-              >
-                <Clock className="h-3 w-3 sm:h-4 sm:w-4" />
-                <span className={`font-mono text-sm sm:text-lg ${timeLeft <= 10 ? 'text-red-300' : ''}`}>
-                  {formatTime(timeLeft)}
-                </span>
-              </button>
+              {showTimer && (
+                <button
+                  onClick={onStartTimer}
+                  disabled={timerStarted || showAnswer}
+                  className={`flex items-center space-x-1 sm:space-x-2 px-2 sm:px-3 py-2 rounded-lg transition-all duration-200 ${themeClasses.timerButton}`}
+                >
+                  {waitingToStart ? (
+                    <Volume2 className="h-3 w-3 sm:h-4 sm:w-4 animate-pulse" />
+                  ) : (
+                    <Clock className="h-3 w-3 sm:h-4 sm:w-4" />
+                  )}
+                  <span className={`font-mono text-sm sm:text-lg ${timeLeft <= 10 ? 'text-red-300' : ''}`}>
+                    {formatTime(timeLeft)}
+                  </span>
+                </button>
+              )}
+
+              {readAloudAvailable && onToggleReadAloud && (
+                <button
+                  onClick={onToggleReadAloud}
+                  className={`p-2 ${themeClasses.text} hover:bg-white/10 rounded-lg transition-all duration-200 backdrop-blur-sm`}
+                  title={readAloudTitle}
+                >
+                  {readAloudEnabled ? <Volume2 className="h-4 w-4 sm:h-5 sm:w-5" /> : <VolumeX className="h-4 w-4 sm:h-5 sm:w-5" />}
+                </button>
+              )}
               
               {/* Only show full screen toggle on desktop */}
               {window.innerWidth >= 640 && (
@@ -116,16 +146,28 @@ export function QuizHeader({
         </div>
         
         <div className="flex items-center space-x-4">
-          <button
-            onClick={onStartTimer}
-            disabled={timerStarted || showAnswer}
-            className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-all duration-200 ${themeClasses.timerButton}`}
-          >
-            <Clock className="h-4 w-4" />
-            <span className={`font-mono text-lg ${timeLeft <= 10 ? 'text-red-600' : ''}`}>
-              {formatTime(timeLeft)}
-            </span>
-          </button>
+          {showTimer && (
+            <button
+              onClick={onStartTimer}
+              disabled={timerStarted || showAnswer}
+              className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-all duration-200 ${themeClasses.timerButton}`}
+            >
+              {waitingToStart ? <Volume2 className="h-4 w-4 animate-pulse" /> : <Clock className="h-4 w-4" />}
+              <span className={`font-mono text-lg ${timeLeft <= 10 ? 'text-red-600' : ''}`}>
+                {formatTime(timeLeft)}
+              </span>
+            </button>
+          )}
+
+          {readAloudAvailable && onToggleReadAloud && (
+            <button
+              onClick={onToggleReadAloud}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-all duration-200"
+              title={readAloudTitle}
+            >
+              {readAloudEnabled ? <Volume2 className="h-5 w-5" /> : <VolumeX className="h-5 w-5" />}
+            </button>
+          )}
           
           {/* Only show full screen toggle on desktop */}
           {window.innerWidth >= 640 && (
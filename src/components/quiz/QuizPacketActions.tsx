@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Printer, FileDown } from 'lucide-react';
+import { Question, QuizSession } from '../../types';
+import { buildQuizPacket, buildQuizPacketHtml } from '../../utils/quizPacket';
+import { downloadQuizPacketPdf } from '../../utils/quizPacketPdf';
+
+interface QuizPacketActionsProps {
+  title: string;
+  questions: Question[];
+  // Session the questions came from, so adjusted question times are printed
+  timer?: Pick<QuizSession, 'timer_mode' | 'timer_multiplier' | 'sprint_seconds'>;
+  disabled?: boolean;
+}
+
+const BUTTON_CLASS = 'flex items-center space-x-2 px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200 disabled:opacity-50';
+
+// Print or download a paper practice packet: questions, answer sheet and answer key
+export function QuizPacketActions({ title, questions, timer, disabled = false }: QuizPacketActionsProps) {
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const unavailable = disabled || questions.length === 0;
+
+  const handlePrint = () => {
+    setError(null);
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      setError('Allow pop-ups for this site to print the packet.');
+      return;
+    }
+
+    printWindow.document.write(buildQuizPacketHtml(buildQuizPacket(title, questions, timer)));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    setError(null);
+    try {
+      await downloadQuizPacketPdf(buildQuizPacket(title, questions, timer));
+    } catch (err: any) {
+      console.error('Failed to generate quiz packet PDF:', err);
+      setError(err.message || 'Failed to generate PDF');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <>
+      <button onClick={handlePrint} disabled={unavailable} className={BUTTON_CLASS} title="Print questions, answer sheet and answer key">
+        <Printer className="h-4 w-4" />
+        <span>Print Packet</span>
+      </button>
+      <button onClick={handleDownload} disabled={unavailable || downloading} className={BUTTON_CLASS}>
+        <FileDown className="h-4 w-4" />
+        <span>{downloading ? 'Generating...' : 'Download PDF'}</span>
+      </button>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </>
+  );
+}
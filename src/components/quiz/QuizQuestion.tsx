@@ -1,6 +1,6 @@
 import React, { memo } from 'react';
-import { AlertTriangle } from 'lucide-react';
-import { Question } from '../../types';
+import { AlertTriangle, Send } from 'lucide-react';
+import { Question, QuizAnswerMode } from '../../types';
 
 interface QuizQuestionProps {
   question: Question;
@@ -8,15 +8,25 @@ interface QuizQuestionProps {
   isFullScreen: boolean;
   isDarkMode: boolean;
   themeClasses: any;
+  answerMode?: QuizAnswerMode;
+  typedAnswer?: string;
+  onTypedAnswerChange?: (answer: string) => void;
+  onSubmitTypedAnswer?: () => void;
 }
 
-export function QuizQuestion({ 
-  question, 
-  hasTimeExpired, 
-  isFullScreen, 
-  isDarkMode, 
-  themeClasses 
+export function QuizQuestion({
+  question,
+  hasTimeExpired,
+  isFullScreen,
+  isDarkMode,
+  themeClasses,
+  answerMode = 'self-graded',
+  typedAnswer = '',
+  onTypedAnswerChange,
+  onSubmitTypedAnswer
 }: QuizQuestionProps) {
+  const isTypedMode = answerMode === 'typed';
+
   return (
     <div className="text-center">
       <div className="mb-6 sm:mb-8">
@@ -27,7 +37,37 @@ export function QuizQuestion({
           {question.question}
         </h2>
       </div>
-      
+
+      {isTypedMode && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (typedAnswer.trim()) {
+              onSubmitTypedAnswer?.();
+            }
+          }}
+          className="mb-6 flex flex-col sm:flex-row gap-3 max-w-2xl mx-auto"
+        >
+          <input
+            type="text"
+            value={typedAnswer}
+            onChange={(e) => onTypedAnswerChange?.(e.target.value)}
+            placeholder="Type your answer..."
+            autoComplete="off"
+            autoFocus
+            className={`flex-1 px-4 py-3 border ${themeClasses.border} rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all duration-200 text-gray-900 ${isFullScreen ? 'text-[2vw]' : 'text-lg'}`}
+          />
+          <button
+            type="submit"
+            disabled={!typedAnswer.trim()}
+            className="flex items-center justify-center space-x-2 bg-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+          >
+            <Send className="h-5 w-5" />
+            <span>Submit Answer</span>
+          </button>
+        </form>
+      )}
+
       {hasTimeExpired && (
         <div className={`mb-6 p-4 border-2 ${isFullScreen ? 'border-red-300 bg-red-500/20' : 'border-red-200 bg-red-50'} rounded-lg`}>
           <div className={`flex items-center justify-center space-x-2 ${isFullScreen ? 'text-red-300' : 'text-red-700'}`}>
@@ -35,7 +75,9 @@ export function QuizQuestion({
             <span className="font-semibold text-lg">Time's Up!</span>
           </div>
           <p className={`${isFullScreen ? 'text-red-200' : 'text-red-600'} text-sm mt-1`}>
-            Click "Show Answer" to reveal the answer and mark your response
+            {isTypedMode
+              ? 'Submit what you have, or click "Show Answer" to mark your response'
+              : 'Click "Show Answer" to reveal the answer and mark your response'}
           </p>
         </div>
       )}
@@ -43,4 +85,4 @@ export function QuizQuestion({
   );
 }
 
-export default memo(QuizQuestion);
\ No newline at end of file
+export default memo(QuizQuestion);
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, ClipboardCheck } from 'lucide-react';
+import { Question, QuizResult } from '../../types';
+
+interface QuizResultsReviewProps {
+  questions: Question[];
+  results: QuizResult[];
+  themeClasses: any;
+  regradingQuestionId: string | null;
+  onRegrade: (questionId: string, pointsEarned: number) => void;
+}
+
+export function QuizResultsReview({
+  questions,
+  results,
+  themeClasses,
+  regradingQuestionId,
+  onRegrade
+}: QuizResultsReviewProps) {
+  const [expanded, setExpanded] = useState(false);
+  const resultsByQuestion = new Map(results.map(result => [result.questionId, result]));
+  const answeredQuestions = questions.filter(question => resultsByQuestion.has(question.id));
+
+  if (answeredQuestions.length === 0) return null;
+
+  return (
+    <div className={`${themeClasses.card} rounded-xl shadow-sm border ${themeClasses.border} mt-6`}>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className={`w-full flex items-center justify-between p-4 sm:p-6 ${themeClasses.text}`}
+      >
+        <div className="flex items-center space-x-2">
+          <ClipboardCheck className="h-5 w-5 text-indigo-600" />
+          <span className="font-semibold">Review &amp; Regrade Answers</span>
+        </div>
+        {expanded ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
+      </button>
+
+      {expanded && (
+        <div className={`border-t ${themeClasses.border} divide-y divide-gray-200`}>
+          {answeredQuestions.map((question, index) => {
+            const result = resultsByQuestion.get(question.id)!;
+            const pointOptions = Array.from({ length: result.totalPoints + 1 }, (_, points) => points);
+
+            return (
+              <div key={question.id} className="p-4 sm:px-6 text-left">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium ${themeClasses.text}`}>
+                      {index + 1}. {question.question}
+                    </p>
+                    <p className={`text-sm ${themeClasses.textSecondary} mt-1`}>
+                      Answer: {question.answer}
+                    </p>
+                    {result.typedAnswer && (
+                      <p className={`text-sm ${themeClasses.textSecondary} mt-1`}>
+                        Typed: {result.typedAnswer}
+                      </p>
+                    )}
+                    {result.regradedAt && (
+                      <p className="text-xs text-amber-600 mt-1">Regraded</p>
+                    )}
+                  </div>
+                  <select
+                    value={result.pointsEarned}
+                    onChange={(e) => onRegrade(question.id, Number(e.target.value))}
+                    disabled={regradingQuestionId !== null}
+                    className="flex-shrink-0 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50"
+                    aria-label={`Points for question ${index + 1}`}
+                  >
+                    {pointOptions.map(points => (
+                      <option key={points} value={points}>
+                        {points} / {result.totalPoints} pts
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
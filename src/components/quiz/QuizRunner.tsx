@@ -3,7 +3,6 @@ import { Layout } from '../layout/Layout';
 import { useNavigate, useParams } from 'react-router-dom';
 import { useQuizSession } from '../../contexts/QuizSessionContext';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
 import { AlertTriangle } from 'lucide-react';
 import { QuizSession, QuizResult } from '../../types';
 import { useQuizTimer } from '../../hooks/useQuizTimer';
@@ -14,6 +13,22 @@ import QuizAnswer from './QuizAnswer';
 import { QuizControls } from './QuizControls';
 import { QuizCompletion } from './QuizCompletion';
 import { PartialPointsModal } from './PartialPointsModal';
+import { LiveHostPanel } from './LiveHostPanel';
+import { CompetitionRunner } from './CompetitionRunner';
+import { OfflineSyncStatus } from './OfflineSyncStatus';
+import { UndoGradeBar } from './UndoGradeBar';
+import { AlertMessage } from '../common/AlertMessage';
+import { gradeTypedAnswer, AnswerGrade } from '../../utils/answerGrading';
+import { useLiveQuizHost } from '../../hooks/useLiveQuizHost';
+import { useRetryMissedQuestions } from '../../hooks/useRetryMissedQuestions';
+import { useSessionPersistence } from '../../hooks/useSessionPersistence';
+import { useReadAloud } from '../../hooks/useReadAloud';
+import { getMissedQuestions, upsertQuizResult } from '../../utils/quizUtils';
+import { getAnswerComponents, hasAnswerRubric, scoreAnswerComponents } from '../../utils/answerRubric';
+import { getQuestionTimeLimit, isSprintSession, isTimedSession } from '../../utils/timerModes';
+import { createReadOnceTracker } from '../../utils/readAloud';
+
+const SAVE_ERROR_MESSAGE = 'Your latest progress could not be saved. It will be retried while this page stays open.';
 
 interface QuizRunnerProps {
   quizSessionId?: string;
@@ -31,12 +46,25 @@ export function QuizRunner({
   const { user, developerLog } = useAuth();
   const { 
     loadQuizSession, 
-    updateQuizSession, 
-    deleteQuizSession 
+    deleteQuizSession,
+    recordQuestionLog,
+    isOnline,
+    syncing,
+    pendingSyncCount
   } = useQuizSession();
+  const {
+    queueSessionState,
+    flushSessionState,
+    restoreSessionState,
+    discardSessionState
+  } = useSessionPersistence();
 
   // Track when each question starts for accurate time calculation
   const questionStartTimeRef = useRef<number | null>(null);
+  // Buffered state left over from a previous visit is flushed once per session
+  const restoredSessionIdRef = useRef<string | null>(null);
+  // Each question is read aloud once, not again on every re-render or resume
+  const [questionReader] = useState(createReadOnceTracker);
 
   // Use quizSessionId from URL params if available, otherwise use prop
   const quizSessionId = params.quizSessionId || propQuizSessionId;
@@ -51,18 +79,47 @@ export function QuizRunner({
   const [showAnswer, setShowAnswer] = useState(false);
   const [partialPoints, setPartialPoints] = useState(0);
   const [showPartialModal, setShowPartialModal] = useState(false);
+  const [earnedComponentIds, setEarnedComponentIds] = useState<string[]>([]);
   const [isFullScreen, setIsFullScreen] = useState(false);
   const [showModeInfo, setShowModeInfo] = useState(false);
 
+  // Typed-answer mode state
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [answerGrade, setAnswerGrade] = useState<AnswerGrade | null>(null);
+
+  // The last graded question can be sent back for a mis-tap; finished quizzes are regraded from the review
+  const [undoableQuestionIndex, setUndoableQuestionIndex] = useState<number | null>(null);
+  const [regradingQuestionId, setRegradingQuestionId] = useState<string | null>(null);
+  // Set when a write that can't wait for the next batch fails, e.g. completing the quiz
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Sprint quizzes run one clock across every question; untimed quizzes have no clock at all
+  const sprintMode = !!session && isSprintSession(session);
+  const timedMode = !session || isTimedSession(session);
+
   // Custom hooks
+  const liveHost = useLiveQuizHost({ session });
+  const { creating: creatingRetry, startRetrySession } = useRetryMissedQuestions();
+  const lastBroadcastIndexRef = useRef<number | null>(null);
   const { isDarkMode, themeClasses, toggleDarkMode } = useQuizTheme(isFullScreen);
+  const {
+    settings: readAloudSettings,
+    loading: readAloudLoading,
+    isSupported: readAloudSupported,
+    updateSettings: updateReadAloudSettings,
+    speakQuestion,
+    speakAnswer,
+    cancel: cancelSpeech
+  } = useReadAloud();
   
   const {
     timeLeft,
     timerActive,
     timerStarted,
     hasTimeExpired,
+    waitingToStart,
     startTimer,
+    startTimerAfter,
     resetTimer,
     stopTimer,
     setHasTimeExpired,
@@ -71,17 +128,21 @@ export function QuizRunner({
   } = useQuizTimer({
     initialTime: 30,
     onTimeExpired: () => {
+      if (sprintMode) {
+        completeQuiz();
+        return;
+      }
       saveSessionState({ 
         timer_active: false, 
         has_time_expired: true 
       });
     },
     onTimeUpdate: React.useCallback((newTimeLeft) => {
-      // Only update the database, don't trigger component re-render
+      // Buffered locally and written with the next flush, don't trigger component re-render
       if (quizSessionId) {
-        updateQuizSession(quizSessionId, { time_left: newTimeLeft });
+        queueSessionState(quizSessionId, { time_left: newTimeLeft });
       }
-    }, [quizSessionId, updateQuizSession])
+    }, [quizSessionId, queueSessionState])
   });
 
   // Load session on mount
@@ -103,19 +164,40 @@ export function QuizRunner({
         return;
       }
 
-      setSession(loadedSession);
+      // Buffered state that hasn't reached the database yet, e.g. when the page was closed mid-question
+      const pendingState = loadedSession.status === 'completed' ? null : restoreSessionState(quizSessionId);
+      // This effect also re-runs to pick up each saved change from the context
+      const isNewSession = restoredSessionIdRef.current !== quizSessionId;
+      if (pendingState && isNewSession) {
+        developerLog('💾 QuizRunner: Restoring buffered session state:', pendingState);
+        flushSessionState(quizSessionId).catch(() => setSaveError(SAVE_ERROR_MESSAGE));
+      }
+      restoredSessionIdRef.current = quizSessionId;
+      const resumedSession = pendingState ? { ...loadedSession, ...pendingState } : loadedSession;
+
+      setSession(resumedSession);
+      if (isNewSession) {
+        setUndoableQuestionIndex(null);
+      }
       
       // Restore quiz state from session
-      if (loadedSession.status === 'completed') {
+      if (resumedSession.status === 'completed') {
+        discardSessionState(quizSessionId);
         setQuizCompleted(true);
       } else {
+        // The runner stays mounted when moving straight into a retry session
+        setQuizCompleted(false);
         // Start or resume the quiz immediately
-        setShowAnswer(loadedSession.show_answer);
-        resetTimer(loadedSession.time_left);
-        setHasTimeExpired(loadedSession.has_time_expired);
-        setTimerActiveState(loadedSession.timer_active);
-        setTimerStartedState(loadedSession.timer_started);
-        if (!loadedSession.show_answer) {
+        setShowAnswer(resumedSession.show_answer);
+        // Between saves the timer runs locally, so it is only restored for a newly opened session.
+        // Restoring it on every save would also drop a start waiting on read-aloud.
+        if (isNewSession) {
+          resetTimer(resumedSession.time_left);
+          setHasTimeExpired(resumedSession.has_time_expired);
+          setTimerActiveState(resumedSession.timer_active);
+          setTimerStartedState(resumedSession.timer_started);
+        }
+        if (!resumedSession.show_answer) {
           questionStartTimeRef.current = Date.now();
         }
       }
@@ -127,67 +209,141 @@ export function QuizRunner({
     } finally {
       setLoading(false);
     }
-  }, [quizSessionId, loadQuizSession, navigate, backUrl, resetTimer, setHasTimeExpired, setTimerActiveState, setTimerStartedState]);
+  }, [quizSessionId, loadQuizSession, navigate, backUrl, resetTimer, setHasTimeExpired, setTimerActiveState, setTimerStartedState, restoreSessionState, flushSessionState, discardSessionState, developerLog]);
 
-  // Save session state whenever it changes
+  // Send each question to live participants as the host moves through the quiz
+  useEffect(() => {
+    if (!liveHost.isHosting || !session) return;
+    if (lastBroadcastIndexRef.current === session.current_question_index) return;
+
+    lastBroadcastIndexRef.current = session.current_question_index;
+    liveHost.broadcastQuestion(
+      session.current_question_index,
+      session.questions[session.current_question_index],
+      session.questions.length
+    );
+  }, [liveHost, session]);
+
+  // Read each new question aloud; the timer waits for the reading to finish
+  useEffect(() => {
+    if (!session || quizCompleted || showAnswer || session.type === 'competition') return;
+    if (!readAloudSettings.enabled || readAloudLoading) return;
+    // A sprint clock keeps running between questions, so later questions are still read
+    if ((timerStarted && !sprintMode) || hasTimeExpired) return;
+
+    const question = session.questions[session.current_question_index];
+    if (!question) return;
+
+    const reading = questionReader.readOnce(`${session.id}:${session.current_question_index}`, () => {
+      developerLog('🔊 QuizRunner: Reading question aloud:', question.id);
+      return speakQuestion(question);
+    });
+    if (!reading) return;
+    if (readAloudSettings.autoStartTimer && timedMode && !timerStarted) {
+      startTimerAfter(reading);
+    }
+  }, [session, quizCompleted, showAnswer, timerStarted, hasTimeExpired, sprintMode, timedMode, readAloudSettings.enabled, readAloudSettings.autoStartTimer, readAloudLoading, questionReader, speakQuestion, startTimerAfter, developerLog]);
+
+  // Stop reading when leaving the quiz
+  useEffect(() => {
+    return () => cancelSpeech();
+  }, [cancelSpeech]);
+
+  // Save session state whenever it changes. Graded answers, question changes and
+  // completion are written straight away; timer and UI state are batched.
   const saveSessionState = (updates: Partial<QuizSession>) => {
-    if (!session) return;
+    if (!session || !quizSessionId) return;
     
     const updatedSession = { ...session, ...updates };
     setSession(updatedSession);
-    updateQuizSession(quizSessionId, updates);
+
+    if ('results' in updates || 'current_question_index' in updates || 'status' in updates) {
+      flushSessionState(quizSessionId, updates)
+        .then(() => setSaveError(null))
+        .catch(() => setSaveError(SAVE_ERROR_MESSAGE));
+    } else {
+      queueSessionState(quizSessionId, updates);
+    }
   };
 
-  // Log question result to database
-  const logQuestionResult = async (
-    questionId: string,
-    pointsEarned: number,
-    totalPoints: number,
-    timeSpent: number,
-    isCorrect: boolean
-  ) => {
+  // Grading details recorded alongside a result when the answer was typed
+  const getTypedAnswerDetails = (): Pick<QuizResult, 'typedAnswer' | 'autoGradedPoints' | 'similarityScore'> => {
+    if (!answerGrade) return {};
+    return {
+      typedAnswer: typedAnswer.trim(),
+      autoGradedPoints: answerGrade.suggestedPoints,
+      similarityScore: answerGrade.similarity,
+    };
+  };
+
+  // Log question result to database. A regraded result rewrites its existing log row.
+  const logQuestionResult = async (result: QuizResult) => {
     if (!user || !session) return;
 
+    const logEntry = {
+      quiz_session_id: session.id,
+      user_id: user.id,
+      question_id: result.questionId,
+      points_earned: result.pointsEarned,
+      total_points_possible: result.totalPoints,
+      time_spent: result.timeSpent,
+      answered_at: result.answeredAt,
+      is_correct: result.pointsEarned === result.totalPoints,
+      typed_answer: result.typedAnswer ?? null,
+      auto_graded_points: result.autoGradedPoints ?? null,
+      similarity_score: result.similarityScore ?? null,
+      client_log_id: result.logId ?? null,
+      regraded_at: result.regradedAt ?? null,
+      component_results: result.componentResults ?? null,
+      // The session keeps the question as it was shown, even if it has been edited since
+      question_revision: session.questions.find(q => q.id === result.questionId)?.revision ?? null
+    };
+
     try {
-      developerLog('📝 Logging question result to database:', {
-        quiz_session_id: session.id,
-        user_id: user.id,
-        question_id: questionId,
-        points_earned: pointsEarned,
-        total_points_possible: totalPoints,
-        time_spent: timeSpent,
-        is_correct: isCorrect
-      });
+      developerLog('📝 Logging question result to database:', logEntry);
 
-      const { error } = await supabase
-        .from('quiz_question_logs')
-        .insert([{
-          quiz_session_id: session.id,
-          user_id: user.id,
-          question_id: questionId,
-          points_earned: pointsEarned,
-          total_points_possible: totalPoints,
-          time_spent: timeSpent,
-          answered_at: new Date().toISOString(),
-          is_correct: isCorrect
-        }]);
-
-      if (error) {
-        developerLog('❌ Error logging question result:', error);
-        // Don't throw error to avoid disrupting quiz flow
-      } else {
-        developerLog('✅ Question result logged successfully');
-      }
+      // Queued on the device and synced later when there's no connection
+      await recordQuestionLog(logEntry, { replace: !!result.regradedAt });
+
+      developerLog('✅ Question result logged successfully');
     } catch (error) {
-      developerLog('💥 Unexpected error logging question result:', error);
+      developerLog('❌ Error logging question result:', error);
       // Don't throw error to avoid disrupting quiz flow
     }
   };
 
+  // Add or replace the result for a question and log it. Returns the updated results.
+  const saveResult = async (result: QuizResult): Promise<QuizResult[]> => {
+    if (!session) return [];
+
+    const newResults = upsertQuizResult(session.results, { ...result, logId: result.logId || crypto.randomUUID() });
+    const savedResult = newResults.find(r => r.questionId === result.questionId);
+    if (savedResult) {
+      await logQuestionResult(savedResult);
+    }
+
+    setUndoableQuestionIndex(session.questions.findIndex(q => q.id === result.questionId));
+    return newResults;
+  };
+
   const handleShowAnswer = () => {
+    if (session && liveHost.isHosting) {
+      const currentQuestion = session.questions[session.current_question_index];
+      liveHost.revealAnswer(session.current_question_index, currentQuestion.answer);
+    }
+
+    cancelSpeech();
+    if (session && readAloudSettings.enabled && readAloudSettings.readAnswers) {
+      speakAnswer(session.questions[session.current_question_index]);
+    }
+
     setShowAnswer(true);
-    stopTimer();
     setHasTimeExpired(false);
+    if (sprintMode) {
+      saveSessionState({ show_answer: true });
+      return;
+    }
+    stopTimer();
     saveSessionState({ 
       show_answer: true, 
       timer_active: false, 
@@ -195,12 +351,43 @@ export function QuizRunner({
     });
   };
 
+  const handleSubmitTypedAnswer = () => {
+    if (!session || !typedAnswer.trim()) return;
+
+    const currentQuestion = session.questions[session.current_question_index];
+    const grade = gradeTypedAnswer(typedAnswer, currentQuestion);
+
+    developerLog('⌨️ QuizRunner: Typed answer graded:', {
+      questionId: currentQuestion.id,
+      typedAnswer,
+      grade
+    });
+
+    setAnswerGrade(grade);
+    handleShowAnswer();
+  };
+
+  const handleAcceptSuggestion = async () => {
+    if (!session || !answerGrade) return;
+
+    if (answerGrade.suggestedPoints === answerGrade.totalPoints) {
+      await handleCorrect();
+    } else {
+      await handlePartialPoints(answerGrade.suggestedPoints);
+    }
+  };
+
   const handleShowQuestion = () => {
     if (!session) return;
     
-    const currentQuestion = session.questions[session.current_question_index];
     setShowAnswer(false);
-    const newTime = currentQuestion?.time_to_answer || 30;
+    if (sprintMode) {
+      saveSessionState({ show_answer: false });
+      return;
+    }
+
+    const currentQuestion = session.questions[session.current_question_index];
+    const newTime = getQuestionTimeLimit(currentQuestion, session);
     resetTimer(newTime);
     setHasTimeExpired(false);
     
@@ -229,7 +416,13 @@ export function QuizRunner({
       totalPoints: actualPoints,
       timeSpent,
       answeredAt: new Date().toISOString(),
+      ...getTypedAnswerDetails(),
     };
+
+    if (hasAnswerRubric(currentQuestion)) {
+      const components = getAnswerComponents(currentQuestion);
+      result.componentResults = scoreAnswerComponents(components, components.map(c => c.id)).componentResults;
+    }
     
     developerLog('✅ QuizRunner: Correct answer - creating result:', {
       questionId: currentQuestion.id,
@@ -240,16 +433,8 @@ export function QuizRunner({
       timeSpent: result.timeSpent
     });
     
-    const newResults = [...session.results, result];
-    
     // Log to database
-    await logQuestionResult(
-      currentQuestion.id,
-      actualPoints,
-      actualPoints,
-      timeSpent,
-      true // is_correct = true
-    );
+    const newResults = await saveResult(result);
     
     developerLog('📊 QuizRunner: Updated results array:', {
       previousResultsLength: session.results.length,
@@ -273,7 +458,13 @@ export function QuizRunner({
     const currentQuestion = session.questions[session.current_question_index];
     const actualPoints = Number(currentQuestion.points) || 0;
     
-    if (actualPoints > 1) {
+    if (hasAnswerRubric(currentQuestion)) {
+      setEarnedComponentIds([]);
+      setPartialPoints(0);
+      setShowPartialModal(true);
+    } else if (actualPoints > 1) {
+      // Preselect the grader's partial suggestion when the answer was typed
+      setPartialPoints(answerGrade?.verdict === 'partial' ? answerGrade.suggestedPoints : 0);
       setShowPartialModal(true);
     } else {
       const result: QuizResult = {
@@ -282,6 +473,7 @@ export function QuizRunner({
         totalPoints: actualPoints,
         timeSpent,
         answeredAt: new Date().toISOString(),
+        ...getTypedAnswerDetails(),
       };
       
       developerLog('❌ QuizRunner: Incorrect answer - creating result:', {
@@ -294,15 +486,7 @@ export function QuizRunner({
       });
       
       // Log to database
-      await logQuestionResult(
-        currentQuestion.id,
-        0,
-        actualPoints,
-        timeSpent,
-        false // is_correct = false
-      );
-      
-      const newResults = [...session.results, result];
+      const newResults = await saveResult(result);
       
       developerLog('📊 QuizRunner: Updated results array (incorrect):', {
         previousResultsLength: session.results.length,
@@ -316,13 +500,17 @@ export function QuizRunner({
     }
   };
 
-  const handlePartialPoints = async () => {
+  const handlePartialPoints = async (pointsOverride?: number) => {
     if (!session) return;
     
     const currentQuestion = session.questions[session.current_question_index];
     const timeSpent = questionStartTimeRef.current ? Math.floor((Date.now() - questionStartTimeRef.current) / 1000) : 0;
     const actualPoints = Number(currentQuestion.points) || 0;
-    const actualPartialPoints = Number(partialPoints) || 0;
+    // A checked rubric is scored part by part; an accepted suggestion is a single number
+    const rubricScore = pointsOverride === undefined && hasAnswerRubric(currentQuestion)
+      ? scoreAnswerComponents(getAnswerComponents(currentQuestion), earnedComponentIds)
+      : null;
+    const actualPartialPoints = rubricScore ? rubricScore.pointsEarned : Number(pointsOverride ?? partialPoints) || 0;
     
     const result: QuizResult = {
       questionId: currentQuestion.id,
@@ -330,6 +518,8 @@ export function QuizRunner({
       totalPoints: actualPoints,
       timeSpent,
       answeredAt: new Date().toISOString(),
+      ...getTypedAnswerDetails(),
+      ...(rubricScore ? { componentResults: rubricScore.componentResults } : {}),
     };
     
     developerLog('🔄 QuizRunner: Partial points - creating result:', {
@@ -344,15 +534,7 @@ export function QuizRunner({
     });
     
     // Log to database
-    await logQuestionResult(
-      currentQuestion.id,
-      actualPartialPoints,
-      actualPoints,
-      timeSpent,
-      false // is_correct = false (since it's not fully correct)
-    );
-    
-    const newResults = [...session.results, result];
+    const newResults = await saveResult(result);
     
     developerLog('📊 QuizRunner: Updated results array (partial):', {
       previousResultsLength: session.results.length,
@@ -367,21 +549,112 @@ export function QuizRunner({
     
     setShowPartialModal(false);
     setPartialPoints(0);
+    setEarnedComponentIds([]);
+    nextQuestion();
+  };
+
+  const handleToggleComponent = (componentId: string) => {
+    if (!session) return;
+
+    const components = getAnswerComponents(session.questions[session.current_question_index]);
+    const nextIds = earnedComponentIds.includes(componentId)
+      ? earnedComponentIds.filter(id => id !== componentId)
+      : [...earnedComponentIds, componentId];
+
+    setEarnedComponentIds(nextIds);
+    setPartialPoints(scoreAnswerComponents(components, nextIds).pointsEarned);
+  };
+
+  // Go back to the last graded question so it can be marked again
+  const handleUndoLastGrade = () => {
+    if (!session || undoableQuestionIndex === null) return;
+
+    const question = session.questions[undoableQuestionIndex];
+    const previousResult = session.results.find(r => r.questionId === question.id);
+
+    developerLog('↩️ QuizRunner: Undoing grade for question', undoableQuestionIndex + 1, previousResult);
+
+    cancelSpeech();
+    if (!sprintMode) {
+      stopTimer();
+    }
+    setUndoableQuestionIndex(null);
+    setShowPartialModal(false);
+    setTypedAnswer(previousResult?.typedAnswer || '');
+    setAnswerGrade(previousResult?.typedAnswer ? gradeTypedAnswer(previousResult.typedAnswer, question) : null);
+    setShowAnswer(true);
+    setHasTimeExpired(false);
+
+    saveSessionState({
+      current_question_index: undoableQuestionIndex,
+      show_answer: true,
+      ...(sprintMode ? {} : { timer_active: false }),
+      has_time_expired: false
+    });
+  };
+
+  // Change the points for a question from the completion review
+  const handleRegrade = async (questionId: string, pointsEarned: number) => {
+    if (!session) return;
+
+    const previousResult = session.results.find(r => r.questionId === questionId);
+    if (!previousResult || previousResult.pointsEarned === pointsEarned) return;
+
+    developerLog('✏️ QuizRunner: Regrading question', questionId, 'from', previousResult.pointsEarned, 'to', pointsEarned);
+
+    setRegradingQuestionId(questionId);
+    try {
+      // A single number can't say which parts were given, so the old breakdown is dropped
+      const newResults = await saveResult({
+        ...previousResult,
+        pointsEarned,
+        componentResults: undefined,
+        regradedAt: new Date().toISOString()
+      });
+      saveSessionState({ results: newResults });
+    } finally {
+      setRegradingQuestionId(null);
+    }
+  };
+
+  // Live hosts award points to participants instead of grading themselves
+  const handleLiveAdvance = async () => {
+    if (!session) return;
+
+    // Stay on the question until its awards are saved, or they would be lost
+    if (!await liveHost.sendAwards(session.current_question_index)) return;
+    if (session.current_question_index >= session.questions.length - 1) {
+      await liveHost.endHosting();
+    }
     nextQuestion();
   };
 
   const nextQuestion = () => {
     if (!session) return;
+
+    setTypedAnswer('');
+    setAnswerGrade(null);
     
     if (session.current_question_index < session.questions.length - 1) {
       const nextIndex = session.current_question_index + 1;
       const nextQuestion = session.questions[nextIndex];
-      const newTime = nextQuestion?.time_to_answer || 30;
-      
+
       setShowAnswer(false);
       setHasTimeExpired(false);
-      resetTimer(newTime);
       questionStartTimeRef.current = Date.now();
+
+      // The sprint clock carries on into the next question
+      if (sprintMode) {
+        saveSessionState({
+          current_question_index: nextIndex,
+          show_answer: false,
+          has_time_expired: false
+        });
+        return;
+      }
+
+      const newTime = getQuestionTimeLimit(nextQuestion, session);
+      resetTimer(newTime);
       
       saveSessionState({
         current_question_index: nextIndex,
@@ -392,26 +665,47 @@ export function QuizRunner({
         timer_started: false
       });
     } else {
-      // Calculate final total points before marking as completed
-      const finalResults = session.results;
-      const finalTotalPoints = finalResults.reduce((sum, result) => sum + (Number(result.pointsEarned) || 0), 0);
-      
-      developerLog('🏁 QuizRunner: Quiz completion - final calculations:', {
-        finalResultsLength: finalResults.length,
-        finalResults: finalResults,
-        finalTotalPoints: finalTotalPoints,
-        sessionTotalPoints: session.total_points
-      });
-      
-      setQuizCompleted(true);
-      stopTimer();
-      saveSessionState({
-        status: 'completed',
-        completed_at: new Date().toISOString(),
-        timer_active: false,
-        total_points: finalTotalPoints // Ensure total_points is accurate
-      });
+      completeQuiz();
+    }
+  };
+
+  // Also called when a sprint runs out of time part way through the questions
+  const completeQuiz = () => {
+    if (!session) return;
+
+    // Calculate final total points before marking as completed
+    const finalResults = session.results;
+    const finalTotalPoints = finalResults.reduce((sum, result) => sum + (Number(result.pointsEarned) || 0), 0);
+    
+    developerLog('🏁 QuizRunner: Quiz completion - final calculations:', {
+      finalResultsLength: finalResults.length,
+      finalResults: finalResults,
+      finalTotalPoints: finalTotalPoints,
+      sessionTotalPoints: session.total_points
+    });
+    
+    setQuizCompleted(true);
+    stopTimer();
+    cancelSpeech();
+    saveSessionState({
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      timer_active: false,
+      total_points: finalTotalPoints // Ensure total_points is accurate
+    });
+  };
+
+  // Save anything still buffered before leaving, so a failed save isn't left behind unnoticed
+  const handleExit = async () => {
+    if (quizSessionId) {
+      try {
+        await flushSessionState(quizSessionId);
+      } catch {
+        setSaveError(SAVE_ERROR_MESSAGE);
+        if (!window.confirm('Your latest progress could not be saved. Leave anyway?')) return;
+      }
     }
+    navigate(backUrl);
   };
 
   const calculateStats = () => {
@@ -449,6 +743,13 @@ export function QuizRunner({
     }
   };
 
+  const toggleReadAloud = () => {
+    if (readAloudSettings.enabled) {
+      cancelSpeech();
+    }
+    updateReadAloudSettings({ enabled: !readAloudSettings.enabled });
+  };
+
   const toggleFullScreen = () => {
     // Disable full screen on mobile devices (screen width < 640px)
     if (window.innerWidth < 640) {
@@ -496,14 +797,35 @@ export function QuizRunner({
     );
   }
 
+  // Competition rounds have their own answer sheet and judging flow
+  if (session.type === 'competition') {
+    return (
+      <Layout>
+        <CompetitionRunner
+          session={session}
+          onBack={() => navigate(backUrl)}
+          onRestart={() => navigate('/quiz/competition')}
+        />
+      </Layout>
+    );
+  }
+
   const currentQuestion = session.questions[session.current_question_index];
   const currentStats = calculateStats();
+  const undoableResult = undoableQuestionIndex !== null
+    ? session.results.find(r => r.questionId === session.questions[undoableQuestionIndex]?.id)
+    : undefined;
   const progressPercentage = session.results.length > 0 ? Math.round((currentStats.correctAnswers / session.results.length) * 100) : 0;
 
   // Completion screen
   if (quizCompleted) {
     return (
       <Layout hideHeaderAndSidebar={isFullScreen}>
+        {saveError && (
+          <div className="max-w-4xl mx-auto px-4 sm:px-6 pt-4">
+            <AlertMessage type="error" message={saveError} />
+          </div>
+        )}
         <QuizCompletion
           title={session.title}
           stats={currentStats}
@@ -511,8 +833,16 @@ export function QuizRunner({
           isFullScreen={isFullScreen}
           themeClasses={themeClasses}
           onRestart={restartQuiz}
-          onBack={() => navigate(backUrl)}
+          onBack={handleExit}
           formatTime={formatTime}
+          missedCount={getMissedQuestions(session).length}
+          onRetryMissed={() => startRetrySession(session)}
+          retrying={creatingRetry}
+          questions={session.questions}
+          results={session.results}
+          regradingQuestionId={regradingQuestionId}
+          // Once a coach has reviewed the quiz their grades are final
+          onRegrade={session.reviewed_at ? undefined : handleRegrade}
         />
       </Layout>
     );
@@ -532,11 +862,16 @@ export function QuizRunner({
           timerStarted={timerStarted}
           showAnswer={showAnswer}
           themeClasses={themeClasses}
-          onBack={() => navigate(backUrl)}
+          onBack={handleExit}
           onToggleFullScreen={toggleFullScreen}
           onToggleDarkMode={toggleDarkMode}
           onStartTimer={startTimer}
           formatTime={formatTime}
+          waitingToStart={waitingToStart}
+          readAloudEnabled={readAloudSettings.enabled}
+          readAloudAvailable={readAloudSupported && !readAloudLoading}
+          onToggleReadAloud={toggleReadAloud}
+          showTimer={timedMode}
         />
 
         <div className={`${isFullScreen ? 'pt-28 sm:pt-40 px-4 sm:px-6 pb-32 sm:pb-32' : 'p-4 sm:p-6'}`}>
@@ -550,6 +885,10 @@ export function QuizRunner({
                   isFullScreen={isFullScreen}
                   isDarkMode={isDarkMode}
                   themeClasses={themeClasses}
+                  answerMode={session.answer_mode}
+                  typedAnswer={typedAnswer}
+                  onTypedAnswerChange={setTypedAnswer}
+                  onSubmitTypedAnswer={handleSubmitTypedAnswer}
                 />
               ) : (
                 <QuizAnswer
@@ -557,32 +896,78 @@ export function QuizRunner({
                   isFullScreen={isFullScreen}
                   isDarkMode={isDarkMode}
                   themeClasses={themeClasses}
+                  typedAnswer={typedAnswer}
+                  grade={answerGrade}
                 />
               )}
             </div>
+
+            <LiveHostPanel
+              joinCode={liveHost.liveSession?.join_code || null}
+              isHosting={liveHost.isHosting}
+              canStartHosting={liveHost.canHost && session.results.length === 0 && session.current_question_index === 0 && !liveHost.liveSession}
+              starting={liveHost.starting}
+              error={liveHost.error}
+              hostState={liveHost.hostState}
+              questionPoints={Number(currentQuestion?.points) || 0}
+              showAnswer={showAnswer}
+              isLastQuestion={session.current_question_index >= session.questions.length - 1}
+              themeClasses={themeClasses}
+              onStartHosting={liveHost.startHosting}
+              onRevealAnswer={handleShowAnswer}
+              onAward={liveHost.setAward}
+              onAdvance={handleLiveAdvance}
+            />
+
+            {undoableQuestionIndex !== null && !liveHost.isHosting && undoableResult && (
+              <UndoGradeBar
+                questionNumber={undoableQuestionIndex + 1}
+                result={undoableResult}
+                themeClasses={themeClasses}
+                onUndo={handleUndoLastGrade}
+              />
+            )}
+
+            <OfflineSyncStatus
+              isOnline={isOnline}
+              syncing={syncing}
+              pendingSyncCount={pendingSyncCount}
+              themeClasses={themeClasses}
+            />
+
+            {saveError && (
+              <AlertMessage type="error" message={saveError} className="mt-4" />
+            )}
           </div>
         </div>
 
-        <QuizControls
-          isFullScreen={isFullScreen}
-          showAnswer={showAnswer}
-          hasTimeExpired={hasTimeExpired}
-          themeClasses={themeClasses}
-          onShowAnswer={handleShowAnswer}
-          onShowQuestion={handleShowQuestion}
-          onCorrect={handleCorrect}
-          onIncorrect={handleIncorrect}
-        />
+        {!liveHost.isHosting && (
+          <QuizControls
+            isFullScreen={isFullScreen}
+            showAnswer={showAnswer}
+            hasTimeExpired={hasTimeExpired}
+            themeClasses={themeClasses}
+            onShowAnswer={handleShowAnswer}
+            onShowQuestion={handleShowQuestion}
+            onCorrect={handleCorrect}
+            onIncorrect={handleIncorrect}
+            suggestedPoints={answerGrade ? answerGrade.suggestedPoints : null}
+            onAcceptSuggestion={handleAcceptSuggestion}
+          />
+        )}
 
         <PartialPointsModal
           isOpen={showPartialModal}
           questionPoints={currentQuestion?.points || 0}
           selectedPoints={partialPoints}
           onPointsChange={setPartialPoints}
-          onConfirm={handlePartialPoints}
+          onConfirm={() => handlePartialPoints()}
           onCancel={() => setShowPartialModal(false)}
           themeClasses={themeClasses}
           isFullScreen={isFullScreen}
+          components={currentQuestion && hasAnswerRubric(currentQuestion) ? getAnswerComponents(currentQuestion) : []}
+          earnedComponentIds={earnedComponentIds}
+          onToggleComponent={handleToggleComponent}
         />
       </div>
     </Layout>
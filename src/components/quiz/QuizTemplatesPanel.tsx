@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { Bookmark, Users, Play, Trash2, Save, Upload } from 'lucide-react';
+import { QuizTemplate } from '../../types';
+
+interface QuizTemplatesPanelProps {
+  myTemplates: QuizTemplate[];
+  teamTemplates: QuizTemplate[];
+  canPublish: boolean;
+  canSave: boolean;
+  saving: boolean;
+  error: string | null;
+  onApply: (template: QuizTemplate) => void;
+  onStart: (template: QuizTemplate) => void;
+  onSave: (name: string, publishToTeam: boolean) => Promise<boolean>;
+  onTogglePublished: (template: QuizTemplate) => void;
+  onDelete: (template: QuizTemplate) => void;
+}
+
+function describeTemplate(template: QuizTemplate): string {
+  const { chapters, count, ordering } = template.config;
+  const books = chapters.map(entry => entry.book).join(', ');
+  const chapterCount = chapters.reduce((sum, entry) => sum + entry.chapters.length, 0);
+  return `${books} · ${chapterCount} chapter${chapterCount !== 1 ? 's' : ''} · ${count} questions${ordering === 'reference' ? ' · in order' : ''}`;
+}
+
+export function QuizTemplatesPanel({
+  myTemplates,
+  teamTemplates,
+  canPublish,
+  canSave,
+  saving,
+  error,
+  onApply,
+  onStart,
+  onSave,
+  onTogglePublished,
+  onDelete
+}: QuizTemplatesPanelProps) {
+  const [name, setName] = useState('');
+  const [publishToTeam, setPublishToTeam] = useState(false);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    const saved = await onSave(name, publishToTeam);
+    if (saved) {
+      setName('');
+      setPublishToTeam(false);
+    }
+  };
+
+  const renderTemplate = (template: QuizTemplate, canManage: boolean) => (
+    <div key={template.id} className="flex items-center justify-between gap-3 p-3 bg-white border border-gray-200 rounded-lg">
+      <button onClick={() => onApply(template)} className="min-w-0 text-left" title="Load into the form">
+        <div className="flex items-center space-x-2">
+          <span className="font-medium text-gray-900 truncate">{template.name}</span>
+          {template.is_team_template && canManage && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-700">Team</span>
+          )}
+        </div>
+        <div className="text-xs text-gray-500 truncate">{describeTemplate(template)}</div>
+      </button>
+      <div className="flex items-center space-x-1 flex-shrink-0">
+        <button
+          onClick={() => onStart(template)}
+          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+          title="Start quiz"
+        >
+          <Play className="h-4 w-4" />
+        </button>
+        {canManage && canPublish && (
+          <button
+            onClick={() => onTogglePublished(template)}
+            className={`p-2 rounded-lg transition-colors duration-200 ${
+              template.is_team_template ? 'text-indigo-600 hover:bg-indigo-50' : 'text-gray-500 hover:bg-gray-100'
+            }`}
+            title={template.is_team_template ? 'Remove from team templates' : 'Publish to team'}
+          >
+            <Upload className="h-4 w-4" />
+          </button>
+        )}
+        {canManage && (
+          <button
+            onClick={() => onDelete(template)}
+            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+            title="Delete template"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 sm:p-6 mb-6 space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <div className="flex items-center space-x-2 mb-3">
+            <Bookmark className="h-4 w-4 text-blue-600" />
+            <h3 className="font-semibold text-gray-900">My Templates</h3>
+          </div>
+          {myTemplates.length === 0 ? (
+            <p className="text-sm text-gray-500">Save a selection below to reuse it later.</p>
+          ) : (
+            <div className="space-y-2">{myTemplates.map(template => renderTemplate(template, true))}</div>
+          )}
+        </div>
+
+        <div>
+          <div className="flex items-center space-x-2 mb-3">
+            <Users className="h-4 w-4 text-indigo-600" />
+            <h3 className="font-semibold text-gray-900">Team Templates</h3>
+          </div>
+          {teamTemplates.length === 0 ? (
+            <p className="text-sm text-gray-500">Your coaches haven't published any templates yet.</p>
+          ) : (
+            <div className="space-y-2">{teamTemplates.map(template => renderTemplate(template, canPublish))}</div>
+          )}
+        </div>
+      </div>
+
+      {canSave && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 pt-4 border-t border-gray-200">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Template name"
+            maxLength={100}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          />
+          {canPublish && (
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={publishToTeam}
+                onChange={(e) => setPublishToTeam(e.target.checked)}
+                className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              <span>Publish to team</span>
+            </label>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving || !name.trim()}
+            className="flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg text-sm font-medium hover:bg-blue-700 transition-colors duration-200 disabled:opacity-50"
+          >
+            <Save className="h-4 w-4" />
+            <span>{saving ? 'Saving...' : 'Save as Template'}</span>
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
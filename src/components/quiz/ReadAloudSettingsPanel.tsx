@@ -0,0 +1,146 @@
+import React from 'react';
+import { Volume2 } from 'lucide-react';
+import { useReadAloud } from '../../hooks/useReadAloud';
+import { READ_ALOUD_RATES } from '../../constants/readAloud';
+import { ReadAloudSettings } from '../../types';
+import { AlertMessage } from '../common/AlertMessage';
+import { InlineLoading } from '../common/LoadingSpinner';
+
+const SAMPLE_TEXT = 'For 2 points. In the beginning God created what?';
+
+interface ToggleRowProps {
+  title: string;
+  description: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: () => void;
+}
+
+function ToggleRow({ title, description, checked, disabled, onChange }: ToggleRowProps) {
+  return (
+    <div className="bg-gray-50 p-4 rounded-lg">
+      <div className="flex items-center justify-between">
+        <div className="pr-4">
+          <h3 className="font-medium text-gray-900">{title}</h3>
+          <p className="text-sm text-gray-600 mt-1">{description}</p>
+        </div>
+        <button
+          onClick={onChange}
+          disabled={disabled}
+          className={`relative inline-flex h-6 w-11 flex-shrink-0 items-center rounded-full transition-colors duration-200 disabled:opacity-50 ${
+            checked ? 'bg-indigo-600' : 'bg-gray-200'
+          }`}
+        >
+          <span
+            className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform duration-200 ${
+              checked ? 'translate-x-6' : 'translate-x-1'
+            }`}
+          />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function ReadAloudSettingsPanel() {
+  const { settings, voices, isSupported, speaking, loading, saving, error, updateSettings, speak, cancel } = useReadAloud();
+
+  const toggle = (key: keyof Pick<ReadAloudSettings, 'enabled' | 'readAnswers' | 'autoStartTimer'>) => {
+    updateSettings({ [key]: !settings[key] });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-2 text-gray-600">
+        <InlineLoading />
+        <span>Loading read-aloud settings...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl">
+      <h2 className="text-lg font-semibold text-gray-900 mb-6">Read Aloud</h2>
+
+      {!isSupported && (
+        <div className="mb-6">
+          <AlertMessage type="warning" message="This browser can't read text aloud. Your settings are saved and used on devices that can." />
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-6">
+          <AlertMessage type="error" message={error} />
+        </div>
+      )}
+
+      <div className="space-y-6">
+        <ToggleRow
+          title="Read questions aloud"
+          description="Each question is read out when it appears, like a quizmaster would."
+          checked={settings.enabled}
+          disabled={saving}
+          onChange={() => toggle('enabled')}
+        />
+        <ToggleRow
+          title="Read answers aloud"
+          description="Read the answer when it is revealed."
+          checked={settings.readAnswers}
+          disabled={saving}
+          onChange={() => toggle('readAnswers')}
+        />
+        <ToggleRow
+          title="Start timer after reading"
+          description="The answer timer starts by itself as soon as the question has been read."
+          checked={settings.autoStartTimer}
+          disabled={saving}
+          onChange={() => toggle('autoStartTimer')}
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Voice</label>
+            <select
+              value={settings.voiceURI || ''}
+              onChange={(e) => updateSettings({ voiceURI: e.target.value || null })}
+              disabled={saving || voices.length === 0}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50"
+            >
+              <option value="">Browser default</option>
+              {voices.map(voice => (
+                <option key={voice.uri} value={voice.uri}>
+                  {voice.name} ({voice.lang})
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Speed</label>
+            <select
+              value={settings.rate}
+              onChange={(e) => updateSettings({ rate: Number(e.target.value) })}
+              disabled={saving}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 disabled:opacity-50"
+            >
+              {READ_ALOUD_RATES.map(rate => (
+                <option key={rate} value={rate}>
+                  {rate === 1 ? 'Normal' : `${rate}x`}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {isSupported && (
+          <button
+            onClick={() => (speaking ? cancel() : speak(SAMPLE_TEXT))}
+            className="flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+          >
+            <Volume2 className="h-4 w-4" />
+            <span>{speaking ? 'Stop' : 'Try it'}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
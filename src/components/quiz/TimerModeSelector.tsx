@@ -0,0 +1,92 @@
+import React from 'react';
+import { Clock, BookOpen, Gauge, Zap } from 'lucide-react';
+import { QuizTimerMode, QuizTimerSettings } from '../../types';
+import { DEFAULT_SPRINT_SECONDS, TIMER_MULTIPLIER_OPTIONS } from '../../utils/timerModes';
+
+interface TimerModeSelectorProps {
+  value: QuizTimerSettings;
+  onChange: (settings: QuizTimerSettings) => void;
+  label?: string;
+}
+
+const TIMER_MODES: { value: QuizTimerMode; label: string; description: string; icon: typeof Clock }[] = [
+  { value: 'standard', label: 'Standard', description: 'Each question has its own clock', icon: Clock },
+  { value: 'untimed', label: 'Untimed', description: 'Study at your own pace', icon: BookOpen },
+  { value: 'multiplier', label: 'Adjusted Time', description: 'More or less time on every question', icon: Gauge },
+  { value: 'sprint', label: 'Sprint', description: 'Answer as many as you can on one clock', icon: Zap },
+];
+
+const SPRINT_MINUTE_OPTIONS = [2, 5, 10, 15];
+
+export function TimerModeSelector({ value, onChange, label = 'Timer' }: TimerModeSelectorProps) {
+  const handleModeChange = (mode: QuizTimerMode) => {
+    onChange({
+      mode,
+      multiplier: mode === 'multiplier' ? value.multiplier || TIMER_MULTIPLIER_OPTIONS[0] : undefined,
+      sprintSeconds: mode === 'sprint' ? value.sprintSeconds || DEFAULT_SPRINT_SECONDS : undefined,
+    });
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-3">
+        {label}
+      </label>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {TIMER_MODES.map((mode) => (
+          <button
+            key={mode.value}
+            onClick={() => handleModeChange(mode.value)}
+            className={`p-4 rounded-lg border-2 text-left transition-all duration-200 ${
+              value.mode === mode.value
+                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex items-center space-x-2 font-medium">
+              <mode.icon className="h-4 w-4" />
+              <span>{mode.label}</span>
+            </div>
+            <div className="text-sm text-gray-500 mt-1">{mode.description}</div>
+          </button>
+        ))}
+      </div>
+
+      {value.mode === 'multiplier' && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {TIMER_MULTIPLIER_OPTIONS.map((multiplier) => (
+            <button
+              key={multiplier}
+              onClick={() => onChange({ ...value, multiplier })}
+              className={`px-3 py-1.5 rounded-lg border text-sm font-medium transition-colors duration-200 ${
+                value.multiplier === multiplier
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {multiplier}x
+            </button>
+          ))}
+        </div>
+      )}
+
+      {value.mode === 'sprint' && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {SPRINT_MINUTE_OPTIONS.map((minutes) => (
+            <button
+              key={minutes}
+              onClick={() => onChange({ ...value, sprintSeconds: minutes * 60 })}
+              className={`px-3 py-1.5 rounded-lg border text-sm font-medium transition-colors duration-200 ${
+                value.sprintSeconds === minutes * 60
+                  ? 'border-blue-500 bg-blue-50 text-blue-700'
+                  : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {minutes} min
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Undo2 } from 'lucide-react';
+import { QuizResult } from '../../types';
+
+interface UndoGradeBarProps {
+  questionNumber: number;
+  result: QuizResult;
+  themeClasses: any;
+  onUndo: () => void;
+}
+
+export function UndoGradeBar({
+  questionNumber,
+  result,
+  themeClasses,
+  onUndo
+}: UndoGradeBarProps) {
+  const grade = result.pointsEarned === result.totalPoints
+    ? 'correct'
+    : result.pointsEarned > 0
+      ? `${result.pointsEarned} of ${result.totalPoints} points`
+      : 'incorrect';
+
+  return (
+    <div className={`mt-4 rounded-xl border ${themeClasses.border} px-4 py-3 flex items-center justify-between space-x-3`}>
+      <p className={`text-sm ${themeClasses.textSecondary}`}>
+        Question {questionNumber} marked {grade}.
+      </p>
+      <button
+        onClick={onUndo}
+        className="flex items-center space-x-1 text-sm font-medium text-indigo-600 hover:text-indigo-800 transition-colors duration-200 flex-shrink-0"
+      >
+        <Undo2 className="h-4 w-4" />
+        <span>Undo</span>
+      </button>
+    </div>
+  );
+}
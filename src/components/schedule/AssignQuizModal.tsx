@@ -0,0 +1,320 @@
+import React, { useState, useMemo } from 'react';
+import { Modal } from '../common/Modal';
+import { Question, QuizAnswerMode, QuizTimerSettings, TeamMemberForSchedule } from '../../types';
+import { getAvailableBooksFromQuestions, getChaptersForBook } from '../../utils/quizUtils';
+import { Users, Check, Plus, ArrowUp, ArrowDown, X, ClipboardList } from 'lucide-react';
+import { formatQuestionReference } from '../../utils/verseReferences';
+import { DEFAULT_TIMER_SETTINGS } from '../../utils/timerModes';
+import { TimerModeSelector } from '../quiz/TimerModeSelector';
+
+interface AssignQuizModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teamMembers: TeamMemberForSchedule[];
+  questions: Question[];
+  saving: boolean;
+  error: string | null;
+  onAssign: (input: {
+    title: string;
+    description?: string;
+    questions: Question[];
+    dueAt: Date;
+    memberIds: string[];
+    answerMode: QuizAnswerMode;
+    timer: QuizTimerSettings;
+  }) => Promise<boolean>;
+}
+
+// Default the due date to a week from now at the end of the day
+const getDefaultDueDate = (): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + 7);
+  date.setHours(23, 59, 0, 0);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export function AssignQuizModal({
+  isOpen,
+  onClose,
+  teamMembers,
+  questions,
+  saving,
+  error,
+  onAssign
+}: AssignQuizModalProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [dueAt, setDueAt] = useState(getDefaultDueDate);
+  const [answerMode, setAnswerMode] = useState<QuizAnswerMode>('self-graded');
+  const [timerSettings, setTimerSettings] = useState<QuizTimerSettings>(DEFAULT_TIMER_SETTINGS);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [selectedQuestions, setSelectedQuestions] = useState<Question[]>([]);
+  const [currentBook, setCurrentBook] = useState('');
+  const [currentChapter, setCurrentChapter] = useState<number | null>(null);
+
+  const availableBooks = useMemo(() => getAvailableBooksFromQuestions(questions), [questions]);
+  const availableChapters = currentBook ? getChaptersForBook(currentBook, questions) : [];
+  const selectedIds = new Set(selectedQuestions.map(q => q.id));
+  const chapterQuestions = questions.filter(q =>
+    q.book_of_bible === currentBook && q.chapter === currentChapter && !selectedIds.has(q.id)
+  );
+
+  const totalPoints = selectedQuestions.reduce((sum, q) => sum + q.points, 0);
+  const totalSeconds = selectedQuestions.reduce((sum, q) => sum + q.time_to_answer, 0);
+  const canAssign = title.trim() && dueAt && memberIds.length > 0 && selectedQuestions.length > 0;
+
+  const handleMemberToggle = (userId: string) => {
+    setMemberIds(prev => prev.includes(userId) ? prev.filter(id => id !== userId) : [...prev, userId]);
+  };
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    setSelectedQuestions(prev => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const updateTimeLimit = (questionId: string, seconds: number) => {
+    setSelectedQuestions(prev => prev.map(q =>
+      q.id === questionId ? { ...q, time_to_answer: Math.max(5, Math.min(600, seconds || 5)) } : q
+    ));
+  };
+
+  const handleAssign = async () => {
+    if (!canAssign) return;
+    const assigned = await onAssign({
+      title,
+      description,
+      questions: selectedQuestions,
+      dueAt: new Date(dueAt),
+      memberIds,
+      answerMode,
+      timer: timerSettings,
+    });
+    if (assigned) onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Assign a Quiz"
+      maxWidth="4xl"
+      footer={
+        <>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleAssign}
+            disabled={!canAssign || saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50"
+          >
+            <ClipboardList className="h-4 w-4" />
+            <span>{saving ? 'Assigning...' : `Assign to ${memberIds.length} Member${memberIds.length !== 1 ? 's' : ''}`}</span>
+          </button>
+        </>
+      }
+    >
+      <div className="space-y-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={100}
+              placeholder="e.g. Daniel 1-3 Practice Round"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Due</label>
+            <input
+              type="datetime-local"
+              value={dueAt}
+              onChange={(e) => setDueAt(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Answer Mode</label>
+            <select
+              value={answerMode}
+              onChange={(e) => setAnswerMode(e.target.value as QuizAnswerMode)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+            >
+              <option value="self-graded">Self-graded</option>
+              <option value="typed">Typed answers</option>
+            </select>
+          </div>
+        </div>
+
+        <TimerModeSelector value={timerSettings} onChange={setTimerSettings} />
+
+        {/* Members */}
+        <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-md font-semibold text-gray-900 flex items-center space-x-2">
+              <Users className="h-5 w-5 text-gray-600" />
+              <span>Assign To</span>
+            </h3>
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => setMemberIds(teamMembers.map(m => m.userId))}
+                className="text-xs text-indigo-600 hover:text-indigo-700 font-medium"
+              >
+                Select All
+              </button>
+              <button
+                type="button"
+                onClick={() => setMemberIds([])}
+                className="text-xs text-gray-600 hover:text-gray-700 font-medium"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 max-h-40 overflow-y-auto">
+            {teamMembers.map(member => (
+              <button
+                key={member.userId}
+                type="button"
+                onClick={() => handleMemberToggle(member.userId)}
+                className={`flex items-center justify-between p-2 rounded-lg border-2 text-left text-sm transition-all duration-200 ${
+                  memberIds.includes(member.userId)
+                    ? 'border-indigo-500 bg-indigo-50'
+                    : 'border-gray-200 hover:border-gray-300 hover:bg-white'
+                }`}
+              >
+                <span className="font-medium text-gray-900 truncate">{member.user.name}</span>
+                {memberIds.includes(member.userId) && <Check className="h-4 w-4 text-indigo-600 flex-shrink-0" />}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Questions */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="text-md font-semibold text-gray-900 mb-3">Add Questions</h3>
+            <div className="flex space-x-2 mb-3">
+              <select
+                value={currentBook}
+                onChange={(e) => {
+                  setCurrentBook(e.target.value);
+                  setCurrentChapter(null);
+                }}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none"
+              >
+                <option value="">Book...</option>
+                {availableBooks.map(book => <option key={book} value={book}>{book}</option>)}
+              </select>
+              <select
+                value={currentChapter ?? ''}
+                onChange={(e) => setCurrentChapter(e.target.value ? Number(e.target.value) : null)}
+                disabled={!currentBook}
+                className="w-28 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none disabled:opacity-50"
+              >
+                <option value="">Chapter</option>
+                {availableChapters.map(chapter => <option key={chapter} value={chapter}>{chapter}</option>)}
+              </select>
+            </div>
+            {currentChapter !== null && chapterQuestions.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setSelectedQuestions(prev => [...prev, ...chapterQuestions])}
+                className="text-xs text-indigo-600 hover:text-indigo-700 font-medium mb-2"
+              >
+                Add all {chapterQuestions.length}
+              </button>
+            )}
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {chapterQuestions.map(question => (
+                <div key={question.id} className="flex items-start justify-between gap-2 p-2 border border-gray-200 rounded-lg">
+                  <p className="text-sm text-gray-900">{question.question}</p>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedQuestions(prev => [...prev, question])}
+                    className="p-1 text-indigo-600 hover:bg-indigo-50 rounded flex-shrink-0"
+                    title="Add question"
+                  >
+                    <Plus className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-md font-semibold text-gray-900">Quiz Order</h3>
+              <span className="text-sm text-gray-500">
+                {selectedQuestions.length} questions · {totalPoints} pts · ~{Math.ceil(totalSeconds / 60)} min
+              </span>
+            </div>
+            {selectedQuestions.length === 0 ? (
+              <p className="text-sm text-gray-500">Questions you add are asked in this order.</p>
+            ) : (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {selectedQuestions.map((question, index) => (
+                  <div key={question.id} className="flex items-center gap-2 p-2 border border-gray-200 rounded-lg">
+                    <span className="text-xs font-medium text-gray-500 w-5">{index + 1}.</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{question.question}</p>
+                      <p className="text-xs text-gray-500">{formatQuestionReference(question)} · {question.points} pts</p>
+                    </div>
+                    <input
+                      type="number"
+                      min={5}
+                      max={600}
+                      value={question.time_to_answer}
+                      onChange={(e) => updateTimeLimit(question.id, parseInt(e.target.value))}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                      aria-label={`Seconds to answer question ${index + 1}`}
+                      title="Seconds to answer"
+                    />
+                    <button type="button" onClick={() => moveQuestion(index, -1)} className="p-1 text-gray-500 hover:text-gray-900" title="Move up">
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button type="button" onClick={() => moveQuestion(index, 1)} className="p-1 text-gray-500 hover:text-gray-900" title="Move down">
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedQuestions(prev => prev.filter(q => q.id !== question.id))}
+                      className="p-1 text-red-500 hover:text-red-700"
+                      title="Remove"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { ClipboardList, Play, Trash2, Plus, ChevronDown, ChevronUp, Clock } from 'lucide-react';
+import { AssignedQuiz, AssignedQuizStatus, TeamMemberForSchedule } from '../../types';
+import { QuizPacketActions } from '../quiz/QuizPacketActions';
+
+interface AssignedQuizzesListProps {
+  quizzes: AssignedQuiz[];
+  currentUserId?: string;
+  canManage: boolean;
+  teamMembers?: TeamMemberForSchedule[];
+  starting?: boolean;
+  getMemberStatus: (quiz: AssignedQuiz, userId: string) => AssignedQuizStatus;
+  onStart: (quiz: AssignedQuiz) => void;
+  onAssign?: () => void;
+  onDelete?: (quiz: AssignedQuiz) => void;
+}
+
+const STATUS_STYLES: Record<AssignedQuizStatus, { label: string; className: string }> = {
+  'not-started': { label: 'Not started', className: 'bg-gray-100 text-gray-700' },
+  'in-progress': { label: 'In progress', className: 'bg-blue-100 text-blue-700' },
+  'completed': { label: 'Completed', className: 'bg-green-100 text-green-700' },
+  'completed-late': { label: 'Completed late', className: 'bg-amber-100 text-amber-800' },
+  'overdue': { label: 'Overdue', className: 'bg-red-100 text-red-700' },
+};
+
+function StatusBadge({ status }: { status: AssignedQuizStatus }) {
+  const style = STATUS_STYLES[status];
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${style.className}`}>
+      {style.label}
+    </span>
+  );
+}
+
+export function AssignedQuizzesList({
+  quizzes,
+  currentUserId,
+  canManage,
+  teamMembers = [],
+  starting = false,
+  getMemberStatus,
+  onStart,
+  onAssign,
+  onDelete
+}: AssignedQuizzesListProps) {
+  const [expandedQuizId, setExpandedQuizId] = useState<string | null>(null);
+  const memberNames = new Map(teamMembers.map(member => [member.userId, member.user.name]));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-4 sm:p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <ClipboardList className="h-5 w-5 text-indigo-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Assigned Quizzes</h2>
+        </div>
+        {canManage && onAssign && (
+          <button
+            onClick={onAssign}
+            className="flex items-center space-x-2 px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700 transition-colors duration-200"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Assign Quiz</span>
+          </button>
+        )}
+      </div>
+
+      {quizzes.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {canManage ? 'Assign a fixed quiz so every member answers the same questions.' : 'No quizzes have been assigned to you.'}
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {quizzes.map(quiz => {
+            const isAssignedToMe = !!currentUserId && quiz.members.some(member => member.user_id === currentUserId);
+            const myStatus = isAssignedToMe ? getMemberStatus(quiz, currentUserId!) : null;
+            const completedCount = quiz.members.filter(member => member.completed_at).length;
+            const isExpanded = expandedQuizId === quiz.id;
+
+            return (
+              <div key={quiz.id} className="py-3">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900 truncate">{quiz.title}</span>
+                      {myStatus && <StatusBadge status={myStatus} />}
+                    </div>
+                    <div className="flex items-center space-x-3 text-xs text-gray-500 mt-1">
+                      <span className="flex items-center space-x-1">
+                        <Clock className="h-3 w-3" />
+                        <span>Due {new Date(quiz.due_at).toLocaleString()}</span>
+                      </span>
+                      <span>{quiz.questions.length} questions</span>
+                      {canManage && <span>{completedCount}/{quiz.members.length} completed</span>}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    {myStatus && myStatus !== 'completed' && myStatus !== 'completed-late' && (
+                      <button
+                        onClick={() => onStart(quiz)}
+                        disabled={starting}
+                        className="flex items-center space-x-1 px-3 py-1.5 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 transition-colors duration-200 disabled:opacity-50"
+                      >
+                        <Play className="h-4 w-4" />
+                        <span>{myStatus === 'in-progress' ? 'Resume' : 'Start'}</span>
+                      </button>
+                    )}
+                    {canManage && (
+                      <button
+                        onClick={() => setExpandedQuizId(isExpanded ? null : quiz.id)}
+                        className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg"
+                        title="Member status"
+                      >
+                        {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </button>
+                    )}
+                    {canManage && onDelete && (
+                      <button
+                        onClick={() => onDelete(quiz)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                        title="Delete assigned quiz"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {canManage && isExpanded && (
+                  <div className="mt-3 space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                      {quiz.members.map(member => (
+                        <div key={member.user_id} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                          <span className="text-gray-900 truncate">{memberNames.get(member.user_id) || 'Member'}</span>
+                          <StatusBadge status={getMemberStatus(quiz, member.user_id)} />
+                        </div>
+                      ))}
+                    </div>
+                    {/* The same fixed questions can be run on paper */}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <QuizPacketActions title={quiz.title} questions={quiz.questions} />
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -421,7 +421,7 @@ export function AssignmentModal({
                 </>
               ) : (
                 <div className="text-sm text-gray-500 p-3 bg-gray-50 rounded-lg">
-                  No verses available for {currentBook} Chapter {currentChapters[0]}. Questions need to be added for this chapter.
+                  No verses available for {currentBook} Chapter {currentChapters[0]}. Questions in this chapter need verse references before verses can be assigned.
                 </div>
               )}
             </div>
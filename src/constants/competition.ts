@@ -0,0 +1,19 @@
+import { CompetitionPlacementTier } from '../types';
+
+/**
+ * Official Pathfinder Bible Experience round settings used by competition simulation
+ */
+
+// Questions asked in a single competition round
+export const COMPETITION_QUESTION_COUNT = 90;
+
+// Seconds a team has to write its answer after a question is read
+export const COMPETITION_ANSWER_SECONDS = 30;
+
+// Placement cutoffs by percentage of possible points, highest first
+export const COMPETITION_PLACEMENT_TIERS: CompetitionPlacementTier[] = [
+  { placement: 'first', label: 'First Place', minPercentage: 90 },
+  { placement: 'second', label: 'Second Place', minPercentage: 80 },
+  { placement: 'third', label: 'Third Place', minPercentage: 70 },
+  { placement: 'participation', label: 'Participation', minPercentage: 0 },
+];
@@ -0,0 +1,29 @@
+import { QuickStartStrategy } from '../types';
+
+/**
+ * Quick Start question selection settings
+ */
+
+// Most questions asked in a single Quick Start session
+export const QUICK_START_MAX_QUESTIONS = 90;
+
+export const DEFAULT_QUICK_START_STRATEGY: QuickStartStrategy = 'balanced';
+
+// Selectable strategies, in the order coaches see them
+export const QUICK_START_STRATEGIES: { id: QuickStartStrategy; label: string; description: string }[] = [
+  {
+    id: 'balanced',
+    label: 'Balanced coverage',
+    description: 'Spreads questions across every book and chapter, favoring ones not seen recently.',
+  },
+  {
+    id: 'weak-areas',
+    label: 'Weak areas focus',
+    description: 'Leans on chapters with the lowest past accuracy and harder questions.',
+  },
+  {
+    id: 'random',
+    label: 'Pure random',
+    description: 'Every accessible question is equally likely.',
+  },
+];
@@ -0,0 +1,15 @@
+import { ReadAloudSettings } from '../types';
+
+/**
+ * Read-aloud settings used until a member saves their own
+ */
+export const DEFAULT_READ_ALOUD_SETTINGS: ReadAloudSettings = {
+  enabled: false,
+  readAnswers: false,
+  voiceURI: null,
+  rate: 1,
+  autoStartTimer: true,
+};
+
+// Speaking rates offered in settings; 1 is the voice's normal speed
+export const READ_ALOUD_RATES = [0.75, 0.9, 1, 1.1, 1.25, 1.5];
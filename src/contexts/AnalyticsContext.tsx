@@ -1,5 +1,5 @@
 import React, { createContext, useContext, ReactNode } from 'react';
-import { User, TeamMemberForSchedule } from '../types';
+import { User, TeamMemberForSchedule, AssignedQuiz, ReviewCoverageRow } from '../types';
 
 export interface AnalyticsContextType {
   // User and team data
@@ -28,6 +28,11 @@ export interface AnalyticsContextType {
   knowledgeGapsData: any;
   knowledgeGapsLoading: boolean;
   knowledgeGapsError: string | null;
+
+  // Flashcard reviews vs quiz results
+  reviewCoverageData: ReviewCoverageRow[];
+  reviewCoverageLoading: boolean;
+  reviewCoverageError: string | null;
   
   // Progression data
   progressionData: any;
@@ -65,6 +70,11 @@ export interface AnalyticsContextType {
   bookChapterLoading: boolean;
   bookChapterError: string | null;
   
+  // Assigned quizzes
+  assignedQuizzes: AssignedQuiz[];
+  assignedQuizzesLoading: boolean;
+  assignedQuizzesError: string | null;
+  
   // Computed values
   selectedMemberInfo: TeamMemberForSchedule | undefined;
 }
@@ -1,6 +1,8 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, useMemo, ReactNode } from 'react';
 import { supabase } from '../lib/supabase';
-import { Question, QuestionContextType } from '../types';
+import { Question, QuestionContextType, QuestionRevision, QuestionStatus } from '../types';
+import { getRevertUpdate } from '../utils/questionRevisions';
+import { getQuizQuestionPool, isQuestionBankEntry, isTeamQuestion } from '../utils/teamQuestions';
 import { useAuth } from './AuthContext';
 
 const QuestionContext = createContext<QuestionContextType | undefined>(undefined);
@@ -8,7 +10,9 @@ const QuestionContext = createContext<QuestionContextType | undefined>(undefined
 export function QuestionProvider({ children }: { children: ReactNode }) {
   const [questions, setQuestions] = useState<Question[]>([]);
   const [loading, setLoading] = useState(false);
+  const [includeTeamQuestions, setIncludeTeamQuestions] = useState(true);
   const { user, developerLog, loading: authLoading } = useAuth();
+  const teamId = user?.teamId;
 
   const fetchQuestions = useCallback(async () => {
     if (authLoading) {
@@ -50,6 +54,24 @@ export function QuestionProvider({ children }: { children: ReactNode }) {
     }
   }, [authLoading, fetchQuestions]);
 
+  // Whether the team's own questions go into its members' quizzes
+  React.useEffect(() => {
+    if (!teamId) return;
+
+    supabase
+      .from('teams')
+      .select('include_team_questions')
+      .eq('id', teamId)
+      .single()
+      .then(({ data, error }) => {
+        if (error) {
+          developerLog('⚠️ Could not load team question setting:', error);
+          return;
+        }
+        setIncludeTeamQuestions(data?.include_team_questions ?? true);
+      });
+  }, [teamId, developerLog]);
+
   const createQuestion = useCallback(async (questionData: Omit<Question, 'id' | 'created_at' | 'updated_at' | 'created_by'>) => {
     if (!user) throw new Error('User not authenticated');
 
@@ -78,6 +100,43 @@ export function QuestionProvider({ children }: { children: ReactNode }) {
     }
   }, [user]);
 
+  const importQuestions = useCallback(async (
+    newQuestions: Omit<Question, 'id' | 'created_at' | 'updated_at' | 'created_by'>[],
+    updatedQuestions: Omit<Question, 'created_at' | 'updated_at' | 'created_by'>[] = []
+  ) => {
+    if (!user) throw new Error('User not authenticated');
+    if (newQuestions.length === 0 && updatedQuestions.length === 0) return 0;
+
+    try {
+      developerLog('📥 Importing', newQuestions.length, 'new and', updatedQuestions.length, 'updated questions...');
+
+      const { data, error } = await supabase.rpc('import_questions', {
+        p_new_questions: newQuestions,
+        p_updated_questions: updatedQuestions,
+      });
+
+      if (error) {
+        developerLog('❌ Error importing questions:', error);
+        throw error;
+      }
+
+      const saved: Question[] = data || [];
+      const savedById = new Map(saved.map(question => [question.id, question]));
+      developerLog('✅ Questions imported successfully:', saved.length);
+      setQuestions(prev => {
+        const existingIds = new Set(prev.map(q => q.id));
+        return [
+          ...saved.filter(question => !existingIds.has(question.id)),
+          ...prev.map(q => savedById.get(q.id) || q),
+        ];
+      });
+      return saved.length;
+    } catch (error) {
+      developerLog('💥 Error importing questions:', error);
+      throw error;
+    }
+  }, [user, developerLog]);
+
   const updateQuestion = useCallback(async (id: string, questionData: Partial<Question>) => {
     try {
       developerLog('📝 Updating question:', id);
@@ -102,6 +161,104 @@ export function QuestionProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  const fetchQuestionRevisions = useCallback(async (questionId: string): Promise<QuestionRevision[]> => {
+    developerLog('📜 Fetching revisions for question:', questionId);
+
+    const { data, error } = await supabase
+      .from('question_revisions')
+      .select('*')
+      .eq('question_id', questionId)
+      .order('revision', { ascending: false });
+
+    if (error) {
+      developerLog('❌ Error fetching question revisions:', error);
+      throw error;
+    }
+
+    const revisions: QuestionRevision[] = data || [];
+    const editorIds = [...new Set(revisions.map(revision => revision.changed_by).filter((id): id is string => !!id))];
+    if (editorIds.length === 0) return revisions;
+
+    // Names are a nicety; the history is still shown without them
+    const { data: profiles, error: profilesError } = await supabase
+      .from('user_profiles')
+      .select('id, name')
+      .in('id', editorIds);
+
+    if (profilesError) developerLog('⚠️ Could not load revision authors:', profilesError);
+
+    const names = new Map((profiles || []).map(profile => [profile.id, profile.name]));
+    return revisions.map(revision => ({
+      ...revision,
+      changed_by_name: revision.changed_by ? names.get(revision.changed_by) ?? null : null,
+    }));
+  }, [developerLog]);
+
+  // Saves the old content as a new revision, so the history is kept
+  const revertQuestion = useCallback(async (revision: QuestionRevision) => {
+    developerLog('⏪ Reverting question', revision.question_id, 'to revision', revision.revision);
+    await updateQuestion(revision.question_id, getRevertUpdate(revision));
+  }, [developerLog, updateQuestion]);
+
+  const setQuestionStatus = useCallback(async (id: string, status: QuestionStatus, reviewNote: string | null = null) => {
+    developerLog('🚦 Setting question', id, 'status to', status);
+    await updateQuestion(id, { status, review_note: reviewNote });
+  }, [developerLog, updateQuestion]);
+
+  const reviewTeamQuestion = useCallback(async (id: string, accept: boolean, note: string | null = null) => {
+    developerLog('🏷️ Reviewing team question', id, accept ? 'accepted' : 'declined');
+
+    const { data, error } = await supabase.rpc('review_team_question', {
+      p_question_id: id,
+      p_accept: accept,
+      p_note: note,
+    });
+
+    if (error) {
+      developerLog('❌ Error reviewing team question:', error);
+      throw error;
+    }
+
+    // A declined question goes back to the team and is no longer readable by reviewers outside it
+    setQuestions(prev => accept || data?.team_id === teamId
+      ? prev.map(q => q.id === id ? data : q)
+      : prev.filter(q => q.id !== id));
+  }, [developerLog, teamId]);
+
+  const updateIncludeTeamQuestions = useCallback(async (include: boolean) => {
+    if (!teamId) return;
+
+    const { error } = await supabase.rpc('set_team_questions_included', {
+      p_team_id: teamId,
+      p_included: include,
+    });
+
+    if (error) {
+      developerLog('❌ Error updating team question setting:', error);
+      throw error;
+    }
+
+    setIncludeTeamQuestions(include);
+  }, [developerLog, teamId]);
+
+  const mergeQuestions = useCallback(async (keepId: string, removeId: string) => {
+    developerLog('🔀 Merging question', removeId, 'into', keepId);
+
+    const { data, error } = await supabase.rpc('merge_questions', {
+      p_keep_id: keepId,
+      p_remove_id: removeId,
+    });
+
+    if (error) {
+      developerLog('❌ Error merging questions:', error);
+      throw error;
+    }
+
+    developerLog('✅ Questions merged, logs moved:', data);
+    setQuestions(prev => prev.filter(q => q.id !== removeId));
+    return data ?? 0;
+  }, [developerLog]);
+
   const deleteQuestion = useCallback(async (id: string) => {
     try {
       developerLog('🗑️ Deleting question:', id);
@@ -124,12 +281,32 @@ export function QuestionProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  const bankQuestions = useMemo(() => questions.filter(isQuestionBankEntry), [questions]);
+  const teamQuestions = useMemo(
+    () => questions.filter(q => isTeamQuestion(q) && q.team_id === teamId),
+    [questions, teamId]
+  );
+  const publishedQuestions = useMemo(
+    () => getQuizQuestionPool(questions, teamId, includeTeamQuestions),
+    [questions, teamId, includeTeamQuestions]
+  );
+
   const value: QuestionContextType = {
-    questions,
+    questions: bankQuestions,
+    teamQuestions,
+    publishedQuestions,
+    includeTeamQuestions,
     loading,
     fetchQuestions,
     createQuestion,
+    importQuestions,
     updateQuestion,
+    fetchQuestionRevisions,
+    revertQuestion,
+    setQuestionStatus,
+    reviewTeamQuestion,
+    updateIncludeTeamQuestions,
+    mergeQuestions,
     deleteQuestion,
   };
 
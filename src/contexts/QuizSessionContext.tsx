@@ -1,12 +1,14 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { supabase } from '../lib/supabase';
-import { QuizSession, QuizSessionContextType } from '../types';
+import { cacheSession, replaceCachedSessions, getCachedSessions, enqueueMutation, getQueuedMutations, removeMutations } from '../lib/offlineStore';
+import { QuizSession, QuizSessionContextType, QuizQuestionLogInsert } from '../types';
 import { useAuth } from './AuthContext';
 import { calculateStudyStreak, calculateLongestStudyStreak } from '../utils/quizHelpers';
 import { useNotification } from './NotificationContext';
 import { checkAndMarkAssignmentCompleted } from '../utils/assignmentUpdates';
 import { XP_PER_LEVEL, calculateLevel } from '../constants/gamification';
 import { isSameDay, getUtcMidnight } from '../utils/dateUtils';
+import { isNetworkError, collectSessionUpdates, resolveOfflineSessionUpdates, replayQueuedWrites } from '../utils/offlineSync';
 
 // Add missing type definition
 interface QuizResult {
@@ -40,6 +42,36 @@ interface UserAchievement {
   unlocked_at: string;
 }
 
+// An answer log waiting to sync, with the queued writes it came from
+interface QueuedLog {
+  log: QuizQuestionLogInsert;
+  mutationIds: number[];
+}
+
+// Members can't update their logs directly; a regrade goes through regrade_question_log,
+// which only changes the grade and refuses once a coach has reviewed the quiz.
+// A log that hasn't reached the server yet is inserted with the new grade instead.
+async function writeRegradedLog(log: QuizQuestionLogInsert): Promise<void> {
+  const { data: updated, error } = await supabase.rpc('regrade_question_log', {
+    p_client_log_id: log.client_log_id,
+    p_points_earned: log.points_earned,
+    p_typed_answer: log.typed_answer ?? null,
+    p_auto_graded_points: log.auto_graded_points ?? null,
+    p_similarity_score: log.similarity_score ?? null,
+    p_component_results: log.component_results ?? null,
+    p_regraded_at: log.regraded_at ?? null,
+  });
+
+  if (error) throw error;
+  if (updated) return;
+
+  const { error: insertError } = await supabase
+    .from('quiz_question_logs')
+    .upsert([log], { onConflict: 'client_log_id', ignoreDuplicates: true });
+
+  if (insertError) throw insertError;
+}
+
 // Bonus XP for completing study assignments on time
 const STUDY_SCHEDULE_BONUS_XP = 10;
 
@@ -47,13 +79,18 @@ const QuizSessionContext = createContext<QuizSessionContextType | undefined>(und
 
 export function QuizSessionProvider({ children }: { children: ReactNode }) {
   const [sessions, setSessions] = useState<QuizSession[]>([]);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const syncInProgressRef = useRef(false);
   const { user, developerLog, refreshUser } = useAuth();
   const { showNotification } = useNotification();
 
-  // Load sessions from Supabase when user changes
+  // Load sessions from Supabase when user changes, after replaying anything
+  // left over from an offline visit
   useEffect(() => {
     if (user) {
-      loadUserSessions();
+      syncOfflineQueue().finally(() => loadUserSessions());
     } else {
       setSessions([]);
     }
@@ -71,11 +108,34 @@ export function QuizSessionProvider({ children }: { children: ReactNode }) {
 
       if (error) throw error;
 
-      setSessions(data || []);
+      // Changes still waiting to sync are newer than the server copy
+      const queuedMutations = await getQueuedMutations(user.id).catch(() => []);
+      const pendingUpdates = collectSessionUpdates(queuedMutations);
+      const loadedSessions: QuizSession[] = (data || []).map(session => {
+        const pending = pendingUpdates.get(session.id);
+        return pending ? { ...session, ...pending.updates } : session;
+      });
+
+      setSessions(loadedSessions);
+      setPendingSyncCount(queuedMutations.length);
+
+      // Active sessions carry their questions, so caching them lets the runner work offline
+      replaceCachedSessions(user.id, loadedSessions.filter(session => session.status === 'active'))
+        .catch(cacheError => developerLog('⚠️ Could not cache quiz sessions for offline use:', cacheError));
     } catch (error) {
       console.error('Error loading quiz sessions:', error);
+
+      if (isNetworkError(error)) {
+        try {
+          const cachedSessions = await getCachedSessions(user.id);
+          developerLog('📴 Offline, loaded', cachedSessions.length, 'cached quiz sessions');
+          setSessions(cachedSessions);
+        } catch (cacheError) {
+          developerLog('⚠️ Could not load cached quiz sessions:', cacheError);
+        }
+      }
     }
-  }, [user]);
+  }, [user, developerLog]);
 
   const createQuizSession = useCallback(async (sessionData: Omit<QuizSession, 'id' | 'created_at' | 'updated_at'>): Promise<string> => {
     if (!user) throw new Error('User not authenticated');
@@ -98,6 +158,8 @@ export function QuizSessionProvider({ children }: { children: ReactNode }) {
 
       // Add to local state
       setSessions(prev => [data, ...prev]);
+
+      cacheSession(data).catch(cacheError => developerLog('⚠️ Could not cache quiz session for offline use:', cacheError));
       
       return data.id;
     } catch (error) {
@@ -213,7 +275,8 @@ export function QuizSessionProvider({ children }: { children: ReactNode }) {
   };
 
   // Helper to update user stats with proper transaction handling
-  const updateUserStats = async (pointsEarned: number, bonusXp: number): Promise<void> => {
+  // A regrade recalculates XP and level without counting as a day of study
+  const updateUserStats = async (pointsEarned: number, bonusXp: number, isRegrade = false): Promise<void> => {
     if (!user) return;
 
     try {
@@ -280,7 +343,7 @@ export function QuizSessionProvider({ children }: { children: ReactNode }) {
         total_xp: newTotalXp,
         current_level: newCurrentLevel,
         longest_streak: trueHistoricalLongestStreak,
-        last_quiz_date: new Date().toISOString().split('T')[0],
+        ...(isRegrade ? {} : { last_quiz_date: new Date().toISOString().split('T')[0] }),
       };
 
       developerLog('💾 About to upsert user stats:', statsToUpsert);
@@ -394,116 +457,187 @@ export function QuizSessionProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const updateQuizSession = useCallback(async (sessionId: string, updates: Partial<QuizSession>): Promise<void> => {
-    // Input validation
-    if (!sessionId) throw new Error('Session ID is required');
-    if (!updates) throw new Error('Updates object is required');
-    if (!user) throw new Error('User not authenticated');
+  // Write an update to the database. Completing a session also runs the bonus XP,
+  // assignment and gamification path. Returns the updates as written.
+  const persistSessionUpdate = async (currentSession: QuizSession, updates: Partial<QuizSession>): Promise<Partial<QuizSession>> => {
+    // Prepare final updates object
+    let finalUpdates = { ...updates };
 
-    try {
-      developerLog('🔄 Updating quiz session:', sessionId, 'with updates:', updates);
+    // If results are updated, recalculate derived values
+    if (updates.results) {
+      const calculatedTotalPoints = calculateTotalPointsFromResults(updates.results);
+      const calculatedTimeSpent = calculateTotalTimeSpentFromResults(updates.results);
       
-      // Get current session data
-      const currentSession = sessions.find(s => s.id === sessionId);
-      if (!currentSession) {
-        throw new Error(`Session with ID ${sessionId} not found`);
-      }
+      finalUpdates.total_points = calculatedTotalPoints;
+      finalUpdates.total_actual_time_spent_seconds = calculatedTimeSpent;
+      
+      developerLog('🔄 Recalculated derived values:', {
+        calculatedTotalPoints,
+        calculatedTimeSpent,
+        resultsCount: updates.results.length
+      });
+    }
 
-      // Prepare final updates object
-      let finalUpdates = { ...updates };
+    // Handle completion logic
+    if (updates.status === 'completed') {
+      developerLog('🎯 Quiz session being marked as completed');
 
-      // If results are updated, recalculate derived values
-      if (updates.results) {
-        const calculatedTotalPoints = calculateTotalPointsFromResults(updates.results);
-        const calculatedTimeSpent = calculateTotalTimeSpentFromResults(updates.results);
-        
-        finalUpdates.total_points = calculatedTotalPoints;
-        finalUpdates.total_actual_time_spent_seconds = calculatedTimeSpent;
-        
-        developerLog('🔄 Recalculated derived values:', {
-          calculatedTotalPoints,
-          calculatedTimeSpent,
-          resultsCount: updates.results.length
+      // Calculate bonus XP if applicable
+      let bonusXp = 0;
+      if (currentSession.assignment_id) {
+        bonusXp = await calculateBonusXp({
+          ...currentSession,
+          completed_at: finalUpdates.completed_at || new Date().toISOString()
         });
+        
+        if (bonusXp > 0) {
+          finalUpdates.bonus_xp = bonusXp;
+          
+          // Show bonus XP notification
+          showNotification('achievement', {
+            id: 'bonus-xp',
+            name: 'On-Time Completion Bonus!',
+            description: `You earned ${STUDY_SCHEDULE_BONUS_XP} bonus XP for completing your study assignment on time!`,
+            criteria_type: 'bonus_xp',
+            criteria_value: STUDY_SCHEDULE_BONUS_XP,
+            badge_icon_url: '/images/badges/perfect.png'
+          });
+        }
+      }
+
+      // Update the quiz session in database first
+      const { error: updateError } = await supabase
+        .from('quiz_sessions')
+        .update(finalUpdates)
+        .eq('id', currentSession.id);
+
+      if (updateError) {
+        developerLog('❌ Error updating quiz session:', updateError);
+        throw updateError;
       }
 
-      // Handle completion logic
-      if (updates.status === 'completed') {
-        developerLog('🎯 Quiz session being marked as completed');
+      developerLog('✅ Quiz session updated successfully');
 
-        // Calculate bonus XP if applicable
-        let bonusXp = 0;
-        if (currentSession.assignment_id) {
-          bonusXp = await calculateBonusXp({
-            ...currentSession,
-            completed_at: finalUpdates.completed_at || new Date().toISOString()
-          });
-          
-          if (bonusXp > 0) {
-            finalUpdates.bonus_xp = bonusXp;
-            
-            // Show bonus XP notification
-            showNotification('achievement', {
-              id: 'bonus-xp',
-              name: 'On-Time Completion Bonus!',
-              description: `You earned ${STUDY_SCHEDULE_BONUS_XP} bonus XP for completing your study assignment on time!`,
-              criteria_type: 'bonus_xp',
-              criteria_value: STUDY_SCHEDULE_BONUS_XP,
-              badge_icon_url: '/images/badges/perfect.png'
-            });
-          }
+      // Handle assignment completion
+      if (currentSession.assignment_id) {
+        try {
+          developerLog('📚 Marking assignment as completed:', currentSession.assignment_id);
+          await checkAndMarkAssignmentCompleted(currentSession.assignment_id);
+          developerLog('✅ Assignment marked as completed');
+        } catch (error) {
+          developerLog('❌ Failed to mark assignment as completed:', error);
+          // Don't throw here to avoid disrupting the quiz completion flow
         }
+      }
 
-        // Update the quiz session in database first
-        const { error: updateError } = await supabase
-          .from('quiz_sessions')
-          .update(finalUpdates)
-          .eq('id', sessionId);
+      // Update user stats and check achievements
+      try {
+        const pointsEarned = calculateTotalPointsFromResults(
+          finalUpdates.results || currentSession.results || []
+        );
+        
+        await updateUserStats(pointsEarned, bonusXp);
+        await checkAchievements();
+        
+      } catch (error) {
+        developerLog('❌ Error in gamification updates:', error);
+        // Log but don't throw to avoid breaking the main flow
+      }
 
-        if (updateError) {
-          developerLog('❌ Error updating quiz session:', updateError);
-          throw updateError;
-        }
+    } else {
+      // For non-completion updates, just update the session
+      const { error: updateError } = await supabase
+        .from('quiz_sessions')
+        .update(finalUpdates)
+        .eq('id', currentSession.id);
 
-        developerLog('✅ Quiz session updated successfully');
-
-        // Handle assignment completion
-        if (currentSession.assignment_id) {
-          try {
-            developerLog('📚 Marking assignment as completed:', currentSession.assignment_id);
-            await checkAndMarkAssignmentCompleted(currentSession.assignment_id);
-            developerLog('✅ Assignment marked as completed');
-          } catch (error) {
-            developerLog('❌ Failed to mark assignment as completed:', error);
-            // Don't throw here to avoid disrupting the quiz completion flow
-          }
-        }
+      if (updateError) {
+        developerLog('❌ Error updating quiz session:', updateError);
+        throw updateError;
+      }
 
-        // Update user stats and check achievements
+      // Regrading a finished quiz changes the points it counted towards XP
+      if (updates.results && currentSession.status === 'completed') {
         try {
-          const pointsEarned = calculateTotalPointsFromResults(
-            finalUpdates.results || currentSession.results || []
-          );
-          
-          await updateUserStats(pointsEarned, bonusXp);
+          developerLog('✏️ Completed session regraded, recalculating XP and achievements');
+          await updateUserStats(finalUpdates.total_points || 0, 0, true);
           await checkAchievements();
-          
         } catch (error) {
-          developerLog('❌ Error in gamification updates:', error);
-          // Log but don't throw to avoid breaking the main flow
+          developerLog('❌ Error in gamification updates after regrade:', error);
         }
+      }
+    }
 
-      } else {
-        // For non-completion updates, just update the session
-        const { error: updateError } = await supabase
-          .from('quiz_sessions')
-          .update(finalUpdates)
-          .eq('id', sessionId);
-
-        if (updateError) {
-          developerLog('❌ Error updating quiz session:', updateError);
-          throw updateError;
-        }
+    return finalUpdates;
+  };
+
+  const refreshPendingSyncCount = async () => {
+    if (!user) return;
+    try {
+      const mutations = await getQueuedMutations(user.id);
+      setPendingSyncCount(mutations.length);
+    } catch (error) {
+      developerLog('⚠️ Could not read offline sync queue:', error);
+    }
+  };
+
+  // Keep an update on this device until the sync engine can replay it
+  const queueOfflineSessionUpdate = async (currentSession: QuizSession, updates: Partial<QuizSession>): Promise<void> => {
+    const localUpdates = { ...updates };
+    if (updates.results) {
+      localUpdates.total_points = calculateTotalPointsFromResults(updates.results);
+      localUpdates.total_actual_time_spent_seconds = calculateTotalTimeSpentFromResults(updates.results);
+    }
+
+    await enqueueMutation({
+      type: 'session-update',
+      userId: currentSession.user_id,
+      sessionId: currentSession.id,
+      updates,
+      queuedAt: new Date().toISOString()
+    });
+
+    developerLog('📴 Offline, queued quiz session update:', currentSession.id, updates);
+
+    setSessions(prev => prev.map(session =>
+      session.id === currentSession.id ? { ...session, ...localUpdates } : session
+    ));
+    setPendingSyncCount(count => count + 1);
+
+    try {
+      await cacheSession({ ...currentSession, ...localUpdates });
+    } catch (error) {
+      developerLog('⚠️ Could not update cached quiz session:', error);
+    }
+  };
+
+  const updateQuizSession = useCallback(async (sessionId: string, updates: Partial<QuizSession>): Promise<void> => {
+    // Input validation
+    if (!sessionId) throw new Error('Session ID is required');
+    if (!updates) throw new Error('Updates object is required');
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      developerLog('🔄 Updating quiz session:', sessionId, 'with updates:', updates);
+      
+      // Get current session data
+      const currentSession = sessions.find(s => s.id === sessionId);
+      if (!currentSession) {
+        throw new Error(`Session with ID ${sessionId} not found`);
+      }
+
+      if (!navigator.onLine) {
+        await queueOfflineSessionUpdate(currentSession, updates);
+        return;
+      }
+
+      let finalUpdates: Partial<QuizSession>;
+      try {
+        finalUpdates = await persistSessionUpdate(currentSession, updates);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        await queueOfflineSessionUpdate(currentSession, updates);
+        return;
       }
 
       // Update local state
@@ -511,6 +645,10 @@ export function QuizSessionProvider({ children }: { children: ReactNode }) {
         session.id === sessionId ? { ...session, ...finalUpdates } : session
       ));
 
+      // Keep the offline copy in step so a reload without a connection resumes from here
+      cacheSession({ ...currentSession, ...finalUpdates })
+        .catch(cacheError => developerLog('⚠️ Could not update cached quiz session:', cacheError));
+
       developerLog('✅ Quiz session update completed successfully');
 
     } catch (error) {
@@ -519,6 +657,163 @@ export function QuizSessionProvider({ children }: { children: ReactNode }) {
     }
   }, [user, sessions, developerLog, showNotification]);
 
+  const recordQuestionLog = useCallback(async (log: QuizQuestionLogInsert, { replace = false }: { replace?: boolean } = {}): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    // The id is fixed before the first attempt so a replay of the same answer is ignored.
+    // A regrade reuses the id and rewrites the grade on that row instead.
+    const entry = { ...log, client_log_id: log.client_log_id || crypto.randomUUID() };
+
+    const queueLog = async () => {
+      await enqueueMutation({
+        type: 'question-log',
+        userId: user.id,
+        sessionId: entry.quiz_session_id,
+        log: entry,
+        queuedAt: new Date().toISOString(),
+        replace
+      });
+      setPendingSyncCount(count => count + 1);
+      developerLog('📴 Offline, queued question log:', entry.client_log_id);
+    };
+
+    if (!navigator.onLine) {
+      await queueLog();
+      return;
+    }
+
+    try {
+      if (replace) {
+        await writeRegradedLog(entry);
+      } else {
+        const { error } = await supabase
+          .from('quiz_question_logs')
+          .upsert([entry], { onConflict: 'client_log_id', ignoreDuplicates: true });
+
+        if (error) throw error;
+      }
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+      await queueLog();
+    }
+  }, [user, developerLog]);
+
+  /**
+   * Replay writes made while offline. Answer logs go first; they are upserted on
+   * client_log_id so logs that already reached the server are skipped. Session
+   * updates are then merged per session, resolved against the server copy (see
+   * resolveOfflineSessionUpdates) and written through the same path as a live
+   * update, so completing a quiz offline still awards XP and achievements once.
+   * Only the signed-in member's queue is replayed. Writes the server refuses are
+   * dropped so they can't hold up the queue; a network error leaves the rest queued.
+   */
+  const syncOfflineQueue = useCallback(async (): Promise<void> => {
+    if (!user || !navigator.onLine || syncInProgressRef.current) return;
+
+    syncInProgressRef.current = true;
+    setSyncing(true);
+
+    try {
+      const mutations = await getQueuedMutations(user.id);
+      if (mutations.length === 0) return;
+
+      developerLog('🔄 Syncing', mutations.length, 'offline quiz changes');
+
+      // Each queued log with the queue ids behind it
+      const logs: QueuedLog[] = [];
+      // Regrades are applied after the original answers, the latest per log winning
+      const regradedLogs = new Map<string, QueuedLog>();
+      mutations.forEach(mutation => {
+        if (mutation.type !== 'question-log') return;
+        const mutationIds = mutation.id !== undefined ? [mutation.id] : [];
+        if (mutation.replace && mutation.log.client_log_id) {
+          const existing = regradedLogs.get(mutation.log.client_log_id);
+          regradedLogs.set(mutation.log.client_log_id, {
+            log: mutation.log,
+            mutationIds: [...(existing?.mutationIds || []), ...mutationIds],
+          });
+        } else {
+          logs.push({ log: mutation.log, mutationIds });
+        }
+      });
+
+      const insertLogs = async (entries: QueuedLog[]) => {
+        const { error } = await supabase
+          .from('quiz_question_logs')
+          .upsert(entries.map(entry => entry.log), { onConflict: 'client_log_id', ignoreDuplicates: true });
+
+        if (error) throw error;
+      };
+      const regradeLogs = async (entries: QueuedLog[]) => {
+        for (const entry of entries) await writeRegradedLog(entry.log);
+      };
+
+      const logOutcome = await replayQueuedWrites(logs, entry => entry.mutationIds, insertLogs);
+      const regradeOutcome = logOutcome.interrupted
+        ? { syncedIds: [], rejectedIds: [], interrupted: true }
+        : await replayQueuedWrites(Array.from(regradedLogs.values()), entry => entry.mutationIds, regradeLogs);
+
+      const rejectedLogIds = [...logOutcome.rejectedIds, ...regradeOutcome.rejectedIds];
+      if (rejectedLogIds.length > 0) {
+        developerLog('⚠️ Server rejected', rejectedLogIds.length, 'offline question logs, dropping them');
+      }
+      const handledLogIds = [...logOutcome.syncedIds, ...regradeOutcome.syncedIds, ...rejectedLogIds];
+      if (handledLogIds.length > 0) {
+        await removeMutations(handledLogIds);
+        developerLog('✅ Synced', logOutcome.syncedIds.length + regradeOutcome.syncedIds.length, 'offline question logs');
+      }
+
+      // Connection dropped again, the rest stays queued for next time
+      if (logOutcome.interrupted || regradeOutcome.interrupted) return;
+
+      for (const [sessionId, pending] of collectSessionUpdates(mutations)) {
+        try {
+          const { data: remoteSession, error } = await supabase
+            .from('quiz_sessions')
+            .select('*')
+            .eq('id', sessionId)
+            .maybeSingle();
+
+          if (error) throw error;
+
+          // Deleted on another device: the deletion wins
+          if (!remoteSession) {
+            developerLog('🗑️ Session was deleted elsewhere, dropping its offline changes:', sessionId);
+            await removeMutations(pending.mutationIds);
+            continue;
+          }
+
+          const resolvedUpdates = resolveOfflineSessionUpdates(remoteSession, pending.updates, pending.queuedAt);
+          const finalUpdates = Object.keys(resolvedUpdates).length > 0
+            ? await persistSessionUpdate(remoteSession, resolvedUpdates)
+            : {};
+
+          setSessions(prev => prev.map(session =>
+            session.id === sessionId ? { ...remoteSession, ...finalUpdates } : session
+          ));
+          await removeMutations(pending.mutationIds);
+
+          developerLog('✅ Synced offline changes for quiz session:', sessionId);
+        } catch (error) {
+          // Connection dropped again, the rest stays queued for next time
+          if (isNetworkError(error)) {
+            developerLog('📴 Connection lost while syncing quiz session:', sessionId, error);
+            break;
+          }
+          // The server refused the write (e.g. a policy or constraint); retrying would fail the same way
+          developerLog('❌ Server rejected offline changes for quiz session, dropping them:', sessionId, error);
+          await removeMutations(pending.mutationIds);
+        }
+      }
+    } catch (error) {
+      developerLog('💥 Error syncing offline quiz changes:', error);
+    } finally {
+      syncInProgressRef.current = false;
+      setSyncing(false);
+      await refreshPendingSyncCount();
+    }
+  }, [user, developerLog, showNotification]);
+
   const updateQuizApprovalStatus = useCallback(async (sessionId: string, status: 'approved' | 'rejected'): Promise<void> => {
     if (!user) throw new Error('User not authenticated');
     if (!sessionId) throw new Error('Session ID is required');
@@ -526,9 +821,11 @@ export function QuizSessionProvider({ children }: { children: ReactNode }) {
     try {
       developerLog('🔄 Updating quiz approval status:', sessionId, 'to:', status);
 
+      // Changing the status is a review, which closes the quiz to further regrades
+      const reviewedAt = new Date().toISOString();
       const { error } = await supabase
         .from('quiz_sessions')
-        .update({ approval_status: status, updated_at: new Date().toISOString() })
+        .update({ approval_status: status, reviewed_by: user.id, reviewed_at: reviewedAt, updated_at: reviewedAt })
         .eq('id', sessionId);
 
       if (error) {
@@ -537,7 +834,7 @@ export function QuizSessionProvider({ children }: { children: ReactNode }) {
       }
 
       setSessions(prev => prev.map(session =>
-        session.id === sessionId ? { ...session, approval_status: status } : session
+        session.id === sessionId ? { ...session, approval_status: status, reviewed_at: reviewedAt } : session
       ));
 
       developerLog('✅ Quiz approval status updated successfully');
@@ -547,6 +844,22 @@ export function QuizSessionProvider({ children }: { children: ReactNode }) {
     }
   }, [user, developerLog]);
 
+  // Replay offline changes as soon as the connection returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncOfflineQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncOfflineQueue]);
+
   const value = {
     sessions,
     createQuizSession,
@@ -556,7 +869,12 @@ export function QuizSessionProvider({ children }: { children: ReactNode }) {
     getActiveSessionsForUser,
     getSessionForAssignment,
     deleteQuizSession,
-    updateQuizApprovalStatus
+    updateQuizApprovalStatus,
+    recordQuestionLog,
+    syncOfflineQueue,
+    isOnline,
+    syncing,
+    pendingSyncCount
   };
 
   return (
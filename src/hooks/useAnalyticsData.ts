@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import { calculateStudyStreak } from '../utils/quizHelpers';
 import { useAuth } from '../contexts/AuthContext';
+import { QuizTimingFilter } from '../types';
 
 interface AnalyticsData {
   totalQuizzesCompleted: number;
@@ -18,9 +19,10 @@ interface UseAnalyticsDataProps {
   userId?: string; // Optional, for individual performance
   startDate?: Date;
   endDate?: Date;
+  timing?: QuizTimingFilter; // Timed and untimed results, or just one of them
 }
 
-export function useAnalyticsData({ teamId, userId, startDate, endDate }: UseAnalyticsDataProps) {
+export function useAnalyticsData({ teamId, userId, startDate, endDate, timing = 'all' }: UseAnalyticsDataProps) {
   const { developerLog } = useAuth();
   const [data, setData] = useState<AnalyticsData | null>(null);
   const [loading, setLoading] = useState(true);
@@ -65,6 +67,13 @@ export function useAnalyticsData({ teamId, userId, startDate, endDate }: UseAnal
         sessionsQuery = sessionsQuery.lt('completed_at', endDatePlusOne.toISOString());
       }
 
+      // Question logs are fetched by session, so this also narrows the answer stats
+      if (timing === 'untimed') {
+        sessionsQuery = sessionsQuery.eq('timer_mode', 'untimed');
+      } else if (timing === 'timed') {
+        sessionsQuery = sessionsQuery.neq('timer_mode', 'untimed');
+      }
+
       const { data: sessions, error: sessionsError } = await sessionsQuery;
       if (sessionsError) throw sessionsError;
 
@@ -168,7 +177,7 @@ export function useAnalyticsData({ teamId, userId, startDate, endDate }: UseAnal
     } finally {
       setLoading(false);
     }
-  }, [teamId, userId, startDate, endDate, developerLog]);
+  }, [teamId, userId, startDate, endDate, timing, developerLog]);
 
   useEffect(() => {
     fetchData();
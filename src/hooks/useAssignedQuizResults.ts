@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { AssignedQuizMemberResult } from '../types';
+
+export function useAssignedQuizResults(assignedQuizId: string | null) {
+  const { developerLog } = useAuth();
+  const [data, setData] = useState<AssignedQuizMemberResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchResults = useCallback(async () => {
+    if (!assignedQuizId) {
+      setData([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      developerLog('📊 useAssignedQuizResults: Fetching results for assigned quiz:', assignedQuizId);
+
+      const { data: results, error: resultsError } = await supabase
+        .rpc('get_assigned_quiz_results', { p_assigned_quiz_id: assignedQuizId });
+
+      if (resultsError) throw resultsError;
+
+      developerLog('✅ useAssignedQuizResults: Loaded results for', results?.length || 0, 'members');
+      setData(results || []);
+    } catch (err: any) {
+      developerLog('💥 useAssignedQuizResults: Failed to load results:', err);
+      setError(err.message || 'Failed to load assigned quiz results');
+      setData([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [assignedQuizId, developerLog]);
+
+  useEffect(() => {
+    fetchResults();
+  }, [fetchResults]);
+
+  return { data, loading, error, refresh: fetchResults };
+}
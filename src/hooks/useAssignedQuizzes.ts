@@ -0,0 +1,221 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuizSession } from '../contexts/QuizSessionContext';
+import { AssignedQuiz, AssignedQuizStatus, Question, QuizAnswerMode, QuizTimerSettings } from '../types';
+import { getAssignedQuizStatus } from '../utils/assignedQuizUtils';
+import { buildTimerSessionFields, getSessionTimerSettings } from '../utils/timerModes';
+
+interface CreateAssignedQuizInput {
+  title: string;
+  description?: string;
+  questions: Question[];
+  dueAt: Date;
+  memberIds: string[];
+  answerMode: QuizAnswerMode;
+  timer: QuizTimerSettings;
+}
+
+export function useAssignedQuizzes() {
+  const navigate = useNavigate();
+  const { user, developerLog } = useAuth();
+  const { sessions, createQuizSession } = useQuizSession();
+  const [assignedQuizzes, setAssignedQuizzes] = useState<AssignedQuiz[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAssignedQuizzes = useCallback(async () => {
+    if (!user?.teamId) {
+      setAssignedQuizzes([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      developerLog('📋 useAssignedQuizzes: Fetching assigned quizzes for team:', user.teamId);
+
+      // Coaches see every quiz for the team; RLS limits members to quizzes assigned to them
+      const { data, error: fetchError } = await supabase
+        .from('assigned_quizzes')
+        .select('*, members:assigned_quiz_members(*)')
+        .eq('team_id', user.teamId)
+        .order('due_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+
+      developerLog('✅ useAssignedQuizzes: Loaded', data?.length || 0, 'assigned quizzes');
+      setAssignedQuizzes(data || []);
+    } catch (err: any) {
+      developerLog('💥 useAssignedQuizzes: Failed to load assigned quizzes:', err);
+      setError(err.message || 'Failed to load assigned quizzes');
+      setAssignedQuizzes([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.teamId, developerLog]);
+
+  useEffect(() => {
+    fetchAssignedQuizzes();
+  }, [fetchAssignedQuizzes]);
+
+  const createAssignedQuiz = useCallback(async (input: CreateAssignedQuizInput): Promise<boolean> => {
+    if (!user?.teamId) return false;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      developerLog('📋 useAssignedQuizzes: Assigning quiz to', input.memberIds.length, 'members:', input.title);
+      const timerFields = buildTimerSessionFields(input.timer, input.questions);
+
+      const { data: quiz, error: quizError } = await supabase
+        .from('assigned_quizzes')
+        .insert([{
+          team_id: user.teamId,
+          created_by: user.id,
+          title: input.title.trim(),
+          description: input.description?.trim() || null,
+          questions: input.questions,
+          answer_mode: input.answerMode,
+          timer_mode: timerFields.timer_mode,
+          timer_multiplier: timerFields.timer_multiplier,
+          sprint_seconds: timerFields.sprint_seconds,
+          due_at: input.dueAt.toISOString(),
+        }])
+        .select()
+        .single();
+
+      if (quizError) throw quizError;
+
+      const members = input.memberIds.map(memberId => ({
+        assigned_quiz_id: quiz.id,
+        user_id: memberId,
+      }));
+
+      const { data: memberRows, error: membersError } = await supabase
+        .from('assigned_quiz_members')
+        .insert(members)
+        .select();
+
+      if (membersError) {
+        // Don't leave a quiz behind that nobody was assigned
+        await supabase.from('assigned_quizzes').delete().eq('id', quiz.id);
+        throw membersError;
+      }
+
+      setAssignedQuizzes(prev => [...prev, { ...quiz, members: memberRows || [] }]
+        .sort((a, b) => new Date(a.due_at).getTime() - new Date(b.due_at).getTime()));
+      return true;
+    } catch (err: any) {
+      developerLog('💥 useAssignedQuizzes: Failed to assign quiz:', err);
+      setError(err.message || 'Failed to assign quiz');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [user, developerLog]);
+
+  const deleteAssignedQuiz = useCallback(async (assignedQuizId: string) => {
+    setError(null);
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('assigned_quizzes')
+        .delete()
+        .eq('id', assignedQuizId);
+
+      if (deleteError) throw deleteError;
+
+      setAssignedQuizzes(prev => prev.filter(quiz => quiz.id !== assignedQuizId));
+    } catch (err: any) {
+      developerLog('💥 useAssignedQuizzes: Failed to delete assigned quiz:', err);
+      setError(err.message || 'Failed to delete assigned quiz');
+    }
+  }, [developerLog]);
+
+  const getActiveSession = useCallback((assignedQuizId: string) => {
+    return sessions.find(session =>
+      session.assigned_quiz_id === assignedQuizId &&
+      session.user_id === user?.id &&
+      session.status !== 'completed'
+    ) || null;
+  }, [sessions, user?.id]);
+
+  const getMemberStatus = useCallback((quiz: AssignedQuiz, userId: string): AssignedQuizStatus => {
+    const member = quiz.members.find(m => m.user_id === userId);
+    // Only the member's own sessions are loaded, so in-progress is only known for them
+    const hasActiveSession = userId === user?.id && !!getActiveSession(quiz.id);
+    return getAssignedQuizStatus(quiz, member, hasActiveSession);
+  }, [user?.id, getActiveSession]);
+
+  // Every member gets the assigned questions exactly as the coach set them
+  const startAssignedQuiz = useCallback(async (quiz: AssignedQuiz) => {
+    if (!user) return;
+
+    const activeSession = getActiveSession(quiz.id);
+    if (activeSession) {
+      navigate(`/quiz/runner/${activeSession.id}`);
+      return;
+    }
+
+    setStarting(true);
+    setError(null);
+
+    try {
+      developerLog('📋 useAssignedQuizzes: Starting assigned quiz:', quiz.id);
+
+      const totalPoints = quiz.questions.reduce((sum, q) => sum + q.points, 0);
+      const estimatedSeconds = quiz.questions.reduce((sum, q) => sum + q.time_to_answer, 0);
+
+      const sessionId = await createQuizSession({
+        type: 'assigned',
+        title: quiz.title,
+        description: quiz.description || `Assigned quiz with ${quiz.questions.length} questions.`,
+        user_id: user.id,
+        team_id: user.teamId,
+        assigned_quiz_id: quiz.id,
+        questions: quiz.questions,
+        current_question_index: 0,
+        results: [],
+        status: 'active',
+        show_answer: false,
+        ...buildTimerSessionFields(getSessionTimerSettings(quiz), quiz.questions),
+        timer_active: false,
+        timer_started: false,
+        has_time_expired: false,
+        total_points: 0,
+        max_points: totalPoints,
+        estimated_minutes: Math.ceil(estimatedSeconds / 60),
+        answer_mode: quiz.answer_mode,
+      });
+
+      navigate(`/quiz/runner/${sessionId}`);
+    } catch (err: any) {
+      developerLog('💥 useAssignedQuizzes: Failed to start assigned quiz:', err);
+      setError(err.message || 'Failed to start assigned quiz');
+    } finally {
+      setStarting(false);
+    }
+  }, [user, developerLog, getActiveSession, createQuizSession, navigate]);
+
+  return {
+    assignedQuizzes,
+    myAssignedQuizzes: assignedQuizzes.filter(quiz => quiz.members.some(member => member.user_id === user?.id)),
+    loading,
+    saving,
+    starting,
+    error,
+    createAssignedQuiz,
+    deleteAssignedQuiz,
+    startAssignedQuiz,
+    getMemberStatus,
+    getActiveSession,
+    refresh: fetchAssignedQuizzes,
+  };
+}
@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { PendingQuizReview } from '../types';
+import { ReviewOverride } from '../utils/coachReview';
+
+export function useCoachReviewQueue(teamId: string | undefined) {
+  const { developerLog } = useAuth();
+  const [pendingReviews, setPendingReviews] = useState<PendingQuizReview[]>([]);
+  const [reviewRequired, setReviewRequired] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReviewQueue = useCallback(async () => {
+    if (!teamId) {
+      setPendingReviews([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      developerLog('📝 useCoachReviewQueue: Fetching pending quizzes for team:', teamId);
+
+      const [queueResult, teamResult] = await Promise.all([
+        supabase.rpc('get_team_review_queue', { p_team_id: teamId }),
+        supabase.from('teams').select('require_quiz_review').eq('id', teamId).single(),
+      ]);
+
+      if (queueResult.error) throw queueResult.error;
+      if (teamResult.error) throw teamResult.error;
+
+      developerLog('✅ useCoachReviewQueue: Loaded', queueResult.data?.length || 0, 'pending quizzes');
+      setPendingReviews(queueResult.data || []);
+      setReviewRequired(!!teamResult.data?.require_quiz_review);
+    } catch (err: any) {
+      developerLog('💥 useCoachReviewQueue: Failed to load review queue:', err);
+      setError(err.message || 'Failed to load review queue');
+      setPendingReviews([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId, developerLog]);
+
+  useEffect(() => {
+    fetchReviewQueue();
+  }, [fetchReviewQueue]);
+
+  const submitReview = useCallback(async (
+    sessionId: string,
+    status: 'approved' | 'rejected',
+    overrides: ReviewOverride[],
+    note?: string
+  ): Promise<boolean> => {
+    setSubmittingId(sessionId);
+    setError(null);
+
+    try {
+      developerLog('📝 useCoachReviewQueue: Submitting review for session:', sessionId, status, overrides);
+
+      const { error: reviewError } = await supabase.rpc('review_quiz_session', {
+        p_session_id: sessionId,
+        p_overrides: overrides,
+        p_status: status,
+        p_note: note || null,
+      });
+
+      if (reviewError) throw reviewError;
+
+      setPendingReviews(prev => prev.filter(review => review.id !== sessionId));
+      developerLog('✅ useCoachReviewQueue: Review saved');
+      return true;
+    } catch (err: any) {
+      developerLog('💥 useCoachReviewQueue: Failed to save review:', err);
+      setError(err.message || 'Failed to save review');
+      return false;
+    } finally {
+      setSubmittingId(null);
+    }
+  }, [developerLog]);
+
+  const updateReviewRequired = useCallback(async (required: boolean) => {
+    if (!teamId) return;
+
+    setError(null);
+
+    try {
+      const { error: settingError } = await supabase.rpc('set_team_quiz_review_required', {
+        p_team_id: teamId,
+        p_required: required,
+      });
+
+      if (settingError) throw settingError;
+
+      setReviewRequired(required);
+    } catch (err: any) {
+      developerLog('💥 useCoachReviewQueue: Failed to update review setting:', err);
+      setError(err.message || 'Failed to update review setting');
+    }
+  }, [teamId, developerLog]);
+
+  return {
+    pendingReviews,
+    reviewRequired,
+    loading,
+    submittingId,
+    error,
+    submitReview,
+    updateReviewRequired,
+    refresh: fetchReviewQueue,
+  };
+}
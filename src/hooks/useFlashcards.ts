@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { FlashcardConfidence } from '../types';
+import { getLatestConfidence } from '../utils/flashcards';
+
+export function useFlashcards() {
+  const { user, developerLog } = useAuth();
+  const [confidence, setConfidence] = useState<Record<string, FlashcardConfidence>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConfidence = useCallback(async () => {
+    if (!user) {
+      setConfidence({});
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      developerLog('🃏 useFlashcards: Fetching flashcard reviews for user:', user.id);
+
+      const { data, error: reviewsError } = await supabase
+        .from('flashcard_reviews')
+        .select('question_id, confidence, reviewed_at')
+        .eq('user_id', user.id);
+
+      if (reviewsError) throw reviewsError;
+
+      developerLog('✅ useFlashcards: Loaded', data?.length || 0, 'flashcard reviews');
+      setConfidence(getLatestConfidence(data || []));
+    } catch (err: any) {
+      developerLog('💥 useFlashcards: Failed to load flashcard reviews:', err);
+      setError(err.message || 'Failed to load flashcard history');
+      setConfidence({});
+    } finally {
+      setLoading(false);
+    }
+  }, [user, developerLog]);
+
+  useEffect(() => {
+    fetchConfidence();
+  }, [fetchConfidence]);
+
+  // Kept apart from quiz logs, so ratings never touch quiz scores or XP
+  const rateCard = useCallback(async (questionId: string, rating: FlashcardConfidence): Promise<boolean> => {
+    if (!user) return false;
+
+    setConfidence(prev => ({ ...prev, [questionId]: rating }));
+
+    try {
+      const { error: insertError } = await supabase
+        .from('flashcard_reviews')
+        .insert([{
+          user_id: user.id,
+          team_id: user.teamId || null,
+          question_id: questionId,
+          confidence: rating,
+        }]);
+
+      if (insertError) throw insertError;
+      return true;
+    } catch (err: any) {
+      developerLog('💥 useFlashcards: Failed to save flashcard rating:', err);
+      setError(err.message || 'Failed to save rating');
+      return false;
+    }
+  }, [user, developerLog]);
+
+  return {
+    confidence,
+    loading,
+    error,
+    rateCard,
+    refresh: fetchConfidence,
+  };
+}
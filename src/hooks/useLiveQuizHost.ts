@@ -0,0 +1,213 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { createLiveQuizTransport, LiveQuizTransport } from '../lib/liveQuizTransport';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuizSession } from '../contexts/QuizSessionContext';
+import { LiveQuizEvent, LiveQuizSession, Question, QuizSession } from '../types';
+import {
+  LiveHostState,
+  initialLiveHostState,
+  applyLiveHostEvent,
+  resetLiveHostQuestion,
+  generateJoinCode,
+  toLiveQuizQuestion
+} from '../utils/liveQuizUtils';
+
+interface UseLiveQuizHostProps {
+  session: QuizSession | null;
+}
+
+// Retries when a generated join code collides with another open live quiz
+const MAX_JOIN_CODE_ATTEMPTS = 3;
+
+export function useLiveQuizHost({ session }: UseLiveQuizHostProps) {
+  const { user, developerLog } = useAuth();
+  const { updateQuizSession } = useQuizSession();
+  const [liveSession, setLiveSession] = useState<LiveQuizSession | null>(null);
+  const [hostState, setHostState] = useState<LiveHostState>(initialLiveHostState);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const transportRef = useRef<LiveQuizTransport | null>(null);
+  const questionIndexRef = useRef(0);
+  // Replayed to members who join or reconnect mid-question
+  const lastQuestionEventRef = useRef<LiveQuizEvent | null>(null);
+  const lastRevealEventRef = useRef<LiveQuizEvent | null>(null);
+
+  const canHost = !!user?.teamId && (user.teamRole === 'owner' || user.teamRole === 'admin');
+
+  const send = useCallback(async (event: LiveQuizEvent) => {
+    if (!transportRef.current) return;
+    try {
+      await transportRef.current.send(event);
+    } catch (err) {
+      developerLog('❌ Live quiz: Failed to send event:', event.type, err);
+    }
+  }, [developerLog]);
+
+  const handleEvent = useCallback((event: LiveQuizEvent, senderId: string) => {
+    developerLog('📡 Live quiz host received event:', event);
+
+    // Members can only join, buzz and answer as themselves
+    if ('userId' in event && event.userId !== senderId) return;
+    const receivedAt = Date.now();
+
+    if (event.type === 'sync-request' || event.type === 'join') {
+      if (lastQuestionEventRef.current) send(lastQuestionEventRef.current);
+      if (lastRevealEventRef.current) send(lastRevealEventRef.current);
+    }
+
+    setHostState(prev => applyLiveHostEvent(prev, event, questionIndexRef.current, receivedAt));
+  }, [developerLog, send]);
+
+  const startHosting = useCallback(async () => {
+    if (!session || !user?.teamId || !canHost) return;
+
+    setStarting(true);
+    setError(null);
+
+    try {
+      developerLog('📡 Starting live quiz for session:', session.id);
+
+      let createdSession: LiveQuizSession | null = null;
+      for (let attempt = 0; attempt < MAX_JOIN_CODE_ATTEMPTS && !createdSession; attempt++) {
+        const { data, error: insertError } = await supabase
+          .from('live_quiz_sessions')
+          .insert([{
+            host_id: user.id,
+            team_id: user.teamId,
+            host_quiz_session_id: session.id,
+            join_code: generateJoinCode(),
+            title: session.title,
+            status: 'active',
+          }])
+          .select()
+          .single();
+
+        // 23505 = unique violation on the join code, try another one
+        if (insertError && insertError.code !== '23505') throw insertError;
+        createdSession = data;
+      }
+
+      if (!createdSession) throw new Error('Could not generate a unique join code');
+
+      await updateQuizSession(session.id, { type: 'live', live_session_id: createdSession.id });
+
+      const transport = createLiveQuizTransport();
+      await transport.connect(createdSession.join_code, user.id);
+      transport.subscribe(handleEvent);
+      transportRef.current = transport;
+
+      setHostState(initialLiveHostState);
+      setLiveSession(createdSession);
+      developerLog('✅ Live quiz started with join code:', createdSession.join_code);
+    } catch (err: any) {
+      developerLog('💥 Error starting live quiz:', err);
+      setError(err.message || 'Failed to start live quiz');
+    } finally {
+      setStarting(false);
+    }
+  }, [session, user, canHost, developerLog, updateQuizSession, handleEvent]);
+
+  const broadcastQuestion = useCallback(async (questionIndex: number, question: Question, totalQuestions: number) => {
+    questionIndexRef.current = questionIndex;
+    setHostState(prev => resetLiveHostQuestion(prev));
+
+    const event: LiveQuizEvent = {
+      type: 'question',
+      questionIndex,
+      totalQuestions,
+      question: toLiveQuizQuestion(question),
+    };
+    lastQuestionEventRef.current = event;
+    lastRevealEventRef.current = null;
+    await send(event);
+  }, [send]);
+
+  const revealAnswer = useCallback(async (questionIndex: number, answer: string) => {
+    const event: LiveQuizEvent = { type: 'reveal', questionIndex, answer };
+    lastRevealEventRef.current = event;
+    await send(event);
+  }, [send]);
+
+  const setAward = useCallback((userId: string, points: number) => {
+    setHostState(prev => ({ ...prev, awards: { ...prev.awards, [userId]: points } }));
+  }, []);
+
+  // Every participant gets an entry so members who weren't awarded record zero points.
+  // Members read their points from the saved awards, not from the broadcast.
+  // Resolves to false when the awards couldn't be saved, so the host can try again.
+  const sendAwards = useCallback(async (questionIndex: number): Promise<boolean> => {
+    if (!liveSession) return false;
+
+    const awards = hostState.participants.reduce((acc, participant) => {
+      acc[participant.userId] = hostState.awards[participant.userId] || 0;
+      return acc;
+    }, {} as Record<string, number>);
+
+    developerLog('🏅 Live quiz: Saving awards for question', questionIndex, awards);
+    const { error: awardError } = await supabase
+      .from('live_quiz_awards')
+      .upsert(Object.entries(awards).map(([userId, points]) => ({
+        live_session_id: liveSession.id,
+        question_index: questionIndex,
+        user_id: userId,
+        points,
+      })));
+
+    if (awardError) {
+      developerLog('❌ Live quiz: Failed to save awards:', awardError);
+      setError(awardError.message || 'Failed to save awards');
+      return false;
+    }
+
+    setError(null);
+    await send({ type: 'award', questionIndex, awards });
+    return true;
+  }, [liveSession, hostState, send, developerLog]);
+
+  const endHosting = useCallback(async () => {
+    if (!liveSession) return;
+
+    // Members check the saved status before acting on the end event, so save it first
+    const { error: updateError } = await supabase
+      .from('live_quiz_sessions')
+      .update({ status: 'ended', ended_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .eq('id', liveSession.id);
+
+    if (updateError) {
+      developerLog('❌ Error ending live quiz:', updateError);
+    }
+
+    await send({ type: 'end' });
+
+    await transportRef.current?.disconnect();
+    transportRef.current = null;
+    lastQuestionEventRef.current = null;
+    lastRevealEventRef.current = null;
+    setLiveSession(prev => prev ? { ...prev, status: 'ended' } : prev);
+  }, [liveSession, send, developerLog]);
+
+  // Disconnect if the host navigates away mid-quiz
+  useEffect(() => {
+    return () => {
+      transportRef.current?.disconnect();
+      transportRef.current = null;
+    };
+  }, []);
+
+  return {
+    canHost,
+    liveSession,
+    isHosting: !!liveSession && liveSession.status !== 'ended',
+    hostState,
+    starting,
+    error,
+    startHosting,
+    broadcastQuestion,
+    revealAnswer,
+    setAward,
+    sendAwards,
+    endHosting,
+  };
+}
@@ -0,0 +1,334 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { createLiveQuizTransport, LiveQuizTransport } from '../lib/liveQuizTransport';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuizSession } from '../contexts/QuizSessionContext';
+import { LiveQuizEvent, LiveQuizQuestion, LiveQuizSession, Question, QuizResult } from '../types';
+import { getLiveQuestionLogId, isHostControlEvent, normalizeJoinCode } from '../utils/liveQuizUtils';
+
+export type LiveParticipantStatus = 'idle' | 'joining' | 'waiting' | 'question' | 'ended';
+
+export function useLiveQuizParticipant() {
+  const { user, developerLog } = useAuth();
+  const { createQuizSession, updateQuizSession, recordQuestionLog } = useQuizSession();
+  const [status, setStatus] = useState<LiveParticipantStatus>('idle');
+  const [liveSession, setLiveSession] = useState<LiveQuizSession | null>(null);
+  const [currentQuestion, setCurrentQuestion] = useState<LiveQuizQuestion | null>(null);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [totalQuestions, setTotalQuestions] = useState(0);
+  const [revealedAnswer, setRevealedAnswer] = useState<string | null>(null);
+  const [hasBuzzed, setHasBuzzed] = useState(false);
+  const [submittedAnswer, setSubmittedAnswer] = useState<string | null>(null);
+  const [lastAward, setLastAward] = useState<number | null>(null);
+  const [totalPoints, setTotalPoints] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const transportRef = useRef<LiveQuizTransport | null>(null);
+  const quizSessionIdRef = useRef<string | null>(null);
+  const liveSessionIdRef = useRef<string | null>(null);
+  const hostIdRef = useRef<string | null>(null);
+  const currentQuestionRef = useRef<LiveQuizQuestion | null>(null);
+  const questionIndexRef = useRef(0);
+  const questionStartRef = useRef(Date.now());
+  const revealedAnswerRef = useRef<string | null>(null);
+  const submittedAnswerRef = useRef<string | null>(null);
+  // Questions and results are built up as the host moves through the quiz
+  const questionsRef = useRef<Question[]>([]);
+  const resultsRef = useRef<QuizResult[]>([]);
+  const awardedIndexesRef = useRef<Set<number>>(new Set());
+  // The context function closes over the session list, so always call the latest one
+  const updateQuizSessionRef = useRef(updateQuizSession);
+  updateQuizSessionRef.current = updateQuizSession;
+  const recordQuestionLogRef = useRef(recordQuestionLog);
+  recordQuestionLogRef.current = recordQuestionLog;
+
+  // Anyone on the channel can broadcast an award, so points are read from the awards the host saved
+  const recordAward = useCallback(async (awardedIndex: number) => {
+    const question = currentQuestionRef.current;
+    const sessionId = quizSessionIdRef.current;
+    const liveSessionId = liveSessionIdRef.current;
+    if (!user || !question || !sessionId || !liveSessionId) return;
+    if (awardedIndex !== questionIndexRef.current || awardedIndexesRef.current.has(awardedIndex)) return;
+    awardedIndexesRef.current.add(awardedIndex);
+
+    const { data: award, error: awardError } = await supabase
+      .from('live_quiz_awards')
+      .select('points')
+      .eq('live_session_id', liveSessionId)
+      .eq('question_index', awardedIndex)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (awardError || !award) {
+      developerLog('⚠️ Ignoring award the host has not saved for question', awardedIndex, awardError);
+      awardedIndexesRef.current.delete(awardedIndex);
+      return;
+    }
+    // The host may have moved on while the award was being read
+    if (currentQuestionRef.current?.id !== question.id) return;
+
+    const pointsEarned = Math.min(award.points, question.points);
+    const timeSpent = Math.round((Date.now() - questionStartRef.current) / 1000);
+    const answeredAt = new Date().toISOString();
+    const logId = getLiveQuestionLogId(sessionId, awardedIndex);
+
+    setLastAward(pointsEarned);
+    setTotalPoints(prev => prev + pointsEarned);
+
+    questionsRef.current = [...questionsRef.current, { ...question, answer: revealedAnswerRef.current || '' }];
+    resultsRef.current = [...resultsRef.current, {
+      questionId: question.id,
+      pointsEarned,
+      totalPoints: question.points,
+      timeSpent,
+      answeredAt,
+      logId,
+      ...(submittedAnswerRef.current ? { typedAnswer: submittedAnswerRef.current } : {})
+    }];
+
+    // The log id is fixed per question, so an award delivered twice is only logged once
+    try {
+      await recordQuestionLogRef.current({
+        quiz_session_id: sessionId,
+        user_id: user.id,
+        question_id: question.id,
+        points_earned: pointsEarned,
+        total_points_possible: question.points,
+        time_spent: timeSpent,
+        answered_at: answeredAt,
+        is_correct: pointsEarned === question.points,
+        typed_answer: submittedAnswerRef.current,
+        question_revision: question.revision ?? null,
+        client_log_id: logId
+      });
+    } catch (logError) {
+      developerLog('❌ Error logging live question result:', logError);
+    }
+
+    try {
+      await updateQuizSessionRef.current(sessionId, {
+        questions: questionsRef.current,
+        results: resultsRef.current,
+        current_question_index: questionsRef.current.length,
+        max_points: questionsRef.current.reduce((sum, q) => sum + q.points, 0),
+      });
+    } catch (err) {
+      developerLog('💥 Error saving live quiz award:', err);
+    }
+  }, [user, developerLog]);
+
+  const finishQuiz = useCallback(async () => {
+    // Only end once the host has saved the live quiz as ended
+    const liveSessionId = liveSessionIdRef.current;
+    if (liveSessionId) {
+      const { data: saved, error: lookupError } = await supabase
+        .from('live_quiz_sessions')
+        .select('status')
+        .eq('id', liveSessionId)
+        .maybeSingle();
+
+      if (!lookupError && saved && saved.status !== 'ended') {
+        developerLog('⚠️ Ignoring end event for a live quiz that is still running');
+        return;
+      }
+    }
+
+    setStatus('ended');
+    await transportRef.current?.disconnect();
+    transportRef.current = null;
+
+    const sessionId = quizSessionIdRef.current;
+    if (!sessionId) return;
+
+    try {
+      await updateQuizSessionRef.current(sessionId, {
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+      });
+    } catch (err) {
+      developerLog('💥 Error completing live quiz session:', err);
+    }
+  }, [developerLog]);
+
+  const handleEvent = useCallback((event: LiveQuizEvent, senderId: string) => {
+    developerLog('📡 Live quiz participant received event:', event);
+
+    // Other members share the channel; only the host can move the quiz on
+    if (isHostControlEvent(event) && senderId !== hostIdRef.current) {
+      developerLog('⚠️ Ignoring', event.type, 'event not sent by the host');
+      return;
+    }
+
+    switch (event.type) {
+      case 'question':
+        // The host replays the current question on sync; don't reset an answer already in progress
+        if (currentQuestionRef.current?.id === event.question.id && questionIndexRef.current === event.questionIndex) return;
+        currentQuestionRef.current = event.question;
+        questionIndexRef.current = event.questionIndex;
+        questionStartRef.current = Date.now();
+        revealedAnswerRef.current = null;
+        submittedAnswerRef.current = null;
+        setCurrentQuestion(event.question);
+        setQuestionIndex(event.questionIndex);
+        setTotalQuestions(event.totalQuestions);
+        setRevealedAnswer(null);
+        setSubmittedAnswer(null);
+        setHasBuzzed(false);
+        setLastAward(null);
+        setStatus('question');
+        break;
+
+      case 'reveal':
+        if (event.questionIndex !== questionIndexRef.current) return;
+        revealedAnswerRef.current = event.answer;
+        setRevealedAnswer(event.answer);
+        break;
+
+      case 'award':
+        recordAward(event.questionIndex);
+        break;
+
+      case 'end':
+        finishQuiz();
+        break;
+    }
+  }, [developerLog, recordAward, finishQuiz]);
+
+  const joinLiveQuiz = useCallback(async (code: string) => {
+    if (!user) return;
+
+    const joinCode = normalizeJoinCode(code);
+    if (!joinCode) {
+      setError('Please enter a join code');
+      return;
+    }
+
+    setStatus('joining');
+    setError(null);
+
+    try {
+      developerLog('📡 Joining live quiz with code:', joinCode);
+
+      const { data: session, error: lookupError } = await supabase
+        .from('live_quiz_sessions')
+        .select('*')
+        .eq('join_code', joinCode)
+        .neq('status', 'ended')
+        .maybeSingle();
+
+      if (lookupError) throw lookupError;
+      if (!session) throw new Error('No live quiz found for that code. Check the code with your coach.');
+
+      const quizSessionId = await createQuizSession({
+        type: 'live',
+        title: session.title,
+        description: 'Live quiz hosted by your coach',
+        user_id: user.id,
+        team_id: session.team_id,
+        live_session_id: session.id,
+        questions: [],
+        current_question_index: 0,
+        results: [],
+        status: 'active',
+        show_answer: false,
+        time_left: 0,
+        timer_active: false,
+        timer_started: false,
+        has_time_expired: false,
+        total_points: 0,
+        max_points: 0,
+        estimated_minutes: 0
+      });
+      quizSessionIdRef.current = quizSessionId;
+      liveSessionIdRef.current = session.id;
+      hostIdRef.current = session.host_id;
+
+      const { error: participantError } = await supabase
+        .from('live_quiz_participants')
+        .upsert([{
+          live_session_id: session.id,
+          user_id: user.id,
+          quiz_session_id: quizSessionId,
+        }]);
+
+      if (participantError) throw participantError;
+
+      const transport = createLiveQuizTransport();
+      await transport.connect(joinCode, user.id);
+      transport.subscribe(handleEvent);
+      transportRef.current = transport;
+
+      setLiveSession(session);
+      setStatus('waiting');
+
+      await transport.send({ type: 'join', userId: user.id, name: user.nickname || user.name });
+      await transport.send({ type: 'sync-request', userId: user.id });
+
+      developerLog('✅ Joined live quiz:', session.id);
+    } catch (err: any) {
+      developerLog('💥 Error joining live quiz:', err);
+      setError(err.message || 'Failed to join live quiz');
+      setStatus('idle');
+    }
+  }, [user, developerLog, createQuizSession, handleEvent]);
+
+  const buzz = useCallback(async () => {
+    if (!user || !transportRef.current || hasBuzzed) return;
+    setHasBuzzed(true);
+    await transportRef.current.send({
+      type: 'buzz',
+      userId: user.id,
+      questionIndex: questionIndexRef.current,
+    });
+  }, [user, hasBuzzed]);
+
+  const submitAnswer = useCallback(async (answer: string) => {
+    const trimmed = answer.trim();
+    if (!user || !transportRef.current || !trimmed) return;
+    submittedAnswerRef.current = trimmed;
+    setSubmittedAnswer(trimmed);
+    await transportRef.current.send({
+      type: 'submit-answer',
+      userId: user.id,
+      questionIndex: questionIndexRef.current,
+      answer: trimmed,
+      timeSpent: Math.round((Date.now() - questionStartRef.current) / 1000),
+    });
+  }, [user]);
+
+  const leaveLiveQuiz = useCallback(async () => {
+    if (user && transportRef.current) {
+      await transportRef.current.send({ type: 'leave', userId: user.id });
+    }
+    await transportRef.current?.disconnect();
+    transportRef.current = null;
+    setStatus('idle');
+    setLiveSession(null);
+    setCurrentQuestion(null);
+  }, [user]);
+
+  useEffect(() => {
+    return () => {
+      transportRef.current?.disconnect();
+      transportRef.current = null;
+    };
+  }, []);
+
+  return {
+    status,
+    liveSession,
+    currentQuestion,
+    questionIndex,
+    totalQuestions,
+    revealedAnswer,
+    hasBuzzed,
+    submittedAnswer,
+    lastAward,
+    totalPoints,
+    error,
+    joinLiveQuiz,
+    buzz,
+    submitAnswer,
+    leaveLiveQuiz,
+  };
+}
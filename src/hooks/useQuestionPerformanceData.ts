@@ -1,5 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
+import { AnswerComponentResult } from '../types';
+import { calculateComponentMissRates, ComponentMissRate } from '../utils/answerRubric';
+import { RevisionAttemptSummary, summarizeAttemptsByRevision } from '../utils/questionRevisions';
 
 interface QuestionPerformanceData {
   question_id: string;
@@ -7,6 +10,8 @@ interface QuestionPerformanceData {
   answer_text: string;
   book_of_bible: string;
   chapter: number;
+  verse_start: number | null;
+  verse_end: number | null;
   tier: string;
   points: number;
   total_attempts: number;
@@ -16,6 +21,11 @@ interface QuestionPerformanceData {
   average_time_spent: number;
   total_points_earned: number;
   total_points_possible: number;
+  // Only for questions with an answer rubric
+  component_miss_rates: ComponentMissRate[];
+  current_revision: number;
+  // Accuracy per revision the question was answered at, newest first
+  revision_attempts: RevisionAttemptSummary[];
 }
 
 interface UseQuestionPerformanceDataProps {
@@ -89,14 +99,19 @@ export function useQuestionPerformanceData({ teamId, userId, startDate, endDate
           total_points_possible,
           time_spent,
           is_correct,
+          component_results,
+          question_revision,
           questions!inner (
             id,
             question,
             answer,
             book_of_bible,
             chapter,
+            verse_start,
+            verse_end,
             tier,
-            points
+            points,
+            revision
           )
         `)
         .in('quiz_session_id', completedSessionIds);
@@ -134,6 +149,8 @@ export function useQuestionPerformanceData({ teamId, userId, startDate, endDate
         totalTimeSpent: number;
         totalPointsEarned: number;
         totalPointsPossible: number;
+        componentResults: AnswerComponentResult[][];
+        attempts: { question_revision: number | null; is_correct: boolean }[];
       }>();
 
       questionLogs.forEach(log => {
@@ -150,6 +167,8 @@ export function useQuestionPerformanceData({ teamId, userId, startDate, endDate
             totalTimeSpent: 0,
             totalPointsEarned: 0,
             totalPointsPossible: 0,
+            componentResults: [],
+            attempts: [],
           });
         }
 
@@ -162,6 +181,12 @@ export function useQuestionPerformanceData({ teamId, userId, startDate, endDate
         if (log.is_correct) {
           stats.correctAttempts++;
         }
+
+        if (log.component_results) {
+          stats.componentResults.push(log.component_results);
+        }
+
+        stats.attempts.push({ question_revision: log.question_revision, is_correct: log.is_correct });
       });
 
       // Step 4: Convert to QuestionPerformanceData objects
@@ -182,6 +207,8 @@ export function useQuestionPerformanceData({ teamId, userId, startDate, endDate
           answer_text: stats.question.answer,
           book_of_bible: stats.question.book_of_bible,
           chapter: stats.question.chapter,
+          verse_start: stats.question.verse_start ?? null,
+          verse_end: stats.question.verse_end ?? null,
           tier: stats.question.tier,
           points: stats.question.points,
           total_attempts: stats.totalAttempts,
@@ -191,6 +218,9 @@ export function useQuestionPerformanceData({ teamId, userId, startDate, endDate
           average_time_spent: averageTimeSpent,
           total_points_earned: stats.totalPointsEarned,
           total_points_possible: stats.totalPointsPossible,
+          component_miss_rates: calculateComponentMissRates(stats.componentResults),
+          current_revision: stats.question.revision ?? 1,
+          revision_attempts: summarizeAttemptsByRevision(stats.attempts, stats.question.revision ?? 1),
         });
       });
 
@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { QuickStartStrategy } from '../types';
+import { DEFAULT_QUICK_START_STRATEGY, QUICK_START_STRATEGIES } from '../constants/quickStart';
+
+// Members without a team choose for themselves on this device
+const STRATEGY_STORAGE_KEY = 'quick-start-strategy';
+
+const isQuickStartStrategy = (value: unknown): value is QuickStartStrategy =>
+  QUICK_START_STRATEGIES.some(option => option.id === value);
+
+export function useQuickStartStrategy() {
+  const { user, developerLog } = useAuth();
+  const [strategy, setStrategy] = useState<QuickStartStrategy>(DEFAULT_QUICK_START_STRATEGY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Coaches pick the strategy for their whole team
+  const canChangeStrategy = !!user && (!user.teamId || user.teamRole === 'owner' || user.teamRole === 'admin');
+
+  const fetchStrategy = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    if (!user.teamId) {
+      const saved = localStorage.getItem(STRATEGY_STORAGE_KEY);
+      setStrategy(isQuickStartStrategy(saved) ? saved : DEFAULT_QUICK_START_STRATEGY);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: teamError } = await supabase
+        .from('teams')
+        .select('quick_start_strategy')
+        .eq('id', user.teamId)
+        .maybeSingle();
+
+      if (teamError) throw teamError;
+
+      setStrategy(isQuickStartStrategy(data?.quick_start_strategy) ? data.quick_start_strategy : DEFAULT_QUICK_START_STRATEGY);
+    } catch (err: any) {
+      developerLog('💥 useQuickStartStrategy: Failed to load team strategy:', err);
+      setError(err.message || 'Failed to load Quick Start strategy');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, developerLog]);
+
+  useEffect(() => {
+    fetchStrategy();
+  }, [fetchStrategy]);
+
+  const updateStrategy = useCallback(async (nextStrategy: QuickStartStrategy) => {
+    if (!user || !canChangeStrategy) return;
+
+    if (!user.teamId) {
+      localStorage.setItem(STRATEGY_STORAGE_KEY, nextStrategy);
+      setStrategy(nextStrategy);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      developerLog('🎯 useQuickStartStrategy: Setting team strategy to', nextStrategy);
+
+      const { error: rpcError } = await supabase.rpc('set_team_quick_start_strategy', {
+        p_team_id: user.teamId,
+        p_strategy: nextStrategy
+      });
+
+      if (rpcError) throw rpcError;
+
+      setStrategy(nextStrategy);
+    } catch (err: any) {
+      developerLog('💥 useQuickStartStrategy: Failed to update team strategy:', err);
+      setError(err.message || 'Failed to update Quick Start strategy');
+    } finally {
+      setSaving(false);
+    }
+  }, [user, canChangeStrategy, developerLog]);
+
+  return {
+    strategy,
+    canChangeStrategy,
+    loading,
+    saving,
+    error,
+    updateStrategy,
+  };
+}
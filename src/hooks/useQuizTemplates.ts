@@ -0,0 +1,139 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { QuizTemplate, QuizTemplateConfig } from '../types';
+
+export function useQuizTemplates() {
+  const { user, developerLog } = useAuth();
+  const [templates, setTemplates] = useState<QuizTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canPublish = !!user?.teamId && (user.teamRole === 'owner' || user.teamRole === 'admin');
+
+  const fetchTemplates = useCallback(async () => {
+    if (!user) {
+      setTemplates([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      developerLog('📋 useQuizTemplates: Fetching quiz templates for user:', user.id);
+
+      // RLS returns the member's own templates plus those published to their team
+      const { data, error: templatesError } = await supabase
+        .from('quiz_templates')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (templatesError) throw templatesError;
+
+      developerLog('✅ useQuizTemplates: Loaded', data?.length || 0, 'templates');
+      setTemplates(data || []);
+    } catch (err: any) {
+      developerLog('💥 useQuizTemplates: Failed to load templates:', err);
+      setError(err.message || 'Failed to load quiz templates');
+      setTemplates([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, developerLog]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const saveTemplate = useCallback(async (
+    name: string,
+    config: QuizTemplateConfig,
+    publishToTeam = false
+  ): Promise<QuizTemplate | null> => {
+    if (!user) return null;
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      developerLog('📋 useQuizTemplates: Saving template:', name, config);
+
+      const { data, error: insertError } = await supabase
+        .from('quiz_templates')
+        .insert([{
+          name: name.trim(),
+          user_id: user.id,
+          team_id: user.teamId || null,
+          is_team_template: publishToTeam && canPublish,
+          config,
+        }])
+        .select()
+        .single();
+
+      if (insertError) throw insertError;
+
+      setTemplates(prev => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+      return data;
+    } catch (err: any) {
+      developerLog('💥 useQuizTemplates: Failed to save template:', err);
+      setError(err.message || 'Failed to save quiz template');
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, [user, canPublish, developerLog]);
+
+  const setTemplatePublished = useCallback(async (templateId: string, published: boolean) => {
+    setError(null);
+
+    try {
+      const { error: updateError } = await supabase
+        .from('quiz_templates')
+        .update({ is_team_template: published, updated_at: new Date().toISOString() })
+        .eq('id', templateId);
+
+      if (updateError) throw updateError;
+
+      setTemplates(prev => prev.map(template =>
+        template.id === templateId ? { ...template, is_team_template: published } : template
+      ));
+    } catch (err: any) {
+      developerLog('💥 useQuizTemplates: Failed to update template:', err);
+      setError(err.message || 'Failed to update quiz template');
+    }
+  }, [developerLog]);
+
+  const deleteTemplate = useCallback(async (templateId: string) => {
+    setError(null);
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('quiz_templates')
+        .delete()
+        .eq('id', templateId);
+
+      if (deleteError) throw deleteError;
+
+      setTemplates(prev => prev.filter(template => template.id !== templateId));
+    } catch (err: any) {
+      developerLog('💥 useQuizTemplates: Failed to delete template:', err);
+      setError(err.message || 'Failed to delete quiz template');
+    }
+  }, [developerLog]);
+
+  return {
+    myTemplates: templates.filter(template => template.user_id === user?.id),
+    teamTemplates: templates.filter(template => template.is_team_template && template.user_id !== user?.id),
+    canPublish,
+    loading,
+    saving,
+    error,
+    saveTemplate,
+    setTemplatePublished,
+    deleteTemplate,
+    refresh: fetchTemplates,
+  };
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { createPendingStart } from '../utils/readAloud';
 
 interface UseQuizTimerProps {
   initialTime: number;
@@ -11,6 +12,14 @@ export function useQuizTimer({ initialTime, onTimeExpired, onTimeUpdate }: UseQu
   const [timerActive, setTimerActive] = useState(false);
   const [timerStarted, setTimerStarted] = useState(false);
   const [hasTimeExpired, setHasTimeExpired] = useState(false);
+  const [waitingToStart, setWaitingToStart] = useState(false);
+  // A start waiting on the question being read; dropped when the timer is started by hand, reset or stopped
+  const [pendingStart] = useState(createPendingStart);
+
+  const cancelPendingStart = useCallback(() => {
+    pendingStart.cancel();
+    setWaitingToStart(false);
+  }, [pendingStart]);
 
   // Timer effect
   useEffect(() => {
@@ -40,22 +49,35 @@ export function useQuizTimer({ initialTime, onTimeExpired, onTimeUpdate }: UseQu
   }, [timerActive, onTimeExpired, onTimeUpdate]);
 
   const startTimer = useCallback(() => {
+    cancelPendingStart();
     if (!timerStarted && !hasTimeExpired) {
       setTimerActive(true);
       setTimerStarted(true);
     }
-  }, [timerStarted, hasTimeExpired]);
+  }, [timerStarted, hasTimeExpired, cancelPendingStart]);
+
+  // Start the timer once something else has finished, such as reading the question aloud
+  const startTimerAfter = useCallback((ready: Promise<unknown>) => {
+    setWaitingToStart(true);
+    pendingStart.startAfter(ready, () => {
+      setWaitingToStart(false);
+      setTimerActive(true);
+      setTimerStarted(true);
+    });
+  }, [pendingStart]);
 
   const resetTimer = useCallback((newTime: number) => {
+    cancelPendingStart();
     setTimeLeft(newTime);
     setTimerActive(false);
     setTimerStarted(false);
     setHasTimeExpired(false);
-  }, []);
+  }, [cancelPendingStart]);
 
   const stopTimer = useCallback(() => {
+    cancelPendingStart();
     setTimerActive(false);
-  }, []);
+  }, [cancelPendingStart]);
 
   const setTimerActiveState = useCallback((active: boolean) => {
     setTimerActive(active);
@@ -70,7 +92,9 @@ export function useQuizTimer({ initialTime, onTimeExpired, onTimeUpdate }: UseQu
     timerActive,
     timerStarted,
     hasTimeExpired,
+    waitingToStart,
     startTimer,
+    startTimerAfter,
     resetTimer,
     stopTimer,
     setHasTimeExpired,
@@ -0,0 +1,124 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { createSpeechEngine, SpeechEngine, SpeechVoice } from '../lib/speechEngine';
+import { useAuth } from '../contexts/AuthContext';
+import { Question, ReadAloudSettings } from '../types';
+import { DEFAULT_READ_ALOUD_SETTINGS } from '../constants/readAloud';
+import { getAnswerSpeechText, getQuestionSpeechText } from '../utils/readAloud';
+
+interface UseReadAloudOptions {
+  // Tests pass a fake engine; the app uses the browser's speech synthesis
+  engine?: SpeechEngine;
+}
+
+export function useReadAloud({ engine: providedEngine }: UseReadAloudOptions = {}) {
+  const { user, developerLog } = useAuth();
+  const [engine] = useState<SpeechEngine>(() => providedEngine || createSpeechEngine());
+  const [settings, setSettings] = useState<ReadAloudSettings>(DEFAULT_READ_ALOUD_SETTINGS);
+  const [voices, setVoices] = useState<SpeechVoice[]>(() => engine.getVoices());
+  const [speaking, setSpeaking] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Browsers load their voice list in the background
+  useEffect(() => {
+    setVoices(engine.getVoices());
+    return engine.onVoicesChanged(() => setVoices(engine.getVoices()));
+  }, [engine]);
+
+  const fetchSettings = useCallback(async () => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: profileError } = await supabase
+        .from('user_profiles')
+        .select('read_aloud_settings')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      if (profileError) throw profileError;
+
+      setSettings({ ...DEFAULT_READ_ALOUD_SETTINGS, ...(data?.read_aloud_settings || {}) });
+    } catch (err: any) {
+      developerLog('💥 useReadAloud: Failed to load read-aloud settings:', err);
+      setError(err.message || 'Failed to load read-aloud settings');
+    } finally {
+      setLoading(false);
+    }
+  }, [user, developerLog]);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const updateSettings = useCallback(async (changes: Partial<ReadAloudSettings>) => {
+    if (!user) return;
+
+    const nextSettings = { ...settings, ...changes };
+    const previousSettings = settings;
+    setSettings(nextSettings);
+    setSaving(true);
+    setError(null);
+
+    try {
+      developerLog('🔊 useReadAloud: Saving read-aloud settings:', nextSettings);
+
+      const { error: updateError } = await supabase
+        .from('user_profiles')
+        .update({ read_aloud_settings: nextSettings })
+        .eq('id', user.id);
+
+      if (updateError) throw updateError;
+    } catch (err: any) {
+      developerLog('💥 useReadAloud: Failed to save read-aloud settings:', err);
+      setError(err.message || 'Failed to save read-aloud settings');
+      setSettings(previousSettings);
+    } finally {
+      setSaving(false);
+    }
+  }, [user, settings, developerLog]);
+
+  const speak = useCallback(async (text: string) => {
+    setSpeaking(true);
+    try {
+      await engine.speak(text, { voiceURI: settings.voiceURI, rate: settings.rate });
+    } finally {
+      setSpeaking(false);
+    }
+  }, [engine, settings.voiceURI, settings.rate]);
+
+  const speakQuestion = useCallback((question: Question) => {
+    return speak(getQuestionSpeechText(question));
+  }, [speak]);
+
+  const speakAnswer = useCallback((question: Question) => {
+    return speak(getAnswerSpeechText(question));
+  }, [speak]);
+
+  const cancel = useCallback(() => {
+    engine.cancel();
+    setSpeaking(false);
+  }, [engine]);
+
+  return {
+    settings,
+    voices,
+    isSupported: engine.isSupported,
+    speaking,
+    loading,
+    saving,
+    error,
+    updateSettings,
+    speak,
+    speakQuestion,
+    speakAnswer,
+    cancel,
+  };
+}
@@ -0,0 +1,79 @@
+import { useState, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuizSession } from '../contexts/QuizSessionContext';
+import { QuizSession } from '../types';
+import { getMissedQuestions } from '../utils/quizUtils';
+import { buildTimerSessionFields, getSessionTimerSettings } from '../utils/timerModes';
+
+export function useRetryMissedQuestions() {
+  const navigate = useNavigate();
+  const { user, developerLog } = useAuth();
+  const { createQuizSession, loadQuizSession } = useQuizSession();
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only the member's own completed sessions can be retried
+  const getRetryableSession = useCallback((sessionId: string | null): QuizSession | null => {
+    if (!sessionId) return null;
+    const session = loadQuizSession(sessionId);
+    if (!session || session.status !== 'completed') return null;
+    return getMissedQuestions(session).length > 0 ? session : null;
+  }, [loadQuizSession]);
+
+  const startRetrySession = useCallback(async (sourceSession: QuizSession) => {
+    if (!user) return;
+
+    const missedQuestions = getMissedQuestions(sourceSession);
+    if (missedQuestions.length === 0) return;
+
+    setCreating(true);
+    setError(null);
+
+    try {
+      developerLog('🔁 Creating retry session from', sourceSession.id, 'with', missedQuestions.length, 'missed questions');
+
+      // Retrying a retry keeps the original quiz name instead of stacking prefixes
+      const baseTitle = sourceSession.title.replace(/^Retry: /, '');
+      const totalPoints = missedQuestions.reduce((sum, q) => sum + q.points, 0);
+      const estimatedSeconds = missedQuestions.reduce((sum, q) => sum + q.time_to_answer, 0);
+
+      const sessionId = await createQuizSession({
+        type: 'retry',
+        title: `Retry: ${baseTitle}`,
+        description: `Another try at the ${missedQuestions.length} question${missedQuestions.length !== 1 ? 's' : ''} you missed in ${baseTitle}.`,
+        user_id: user.id,
+        team_id: user.teamId,
+        source_session_id: sourceSession.id,
+        questions: missedQuestions,
+        current_question_index: 0,
+        results: [],
+        status: 'active',
+        show_answer: false,
+        // A retry runs on the same clock as the quiz it came from
+        ...buildTimerSessionFields(getSessionTimerSettings(sourceSession), missedQuestions),
+        timer_active: false,
+        timer_started: false,
+        has_time_expired: false,
+        total_points: 0,
+        max_points: totalPoints,
+        estimated_minutes: Math.ceil(estimatedSeconds / 60),
+        answer_mode: sourceSession.answer_mode,
+      });
+
+      navigate(`/quiz/runner/${sessionId}`);
+    } catch (err: any) {
+      developerLog('💥 Error creating retry session:', err);
+      setError(err.message || 'Failed to start retry session');
+    } finally {
+      setCreating(false);
+    }
+  }, [user, developerLog, createQuizSession, navigate]);
+
+  return {
+    creating,
+    error,
+    getRetryableSession,
+    startRetrySession,
+  };
+}
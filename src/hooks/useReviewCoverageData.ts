@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { ReviewCoverageRow } from '../types';
+import { buildReviewCoverage, CoverageFlashcardReview, CoverageQuizLog } from '../utils/flashcards';
+
+type CoverageQuestion = CoverageQuizLog['questions'];
+
+// Embedded joins are typed as arrays by the client even for a many-to-one link
+function toCoverageQuestion(questions: CoverageQuestion | CoverageQuestion[] | undefined): CoverageQuestion {
+  return (Array.isArray(questions) ? questions[0] : questions) ?? null;
+}
+
+interface UseReviewCoverageDataProps {
+  teamId: string | undefined;
+  userId?: string; // Optional, for individual analysis
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export function useReviewCoverageData({ teamId, userId, startDate, endDate }: UseReviewCoverageDataProps) {
+  const [data, setData] = useState<ReviewCoverageRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReviewCoverage = useCallback(async () => {
+    if (!teamId) {
+      setLoading(false);
+      setData([]);
+      return;
+    }
+
+    console.log('🔍 useReviewCoverageData: Loading reviewed vs tested coverage with params:', { teamId, userId, startDate, endDate });
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const endDatePlusOne = endDate ? new Date(endDate) : undefined;
+      endDatePlusOne?.setDate(endDatePlusOne.getDate() + 1);
+
+      // Flashcard reviews
+      let reviewsQuery = supabase
+        .from('flashcard_reviews')
+        .select(`
+          confidence,
+          questions!inner (
+            book_of_bible,
+            chapter
+          )
+        `)
+        .eq('team_id', teamId);
+
+      if (userId) reviewsQuery = reviewsQuery.eq('user_id', userId);
+      if (startDate) reviewsQuery = reviewsQuery.gte('reviewed_at', startDate.toISOString());
+      if (endDatePlusOne) reviewsQuery = reviewsQuery.lt('reviewed_at', endDatePlusOne.toISOString());
+
+      // Quiz answers from completed sessions
+      let sessionsQuery = supabase
+        .from('quiz_sessions')
+        .select('id')
+        .eq('team_id', teamId)
+        .eq('status', 'completed');
+
+      if (userId) sessionsQuery = sessionsQuery.eq('user_id', userId);
+      if (startDate) sessionsQuery = sessionsQuery.gte('completed_at', startDate.toISOString());
+      if (endDatePlusOne) sessionsQuery = sessionsQuery.lt('completed_at', endDatePlusOne.toISOString());
+
+      const [{ data: reviews, error: reviewsError }, { data: sessions, error: sessionsError }] = await Promise.all([
+        reviewsQuery,
+        sessionsQuery,
+      ]);
+      if (reviewsError) throw reviewsError;
+      if (sessionsError) throw sessionsError;
+
+      const completedSessionIds = sessions?.map(s => s.id) || [];
+      let quizLogs: CoverageQuizLog[] = [];
+
+      if (completedSessionIds.length > 0) {
+        let logsQuery = supabase
+          .from('quiz_question_logs')
+          .select(`
+            points_earned,
+            total_points_possible,
+            questions!inner (
+              book_of_bible,
+              chapter
+            )
+          `)
+          .in('quiz_session_id', completedSessionIds);
+
+        if (userId) logsQuery = logsQuery.eq('user_id', userId);
+
+        const { data: logs, error: logsError } = await logsQuery;
+        if (logsError) throw logsError;
+        quizLogs = (logs || []).map(log => ({
+          points_earned: log.points_earned,
+          total_points_possible: log.total_points_possible,
+          questions: toCoverageQuestion(log.questions),
+        }));
+      }
+
+      const flashcardReviews: CoverageFlashcardReview[] = (reviews || []).map(review => ({
+        confidence: review.confidence,
+        questions: toCoverageQuestion(review.questions),
+      }));
+
+      console.log('✅ useReviewCoverageData: Loaded', flashcardReviews.length, 'flashcard reviews and', quizLogs.length, 'quiz answers');
+      setData(buildReviewCoverage(quizLogs, flashcardReviews));
+    } catch (err: any) {
+      console.error('❌ Error fetching review coverage data:', err);
+      setError(err.message || 'Failed to load review coverage');
+      setData([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [teamId, userId, startDate, endDate]);
+
+  useEffect(() => {
+    fetchReviewCoverage();
+  }, [fetchReviewCoverage]);
+
+  return { data, loading, error, refreshData: fetchReviewCoverage };
+}
@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { fetchAnswerHistory } from '../lib/answerHistory';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuestion } from '../contexts/QuestionContext';
+import { Question } from '../types';
+import {
+  ReviewLogEntry,
+  buildReviewSchedule,
+  getDueReviewItems
+} from '../utils/spacedRepetition';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function useReviewQueue() {
+  const { user, developerLog } = useAuth();
+  const { publishedQuestions: questions } = useQuestion();
+  const [logs, setLogs] = useState<ReviewLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReviewHistory = useCallback(async () => {
+    if (!user) {
+      setLogs([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      developerLog('🧠 useReviewQueue: Fetching answer history for user:', user.id);
+
+      const data = await fetchAnswerHistory<ReviewLogEntry>(
+        user.id,
+        'question_id, points_earned, total_points_possible, time_spent, answered_at'
+      );
+
+      developerLog('✅ useReviewQueue: Loaded', data.length, 'logged answers');
+      setLogs(data);
+    } catch (err: any) {
+      developerLog('💥 useReviewQueue: Failed to load answer history:', err);
+      setError(err.message || 'Failed to load review queue');
+      setLogs([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, developerLog]);
+
+  useEffect(() => {
+    fetchReviewHistory();
+  }, [fetchReviewHistory]);
+
+  const queue = useMemo(() => {
+    // Only schedule questions the member can still access
+    const accessibleTiers = user?.planSettings?.question_tier_access || ['free'];
+    const questionsById = new Map(
+      questions
+        .filter(q => accessibleTiers.includes(q.tier))
+        .map(q => [q.id, q])
+    );
+    const timeToAnswerByQuestion = Object.fromEntries(questions.map(q => [q.id, q.time_to_answer]));
+
+    const schedule = buildReviewSchedule(
+      logs.filter(log => questionsById.has(log.question_id)),
+      timeToAnswerByQuestion
+    );
+
+    const now = new Date();
+    const dueQuestions = getDueReviewItems(schedule, now)
+      .map(item => questionsById.get(item.questionId))
+      .filter((question): question is Question => !!question);
+
+    const upcoming = Array.from(schedule.values())
+      .filter(item => new Date(item.dueAt).getTime() > now.getTime())
+      .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+
+    return {
+      dueQuestions,
+      scheduledCount: schedule.size,
+      dueTomorrowCount: upcoming.filter(item => new Date(item.dueAt).getTime() <= now.getTime() + DAY_MS).length,
+      nextDueAt: upcoming[0]?.dueAt || null,
+    };
+  }, [logs, questions, user]);
+
+  return {
+    ...queue,
+    dueCount: queue.dueQuestions.length,
+    loading,
+    error,
+    refresh: fetchReviewHistory,
+  };
+}
@@ -0,0 +1,55 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuizSession } from '../contexts/QuizSessionContext';
+import { createSessionPersistence, SessionPersistence } from '../lib/sessionPersistence';
+import { QuizSession } from '../types';
+
+export function useSessionPersistence() {
+  const { developerLog } = useAuth();
+  const { updateQuizSession } = useQuizSession();
+  const persistenceRef = useRef<SessionPersistence | null>(null);
+  // The context function closes over the session list, so always write with the latest one
+  const updateQuizSessionRef = useRef(updateQuizSession);
+  updateQuizSessionRef.current = updateQuizSession;
+
+  useEffect(() => {
+    const persistence = createSessionPersistence({
+      write: (sessionId, updates) => {
+        developerLog('💾 Flushing buffered quiz session state:', sessionId, updates);
+        return updateQuizSessionRef.current(sessionId, updates);
+      },
+      onError: (error) => developerLog('❌ Quiz session persistence error:', error),
+    });
+    persistenceRef.current = persistence;
+
+    return () => {
+      persistence.flush();
+      persistence.dispose();
+      persistenceRef.current = null;
+    };
+  }, [developerLog]);
+
+  const queueSessionState = useCallback((sessionId: string, updates: Partial<QuizSession>) => {
+    persistenceRef.current?.queue(sessionId, updates);
+  }, []);
+
+  const flushSessionState = useCallback((sessionId: string, updates?: Partial<QuizSession>) => {
+    if (!persistenceRef.current) return updateQuizSessionRef.current(sessionId, updates || {});
+    return persistenceRef.current.flush(sessionId, updates);
+  }, []);
+
+  const restoreSessionState = useCallback((sessionId: string) => {
+    return persistenceRef.current?.restore(sessionId) || null;
+  }, []);
+
+  const discardSessionState = useCallback((sessionId: string) => {
+    persistenceRef.current?.discard(sessionId);
+  }, []);
+
+  return {
+    queueSessionState,
+    flushSessionState,
+    restoreSessionState,
+    discardSessionState,
+  };
+}
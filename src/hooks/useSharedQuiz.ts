@@ -0,0 +1,209 @@
+import { useState, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuestion } from '../contexts/QuestionContext';
+import { useQuizSession } from '../contexts/QuizSessionContext';
+import { Question, QuizAnswerMode, QuizDefinition, QuizSession, SharedQuiz } from '../types';
+import { generateJoinCode, normalizeJoinCode } from '../utils/liveQuizUtils';
+import { buildQuestionsFromDefinition, getMissingTiers, orderSharedQuizQuestions, SHARE_CODE_LENGTH } from '../utils/quizDefinition';
+import { getShareableQuestionPool, isTeamQuestion } from '../utils/teamQuestions';
+
+const MAX_SHARE_CODE_ATTEMPTS = 5;
+
+// Reads the questions saved with a share code, so a change to the bank since it was made can't change them
+async function loadSharedQuizQuestions(questionIds: string[]): Promise<Question[]> {
+  const { data, error } = await supabase
+    .from('questions')
+    .select('*')
+    .in('id', questionIds);
+
+  if (error) throw error;
+
+  const ordered = orderSharedQuizQuestions(data || [], questionIds);
+  if (!ordered) throw new Error('Some questions in this quiz are no longer available');
+  return ordered;
+}
+
+interface ShareQuizInput {
+  title: string;
+  description?: string;
+  definition: QuizDefinition;
+  // Questions as drawn for the sharer, saved so everyone gets these exact questions.
+  // Team questions are private to the sharer's team and are left out.
+  questions: Question[];
+  answerMode?: QuizAnswerMode;
+}
+
+export function useSharedQuiz() {
+  const navigate = useNavigate();
+  const { user, developerLog } = useAuth();
+  const { publishedQuestions: questions } = useQuestion();
+  const { createQuizSession, updateQuizSession, getActiveSessionsForUser } = useQuizSession();
+  const [sharing, setSharing] = useState(false);
+  const [starting, setStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createShareCode = useCallback(async ({ title, description, definition, questions: sharedQuestions, answerMode }: ShareQuizInput): Promise<string | null> => {
+    if (!user) return null;
+
+    setSharing(true);
+    setError(null);
+
+    try {
+      developerLog('🔗 Creating share code for quiz definition:', definition);
+
+      const shareableQuestions = getShareableQuestionPool(sharedQuestions);
+      if (shareableQuestions.length === 0) {
+        throw new Error('This quiz only has team questions, which can\'t be shared outside your team');
+      }
+
+      let sharedQuiz: SharedQuiz | null = null;
+      for (let attempt = 0; attempt < MAX_SHARE_CODE_ATTEMPTS && !sharedQuiz; attempt++) {
+        const { data, error: insertError } = await supabase
+          .from('shared_quizzes')
+          .insert([{
+            code: generateJoinCode(SHARE_CODE_LENGTH),
+            title,
+            description: description || null,
+            definition,
+            question_ids: shareableQuestions.map(question => question.id),
+            answer_mode: answerMode || 'self-graded',
+            created_by: user.id,
+            team_id: user.teamId || null,
+          }])
+          .select()
+          .single();
+
+        // 23505 = unique violation on the code, try another one
+        if (insertError && insertError.code !== '23505') throw insertError;
+        sharedQuiz = data;
+      }
+
+      if (!sharedQuiz) throw new Error('Could not generate a unique share code');
+
+      developerLog('✅ Share code created:', sharedQuiz.code);
+      return sharedQuiz.code;
+    } catch (err: any) {
+      developerLog('💥 Error creating share code:', err);
+      setError(err.message || 'Failed to create share code');
+      return null;
+    } finally {
+      setSharing(false);
+    }
+  }, [user, developerLog]);
+
+  // Sharing a session again returns the code it already has. A session with team
+  // questions isn't linked to its code, since the shared copy leaves them out.
+  const shareSession = useCallback(async (session: QuizSession): Promise<string | null> => {
+    if (session.share_code) return session.share_code;
+    if (!session.quiz_definition) return null;
+
+    const code = await createShareCode({
+      title: session.title,
+      description: session.description,
+      definition: session.quiz_definition,
+      questions: session.questions,
+      answerMode: session.answer_mode,
+    });
+
+    if (code && !session.questions.some(isTeamQuestion)) {
+      try {
+        await updateQuizSession(session.id, { share_code: code });
+      } catch (err) {
+        developerLog('⚠️ Could not link share code to session:', err);
+      }
+    }
+
+    return code;
+  }, [createShareCode, updateQuizSession, developerLog]);
+
+  const startSharedQuiz = useCallback(async (rawCode: string) => {
+    if (!user) return;
+
+    const code = normalizeJoinCode(rawCode);
+    if (code.length !== SHARE_CODE_LENGTH) {
+      setError(`Share codes are ${SHARE_CODE_LENGTH} characters long`);
+      return;
+    }
+
+    setStarting(true);
+    setError(null);
+
+    try {
+      const existingSession = getActiveSessionsForUser(user.id).find(session => session.share_code === code);
+      if (existingSession) {
+        developerLog('✅ Found existing session for share code, resuming:', existingSession.id);
+        navigate(`/quiz/runner/${existingSession.id}`);
+        return;
+      }
+
+      const { data: sharedQuiz, error: fetchError } = await supabase
+        .from('shared_quizzes')
+        .select('*')
+        .eq('code', code)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      if (!sharedQuiz) throw new Error('No quiz found with that code');
+
+      const definition: QuizDefinition = sharedQuiz.definition;
+
+      // Everyone must draw from the same pool, or the questions wouldn't match
+      const accessibleTiers = user.planSettings?.question_tier_access || ['free'];
+      const missingTiers = getMissingTiers(definition, accessibleTiers);
+      if (missingTiers.length > 0) {
+        throw new Error(`This quiz includes ${missingTiers.join(' and ')} questions that aren't available on your plan`);
+      }
+
+      const selectedQuestions = sharedQuiz.question_ids
+        ? await loadSharedQuizQuestions(sharedQuiz.question_ids)
+        : buildQuestionsFromDefinition(getShareableQuestionPool(questions), definition);
+      if (selectedQuestions.length === 0) throw new Error('No questions are available for this quiz');
+
+      developerLog('🔗 Starting shared quiz', code, 'with', selectedQuestions.length, 'questions');
+
+      const totalPoints = selectedQuestions.reduce((sum, q) => sum + q.points, 0);
+      const estimatedSeconds = selectedQuestions.reduce((sum, q) => sum + q.time_to_answer, 0);
+
+      const sessionId = await createQuizSession({
+        type: 'custom',
+        title: sharedQuiz.title,
+        description: sharedQuiz.description || `Shared quiz ${code}`,
+        user_id: user.id,
+        team_id: user.teamId,
+        questions: selectedQuestions,
+        current_question_index: 0,
+        results: [],
+        status: 'active',
+        show_answer: false,
+        time_left: selectedQuestions[0]?.time_to_answer || 30,
+        timer_active: false,
+        timer_started: false,
+        has_time_expired: false,
+        total_points: 0,
+        max_points: totalPoints,
+        estimated_minutes: Math.ceil(estimatedSeconds / 60),
+        answer_mode: sharedQuiz.answer_mode,
+        quiz_definition: definition,
+        share_code: code,
+      });
+
+      navigate(`/quiz/runner/${sessionId}`);
+    } catch (err: any) {
+      developerLog('💥 Error starting shared quiz:', err);
+      setError(err.message || 'Failed to start shared quiz');
+    } finally {
+      setStarting(false);
+    }
+  }, [user, questions, developerLog, getActiveSessionsForUser, createQuizSession, navigate]);
+
+  return {
+    sharing,
+    starting,
+    error,
+    createShareCode,
+    shareSession,
+    startSharedQuiz,
+  };
+}
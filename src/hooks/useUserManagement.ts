@@ -6,7 +6,7 @@ interface UserData {
   id: string;
   name: string;
   email: string;
-  role: 'admin' | 'user';
+  role: 'admin' | 'reviewer' | 'user';
   status: 'active' | 'inactive' | 'suspended';
   subscription: string;
   joinDate: string;
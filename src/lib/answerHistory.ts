@@ -0,0 +1,31 @@
+import { supabase } from './supabase'
+
+/**
+ * Reads a member's whole answer history from quiz_question_logs, oldest first.
+ *
+ * PostgREST returns at most 1000 rows per request, so long-time members'
+ * history is read a page at a time; otherwise their newest answers would be
+ * cut off.
+ */
+export const ANSWER_HISTORY_PAGE_SIZE = 1000
+
+export async function fetchAnswerHistory<T>(userId: string, columns: string): Promise<T[]> {
+  const rows: T[] = []
+
+  for (let from = 0; ; from += ANSWER_HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('quiz_question_logs')
+      .select(columns)
+      .eq('user_id', userId)
+      .order('answered_at', { ascending: true })
+      // Answers logged at the same moment need a fixed order so pages don't overlap
+      .order('id', { ascending: true })
+      .range(from, from + ANSWER_HISTORY_PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    const page = (data || []) as unknown as T[]
+    rows.push(...page)
+    if (page.length < ANSWER_HISTORY_PAGE_SIZE) return rows
+  }
+}
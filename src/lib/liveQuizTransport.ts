@@ -0,0 +1,156 @@
+import { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { LiveQuizEvent } from '../types'
+
+/**
+ * Realtime transport used by hosted live quizzes.
+ *
+ * The host and every participant connect to the same join code and exchange
+ * LiveQuizEvents. Each event is delivered with the user id its sender connected
+ * as, so members can tell the host's events from everyone else's.
+ * Implementations must not echo an event back to its sender.
+ */
+export interface LiveQuizTransport {
+  connect: (joinCode: string, senderId: string) => Promise<void>
+  send: (event: LiveQuizEvent) => Promise<void>
+  subscribe: (listener: LiveQuizListener) => () => void
+  disconnect: () => Promise<void>
+}
+
+export type LiveQuizListener = (event: LiveQuizEvent, senderId: string) => void
+
+interface LiveQuizEnvelope {
+  senderId: string
+  event: LiveQuizEvent
+}
+
+const BROADCAST_EVENT = 'live-quiz'
+
+/**
+ * Transport backed by Supabase Realtime broadcast channels
+ */
+export function createSupabaseLiveQuizTransport(): LiveQuizTransport {
+  let channel: RealtimeChannel | null = null
+  let sender: string | null = null
+  const listeners = new Set<LiveQuizListener>()
+
+  return {
+    connect: (joinCode, senderId) => new Promise((resolve, reject) => {
+      sender = senderId
+      channel = supabase.channel(`live-quiz:${joinCode}`, {
+        config: { broadcast: { self: false, ack: true } }
+      })
+
+      channel
+        .on('broadcast', { event: BROADCAST_EVENT }, ({ payload }) => {
+          const { senderId, event } = payload as LiveQuizEnvelope
+          listeners.forEach(listener => listener(event, senderId))
+        })
+        .subscribe((status) => {
+          if (status === 'SUBSCRIBED') resolve()
+          if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+            reject(new Error(`Could not connect to live quiz (${status})`))
+          }
+        })
+    }),
+
+    send: async (event) => {
+      if (!channel || !sender) throw new Error('Live quiz transport is not connected')
+      const payload: LiveQuizEnvelope = { senderId: sender, event }
+      await channel.send({ type: 'broadcast', event: BROADCAST_EVENT, payload })
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    disconnect: async () => {
+      if (channel) {
+        await supabase.removeChannel(channel)
+        channel = null
+      }
+      sender = null
+      listeners.clear()
+    }
+  }
+}
+
+// Shared in-memory rooms so every local transport in this page can talk to each other
+const localPageId = Math.random().toString(36).slice(2)
+type LocalDelivery = (envelope: LiveQuizEnvelope, identity: object) => void
+const localRooms = new Map<string, Set<LocalDelivery>>()
+
+/**
+ * Local stand-in transport for development and tests.
+ *
+ * Transports in the same page share an in-memory room; when BroadcastChannel is
+ * available events are also relayed to other tabs, so a host and a member can be
+ * tried out side by side without a realtime backend.
+ */
+export function createLocalLiveQuizTransport(): LiveQuizTransport {
+  const identity = {}
+  const listeners = new Set<LiveQuizListener>()
+  let room: Set<LocalDelivery> | null = null
+  let tabChannel: BroadcastChannel | null = null
+  let sender: string | null = null
+
+  const receive: LocalDelivery = ({ senderId, event }, from) => {
+    if (from === identity) return
+    listeners.forEach(listener => listener(event, senderId))
+  }
+
+  return {
+    connect: async (joinCode, senderId) => {
+      sender = senderId
+      room = localRooms.get(joinCode) || new Set()
+      localRooms.set(joinCode, room)
+      room.add(receive)
+
+      if (typeof BroadcastChannel !== 'undefined') {
+        tabChannel = new BroadcastChannel(`live-quiz:${joinCode}`)
+        tabChannel.onmessage = (message) => {
+          // Same-page transports already received the event through the room
+          if (message.data?.pageId === localPageId) return
+          receive(message.data?.envelope as LiveQuizEnvelope, tabChannel as object)
+        }
+      }
+    },
+
+    send: async (event) => {
+      if (!room || !sender) throw new Error('Live quiz transport is not connected')
+      const envelope: LiveQuizEnvelope = { senderId: sender, event }
+      room.forEach(deliver => deliver(envelope, identity))
+      tabChannel?.postMessage({ pageId: localPageId, envelope })
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    disconnect: async () => {
+      room?.delete(receive)
+      room = null
+      tabChannel?.close()
+      tabChannel = null
+      sender = null
+      listeners.clear()
+    }
+  }
+}
+
+/**
+ * Create the transport configured for this environment.
+ * Set VITE_LIVE_QUIZ_TRANSPORT=local to use the local stand-in.
+ */
+export function createLiveQuizTransport(): LiveQuizTransport {
+  if (import.meta.env.VITE_LIVE_QUIZ_TRANSPORT === 'local') {
+    return createLocalLiveQuizTransport()
+  }
+  return createSupabaseLiveQuizTransport()
+}
@@ -0,0 +1,152 @@
+import { OfflineMutation, QuizSession } from '../types'
+
+/**
+ * IndexedDB storage that lets a quiz keep running without a connection.
+ *
+ * Active sessions (questions included) are cached so the runner can load them
+ * offline, and writes that couldn't reach Supabase are queued in the order they
+ * were made until the sync engine replays them.
+ */
+const DB_NAME = 'pbe-offline'
+const DB_VERSION = 2
+const SESSIONS_STORE = 'sessions'
+const MUTATIONS_STORE = 'mutations'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Version 1 queued writes without saying whose they were. Answer logs carry
+ * their user; session updates take it from the cached session, and are dropped
+ * when that isn't cached, since they can't be replayed safely on a shared device.
+ */
+function tagQueuedMutationsWithUser(transaction: IDBTransaction) {
+  const mutations = transaction.objectStore(MUTATIONS_STORE)
+  const sessions = transaction.objectStore(SESSIONS_STORE)
+  mutations.createIndex('userId', 'userId')
+
+  const cursorRequest = mutations.openCursor()
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result
+    if (!cursor) return
+
+    const mutation = cursor.value
+    if (mutation.type === 'question-log') {
+      cursor.update({ ...mutation, userId: mutation.log.user_id })
+      cursor.continue()
+      return
+    }
+
+    const sessionRequest = sessions.get(mutation.sessionId)
+    sessionRequest.onsuccess = () => {
+      if (sessionRequest.result) {
+        cursor.update({ ...mutation, userId: sessionRequest.result.user_id })
+      } else {
+        cursor.delete()
+      }
+      cursor.continue()
+    }
+  }
+}
+
+function openOfflineDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        const sessions = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' })
+        sessions.createIndex('user_id', 'user_id')
+      }
+      if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+        const mutations = db.createObjectStore(MUTATIONS_STORE, { keyPath: 'id', autoIncrement: true })
+        mutations.createIndex('userId', 'userId')
+      } else if (event.oldVersion < 2 && request.transaction) {
+        tagQueuedMutationsWithUser(request.transaction)
+      }
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      // Let the next call try again, e.g. after the user allows storage
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+
+  return dbPromise
+}
+
+async function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openOfflineDb()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = operation(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export async function cacheSession(session: QuizSession): Promise<void> {
+  await runTransaction(SESSIONS_STORE, 'readwrite', store => store.put(session))
+}
+
+/**
+ * Replace a user's cached sessions with a fresh copy from the server
+ */
+export async function replaceCachedSessions(userId: string, sessions: QuizSession[]): Promise<void> {
+  await runTransaction(SESSIONS_STORE, 'readwrite', store => {
+    const cursorRequest = store.index('user_id').openCursor(IDBKeyRange.only(userId))
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result
+      if (cursor) {
+        cursor.delete()
+        cursor.continue()
+      } else {
+        sessions.forEach(session => store.put(session))
+      }
+    }
+  })
+}
+
+export async function getCachedSessions(userId: string): Promise<QuizSession[]> {
+  const sessions = await runTransaction<QuizSession[]>(SESSIONS_STORE, 'readonly', store =>
+    store.index('user_id').getAll(IDBKeyRange.only(userId))
+  )
+  return (sessions || []).sort((a, b) => b.created_at.localeCompare(a.created_at))
+}
+
+export async function enqueueMutation(mutation: OfflineMutation): Promise<void> {
+  await runTransaction(MUTATIONS_STORE, 'readwrite', store => store.add(mutation))
+}
+
+/**
+ * A user's queued writes, oldest first. Other people who signed in on this
+ * device keep their own queue until they sign in again.
+ */
+export async function getQueuedMutations(userId: string): Promise<OfflineMutation[]> {
+  const mutations = await runTransaction<OfflineMutation[]>(MUTATIONS_STORE, 'readonly', store =>
+    store.index('userId').getAll(IDBKeyRange.only(userId))
+  )
+  return (mutations || []).sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+}
+
+export async function removeMutations(ids: number[]): Promise<void> {
+  if (ids.length === 0) return
+  await runTransaction(MUTATIONS_STORE, 'readwrite', store => {
+    ids.forEach(id => store.delete(id))
+  })
+}
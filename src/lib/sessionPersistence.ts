@@ -0,0 +1,128 @@
+import { QuizSession } from '../types'
+
+/**
+ * Buffered persistence for in-progress quiz session state.
+ *
+ * Timer ticks and UI toggles are merged into a pending update that is kept in
+ * memory and mirrored to storage, so nothing is lost on reload. Pending updates
+ * are written in a single call when flushed: on meaningful transitions (answer
+ * graded, question advanced), on an interval, and when the page is hidden.
+ */
+export interface SessionPersistence {
+  queue: (sessionId: string, updates: Partial<QuizSession>) => void
+  // Rejects when a single session's write fails, after keeping its updates for the next flush
+  flush: (sessionId?: string, updates?: Partial<QuizSession>) => Promise<void>
+  restore: (sessionId: string) => Partial<QuizSession> | null
+  discard: (sessionId: string) => void
+  dispose: () => void
+}
+
+interface SessionPersistenceOptions {
+  write: (sessionId: string, updates: Partial<QuizSession>) => Promise<void>
+  storage?: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'> | null
+  flushIntervalMs?: number
+  onError?: (error: unknown) => void
+}
+
+const STORAGE_PREFIX = 'quiz-session-pending:'
+export const DEFAULT_FLUSH_INTERVAL_MS = 15000
+
+export function createSessionPersistence({
+  write,
+  storage = typeof window !== 'undefined' ? window.localStorage : null,
+  flushIntervalMs = DEFAULT_FLUSH_INTERVAL_MS,
+  onError
+}: SessionPersistenceOptions): SessionPersistence {
+  const pending = new Map<string, Partial<QuizSession>>()
+  // Writes for a session run one after another so a slow write can't overwrite a newer one
+  let writeChain: Promise<void> = Promise.resolve()
+
+  const mirror = (sessionId: string) => {
+    try {
+      const updates = pending.get(sessionId)
+      if (updates) {
+        storage?.setItem(STORAGE_PREFIX + sessionId, JSON.stringify(updates))
+      } else {
+        storage?.removeItem(STORAGE_PREFIX + sessionId)
+      }
+    } catch (error) {
+      // Storage can be full or unavailable (private browsing); the in-memory buffer still works
+      onError?.(error)
+    }
+  }
+
+  const flushSession = (sessionId: string, updates?: Partial<QuizSession>) => {
+    const merged = { ...pending.get(sessionId), ...updates }
+    pending.delete(sessionId)
+    if (Object.keys(merged).length === 0) return writeChain
+
+    const written = writeChain
+      .then(() => write(sessionId, merged))
+      .then(() => mirror(sessionId))
+
+    // The chain carries on after a failure; the caller still sees it through `written`
+    writeChain = written.catch(error => {
+      // Put the failed updates back (newer queued values win) so the next flush retries them
+      pending.set(sessionId, { ...merged, ...pending.get(sessionId) })
+      mirror(sessionId)
+      onError?.(error)
+    })
+
+    return written
+  }
+
+  // Background flushes have nobody to tell; failures are kept for retry and reported through onError
+  const flushAll = () => Promise.all(Array.from(pending.keys()).map(id => flushSession(id).catch(() => undefined)))
+    .then(() => undefined)
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') flushAll()
+  }
+
+  const interval = setInterval(() => {
+    if (pending.size > 0) flushAll()
+  }, flushIntervalMs)
+
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    window.addEventListener('pagehide', flushAll)
+  }
+
+  return {
+    queue: (sessionId, updates) => {
+      pending.set(sessionId, { ...pending.get(sessionId), ...updates })
+      mirror(sessionId)
+    },
+
+    flush: (sessionId, updates) => {
+      if (sessionId) return flushSession(sessionId, updates)
+      return flushAll()
+    },
+
+    restore: (sessionId) => {
+      try {
+        const stored = storage?.getItem(STORAGE_PREFIX + sessionId)
+        if (!stored) return null
+        const updates = { ...JSON.parse(stored), ...pending.get(sessionId) }
+        pending.set(sessionId, updates)
+        return updates
+      } catch (error) {
+        onError?.(error)
+        return null
+      }
+    },
+
+    discard: (sessionId) => {
+      pending.delete(sessionId)
+      mirror(sessionId)
+    },
+
+    dispose: () => {
+      clearInterval(interval)
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibilityChange)
+        window.removeEventListener('pagehide', flushAll)
+      }
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Text-to-speech used to read quiz questions aloud.
+ *
+ * The runner only talks to this interface, so tests can swap in a fake engine
+ * and browsers without speech synthesis get a silent one that finishes at once.
+ */
+export interface SpeechVoice {
+  uri: string
+  name: string
+  lang: string
+}
+
+export interface SpeakOptions {
+  voiceURI?: string | null
+  rate?: number
+}
+
+export interface SpeechEngine {
+  isSupported: boolean
+  getVoices: () => SpeechVoice[]
+  onVoicesChanged: (listener: () => void) => () => void
+  // Resolves when the text has been read, or when reading is cancelled or fails
+  speak: (text: string, options?: SpeakOptions) => Promise<void>
+  cancel: () => void
+}
+
+/**
+ * Engine backed by the browser's Web Speech API
+ */
+export function createBrowserSpeechEngine(synthesis: SpeechSynthesis = window.speechSynthesis): SpeechEngine {
+  const listeners = new Set<() => void>()
+
+  synthesis.addEventListener('voiceschanged', () => {
+    listeners.forEach(listener => listener())
+  })
+
+  return {
+    isSupported: true,
+
+    getVoices: () => synthesis.getVoices().map(voice => ({
+      uri: voice.voiceURI,
+      name: voice.name,
+      lang: voice.lang
+    })),
+
+    onVoicesChanged: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+
+    speak: (text, { voiceURI, rate = 1 } = {}) => new Promise(resolve => {
+      // Only one thing is read at a time; a new question interrupts the last one
+      synthesis.cancel()
+
+      const utterance = new SpeechSynthesisUtterance(text)
+      utterance.rate = rate
+      const voice = voiceURI ? synthesis.getVoices().find(v => v.voiceURI === voiceURI) : undefined
+      if (voice) utterance.voice = voice
+
+      utterance.onend = () => resolve()
+      // Cancelling fires an 'interrupted' or 'canceled' error, which also ends reading
+      utterance.onerror = () => resolve()
+
+      synthesis.speak(utterance)
+    }),
+
+    cancel: () => synthesis.cancel()
+  }
+}
+
+/**
+ * Engine that reads nothing and finishes immediately
+ */
+export function createSilentSpeechEngine(): SpeechEngine {
+  return {
+    isSupported: false,
+    getVoices: () => [],
+    onVoicesChanged: () => () => undefined,
+    speak: async () => undefined,
+    cancel: () => undefined
+  }
+}
+
+export function createSpeechEngine(): SpeechEngine {
+  if (typeof window !== 'undefined' && 'speechSynthesis' in window) {
+    return createBrowserSpeechEngine()
+  }
+  return createSilentSpeechEngine()
+}
@@ -5,6 +5,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { useTeamManagement } from '../hooks/useTeamManagement';
 import { useAnalyticsData } from '../hooks/useAnalyticsData';
 import { useKnowledgeGapsData } from '../hooks/useKnowledgeGapsData';
+import { useReviewCoverageData } from '../hooks/useReviewCoverageData';
 import { useProgressionData } from '../hooks/useProgressionData';
 import { useQuizHistoryData } from '../hooks/useQuizHistoryData';
 import { useStudyScheduleAnalysisData } from '../hooks/useStudyScheduleAnalysisData';
@@ -12,7 +13,9 @@ import { useQuestionPerformanceData } from '../hooks/useQuestionPerformanceData'
 import { useEngagementData } from '../hooks/useEngagementData';
 import { useTeamPerformanceTrendsData } from '../hooks/useTeamPerformanceTrendsData';
 import { useBookChapterPerformanceData } from '../hooks/useBookChapterPerformanceData';
+import { useAssignedQuizzes } from '../hooks/useAssignedQuizzes';
 import { AnalyticsProvider, AnalyticsContextType } from '../contexts/AnalyticsContext';
+import { QuizTimingFilter } from '../types';
 import { TeamMemberSelector } from '../components/schedule/TeamMemberSelector';
 import { LoadingSpinner } from '../components/common/LoadingSpinner';
 import { AlertMessage } from '../components/common/AlertMessage';
@@ -24,6 +27,7 @@ import { QuestionPerformanceTab } from '../components/analytics/QuestionPerforma
 import { ActivityTab } from '../components/analytics/ActivityTab';
 import { TeamTrendsTab } from '../components/analytics/TeamTrendsTab';
 import { BookChapterPerformanceTab } from '../components/analytics/BookChapterPerformanceTab';
+import { AssignedQuizzesTab } from '../components/analytics/AssignedQuizzesTab';
 import { 
   BarChart3,
   Clock,
@@ -35,13 +39,14 @@ import {
   Brain,
   Award,
   Activity,
+  ClipboardList,
   TrendingUp as TrendingUpIcon
 } from 'lucide-react';
 
 // Constants
 const DEFAULT_DATE_RANGE_MONTHS = 3;
 
-type AnalyticsTab = 'overview' | 'quiz-history' | 'study-schedule' | 'knowledge-gaps' | 'question-performance' | 'activity' | 'book-chapter-performance' | 'team-trends';
+type AnalyticsTab = 'overview' | 'quiz-history' | 'study-schedule' | 'knowledge-gaps' | 'question-performance' | 'activity' | 'book-chapter-performance' | 'team-trends' | 'assigned-quizzes';
 
 // Tab configuration
 const TABS_CONFIG = [
@@ -53,6 +58,7 @@ const TABS_CONFIG = [
   { id: 'activity', name: 'Daily Activity', icon: Activity },
   { id: 'book-chapter-performance', name: 'Book/Chapter', icon: BookOpen },
   { id: 'team-trends', name: 'Team Trends', icon: TrendingUpIcon, requiresTeamView: true },
+  { id: 'assigned-quizzes', name: 'Assigned Quizzes', icon: ClipboardList, requiresTeamView: true },
 ];
 
 export function Analytics() {
@@ -74,6 +80,8 @@ export function Analytics() {
     return date;
   });
   const [endDate, setEndDate] = useState<Date>(new Date());
+  // Untimed study sessions can be left out of, or looked at apart from, the overview stats
+  const [timingFilter, setTimingFilter] = useState<QuizTimingFilter>('all');
 
   // Fetch team members for the selector - ALWAYS call this hook
   const { teamMembers, loading: teamMembersLoading, error: teamMembersError } = useTeamManagement();
@@ -84,6 +92,7 @@ export function Analytics() {
     userId: selectedMemberId,
     startDate,
     endDate,
+    timing: timingFilter,
   });
 
   const { data: knowledgeGapsData, loading: knowledgeGapsLoading, error: knowledgeGapsError } = useKnowledgeGapsData({
@@ -93,6 +102,13 @@ export function Analytics() {
     endDate,
   });
 
+  const { data: reviewCoverageData, loading: reviewCoverageLoading, error: reviewCoverageError } = useReviewCoverageData({
+    teamId: user?.teamId,
+    userId: selectedMemberId,
+    startDate,
+    endDate,
+  });
+
   const { data: progressionData, loading: progressionLoading, error: progressionError } = useProgressionData({
     teamId: user?.teamId,
     userId: selectedMemberId,
@@ -142,6 +158,8 @@ export function Analytics() {
     endDate,
   });
 
+  const { assignedQuizzes, loading: assignedQuizzesLoading, error: assignedQuizzesError } = useAssignedQuizzes();
+
   // Memoized helper functions with correct dependencies
   const handleStartDateChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const newStartDate = new Date(e.target.value);
@@ -223,6 +241,9 @@ export function Analytics() {
     knowledgeGapsData,
     knowledgeGapsLoading,
     knowledgeGapsError,
+    reviewCoverageData,
+    reviewCoverageLoading,
+    reviewCoverageError,
     progressionData,
     progressionLoading,
     progressionError,
@@ -244,6 +265,9 @@ export function Analytics() {
     bookChapterData,
     bookChapterLoading,
     bookChapterError,
+    assignedQuizzes,
+    assignedQuizzesLoading,
+    assignedQuizzesError,
     selectedMemberInfo,
   }), [
     user,
@@ -258,6 +282,9 @@ export function Analytics() {
     knowledgeGapsData,
     knowledgeGapsLoading,
     knowledgeGapsError,
+    reviewCoverageData,
+    reviewCoverageLoading,
+    reviewCoverageError,
     progressionData,
     progressionLoading,
     progressionError,
@@ -279,6 +306,9 @@ export function Analytics() {
     bookChapterData,
     bookChapterLoading,
     bookChapterError,
+    assignedQuizzes,
+    assignedQuizzesLoading,
+    assignedQuizzesError,
     selectedMemberInfo,
   ]);
 
@@ -317,7 +347,7 @@ export function Analytics() {
   }
 
   // Check loading states
-  const isAnyDataLoading = analyticsLoading || knowledgeGapsLoading || 
+  const isAnyDataLoading = analyticsLoading || knowledgeGapsLoading || reviewCoverageLoading || 
     progressionLoading || quizHistoryLoading || studyScheduleLoading || 
     questionPerformanceLoading || engagementLoading || teamTrendsLoading || 
     bookChapterLoading;
@@ -344,6 +374,8 @@ export function Analytics() {
           return <TeamTrendsTab />;
         case 'book-chapter-performance':
           return <BookChapterPerformanceTab />;
+        case 'assigned-quizzes':
+          return <AssignedQuizzesTab />;
         default:
           return <OverviewTab />;
       }
@@ -495,6 +527,22 @@ export function Analytics() {
                   />
                 </div>
                 
+                <div className="flex items-center space-x-2">
+                  <label htmlFor="timingFilter" className="text-sm font-medium text-gray-700 whitespace-nowrap">
+                    Timer:
+                  </label>
+                  <select
+                    id="timingFilter"
+                    value={timingFilter}
+                    onChange={(e) => setTimingFilter(e.target.value as QuizTimingFilter)}
+                    className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all duration-200"
+                  >
+                    <option value="all">All quizzes</option>
+                    <option value="timed">Timed only</option>
+                    <option value="untimed">Untimed only</option>
+                  </select>
+                </div>
+
                 <div className="text-sm text-gray-500">
                   {dateRangeDays} days
                 </div>
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Layout } from '../components/layout/Layout';
+import { useAuth } from '../contexts/AuthContext';
+import { useCoachReviewQueue } from '../hooks/useCoachReviewQueue';
+import { ReviewOverride } from '../utils/coachReview';
+import { CoachReviewCard } from '../components/quiz/CoachReviewCard';
+import { LoadingSpinner } from '../components/common/LoadingSpinner';
+import { AlertMessage } from '../components/common/AlertMessage';
+import { ClipboardCheck, Users, RefreshCw } from 'lucide-react';
+
+export function CoachReview() {
+  const { user } = useAuth();
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const {
+    pendingReviews,
+    reviewRequired,
+    loading,
+    submittingId,
+    error,
+    submitReview,
+    updateReviewRequired,
+    refresh,
+  } = useCoachReviewQueue(user?.teamId);
+
+  const handleSubmit = async (
+    sessionId: string,
+    status: 'approved' | 'rejected',
+    overrides: ReviewOverride[],
+    note: string
+  ) => {
+    setSuccessMessage(null);
+    const saved = await submitReview(sessionId, status, overrides, note);
+    if (saved) {
+      setSuccessMessage(status === 'approved' ? 'Quiz approved.' : 'Quiz rejected.');
+    }
+  };
+
+  if (!user?.teamId) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <div className="text-center py-12">
+            <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">No Team Found</h2>
+            <p className="text-gray-600">You need to be part of a team to review quizzes.</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6">
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Quiz Review</h1>
+            <p className="text-gray-600">
+              Check members' quizzes, correct any grades, then approve them for the leaderboard.
+            </p>
+          </div>
+          <button
+            onClick={refresh}
+            className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+          >
+            <RefreshCw className="h-4 w-4" />
+            <span>Refresh</span>
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-4 sm:p-6 mb-6">
+          <label className="flex items-start space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={reviewRequired}
+              onChange={(e) => updateReviewRequired(e.target.checked)}
+              className="mt-1 h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+            />
+            <div>
+              <p className="font-medium text-gray-900">Require coach review</p>
+              <p className="text-sm text-gray-600">
+                Quizzes completed by members wait here and only count on the leaderboard once approved.
+              </p>
+            </div>
+          </label>
+        </div>
+
+        {error && (
+          <AlertMessage type="error" message={error} className="mb-6" />
+        )}
+
+        {successMessage && (
+          <AlertMessage
+            type="success"
+            message={successMessage}
+            dismissible
+            onDismiss={() => setSuccessMessage(null)}
+            className="mb-6"
+          />
+        )}
+
+        {loading ? (
+          <LoadingSpinner text="Loading review queue..." className="py-12" />
+        ) : pendingReviews.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm text-center py-12">
+            <ClipboardCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">All caught up</h2>
+            <p className="text-gray-600">No quizzes are waiting for review.</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {pendingReviews.map(review => (
+              <CoachReviewCard
+                key={review.id}
+                review={review}
+                submitting={submittingId === review.id}
+                onSubmit={(status, overrides, note) => handleSubmit(review.id, status, overrides, note)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
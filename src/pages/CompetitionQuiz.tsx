@@ -0,0 +1,123 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuestion } from '../contexts/QuestionContext';
+import { useQuizSession } from '../contexts/QuizSessionContext';
+import { COMPETITION_QUESTION_COUNT, COMPETITION_ANSWER_SECONDS } from '../constants/competition';
+
+export function CompetitionQuiz() {
+  const navigate = useNavigate();
+  const { user, developerLog } = useAuth();
+  const { publishedQuestions: questions, fetchQuestions } = useQuestion();
+  const { createQuizSession, getActiveSessionsForUser } = useQuizSession();
+  const [error, setError] = useState<string | null>(null);
+  const initializationAttempted = useRef(false);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  useEffect(() => {
+    if (initializationAttempted.current) return;
+
+    if (!user) {
+      setError('User not authenticated');
+      return;
+    }
+
+    if (questions.length === 0) {
+      // Still waiting for questions to load
+      return;
+    }
+
+    const initializeCompetitionSession = async () => {
+      initializationAttempted.current = true;
+
+      try {
+        // Resume an unfinished round (including one waiting to be judged)
+        const existingCompetitionSession = getActiveSessionsForUser(user.id).find(session =>
+          session.type === 'competition'
+        );
+
+        if (existingCompetitionSession) {
+          developerLog('✅ Found existing competition session, resuming:', existingCompetitionSession.id);
+          navigate(`/quiz/runner/${existingCompetitionSession.id}`, { replace: true });
+          return;
+        }
+
+        const accessibleTiers = user.planSettings?.question_tier_access || ['free'];
+        const accessibleQuestions = questions.filter(q => accessibleTiers.includes(q.tier));
+
+        if (accessibleQuestions.length === 0) {
+          setError('No questions available for your subscription tier');
+          return;
+        }
+
+        // A round always uses the official question count when enough questions are available
+        const shuffled = [...accessibleQuestions].sort(() => 0.5 - Math.random());
+        const selectedQuestions = shuffled.slice(0, Math.min(COMPETITION_QUESTION_COUNT, shuffled.length));
+        const totalPoints = selectedQuestions.reduce((sum, q) => sum + q.points, 0);
+
+        developerLog('🏅 Creating competition round with', selectedQuestions.length, 'questions worth', totalPoints, 'points');
+
+        const sessionId = await createQuizSession({
+          type: 'competition',
+          title: 'Competition Simulation',
+          description: 'An official-style Pathfinder Bible Experience round. Write your team\'s answer to each question before time runs out, then score the answer sheet as a judge.',
+          user_id: user.id,
+          team_id: user.teamId,
+          questions: selectedQuestions,
+          current_question_index: 0,
+          results: [],
+          status: 'active',
+          show_answer: false,
+          time_left: COMPETITION_ANSWER_SECONDS,
+          timer_active: false,
+          timer_started: false,
+          has_time_expired: false,
+          total_points: 0,
+          max_points: totalPoints,
+          estimated_minutes: Math.ceil((selectedQuestions.length * COMPETITION_ANSWER_SECONDS) / 60),
+          answer_mode: 'typed',
+        });
+
+        navigate(`/quiz/runner/${sessionId}`, { replace: true });
+      } catch (error) {
+        developerLog('💥 Error initializing competition session:', error);
+        setError(error instanceof Error ? error.message : 'Failed to create competition round');
+        initializationAttempted.current = false;
+      }
+    };
+
+    initializeCompetitionSession();
+  }, [user, questions, createQuizSession, getActiveSessionsForUser, navigate, developerLog]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="h-12 w-12 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <span className="text-red-600 text-xl">⚠</span>
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Unable to Start Competition</h2>
+          <p className="text-gray-600 mb-4">{error}</p>
+          <button
+            onClick={() => navigate('/quiz')}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+          >
+            Back to Quiz Center
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Preparing your competition round...</p>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Layout } from '../components/layout/Layout';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useQuestion } from '../contexts/QuestionContext';
 import { useQuizSession } from '../contexts/QuizSessionContext';
@@ -14,10 +14,26 @@ import {
   AlertCircle,
   Crown,
   Star,
-  Loader
+  Loader,
+  Keyboard,
+  Hand,
+  Share2,
+  Shuffle,
+  ListOrdered
 } from 'lucide-react';
-import { Question } from '../types';
-import { getAccessibleQuestions, getChaptersForBook, getAvailableBooksFromQuestions } from '../utils/quizUtils';
+import { Question, QuizAnswerMode, QuizDefinition, QuizOrdering, QuizTemplate, QuizTimerSettings } from '../types';
+import { getAccessibleQuestions, getChaptersForBook, getAvailableBooksFromQuestions, getVersesForChapter } from '../utils/quizUtils';
+import { questionMatchesVerses } from '../utils/verseReferences';
+import { formatStudyItemsForAssignment } from '../utils/quizHelpers';
+import { generateQuizSeed } from '../utils/seededShuffle';
+import { buildQuestionsFromDefinition, getTiersForPlan } from '../utils/quizDefinition';
+import { isTeamQuestion } from '../utils/teamQuestions';
+import { useSharedQuiz } from '../hooks/useSharedQuiz';
+import { useQuizTemplates } from '../hooks/useQuizTemplates';
+import { QuizTemplatesPanel } from '../components/quiz/QuizTemplatesPanel';
+import { TimerModeSelector } from '../components/quiz/TimerModeSelector';
+import { QuizPacketActions } from '../components/quiz/QuizPacketActions';
+import { buildTimerSessionFields, DEFAULT_TIMER_SETTINGS } from '../utils/timerModes';
 
 interface BookChapterSelection {
   [book: string]: number[];
@@ -25,10 +41,25 @@ interface BookChapterSelection {
 
 export function CreateOwnQuiz() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { user } = useAuth();
-  const { questions, loading: questionsLoading, fetchQuestions } = useQuestion();
+  const { publishedQuestions: questions, loading: questionsLoading, fetchQuestions } = useQuestion();
   const { createQuizSession } = useQuizSession();
+  const { sharing, error: shareError, createShareCode } = useSharedQuiz();
+  const {
+    myTemplates,
+    teamTemplates,
+    canPublish,
+    saving: savingTemplate,
+    error: templateError,
+    saveTemplate,
+    setTemplatePublished,
+    deleteTemplate
+  } = useQuizTemplates();
   const [quizSessionId, setQuizSessionId] = useState<string | null>(null);
+  const [shareCode, setShareCode] = useState<string | null>(null);
+  // One seed per visit keeps the preview stable and lets the quiz be shared as a code
+  const [quizSeed] = useState(generateQuizSeed);
   
   // Redirect if user does not have access to this quiz type
   useEffect(() => {
@@ -41,7 +72,24 @@ export function CreateOwnQuiz() {
   // Quiz configuration state - now supporting multiple books
   const [selectedBooks, setSelectedBooks] = useState<string[]>([]);
   const [bookChapterSelections, setBookChapterSelections] = useState<BookChapterSelection>({});
+  // Verses narrow a book to part of a chapter, so they only apply while one chapter is picked
+  const [bookVerseSelections, setBookVerseSelections] = useState<BookChapterSelection>({});
   const [maxQuestions, setMaxQuestions] = useState<number>(20);
+  const [answerMode, setAnswerMode] = useState<QuizAnswerMode>(
+    searchParams.get('mode') === 'typed' ? 'typed' : 'self-graded'
+  );
+  const [ordering, setOrdering] = useState<QuizOrdering>('random');
+  const [timerSettings, setTimerSettings] = useState<QuizTimerSettings>(DEFAULT_TIMER_SETTINGS);
+  const planTiers = React.useMemo(() => getTiersForPlan(user?.subscription?.plan || 'free'), [user?.subscription?.plan]);
+  const [selectedTiers, setSelectedTiers] = useState<Question['tier'][] | null>(null);
+  // Until the member picks tiers, or when a template only covers tiers their plan
+  // doesn't include, draw from everything the plan includes
+  const activeTiers = React.useMemo(() => {
+    const tiers = (selectedTiers || planTiers).filter(tier => planTiers.includes(tier));
+    return tiers.length > 0 ? tiers : planTiers;
+  }, [selectedTiers, planTiers]);
+  // Set when a template is started directly, so the quiz starts once the form has caught up
+  const [pendingTemplateStart, setPendingTemplateStart] = useState(false);
 
   // Load questions when component mounts
   useEffect(() => {
@@ -54,47 +102,41 @@ export function CreateOwnQuiz() {
     [questions]
   );
 
+  // Filters, tier access and seed that reproduce this quiz
+  const quizDefinition = React.useMemo((): QuizDefinition => ({
+    source: 'custom',
+    chapters: selectedBooks
+      .map(book => {
+        const chapters = [...(bookChapterSelections[book] || [])].sort((a, b) => a - b);
+        const verses = chapters.length === 1 ? [...(bookVerseSelections[book] || [])].sort((a, b) => a - b) : [];
+        return verses.length > 0 ? { book, chapters, verses } : { book, chapters };
+      })
+      .filter(entry => entry.chapters.length > 0),
+    tiers: activeTiers,
+    seed: quizSeed,
+    count: maxQuestions,
+    ordering,
+  }), [selectedBooks, bookChapterSelections, bookVerseSelections, activeTiers, quizSeed, maxQuestions, ordering]);
+
   // Memoized helper functions
   const getFilteredQuestions = React.useCallback((): Question[] => {
-    if (selectedBooks.length === 0) return [];
-    
-    let filtered: Question[] = [];
-    
-    // Collect questions from all selected books and chapters
-    selectedBooks.forEach(book => {
-      const bookChapters = bookChapterSelections[book] || [];
-      if (bookChapters.length > 0) {
-        const bookQuestions = questions.filter(q => 
-          q.book_of_bible === book && bookChapters.includes(q.chapter)
-        );
-        filtered = [...filtered, ...bookQuestions];
-      }
-    });
-
-    // Filter by user's tier access
-    filtered = getAccessibleQuestions(filtered, user?.subscription?.plan || 'free');
-
-    // Shuffle and limit
-    const shuffled = [...filtered].sort(() => 0.5 - Math.random());
-    return shuffled.slice(0, Math.min(maxQuestions, filtered.length));
-  }, [selectedBooks, bookChapterSelections, questions, user?.subscription?.plan, maxQuestions]);
+    if (quizDefinition.chapters.length === 0) return [];
+    return buildQuestionsFromDefinition(questions, quizDefinition);
+  }, [questions, quizDefinition]);
 
   const getAvailableQuestionsCount = React.useCallback((): number => {
     if (selectedBooks.length === 0) return 0;
     
     let count = 0;
-    selectedBooks.forEach(book => {
-      const bookChapters = bookChapterSelections[book] || [];
-      if (bookChapters.length > 0) {
-        const bookQuestions = questions.filter(q => 
-          q.book_of_bible === book && bookChapters.includes(q.chapter)
-        );
-        count += getAccessibleQuestions(bookQuestions, user?.subscription?.plan || 'free').length;
-      }
+    quizDefinition.chapters.forEach(entry => {
+      count += questions.filter(q => 
+        q.book_of_bible === entry.book && entry.chapters.includes(q.chapter) && activeTiers.includes(q.tier) &&
+        (!entry.verses || questionMatchesVerses(q, entry.verses))
+      ).length;
     });
     
     return count;
-  }, [selectedBooks, bookChapterSelections, questions, user?.subscription?.plan]);
+  }, [selectedBooks, quizDefinition.chapters, questions, activeTiers]);
 
   const getQuizTitle = React.useCallback(() => {
     if (selectedBooks.length === 0) return 'Custom Quiz';
@@ -104,6 +146,8 @@ export function CreateOwnQuiz() {
   }, [selectedBooks]);
 
   const filteredQuestions = getFilteredQuestions();
+  // Team questions stay with the team, so a shared copy of this quiz leaves them out
+  const hasTeamQuestions = filteredQuestions.some(isTeamQuestion);
   
   const getQuizDescription = React.useCallback(() => {
     if (selectedBooks.length === 0) return 'Custom quiz';
@@ -132,13 +176,18 @@ export function CreateOwnQuiz() {
         ? prev.filter(b => b !== book)
         : [...prev, book];
       
-      // If removing a book, also remove its chapter selections
+      // If removing a book, also remove its chapter and verse selections
       if (!newBooks.includes(book)) {
         setBookChapterSelections(prev => {
           const newSelections = { ...prev };
           delete newSelections[book];
           return newSelections;
         });
+        setBookVerseSelections(prev => {
+          const newSelections = { ...prev };
+          delete newSelections[book];
+          return newSelections;
+        });
       }
       
       return newBooks;
@@ -158,6 +207,18 @@ export function CreateOwnQuiz() {
         [book]: newChapters
       };
     });
+    setBookVerseSelections(prev => ({ ...prev, [book]: [] }));
+  }, []);
+
+  // Handle verse selection within a book's only selected chapter
+  const handleVerseToggle = React.useCallback((book: string, verse: number) => {
+    setBookVerseSelections(prev => {
+      const bookVerses = prev[book] || [];
+      return {
+        ...prev,
+        [book]: bookVerses.includes(verse) ? bookVerses.filter(v => v !== verse) : [...bookVerses, verse]
+      };
+    });
   }, []);
 
   // Handle select all chapters for a book
@@ -170,10 +231,49 @@ export function CreateOwnQuiz() {
       ...prev,
       [book]: allSelected ? [] : availableChapters
     }));
+    setBookVerseSelections(prev => ({ ...prev, [book]: [] }));
   }, [questions, bookChapterSelections]);
 
+  const handleTierToggle = React.useCallback((tier: Question['tier']) => {
+    setSelectedTiers(prev => {
+      const current = prev || planTiers;
+      const next = current.includes(tier) ? current.filter(t => t !== tier) : [...current, tier];
+      return next.length > 0 ? next : current;
+    });
+  }, [planTiers]);
+
   const availableQuestionsCount = getAvailableQuestionsCount();
 
+  // Load a saved selection into the form
+  const applyTemplate = React.useCallback((template: QuizTemplate) => {
+    const { config } = template;
+    setSelectedBooks(config.chapters.map(entry => entry.book));
+    setBookChapterSelections(Object.fromEntries(config.chapters.map(entry => [entry.book, [...entry.chapters]])));
+    setBookVerseSelections(Object.fromEntries(config.chapters.map(entry => [entry.book, [...(entry.verses || [])]])));
+    setMaxQuestions(Math.min(config.count, questionLimit));
+    setOrdering(config.ordering || 'random');
+    setSelectedTiers(config.tiers);
+    setAnswerMode(config.answer_mode || 'self-graded');
+    setTimerSettings(config.timer || DEFAULT_TIMER_SETTINGS);
+  }, [questionLimit]);
+
+  const handleStartTemplate = React.useCallback((template: QuizTemplate) => {
+    applyTemplate(template);
+    setPendingTemplateStart(true);
+  }, [applyTemplate]);
+
+  const handleSaveTemplate = React.useCallback(async (name: string, publishToTeam: boolean): Promise<boolean> => {
+    const saved = await saveTemplate(name, {
+      chapters: quizDefinition.chapters,
+      tiers: activeTiers,
+      count: maxQuestions,
+      ordering,
+      answer_mode: answerMode,
+      timer: timerSettings,
+    }, publishToTeam);
+    return !!saved;
+  }, [saveTemplate, quizDefinition.chapters, activeTiers, maxQuestions, ordering, answerMode, timerSettings]);
+
   // Start the quiz
   const handleStartQuiz = React.useCallback(async () => {
     if (filteredQuestions.length === 0 || !user) return;
@@ -199,20 +299,48 @@ export function CreateOwnQuiz() {
         results: [],
         status: 'active',
         show_answer: false,
-        time_left: filteredQuestions[0]?.time_to_answer || 30,
+        ...buildTimerSessionFields(timerSettings, filteredQuestions),
         timer_active: false,
         timer_started: false,
         has_time_expired: false,
         total_points: 0,
         max_points: totalPoints,
         total_actual_time_spent_seconds: 0, // Will be calculated when completed
+        answer_mode: answerMode,
+        quiz_definition: quizDefinition,
+        share_code: hasTeamQuestions ? null : shareCode,
       });
 
       setQuizSessionId(sessionId);
     } catch (error) {
       console.error('Error creating quiz session:', error);
     }
-  }, [filteredQuestions, user, getQuizTitle, getQuizDescription, createQuizSession]);
+  }, [filteredQuestions, user, getQuizTitle, getQuizDescription, createQuizSession, answerMode, timerSettings, quizDefinition, shareCode, hasTeamQuestions]);
+
+  // Runs on the render after a template was applied, with the form already updated
+  useEffect(() => {
+    if (!pendingTemplateStart || questionsLoading) return;
+    setPendingTemplateStart(false);
+    handleStartQuiz();
+  }, [pendingTemplateStart, questionsLoading, handleStartQuiz]);
+
+  const handleShareQuiz = React.useCallback(async () => {
+    if (filteredQuestions.length === 0) return;
+
+    const code = await createShareCode({
+      title: getQuizTitle(),
+      description: getQuizDescription(),
+      definition: quizDefinition,
+      questions: filteredQuestions,
+      answerMode,
+    });
+    if (code) setShareCode(code);
+  }, [filteredQuestions, createShareCode, getQuizTitle, getQuizDescription, quizDefinition, answerMode]);
+
+  // A code only describes the quiz it was created for
+  useEffect(() => {
+    setShareCode(null);
+  }, [quizDefinition, answerMode]);
 
   // Calculate estimated time
   const estimatedMinutes = Math.round(filteredQuestions.reduce((sum, q) => sum + q.time_to_answer, 0) / 60);
@@ -351,6 +479,20 @@ export function CreateOwnQuiz() {
                 </div>
               </div>
 
+              <QuizTemplatesPanel
+                myTemplates={myTemplates}
+                teamTemplates={teamTemplates}
+                canPublish={canPublish}
+                canSave={filteredQuestions.length > 0}
+                saving={savingTemplate}
+                error={templateError}
+                onApply={applyTemplate}
+                onStart={handleStartTemplate}
+                onSave={handleSaveTemplate}
+                onTogglePublished={(template) => setTemplatePublished(template.id, !template.is_team_template)}
+                onDelete={(template) => deleteTemplate(template.id)}
+              />
+
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                 {/* Configuration Panel */}
                 <div className="space-y-6">
@@ -451,9 +593,137 @@ export function CreateOwnQuiz() {
                           );
                         })}
                       </div>
+                      {(bookChapterSelections[book] || []).length === 1 && (() => {
+                        const chapter = bookChapterSelections[book][0];
+                        const availableVerses = getVersesForChapter(book, chapter, questions);
+                        const selectedVerses = bookVerseSelections[book] || [];
+                        if (availableVerses.length === 0) return null;
+
+                        return (
+                          <div className="mb-4">
+                            <div className="flex items-center justify-between mb-2">
+                              <label className="block text-sm font-medium text-gray-700">
+                                {book} {chapter} Verses (optional)
+                              </label>
+                              {selectedVerses.length > 0 && (
+                                <button
+                                  onClick={() => setBookVerseSelections(prev => ({ ...prev, [book]: [] }))}
+                                  className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+                                >
+                                  Clear
+                                </button>
+                              )}
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                              {availableVerses.map(verse => (
+                                <button
+                                  key={`${book}-${chapter}-${verse}`}
+                                  onClick={() => handleVerseToggle(book, verse)}
+                                  className={`w-10 py-1 rounded-lg border-2 text-sm transition-all duration-200 ${
+                                    selectedVerses.includes(verse)
+                                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                                      : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                                  }`}
+                                >
+                                  {verse}
+                                </button>
+                              ))}
+                            </div>
+                            <p className="text-xs text-gray-500 mt-2">
+                              {selectedVerses.length > 0
+                                ? 'Only questions tagged with these verses are included.'
+                                : 'Leave empty to include the whole chapter.'}
+                            </p>
+                          </div>
+                        );
+                      })()}
                     </div>
                   ))}
 
+                  {/* Answer Mode */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-3">
+                      Answer Mode
+                    </label>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {[
+                        { value: 'self-graded' as QuizAnswerMode, label: 'Self-Graded', description: 'Reveal the answer and mark yourself', icon: Hand },
+                        { value: 'typed' as QuizAnswerMode, label: 'Typed Answers', description: 'Type your answer and get it graded automatically', icon: Keyboard },
+                      ].map((mode) => (
+                        <button
+                          key={mode.value}
+                          onClick={() => setAnswerMode(mode.value)}
+                          className={`p-4 rounded-lg border-2 text-left transition-all duration-200 ${
+                            answerMode === mode.value
+                              ? 'border-blue-500 bg-blue-50 text-blue-700'
+                              : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          <div className="flex items-center space-x-2 font-medium">
+                            <mode.icon className="h-4 w-4" />
+                            <span>{mode.label}</span>
+                          </div>
+                          <div className="text-sm text-gray-500 mt-1">{mode.description}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <TimerModeSelector value={timerSettings} onChange={setTimerSettings} />
+
+                  {/* Question Order */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-3">
+                      Question Order
+                    </label>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {[
+                        { value: 'random' as QuizOrdering, label: 'Shuffled', description: 'Questions in random order', icon: Shuffle },
+                        { value: 'reference' as QuizOrdering, label: 'In Order', description: 'By book, chapter and verse', icon: ListOrdered },
+                      ].map((option) => (
+                        <button
+                          key={option.value}
+                          onClick={() => setOrdering(option.value)}
+                          className={`p-4 rounded-lg border-2 text-left transition-all duration-200 ${
+                            ordering === option.value
+                              ? 'border-blue-500 bg-blue-50 text-blue-700'
+                              : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          <div className="flex items-center space-x-2 font-medium">
+                            <option.icon className="h-4 w-4" />
+                            <span>{option.label}</span>
+                          </div>
+                          <div className="text-sm text-gray-500 mt-1">{option.description}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Question Tiers */}
+                  {planTiers.length > 1 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-3">
+                        Question Tiers
+                      </label>
+                      <div className="flex flex-wrap gap-2">
+                        {planTiers.map(tier => (
+                          <button
+                            key={tier}
+                            onClick={() => handleTierToggle(tier)}
+                            className={`px-4 py-2 rounded-lg border-2 text-sm font-medium capitalize transition-all duration-200 ${
+                              activeTiers.includes(tier)
+                                ? 'border-blue-500 bg-blue-50 text-blue-700'
+                                : 'border-gray-200 text-gray-600 hover:border-gray-300 hover:bg-gray-50'
+                            }`}
+                          >
+                            {tier}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Question Limit */}
                   {availableQuestionsCount > 0 && (
                     <div>
@@ -516,9 +786,11 @@ export function CreateOwnQuiz() {
                       <div className="bg-white p-4 rounded-lg">
                         <h4 className="font-medium text-gray-900 mb-2">Coverage</h4>
                         <div className="text-sm text-gray-600 space-y-1">
-                          <div><strong>Books:</strong> {selectedBooks.join(', ')}</div>
+                          <div><strong>Books:</strong> {formatStudyItemsForAssignment(quizDefinition.chapters) || selectedBooks.join(', ')}</div>
                           <div><strong>Total Chapters:</strong> {Object.values(bookChapterSelections).reduce((sum, chapters) => sum + chapters.length, 0)}</div>
                           <div><strong>Difficulty:</strong> Mixed levels</div>
+                          <div><strong>Order:</strong> {ordering === 'reference' ? 'By book, chapter and verse' : 'Shuffled'}</div>
+                          <div><strong>Answer Mode:</strong> {answerMode === 'typed' ? 'Typed answers (auto-graded)' : 'Self-graded'}</div>
                         </div>
                       </div>
 
@@ -529,6 +801,38 @@ export function CreateOwnQuiz() {
                         <Play className="h-5 w-5" />
                         <span>Start Custom Quiz</span>
                       </button>
+
+                      {shareCode ? (
+                        <div className="bg-white p-4 rounded-lg text-center">
+                          <div className="text-sm text-gray-600 mb-1">Share code</div>
+                          <div className="text-3xl font-bold tracking-widest text-gray-900">{shareCode}</div>
+                          <p className="text-xs text-gray-500 mt-2">
+                            Members enter this code under Quiz → Shared Quiz to get the same questions in the same order.
+                          </p>
+                          {hasTeamQuestions && (
+                            <p className="text-xs text-amber-700 mt-1">
+                              Your team's own questions are left out of the shared copy.
+                            </p>
+                          )}
+                        </div>
+                      ) : (
+                        <button
+                          onClick={handleShareQuiz}
+                          disabled={sharing}
+                          className="w-full bg-white text-blue-700 border border-blue-200 px-6 py-3 rounded-lg font-medium hover:bg-blue-50 transition-colors duration-200 flex items-center justify-center space-x-2 disabled:opacity-50"
+                        >
+                          <Share2 className="h-5 w-5" />
+                          <span>{sharing ? 'Creating Code...' : 'Get Share Code'}</span>
+                        </button>
+                      )}
+                      {shareError && <p className="text-sm text-red-600">{shareError}</p>}
+                      <div className="flex flex-wrap items-center justify-center gap-2">
+                        <QuizPacketActions
+                          title={getQuizTitle()}
+                          questions={filteredQuestions}
+                          timer={buildTimerSessionFields(timerSettings, filteredQuestions)}
+                        />
+                      </div>
                     </div>
                   ) : (
                     <div className="text-center py-8 text-gray-500">
@@ -8,8 +8,14 @@ import { useStudyAssignments } from '../hooks/useStudyAssignments';
 import { useQuizSession } from '../contexts/QuizSessionContext';
 import { useQuestion } from '../contexts/QuestionContext';
 import { useAuth } from '../contexts/AuthContext';
+import { useReviewQueue } from '../hooks/useReviewQueue';
+import { useAssignedQuizzes } from '../hooks/useAssignedQuizzes';
+import { AssignedQuizzesList } from '../components/schedule/AssignedQuizzesList';
 import { WeeklyScheduleTable } from '../components/schedule/WeeklyScheduleTable';
 import { XP_PER_LEVEL, calculateXpProgress } from '../constants/gamification';
+import { TimerModeSelector } from '../components/quiz/TimerModeSelector';
+import { DEFAULT_TIMER_SETTINGS, setTimerSearchParams } from '../utils/timerModes';
+import { QuizTimerSettings } from '../types';
 import { 
   Users, 
   DollarSign,
@@ -24,7 +30,8 @@ import {
   Award,
   Calendar as CalendarIcon,
   CheckCircle,
-  Clock
+  Clock,
+  Brain
 } from 'lucide-react';
 
 const stats = [
@@ -103,7 +110,17 @@ export function Dashboard() {
   const { userStats, userAchievements, achievements, loading: gamificationLoading, error: gamificationError } = useGamificationData();
   const { assignments, loading: assignmentsLoading } = useStudyAssignments();
   const { getSessionForAssignment } = useQuizSession();
-  const { questions, loading: questionsLoading } = useQuestion();
+  const { publishedQuestions: questions, loading: questionsLoading } = useQuestion();
+  const { dueCount, dueTomorrowCount, scheduledCount, loading: reviewLoading } = useReviewQueue();
+  const [reviewTimer, setReviewTimer] = useState<QuizTimerSettings>(DEFAULT_TIMER_SETTINGS);
+  const reviewParams = setTimerSearchParams(new URLSearchParams(), reviewTimer).toString();
+  const {
+    myAssignedQuizzes,
+    loading: assignedQuizzesLoading,
+    starting: startingAssignedQuiz,
+    startAssignedQuiz,
+    getMemberStatus
+  } = useAssignedQuizzes();
   
   // Debug logging for questions data
   React.useEffect(() => {
@@ -174,6 +191,52 @@ export function Dashboard() {
           </div>
         )}
 
+        {/* Fixed quizzes assigned by a coach */}
+        {!assignedQuizzesLoading && myAssignedQuizzes.length > 0 && (
+          <AssignedQuizzesList
+            quizzes={myAssignedQuizzes}
+            currentUserId={user?.id}
+            canManage={false}
+            starting={startingAssignedQuiz}
+            getMemberStatus={getMemberStatus}
+            onStart={startAssignedQuiz}
+          />
+        )}
+
+        {/* Spaced-repetition review queue */}
+        {!questionsLoading && !reviewLoading && scheduledCount > 0 && (
+          <div className="mb-8 bg-white rounded-xl shadow-sm p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <div className="flex items-center space-x-4">
+                <div className="h-12 w-12 bg-indigo-100 rounded-lg flex items-center justify-center">
+                  <Brain className="h-6 w-6 text-indigo-600" />
+                </div>
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900">Review Queue</h2>
+                  <p className="text-sm text-gray-600">
+                    {dueCount > 0
+                      ? `${dueCount} question${dueCount !== 1 ? 's' : ''} due for review today`
+                      : 'Nothing due right now'}
+                    {dueTomorrowCount > 0 && ` · ${dueTomorrowCount} more due in the next day`}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => navigate(reviewParams ? `/quiz/review?${reviewParams}` : '/quiz/review')}
+                disabled={dueCount === 0}
+                className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Start Review
+              </button>
+            </div>
+            {dueCount > 0 && (
+              <div className="mt-4 pt-4 border-t border-gray-200">
+                <TimerModeSelector value={reviewTimer} onChange={setReviewTimer} label="Review Timer" />
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Gamification Stats */}
         {!gamificationLoading && !gamificationError && (
           <div className="mb-8">
@@ -0,0 +1,282 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Layout } from '../components/layout/Layout';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuestion } from '../contexts/QuestionContext';
+import { useFlashcards } from '../hooks/useFlashcards';
+import { useQuizTemplates } from '../hooks/useQuizTemplates';
+import { FlashcardCard } from '../components/quiz/FlashcardCard';
+import { LoadingSpinner } from '../components/common/LoadingSpinner';
+import { AlertMessage } from '../components/common/AlertMessage';
+import { ArrowLeft, Layers, Play, RotateCcw, Check } from 'lucide-react';
+import { FlashcardConfidence, Question, QuizTemplate, StudyItem } from '../types';
+import {
+  filterQuestionsByStudyItems,
+  getAccessibleQuestions,
+  getAvailableBooksFromQuestions,
+  getChaptersForBook
+} from '../utils/quizUtils';
+import { formatStudyItemsForAssignment } from '../utils/quizHelpers';
+import { FLASHCARD_CONFIDENCE_OPTIONS, orderFlashcardDeck } from '../utils/flashcards';
+
+// Other pages can open a deck straight away, e.g. for a study assignment's reading
+interface FlashcardsLocationState {
+  studyItems?: StudyItem[];
+  title?: string;
+}
+
+interface FlashcardDeck {
+  title: string;
+  questions: Question[];
+}
+
+export function Flashcards() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+  const { publishedQuestions: questions, loading: questionsLoading, fetchQuestions } = useQuestion();
+  const { confidence, loading: confidenceLoading, error, rateCard } = useFlashcards();
+  const { myTemplates, teamTemplates } = useQuizTemplates();
+
+  const [chapterSelections, setChapterSelections] = useState<Record<string, number[]>>({});
+  const [currentBook, setCurrentBook] = useState('');
+  const [deck, setDeck] = useState<FlashcardDeck | null>(null);
+  const [cardIndex, setCardIndex] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  // Ratings given in this run through the deck
+  const [sessionRatings, setSessionRatings] = useState<Record<string, FlashcardConfidence>>({});
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  const accessibleQuestions = useMemo(
+    () => getAccessibleQuestions(questions, user?.subscription?.plan || 'free'),
+    [questions, user?.subscription?.plan]
+  );
+  const availableBooks = useMemo(() => getAvailableBooksFromQuestions(accessibleQuestions), [accessibleQuestions]);
+  const selectedStudyItems: StudyItem[] = Object.entries(chapterSelections)
+    .filter(([, chapters]) => chapters.length > 0)
+    .map(([book, chapters]) => ({ book, chapters: [...chapters].sort((a, b) => a - b) }));
+  const selectedCount = filterQuestionsByStudyItems(accessibleQuestions, selectedStudyItems).length;
+
+  const startDeck = (title: string, deckQuestions: Question[]) => {
+    setDeck({ title, questions: orderFlashcardDeck(deckQuestions, confidence) });
+    setCardIndex(0);
+    setFlipped(false);
+    setSessionRatings({});
+  };
+
+  const startFromStudyItems = (studyItems: StudyItem[], title?: string) => {
+    startDeck(
+      title || formatStudyItemsForAssignment(studyItems),
+      filterQuestionsByStudyItems(accessibleQuestions, studyItems)
+    );
+  };
+
+  const startFromTemplate = (template: QuizTemplate) => {
+    const studyItems: StudyItem[] = template.config.chapters;
+    const tiers = template.config.tiers || [];
+    const templateQuestions = filterQuestionsByStudyItems(accessibleQuestions, studyItems)
+      .filter(question => tiers.length === 0 || tiers.includes(question.tier));
+    startDeck(template.name, templateQuestions);
+  };
+
+  // Open the deck passed in from another page once the questions and past ratings are loaded
+  const locationState = location.state as FlashcardsLocationState | null;
+  useEffect(() => {
+    if (deck || !locationState?.studyItems || questionsLoading || confidenceLoading || accessibleQuestions.length === 0) return;
+    startFromStudyItems(locationState.studyItems, locationState.title);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [locationState, questionsLoading, confidenceLoading, accessibleQuestions]);
+
+  const toggleChapter = (book: string, chapter: number) => {
+    setChapterSelections(prev => {
+      const chapters = prev[book] || [];
+      return {
+        ...prev,
+        [book]: chapters.includes(chapter) ? chapters.filter(c => c !== chapter) : [...chapters, chapter],
+      };
+    });
+  };
+
+  const handleRate = async (rating: FlashcardConfidence) => {
+    if (!deck) return;
+    const question = deck.questions[cardIndex];
+    setSessionRatings(prev => ({ ...prev, [question.id]: rating }));
+    setFlipped(false);
+    setCardIndex(prev => prev + 1);
+    await rateCard(question.id, rating);
+  };
+
+  const isLoading = questionsLoading || confidenceLoading;
+  const deckFinished = !!deck && cardIndex >= deck.questions.length;
+  const ratingCounts = FLASHCARD_CONFIDENCE_OPTIONS.map(option => ({
+    ...option,
+    count: Object.values(sessionRatings).filter(rating => rating === option.value).length,
+  }));
+  const shakyCards = deck ? deck.questions.filter(q => sessionRatings[q.id] === 'again' || sessionRatings[q.id] === 'hard') : [];
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6 max-w-4xl mx-auto">
+        <div className="flex items-center space-x-3 mb-6">
+          <button
+            onClick={() => (deck ? setDeck(null) : navigate('/quiz'))}
+            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+            title="Back"
+          >
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{deck ? deck.title : 'Flashcards'}</h1>
+            <p className="text-gray-600">
+              {deck
+                ? deckFinished
+                  ? 'Deck complete'
+                  : `Card ${cardIndex + 1} of ${deck.questions.length}`
+                : 'Flip through questions at your own pace. Flashcards are not scored and do not earn XP.'}
+            </p>
+          </div>
+        </div>
+
+        {error && <AlertMessage type="error" message={error} className="mb-4" />}
+
+        {isLoading ? (
+          <LoadingSpinner text="Loading flashcards..." className="py-12" />
+        ) : deck && deck.questions.length === 0 ? (
+          <div className="bg-white rounded-xl shadow-sm p-8 text-center">
+            <Layers className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 mb-4">There are no questions you can access for this selection.</p>
+            <button
+              onClick={() => setDeck(null)}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+            >
+              Choose Another Deck
+            </button>
+          </div>
+        ) : deck && !deckFinished ? (
+          <>
+            <div className="w-full bg-gray-200 rounded-full h-2 mb-6">
+              <div
+                className="bg-indigo-600 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${(cardIndex / deck.questions.length) * 100}%` }}
+              ></div>
+            </div>
+            <FlashcardCard
+              question={deck.questions[cardIndex]}
+              flipped={flipped}
+              previousConfidence={confidence[deck.questions[cardIndex].id]}
+              onFlip={() => setFlipped(prev => !prev)}
+              onRate={handleRate}
+            />
+          </>
+        ) : deck ? (
+          <div className="bg-white rounded-xl shadow-sm p-6 sm:p-8 text-center">
+            <Check className="h-12 w-12 text-green-600 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">You reviewed {deck.questions.length} cards</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-6">
+              {ratingCounts.map(option => (
+                <div key={option.value} className="p-3 bg-gray-50 rounded-lg">
+                  <div className="text-2xl font-bold text-gray-900">{option.count}</div>
+                  <div className="text-sm text-gray-600">{option.label}</div>
+                </div>
+              ))}
+            </div>
+            <div className="flex flex-col sm:flex-row gap-3 justify-center">
+              {shakyCards.length > 0 && (
+                <button
+                  onClick={() => startDeck(deck.title, shakyCards)}
+                  className="flex items-center justify-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  <span>Go Over {shakyCards.length} Again/Hard Cards</span>
+                </button>
+              )}
+              <button
+                onClick={() => setDeck(null)}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+              >
+                Choose Another Deck
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Books and chapters */}
+            <div className="bg-white rounded-xl shadow-sm p-4 sm:p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Choose Chapters</h2>
+              <select
+                value={currentBook}
+                onChange={(e) => setCurrentBook(e.target.value)}
+                className="w-full sm:w-64 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none mb-4"
+              >
+                <option value="">Select a book...</option>
+                {availableBooks.map(book => <option key={book} value={book}>{book}</option>)}
+              </select>
+              {currentBook && (
+                <div className="grid grid-cols-5 sm:grid-cols-10 gap-2 mb-4">
+                  {getChaptersForBook(currentBook, accessibleQuestions).map(chapter => {
+                    const selected = (chapterSelections[currentBook] || []).includes(chapter);
+                    return (
+                      <button
+                        key={chapter}
+                        onClick={() => toggleChapter(currentBook, chapter)}
+                        className={`p-2 rounded-lg border-2 text-sm font-medium transition-all duration-200 ${
+                          selected
+                            ? 'border-indigo-500 bg-indigo-50 text-indigo-700'
+                            : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        {chapter}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <p className="text-sm text-gray-600">
+                  {selectedStudyItems.length > 0
+                    ? `${formatStudyItemsForAssignment(selectedStudyItems)} · ${selectedCount} cards`
+                    : 'No chapters selected'}
+                </p>
+                <button
+                  onClick={() => startFromStudyItems(selectedStudyItems)}
+                  disabled={selectedCount === 0}
+                  className="flex items-center justify-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50"
+                >
+                  <Play className="h-4 w-4" />
+                  <span>Start Flashcards</span>
+                </button>
+              </div>
+            </div>
+
+            {/* Saved and team templates */}
+            {(myTemplates.length > 0 || teamTemplates.length > 0) && (
+              <div className="bg-white rounded-xl shadow-sm p-4 sm:p-6">
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">From a Quiz Template</h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {[...myTemplates, ...teamTemplates].map(template => (
+                    <button
+                      key={template.id}
+                      onClick={() => startFromTemplate(template)}
+                      className="flex items-center justify-between p-3 border border-gray-200 rounded-lg text-left hover:border-indigo-300 hover:bg-indigo-50 transition-colors duration-200"
+                    >
+                      <div className="min-w-0">
+                        <div className="font-medium text-gray-900 truncate">{template.name}</div>
+                        <div className="text-xs text-gray-500 truncate">
+                          {formatStudyItemsForAssignment(template.config.chapters)}
+                        </div>
+                      </div>
+                      <Play className="h-4 w-4 text-indigo-600 flex-shrink-0" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Layout } from '../components/layout/Layout';
+import { AlertMessage } from '../components/common/AlertMessage';
+import { useLiveQuizParticipant } from '../hooks/useLiveQuizParticipant';
+import { JOIN_CODE_LENGTH, normalizeJoinCode } from '../utils/liveQuizUtils';
+import {
+  ArrowLeft,
+  Radio,
+  Zap,
+  Send,
+  CheckCircle,
+  Trophy,
+  Loader2
+} from 'lucide-react';
+import { formatQuestionReference } from '../utils/verseReferences';
+
+export function LiveQuizJoin() {
+  const navigate = useNavigate();
+  const {
+    status,
+    liveSession,
+    currentQuestion,
+    questionIndex,
+    totalQuestions,
+    revealedAnswer,
+    hasBuzzed,
+    submittedAnswer,
+    lastAward,
+    totalPoints,
+    error,
+    joinLiveQuiz,
+    buzz,
+    submitAnswer,
+    leaveLiveQuiz
+  } = useLiveQuizParticipant();
+
+  const [joinCode, setJoinCode] = useState('');
+  const [answer, setAnswer] = useState('');
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    joinLiveQuiz(joinCode);
+  };
+
+  const handleSubmitAnswer = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitAnswer(answer);
+    setAnswer('');
+  };
+
+  const handleLeave = async () => {
+    await leaveLiveQuiz();
+    navigate('/quiz');
+  };
+
+  return (
+    <Layout>
+      <div className="min-h-screen bg-gray-50 p-4 sm:p-6">
+        <div className="max-w-2xl mx-auto">
+          <button
+            onClick={status === 'idle' || status === 'ended' ? () => navigate('/quiz') : handleLeave}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 mb-6 transition-colors duration-200"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>{status === 'idle' || status === 'ended' ? 'Back to Quiz' : 'Leave Live Quiz'}</span>
+          </button>
+
+          {error && (
+            <div className="mb-4">
+              <AlertMessage type="error" message={error} />
+            </div>
+          )}
+
+          {(status === 'idle' || status === 'joining') && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 sm:p-8 text-center">
+              <Radio className="h-12 w-12 text-indigo-600 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">Join a Live Quiz</h1>
+              <p className="text-gray-600 mb-6">Enter the code your coach is showing.</p>
+
+              <form onSubmit={handleJoin} className="space-y-4">
+                <input
+                  type="text"
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(normalizeJoinCode(e.target.value).slice(0, JOIN_CODE_LENGTH))}
+                  placeholder="ABC123"
+                  autoFocus
+                  className="w-full text-center text-3xl font-bold tracking-widest uppercase px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                />
+                <button
+                  type="submit"
+                  disabled={status === 'joining' || joinCode.length < JOIN_CODE_LENGTH}
+                  className="w-full bg-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50 flex items-center justify-center space-x-2"
+                >
+                  {status === 'joining' && <Loader2 className="h-5 w-5 animate-spin" />}
+                  <span>{status === 'joining' ? 'Joining...' : 'Join'}</span>
+                </button>
+              </form>
+            </div>
+          )}
+
+          {status === 'waiting' && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 sm:p-8 text-center">
+              <Loader2 className="h-10 w-10 text-indigo-600 mx-auto mb-4 animate-spin" />
+              <h1 className="text-xl font-semibold text-gray-900 mb-1">{liveSession?.title}</h1>
+              <p className="text-gray-600">You're in! Waiting for your coach to start the first question...</p>
+            </div>
+          )}
+
+          {status === 'question' && currentQuestion && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>Question {questionIndex + 1} of {totalQuestions}</span>
+                <span className="font-medium text-gray-900">{totalPoints} pts</span>
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+                <p className="text-sm text-gray-500 mb-2">
+                  {formatQuestionReference(currentQuestion)} · {currentQuestion.points} {currentQuestion.points === 1 ? 'point' : 'points'}
+                </p>
+                <p className="text-lg sm:text-xl font-medium text-gray-900">{currentQuestion.question}</p>
+
+                {revealedAnswer !== null && (
+                  <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
+                    <p className="text-sm font-medium text-green-800 mb-1">Answer</p>
+                    <p className="text-green-900">{revealedAnswer}</p>
+                  </div>
+                )}
+
+                {lastAward !== null && (
+                  <div className="mt-4 flex items-center space-x-2 text-indigo-700">
+                    <Trophy className="h-5 w-5" />
+                    <span className="font-medium">
+                      You earned {lastAward} of {currentQuestion.points} {currentQuestion.points === 1 ? 'point' : 'points'}
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              {revealedAnswer === null && (
+                <>
+                  <button
+                    onClick={buzz}
+                    disabled={hasBuzzed}
+                    className={`w-full py-8 rounded-2xl text-2xl font-bold flex items-center justify-center space-x-3 transition-colors duration-200 ${
+                      hasBuzzed
+                        ? 'bg-yellow-100 text-yellow-800 cursor-default'
+                        : 'bg-red-600 text-white hover:bg-red-700 active:bg-red-800'
+                    }`}
+                  >
+                    <Zap className="h-8 w-8" />
+                    <span>{hasBuzzed ? 'Buzzed!' : 'Buzz'}</span>
+                  </button>
+
+                  <form onSubmit={handleSubmitAnswer} className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={answer}
+                      onChange={(e) => setAnswer(e.target.value)}
+                      placeholder="Type your answer..."
+                      className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+                    />
+                    <button
+                      type="submit"
+                      disabled={!answer.trim()}
+                      className="bg-indigo-600 text-white px-4 py-3 rounded-lg hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50 flex items-center space-x-2"
+                    >
+                      <Send className="h-4 w-4" />
+                      <span className="hidden sm:inline">Send</span>
+                    </button>
+                  </form>
+
+                  {submittedAnswer && (
+                    <p className="flex items-center space-x-2 text-sm text-gray-600">
+                      <CheckCircle className="h-4 w-4 text-green-600" />
+                      <span>Sent "{submittedAnswer}" to your coach</span>
+                    </p>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {status === 'ended' && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 sm:p-8 text-center">
+              <Trophy className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
+              <h1 className="text-2xl font-bold text-gray-900 mb-2">Live Quiz Complete</h1>
+              <p className="text-gray-600 mb-6">
+                You earned {totalPoints} {totalPoints === 1 ? 'point' : 'points'} in {liveSession?.title}.
+              </p>
+              <button
+                onClick={() => navigate('/quiz')}
+                className="bg-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-indigo-700 transition-colors duration-200"
+              >
+                Back to Quiz
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -1,15 +1,28 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useQuestion } from '../contexts/QuestionContext';
 import { useQuizSession } from '../contexts/QuizSessionContext';
 import { QuizRunner } from '../components/quiz/QuizRunner';
+import { useQuickStartStrategy } from '../hooks/useQuickStartStrategy';
+import { fetchAnswerHistory } from '../lib/answerHistory';
+import { selectQuickStartQuestions, QuestionAttempt } from '../utils/questionSelection';
+import { QUICK_START_MAX_QUESTIONS, QUICK_START_STRATEGIES } from '../constants/quickStart';
+import { generateQuizSeed, createSeededRandom } from '../utils/seededShuffle';
+import { buildQuestionsFromDefinition } from '../utils/quizDefinition';
+import { buildTimerSessionFields, getTimerSearchParams } from '../utils/timerModes';
+import { Question, QuizDefinition } from '../types';
 
 export function QuickStartQuiz() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const answerMode = searchParams.get('mode') === 'typed' ? 'typed' : 'self-graded';
+  // Chosen in the quiz center, since Quick Start begins as soon as it opens
+  const timerSettings = React.useMemo(() => getTimerSearchParams(searchParams), [searchParams]);
   const { user, developerLog } = useAuth();
-  const { questions, fetchQuestions } = useQuestion();
+  const { publishedQuestions: questions, fetchQuestions } = useQuestion();
   const { createQuizSession, getActiveSessionsForUser } = useQuizSession();
+  const { strategy, loading: strategyLoading } = useQuickStartStrategy();
   const [quizSessionId, setQuizSessionId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -39,8 +52,8 @@ export function QuickStartQuiz() {
       return;
     }
 
-    if (questions.length === 0) {
-      // Still waiting for questions to load
+    if (questions.length === 0 || strategyLoading) {
+      // Still waiting for questions and the team's selection strategy to load
       return;
     }
 
@@ -67,6 +80,7 @@ export function QuickStartQuiz() {
         }
 
         developerLog('🆕 No existing quick-start session found, creating new one...');
+        const strategyLabel = QUICK_START_STRATEGIES.find(option => option.id === strategy)?.label || 'Balanced coverage';
         developerLog('🎯 Initializing quiz session with', questions.length, 'total questions');
         
         // Filter questions based on user's tier access
@@ -86,15 +100,48 @@ export function QuickStartQuiz() {
           return;
         }
 
-        // Shuffle and select up to 90 questions
-        const shuffled = [...accessibleQuestions].sort(() => 0.5 - Math.random());
-        const selectedQuestions = shuffled.slice(0, Math.min(90, shuffled.length));
+        // Past answers drive accuracy and recency weighting; random selection doesn't need them
+        let attempts: QuestionAttempt[] = [];
+        if (strategy !== 'random') {
+          try {
+            attempts = await fetchAnswerHistory<QuestionAttempt>(
+              user.id,
+              'question_id, points_earned, total_points_possible, answered_at'
+            );
+          } catch (logsError) {
+            developerLog('⚠️ Could not load answer history, selecting without it:', logsError);
+          }
+        }
 
-        developerLog('🎲 Selected questions for quiz:', selectedQuestions.length);
+        // Pure random picks can be regenerated from the seed and shared as a code;
+        // adaptive picks depend on this member's own history
+        const seed = generateQuizSeed();
+        const quizDefinition: QuizDefinition | null = strategy === 'random'
+          ? {
+              source: 'quick-start',
+              chapters: [],
+              tiers: accessibleTiers as Question['tier'][],
+              seed,
+              count: QUICK_START_MAX_QUESTIONS,
+            }
+          : null;
+
+        const selectedQuestions = quizDefinition
+          ? buildQuestionsFromDefinition(accessibleQuestions, quizDefinition)
+          : selectQuickStartQuestions(
+              accessibleQuestions,
+              attempts,
+              strategy,
+              QUICK_START_MAX_QUESTIONS,
+              { random: createSeededRandom(seed) }
+            );
+
+        developerLog('🎲 Selected questions for quiz:', selectedQuestions.length, 'using strategy:', strategy);
 
         // Calculate quiz metadata
         const totalPoints = selectedQuestions.reduce((sum, q) => sum + q.points, 0);
         const estimatedSeconds = selectedQuestions.reduce((sum, q) => sum + q.time_to_answer, 0);
+        const estimatedMinutes = Math.ceil(estimatedSeconds / 60);
 
         developerLog('📊 Quiz metadata - Points:', totalPoints, 'Minutes:', estimatedMinutes);
 
@@ -102,7 +149,7 @@ export function QuickStartQuiz() {
         const sessionId = await createQuizSession({
           type: 'quick-start',
           title: 'Quick Start Quiz',
-          description: 'Test your Pathfinder Bible Experience knowledge with random questions. Each question has a time limit and point value based on difficulty.',
+          description: `Test your Pathfinder Bible Experience knowledge (${strategyLabel.toLowerCase()}). Each question has a time limit and point value based on difficulty.`,
           user_id: user.id,
           team_id: user.teamId,
           questions: selectedQuestions,
@@ -110,13 +157,16 @@ export function QuickStartQuiz() {
           results: [],
           status: 'active',
           show_answer: false,
-          time_left: selectedQuestions[0]?.time_to_answer || 30,
+          ...buildTimerSessionFields(timerSettings, selectedQuestions),
           timer_active: false,
           timer_started: false,
           has_time_expired: false,
           total_points: 0,
           max_points: totalPoints,
+          estimated_minutes: estimatedMinutes,
           total_actual_time_spent_seconds: 0, // Will be calculated when completed
+          answer_mode: answerMode,
+          quiz_definition: quizDefinition,
         });
 
         developerLog('🎉 Quiz session created with ID:', sessionId);
@@ -134,7 +184,7 @@ export function QuickStartQuiz() {
     };
 
     initializeQuizSession();
-  }, [user, questions, createQuizSession, getActiveSessionsForUser, navigate]);
+  }, [user, questions, createQuizSession, getActiveSessionsForUser, navigate, answerMode, timerSettings, strategy, strategyLoading]);
 
   const handleSessionDeleted = () => {
     setQuizSessionId(null);
@@ -26,10 +26,20 @@ import {
   RotateCcw,
   CheckCircle,
   Trash2,
-  AlertTriangle
+  AlertTriangle,
+  Radio,
+  Medal,
+  Share2,
+  Layers
 } from 'lucide-react';
 import { formatStudyItemsForAssignment, calculateStudyStreak, formatTotalTime } from '../utils/quizHelpers';
 import { useUserAnalytics } from '../hooks/useUserAnalytics';
+import { COMPETITION_QUESTION_COUNT, COMPETITION_ANSWER_SECONDS } from '../constants/competition';
+import { QUICK_START_STRATEGIES } from '../constants/quickStart';
+import { useQuickStartStrategy } from '../hooks/useQuickStartStrategy';
+import { QuickStartStrategy, QuizTimerSettings } from '../types';
+import { TimerModeSelector } from '../components/quiz/TimerModeSelector';
+import { DEFAULT_TIMER_SETTINGS, setTimerSearchParams } from '../utils/timerModes';
 
 interface RecentActivity {
   id: string;
@@ -45,13 +55,23 @@ export function Quiz() {
   const { developerLog } = useAuth();
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { questions } = useQuestion();
+  const { publishedQuestions: questions } = useQuestion();
   const { getActiveSessionsForUser, deleteQuizSession } = useQuizSession();
   const [recentActivities, setRecentActivities] = useState<RecentActivity[]>([]);
   const [loadingActivities, setLoadingActivities] = useState(true);
   const [activitiesError, setActivitiesError] = useState<string | null>(null);
   const [showDeleteConfirmModal, setShowDeleteConfirmModal] = useState(false);
   const [sessionToDeleteId, setSessionToDeleteId] = useState<string | null>(null);
+  const [typedAnswerMode, setTypedAnswerMode] = useState(false);
+  const [quickStartTimer, setQuickStartTimer] = useState<QuizTimerSettings>(DEFAULT_TIMER_SETTINGS);
+  const {
+    strategy: quickStartStrategy,
+    canChangeStrategy,
+    saving: savingStrategy,
+    error: strategyError,
+    updateStrategy
+  } = useQuickStartStrategy();
+  const quickStartStrategyOption = QUICK_START_STRATEGIES.find(option => option.id === quickStartStrategy) || QUICK_START_STRATEGIES[0];
 
   // Get active quiz sessions for the current user
   const activeSessions = user ? getActiveSessionsForUser(user.id) : [];
@@ -162,20 +182,23 @@ export function Quiz() {
     {
       id: 'quick-start',
       title: 'Quick Start',
-      description: 'Jump into a random quiz with questions from your subscription tier. Perfect for quick practice sessions.',
+      description: `Jump into a quiz with questions from your subscription tier. ${quickStartStrategyOption.description}`,
       icon: Zap,
       color: 'bg-green-500',
       bgColor: 'bg-green-50',
       borderColor: 'border-green-200',
       hoverColor: 'hover:bg-green-100',
       features: [
-        'Random questions from your tier',
+        quickStartStrategyOption.label,
         '90 questions per session',
         'Instant feedback',
         'Mock PBE test experience'
       ],
       action: 'Start Quiz',
-      onClick: () => navigate('/quiz/quick-start'),
+      onClick: () => {
+        const params = setTimerSearchParams(new URLSearchParams(typedAnswerMode ? { mode: 'typed' } : {}), quickStartTimer);
+        navigate(params.toString() ? `/quiz/quick-start?${params}` : '/quiz/quick-start');
+      },
       disabled: !user?.planSettings?.allow_quick_start_quiz,
       tooltip: user?.planSettings?.allow_quick_start_quiz ? '' : 'Not available on your current plan',
     },
@@ -195,7 +218,7 @@ export function Quiz() {
         'Customize question count'
       ],
       action: 'Create Quiz',
-      onClick: () => navigate('/quiz/create-own'),
+      onClick: () => navigate(typedAnswerMode ? '/quiz/create-own?mode=typed' : '/quiz/create-own'),
       disabled: !user?.planSettings?.allow_create_own_quiz,
       tooltip: user?.planSettings?.allow_create_own_quiz ? '' : 'Not available on your current plan',
     },
@@ -218,6 +241,46 @@ export function Quiz() {
       onClick: () => navigate('/schedule'),
       disabled: !user?.planSettings?.allow_study_schedule_quiz,
       tooltip: user?.planSettings?.allow_study_schedule_quiz ? '' : 'Upgrade to Pro plan to access Study Schedule',
+    },
+    {
+      id: 'competition',
+      title: 'Competition Simulation',
+      description: 'Practice under official Pathfinder Bible Experience conditions with a written answer sheet and judge scoring.',
+      icon: Medal,
+      color: 'bg-amber-500',
+      bgColor: 'bg-amber-50',
+      borderColor: 'border-amber-200',
+      hoverColor: 'hover:bg-amber-100',
+      features: [
+        `${COMPETITION_QUESTION_COUNT} questions per round`,
+        `${COMPETITION_ANSWER_SECONDS}-second answer window`,
+        'Judge scoring view',
+        'Placement score report'
+      ],
+      action: 'Start Round',
+      onClick: () => navigate('/quiz/competition'),
+      disabled: !user?.planSettings?.allow_quick_start_quiz,
+      tooltip: user?.planSettings?.allow_quick_start_quiz ? '' : 'Not available on your current plan',
+    },
+    {
+      id: 'flashcards',
+      title: 'Flashcards',
+      description: 'Flip through questions at your own pace and rate how well you knew each answer. Not scored and no XP.',
+      icon: Layers,
+      color: 'bg-teal-500',
+      bgColor: 'bg-teal-50',
+      borderColor: 'border-teal-200',
+      hoverColor: 'hover:bg-teal-100',
+      features: [
+        'Pick chapters or a saved template',
+        'Rate Again, Hard, Good or Easy',
+        'Shaky cards come up first',
+        'Coaches see reviewed vs tested'
+      ],
+      action: 'Study Cards',
+      onClick: () => navigate('/quiz/flashcards'),
+      disabled: false,
+      tooltip: '',
     }
   ];
 
@@ -433,8 +496,63 @@ export function Quiz() {
           </div>
         </Modal>
 
+        {/* Live Quiz + Answer Mode Toggle */}
+        <div className="mb-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex flex-wrap gap-3">
+            {user?.teamId && (
+              <button
+                onClick={() => navigate('/quiz/live/join')}
+                className="inline-flex items-center space-x-2 px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-lg hover:bg-indigo-100 transition-colors duration-200 self-start"
+              >
+                <Radio className="h-4 w-4" />
+                <span>Join Live Quiz</span>
+              </button>
+            )}
+            <button
+              onClick={() => navigate('/quiz/shared')}
+              className="inline-flex items-center space-x-2 px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 rounded-lg hover:bg-indigo-100 transition-colors duration-200 self-start"
+            >
+              <Share2 className="h-4 w-4" />
+              <span>Shared Quiz</span>
+            </button>
+          </div>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            {canChangeStrategy && (
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <span>{user?.teamId ? 'Team Quick Start:' : 'Quick Start:'}</span>
+                <select
+                  value={quickStartStrategy}
+                  onChange={(e) => updateStrategy(e.target.value as QuickStartStrategy)}
+                  disabled={savingStrategy}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50"
+                >
+                  {QUICK_START_STRATEGIES.map(option => (
+                    <option key={option.id} value={option.id}>{option.label}</option>
+                  ))}
+                </select>
+                {strategyError && <span className="text-red-600">{strategyError}</span>}
+              </label>
+            )}
+            <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={typedAnswerMode}
+                onChange={(e) => setTypedAnswerMode(e.target.checked)}
+                className="h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+              />
+              <span>Type my answers and grade them automatically</span>
+            </label>
+          </div>
+        </div>
+
+        {user?.planSettings?.allow_quick_start_quiz && (
+          <div className="mb-6 sm:mb-8 bg-white rounded-xl shadow-sm border border-gray-200 p-4 sm:p-6">
+            <TimerModeSelector value={quickStartTimer} onChange={setQuickStartTimer} label="Quick Start Timer" />
+          </div>
+        )}
+
         {/* Quiz Options */}
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 sm:gap-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6 sm:gap-8">
           {quizOptions.map((option) => (
             <div
               key={option.id}
@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { CheckCircle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuestion } from '../contexts/QuestionContext';
+import { useQuizSession } from '../contexts/QuizSessionContext';
+import { useReviewQueue } from '../hooks/useReviewQueue';
+import { REVIEW_SESSION_MAX_QUESTIONS } from '../utils/spacedRepetition';
+import { buildTimerSessionFields, getTimerSearchParams } from '../utils/timerModes';
+
+export function ReviewQuiz() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  // Chosen on the dashboard, since the review begins as soon as it opens
+  const timerSettings = React.useMemo(() => getTimerSearchParams(searchParams), [searchParams]);
+  const { user, developerLog } = useAuth();
+  const { publishedQuestions: questions, fetchQuestions } = useQuestion();
+  const { createQuizSession, getActiveSessionsForUser } = useQuizSession();
+  const { dueQuestions, nextDueAt, loading: queueLoading, error: queueError } = useReviewQueue();
+  const [error, setError] = useState<string | null>(null);
+  const initializationAttempted = useRef(false);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  useEffect(() => {
+    if (initializationAttempted.current || !user) return;
+    // Wait for both the question bank and the answer history
+    if (queueLoading || questions.length === 0) return;
+
+    const initializeReviewSession = async () => {
+      initializationAttempted.current = true;
+
+      try {
+        const existingReviewSession = getActiveSessionsForUser(user.id).find(session =>
+          session.type === 'review'
+        );
+
+        if (existingReviewSession) {
+          developerLog('✅ Found existing review session, resuming:', existingReviewSession.id);
+          navigate(`/quiz/runner/${existingReviewSession.id}`, { replace: true });
+          return;
+        }
+
+        if (dueQuestions.length === 0) return;
+
+        const selectedQuestions = dueQuestions.slice(0, REVIEW_SESSION_MAX_QUESTIONS);
+        const totalPoints = selectedQuestions.reduce((sum, q) => sum + q.points, 0);
+        const estimatedSeconds = selectedQuestions.reduce((sum, q) => sum + q.time_to_answer, 0);
+
+        developerLog('🧠 Creating review session with', selectedQuestions.length, 'due questions');
+
+        const sessionId = await createQuizSession({
+          type: 'review',
+          title: 'Daily Review',
+          description: 'Questions due for review based on how well you remembered them last time.',
+          user_id: user.id,
+          team_id: user.teamId,
+          questions: selectedQuestions,
+          current_question_index: 0,
+          results: [],
+          status: 'active',
+          show_answer: false,
+          ...buildTimerSessionFields(timerSettings, selectedQuestions),
+          timer_active: false,
+          timer_started: false,
+          has_time_expired: false,
+          total_points: 0,
+          max_points: totalPoints,
+          estimated_minutes: Math.ceil(estimatedSeconds / 60),
+        });
+
+        navigate(`/quiz/runner/${sessionId}`, { replace: true });
+      } catch (error) {
+        developerLog('💥 Error initializing review session:', error);
+        setError(error instanceof Error ? error.message : 'Failed to create review session');
+        initializationAttempted.current = false;
+      }
+    };
+
+    initializeReviewSession();
+  }, [user, questions, queueLoading, dueQuestions, createQuizSession, getActiveSessionsForUser, navigate, developerLog, timerSettings]);
+
+  const displayError = error || queueError;
+  const hasActiveReview = !!user && getActiveSessionsForUser(user.id).some(session => session.type === 'review');
+
+  if (displayError) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="h-12 w-12 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <span className="text-red-600 text-xl">⚠</span>
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Unable to Start Review</h2>
+          <p className="text-gray-600 mb-4">{displayError}</p>
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!queueLoading && questions.length > 0 && dueQuestions.length === 0 && !hasActiveReview) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center max-w-md px-4">
+          <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">You're All Caught Up</h2>
+          <p className="text-gray-600 mb-4">
+            {nextDueAt
+              ? `Your next review is due on ${new Date(nextDueAt).toLocaleDateString()}.`
+              : 'Answer some quiz questions and they will show up here when it is time to review them.'}
+          </p>
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+      <div className="text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600 mx-auto mb-4"></div>
+        <p className="text-gray-600">Preparing your review...</p>
+      </div>
+    </div>
+  );
+}
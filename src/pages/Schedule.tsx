@@ -17,6 +17,9 @@ import { ScheduleStats } from '../components/schedule/ScheduleStats';
 import { AssignmentModal } from '../components/schedule/AssignmentModal';
 import { UpcomingAssignmentsList } from '../components/schedule/UpcomingAssignmentsList';
 import { WeeklyScheduleTable } from '../components/schedule/WeeklyScheduleTable';
+import { AssignedQuizzesList } from '../components/schedule/AssignedQuizzesList';
+import { AssignQuizModal } from '../components/schedule/AssignQuizModal';
+import { useAssignedQuizzes } from '../hooks/useAssignedQuizzes';
 
 interface CalendarDay {
   date: Date;
@@ -28,7 +31,7 @@ interface CalendarDay {
 export function Schedule() {
   const { user, refreshUser } = useAuth();
   const { developerLog } = useAuth();
-  const { questions, fetchQuestions } = useQuestion();
+  const { publishedQuestions: questions, fetchQuestions } = useQuestion();
   const { getSessionForAssignment, deleteQuizSession } = useQuizSession();
   const navigate = useNavigate();
   
@@ -42,6 +45,18 @@ export function Schedule() {
     saveAssignment, 
     deleteAssignment 
   } = useStudyAssignments();
+
+  const {
+    assignedQuizzes,
+    saving: assigningQuiz,
+    starting: startingAssignedQuiz,
+    error: assignedQuizError,
+    createAssignedQuiz,
+    deleteAssignedQuiz,
+    startAssignedQuiz,
+    getMemberStatus
+  } = useAssignedQuizzes();
+  const [showAssignQuizModal, setShowAssignQuizModal] = useState(false);
   
   const [selectedViewingMemberId, setSelectedViewingMemberId] = useState<string>('');
   const [selectedAssignmentMembers, setSelectedAssignmentMembers] = useState<string[]>([]);
@@ -357,6 +372,20 @@ export function Schedule() {
           />
         </div>
 
+        <AssignedQuizzesList
+          quizzes={canManageSchedules
+            ? assignedQuizzes
+            : assignedQuizzes.filter(quiz => quiz.members.some(member => member.user_id === user.id))}
+          currentUserId={user.id}
+          canManage={canManageSchedules}
+          teamMembers={teamMembers}
+          starting={startingAssignedQuiz}
+          getMemberStatus={getMemberStatus}
+          onStart={startAssignedQuiz}
+          onAssign={() => setShowAssignQuizModal(true)}
+          onDelete={(quiz) => deleteAssignedQuiz(quiz.id)}
+        />
+
         <CalendarGrid
           currentDate={currentDate}
           calendarDays={calendarDays}
@@ -388,6 +417,18 @@ export function Schedule() {
           questions={questions}
         />
 
+        {showAssignQuizModal && canManageSchedules && (
+          <AssignQuizModal
+            isOpen={showAssignQuizModal}
+            onClose={() => setShowAssignQuizModal(false)}
+            teamMembers={teamMembers}
+            questions={questions}
+            saving={assigningQuiz}
+            error={assignedQuizError}
+            onAssign={createAssignedQuiz}
+          />
+        )}
+
         {/* Only show assignment modal if user can manage schedules */}
         {showAssignmentModal && canManageSchedules && (
           <AssignmentModal
@@ -6,6 +6,7 @@ import { isSuperAdmin } from '../utils/permissions';
 import { validatePassword } from '../utils/security';
 import { AlertMessage } from '../components/common/AlertMessage';
 import { InlineLoading } from '../components/common/LoadingSpinner';
+import { ReadAloudSettingsPanel } from '../components/quiz/ReadAloudSettingsPanel';
 import { 
   User, 
   Mail, 
@@ -16,6 +17,7 @@ import {
   Save,
   Eye,
   EyeOff,
+  Volume2,
   Settings as SettingsIcon
 } from 'lucide-react';
 
@@ -96,6 +98,7 @@ export function Settings() {
   const allTabs = [
     { id: 'profile', name: 'Profile', icon: User },
     { id: 'security', name: 'Security', icon: Shield },
+    { id: 'read-aloud', name: 'Read Aloud', icon: Volume2 },
     { id: 'developer', name: 'Developer', icon: SettingsIcon },
   ];
 
@@ -351,6 +354,8 @@ export function Settings() {
               </div>
             )}
 
+            {activeTab === 'read-aloud' && <ReadAloudSettingsPanel />}
+
             {activeTab === 'developer' && (
               <div className="max-w-2xl">
                 <h2 className="text-lg font-semibold text-gray-900 mb-6">Developer Settings</h2>
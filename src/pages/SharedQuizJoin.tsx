@@ -0,0 +1,85 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Share2, Loader2 } from 'lucide-react';
+import { Layout } from '../components/layout/Layout';
+import { AlertMessage } from '../components/common/AlertMessage';
+import { useQuestion } from '../contexts/QuestionContext';
+import { useSharedQuiz } from '../hooks/useSharedQuiz';
+import { normalizeJoinCode } from '../utils/liveQuizUtils';
+import { SHARE_CODE_LENGTH } from '../utils/quizDefinition';
+
+export function SharedQuizJoin() {
+  const navigate = useNavigate();
+  const params = useParams<{ code: string }>();
+  const { publishedQuestions: questions, loading: questionsLoading, fetchQuestions } = useQuestion();
+  const { starting, error, startSharedQuiz } = useSharedQuiz();
+  const [shareCode, setShareCode] = useState(normalizeJoinCode(params.code || '').slice(0, SHARE_CODE_LENGTH));
+  const autoStartAttempted = useRef(false);
+
+  useEffect(() => {
+    fetchQuestions();
+  }, [fetchQuestions]);
+
+  // Links like /quiz/shared/K7F2 start straight away once the question bank is loaded
+  useEffect(() => {
+    if (autoStartAttempted.current || !params.code || questions.length === 0) return;
+    autoStartAttempted.current = true;
+    startSharedQuiz(params.code);
+  }, [params.code, questions, startSharedQuiz]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    startSharedQuiz(shareCode);
+  };
+
+  const questionsReady = questions.length > 0 && !questionsLoading;
+
+  return (
+    <Layout>
+      <div className="min-h-screen bg-gray-50 p-4 sm:p-6">
+        <div className="max-w-2xl mx-auto">
+          <button
+            onClick={() => navigate('/quiz')}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 mb-6 transition-colors duration-200"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to Quiz</span>
+          </button>
+
+          {error && (
+            <div className="mb-4">
+              <AlertMessage type="error" message={error} />
+            </div>
+          )}
+
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 sm:p-8 text-center">
+            <Share2 className="h-12 w-12 text-indigo-600 mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Take a Shared Quiz</h1>
+            <p className="text-gray-600 mb-6">
+              Enter the code you were given. Everyone with the same code gets the same questions in the same order.
+            </p>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <input
+                type="text"
+                value={shareCode}
+                onChange={(e) => setShareCode(normalizeJoinCode(e.target.value).slice(0, SHARE_CODE_LENGTH))}
+                placeholder="K7F2"
+                autoFocus
+                className="w-full text-center text-3xl font-bold tracking-widest uppercase px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+              <button
+                type="submit"
+                disabled={starting || !questionsReady || shareCode.length < SHARE_CODE_LENGTH}
+                className="w-full bg-indigo-600 text-white px-6 py-3 rounded-lg font-medium hover:bg-indigo-700 transition-colors duration-200 disabled:opacity-50 flex items-center justify-center space-x-2"
+              >
+                {(starting || !questionsReady) && <Loader2 className="h-5 w-5 animate-spin" />}
+                <span>{starting ? 'Starting...' : !questionsReady ? 'Loading questions...' : 'Start Quiz'}</span>
+              </button>
+            </form>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -17,9 +17,12 @@ import {
   CheckCircle,
   Users
 } from 'lucide-react';
-import { StudyAssignment, StudyItem, Question } from '../types';
+import { StudyAssignment, StudyItem, Question, QuizTimerSettings } from '../types';
 import { getAccessibleQuestions, filterQuestionsByStudyItems } from '../utils/quizUtils';
 import { formatStudyItemsForAssignment } from '../utils/quizHelpers';
+import { compareByVerse, questionMatchesVerses } from '../utils/verseReferences';
+import { buildTimerSessionFields, DEFAULT_TIMER_SETTINGS } from '../utils/timerModes';
+import { TimerModeSelector } from '../components/quiz/TimerModeSelector';
 
 interface StudySelectionState {
   selectedStudyItems?: StudyItem[];
@@ -30,7 +33,7 @@ export function StudyScheduleQuiz() {
   const location = useLocation();
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { questions } = useQuestion();
+  const { publishedQuestions: questions } = useQuestion();
   const { getAssignmentById } = useStudyAssignments();
   const { 
     createQuizSession, 
@@ -44,6 +47,7 @@ export function StudyScheduleQuiz() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [questionOrder, setQuestionOrder] = useState<'verse' | 'random'>('random');
+  const [timerSettings, setTimerSettings] = useState<QuizTimerSettings>(DEFAULT_TIMER_SETTINGS);
 
   // Get study selection from navigation state
   const studySelection = location.state as StudySelectionState | null;
@@ -69,14 +73,8 @@ export function StudyScheduleQuiz() {
         if (a.book_of_bible !== b.book_of_bible) {
           return a.book_of_bible.localeCompare(b.book_of_bible);
         }
-        // Then by chapter
-        if (a.chapter !== b.chapter) {
-          return a.chapter - b.chapter;
-        }
-        // Finally by verse (default to 1 if not specified)
-        const aVerse = a.verse || 1;
-        const bVerse = b.verse || 1;
-        return aVerse - bVerse;
+        // Then by chapter and verse
+        return compareByVerse(a, b);
       });
     } else {
       // Shuffle questions randomly
@@ -164,12 +162,13 @@ export function StudyScheduleQuiz() {
         results: [],
         status: 'active',
         show_answer: false,
-        time_left: assignmentQuestions[0]?.time_to_answer || 30,
+        ...buildTimerSessionFields(timerSettings, assignmentQuestions),
         timer_active: false,
         timer_started: false,
         has_time_expired: false,
         total_points: 0,
         max_points: totalPoints,
+        estimated_minutes: Math.ceil(estimatedSeconds / 60),
         total_actual_time_spent_seconds: 0, // Will be calculated when completed
       });
 
@@ -178,7 +177,7 @@ export function StudyScheduleQuiz() {
       console.error('Error creating quiz session:', error);
       setError('Failed to create quiz session');
     }
-  }, [assignment, user, getQuestionsForAssignment, studySelection?.selectedStudyItems, createQuizSession]);
+  }, [assignment, user, getQuestionsForAssignment, studySelection?.selectedStudyItems, createQuizSession, timerSettings]);
 
   const handleResumeQuiz = React.useCallback(() => {
     const existingSession = getSessionForAssignment(assignmentId!, user!.id);
@@ -400,6 +399,10 @@ export function StudyScheduleQuiz() {
                 </div>
               </div>
 
+              <div className="mb-6">
+                <TimerModeSelector value={timerSettings} onChange={setTimerSettings} />
+              </div>
+
               {/* Quiz Stats */}
               <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
                 <div className="bg-gray-50 p-4 rounded-lg text-center">
@@ -504,10 +507,7 @@ export function StudyScheduleQuiz() {
                         );
                         
                         if (item.verses && item.verses.length > 0) {
-                          itemQuestions = itemQuestions.filter(q => {
-                            const questionVerse = q.verse || 1;
-                            return item.verses!.includes(questionVerse);
-                          });
+                          itemQuestions = itemQuestions.filter(q => questionMatchesVerses(q, item.verses!));
                         }
                         
                         return itemQuestions.length;
@@ -517,10 +517,7 @@ export function StudyScheduleQuiz() {
                         );
                         
                         if (item.verses && item.verses.length > 0) {
-                          itemQuestions = itemQuestions.filter(q => {
-                            const questionVerse = q.verse || 1;
-                            return item.verses!.includes(questionVerse);
-                          });
+                          itemQuestions = itemQuestions.filter(q => questionMatchesVerses(q, item.verses!));
                         }
                         
                         const count = itemQuestions.length;
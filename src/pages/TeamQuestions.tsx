@@ -0,0 +1,407 @@
+import React, { useState } from 'react';
+import { Layout } from '../components/layout/Layout';
+import { useAuth } from '../contexts/AuthContext';
+import { useQuestion } from '../contexts/QuestionContext';
+import { Modal } from '../components/common/Modal';
+import { Table, TableColumn } from '../components/common/Table';
+import { AlertMessage } from '../components/common/AlertMessage';
+import { LoadingSpinner } from '../components/common/LoadingSpinner';
+import { bibleBooks } from '../constants/bibleBooks';
+import { BookOpen, Edit, Plus, Save, Trash2, Users } from 'lucide-react';
+import { Question, QuestionStatus } from '../types';
+import { getQuestionStatus } from '../utils/questionStatus';
+import { getTeamQuestionActions, TEAM_QUESTION_STATUS_LABELS } from '../utils/teamQuestions';
+import { formatQuestionReference, validateVerseRange } from '../utils/verseReferences';
+
+const emptyForm = {
+  book_of_bible: '',
+  chapter: 1,
+  verse_start: null as number | null,
+  verse_end: null as number | null,
+  question: '',
+  answer: '',
+  points: 10,
+  time_to_answer: 30,
+};
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all duration-200';
+
+// Coaches write practice questions only their team can see, and nominate the good ones for the global bank
+export function TeamQuestions() {
+  const { user } = useAuth();
+  const {
+    teamQuestions,
+    includeTeamQuestions,
+    loading,
+    createQuestion,
+    updateQuestion,
+    setQuestionStatus,
+    deleteQuestion,
+    updateIncludeTeamQuestions,
+  } = useQuestion();
+  const [showQuestionModal, setShowQuestionModal] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const verseError = validateVerseRange(formData.verse_start, formData.verse_end);
+
+  const handleAddQuestion = () => {
+    setEditingQuestion(null);
+    setSaveError(null);
+    setFormData(emptyForm);
+    setShowQuestionModal(true);
+  };
+
+  const handleEditQuestion = (question: Question) => {
+    setEditingQuestion(question);
+    setSaveError(null);
+    setFormData({
+      book_of_bible: question.book_of_bible,
+      chapter: question.chapter,
+      verse_start: question.verse_start ?? null,
+      verse_end: question.verse_end ?? null,
+      question: question.question,
+      answer: question.answer,
+      points: question.points,
+      time_to_answer: question.time_to_answer,
+    });
+    setShowQuestionModal(true);
+  };
+
+  const handleSaveQuestion = async () => {
+    const questionData = {
+      ...formData,
+      // A single verse is stored as a range of one
+      verse_end: formData.verse_start !== null ? formData.verse_end ?? formData.verse_start : null,
+    };
+
+    setSaveError(null);
+    try {
+      if (editingQuestion) {
+        await updateQuestion(editingQuestion.id, questionData);
+      } else {
+        await createQuestion({ ...questionData, tier: 'free', status: 'draft', team_id: user?.teamId });
+      }
+      setShowQuestionModal(false);
+    } catch (err) {
+      setSaveError((err as { message?: string })?.message || 'Failed to save question');
+    }
+  };
+
+  const handleChangeStatus = async (question: Question, status: QuestionStatus) => {
+    setError(null);
+    try {
+      await setQuestionStatus(question.id, status);
+    } catch (err) {
+      setError((err as { message?: string })?.message || 'Failed to update nomination');
+    }
+  };
+
+  const handleDeleteQuestion = async (question: Question) => {
+    if (!window.confirm('Are you sure you want to delete this question?')) return;
+
+    setError(null);
+    try {
+      await deleteQuestion(question.id);
+    } catch (err) {
+      setError((err as { message?: string })?.message || 'Failed to delete question');
+    }
+  };
+
+  const handleToggleInclude = async (include: boolean) => {
+    setError(null);
+    try {
+      await updateIncludeTeamQuestions(include);
+    } catch (err) {
+      setError((err as { message?: string })?.message || 'Failed to update setting');
+    }
+  };
+
+  const columns: TableColumn<Question>[] = [
+    {
+      key: 'question',
+      header: 'Question',
+      render: (question) => (
+        <div className="max-w-sm">
+          <p className="text-sm font-medium text-gray-900 line-clamp-2">{question.question}</p>
+          <p className="text-sm text-gray-600 italic line-clamp-1">{question.answer}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'reference',
+      header: 'Reference',
+      render: (question) => <span className="text-sm text-gray-900">{formatQuestionReference(question)}</span>,
+      className: 'whitespace-nowrap',
+    },
+    {
+      key: 'points',
+      header: 'Points',
+      render: (question) => <span className="text-sm text-gray-900">{question.points}</span>,
+      className: 'whitespace-nowrap',
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (question) => {
+        const status = getQuestionStatus(question);
+        return (
+          <div className="space-y-1">
+            <span className={`inline-flex px-2 py-1 text-xs font-medium rounded-full ${
+              status === 'in_review' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800'
+            }`}>
+              {TEAM_QUESTION_STATUS_LABELS[status] ?? status}
+            </span>
+            {question.review_note && (
+              <p className="text-xs text-gray-500 max-w-[14rem] line-clamp-2" title={question.review_note}>
+                Not added to the bank: {question.review_note}
+              </p>
+            )}
+            <div>
+              {getTeamQuestionActions(status).map(action => (
+                <button
+                  key={action.status}
+                  onClick={() => handleChangeStatus(question, action.status)}
+                  className="text-xs text-indigo-600 hover:text-indigo-700"
+                >
+                  {action.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+      },
+      className: 'whitespace-nowrap',
+    },
+    {
+      key: 'actions',
+      header: '',
+      render: (question) => (
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => handleEditQuestion(question)}
+            className="text-indigo-600 hover:text-indigo-700 transition-colors duration-200"
+          >
+            <Edit className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => handleDeleteQuestion(question)}
+            className="text-red-600 hover:text-red-700 transition-colors duration-200"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ),
+      className: 'whitespace-nowrap text-right text-sm font-medium',
+      headerClassName: 'relative',
+    },
+  ];
+
+  if (!user?.teamId) {
+    return (
+      <Layout>
+        <div className="p-6">
+          <div className="text-center py-12">
+            <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-lg font-semibold text-gray-900 mb-2">No Team Found</h2>
+            <p className="text-gray-600">You need to be part of a team to write team questions.</p>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between mb-8 space-y-4 sm:space-y-0">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 mb-2">Team Questions</h1>
+            <p className="text-gray-600">
+              Practice questions only your team can see. Nominate good ones to be added to the question bank for everyone.
+            </p>
+          </div>
+          <button
+            onClick={handleAddQuestion}
+            className="flex items-center justify-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Question</span>
+          </button>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm p-4 sm:p-6 mb-6">
+          <label className="flex items-start space-x-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeTeamQuestions}
+              onChange={(e) => handleToggleInclude(e.target.checked)}
+              className="mt-1 h-4 w-4 text-indigo-600 border-gray-300 rounded focus:ring-indigo-500"
+            />
+            <div>
+              <p className="font-medium text-gray-900">Mix team questions into quizzes</p>
+              <p className="text-sm text-gray-600">
+                Members get these questions alongside the question bank in quizzes, flashcards and study assignments. Shared quiz codes only use the question bank.
+              </p>
+            </div>
+          </label>
+        </div>
+
+        {error && (
+          <AlertMessage type="error" message={error} className="mb-6" />
+        )}
+
+        {loading ? (
+          <LoadingSpinner text="Loading team questions..." className="py-12" />
+        ) : (
+          <Table
+            columns={columns}
+            data={teamQuestions}
+            emptyState={{
+              icon: BookOpen,
+              title: 'No Team Questions Yet',
+              description: 'Add questions for your team to practice with',
+            }}
+          />
+        )}
+
+        <Modal
+          isOpen={showQuestionModal}
+          onClose={() => setShowQuestionModal(false)}
+          title={editingQuestion ? 'Edit Team Question' : 'Add Team Question'}
+          maxWidth="2xl"
+          footer={
+            <>
+              <button
+                onClick={() => setShowQuestionModal(false)}
+                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveQuestion}
+                disabled={!formData.book_of_bible || !formData.question || !formData.answer || !!verseError}
+                className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
+              >
+                <Save className="h-4 w-4" />
+                <span>{editingQuestion ? 'Update Question' : 'Add Question'}</span>
+              </button>
+            </>
+          }
+        >
+          <div className="space-y-4">
+            {saveError && <AlertMessage type="error" message={saveError} />}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Book of the Bible</label>
+                <select
+                  value={formData.book_of_bible}
+                  onChange={(e) => setFormData({ ...formData, book_of_bible: e.target.value })}
+                  className={inputClassName}
+                  required
+                >
+                  <option value="">Select a book</option>
+                  {bibleBooks.map((book) => (
+                    <option key={book} value={book}>{book}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Chapter</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="150"
+                  value={formData.chapter}
+                  onChange={(e) => setFormData({ ...formData, chapter: parseInt(e.target.value) || 1 })}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">First Verse (optional)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.verse_start ?? ''}
+                    onChange={(e) => setFormData({ ...formData, verse_start: e.target.value ? parseInt(e.target.value) : null })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Last Verse (optional)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.verse_end ?? ''}
+                    onChange={(e) => setFormData({ ...formData, verse_end: e.target.value ? parseInt(e.target.value) : null })}
+                    className={inputClassName}
+                    placeholder={formData.verse_start ? `${formData.verse_start}` : ''}
+                  />
+                </div>
+              </div>
+              {verseError && <p className="text-sm text-red-600 mt-1">{verseError}</p>}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Question</label>
+              <textarea
+                value={formData.question}
+                onChange={(e) => setFormData({ ...formData, question: e.target.value })}
+                rows={3}
+                className={inputClassName}
+                placeholder="Enter the quiz question..."
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Answer</label>
+              <textarea
+                value={formData.answer}
+                onChange={(e) => setFormData({ ...formData, answer: e.target.value })}
+                rows={2}
+                className={inputClassName}
+                placeholder="Enter the correct answer..."
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Points</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={formData.points}
+                  onChange={(e) => setFormData({ ...formData, points: parseInt(e.target.value) || 10 })}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Time (seconds)</label>
+                <input
+                  type="number"
+                  min="10"
+                  max="300"
+                  value={formData.time_to_answer}
+                  onChange={(e) => setFormData({ ...formData, time_to_answer: parseInt(e.target.value) || 30 })}
+                  className={inputClassName}
+                  required
+                />
+              </div>
+            </div>
+          </div>
+        </Modal>
+      </div>
+    </Layout>
+  );
+}
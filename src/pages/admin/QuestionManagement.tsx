@@ -1,11 +1,17 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Layout } from '../../components/layout/Layout';
 import { useQuestion } from '../../contexts/QuestionContext';
+import { useAuth } from '../../contexts/AuthContext';
 import { Modal } from '../../components/common/Modal';
 import { Badge } from '../../components/common/Badge';
 import { LoadingSpinner } from '../../components/common/LoadingSpinner';
 import { StatsCard } from '../../components/common/StatsCard';
 import { Table, TableColumn } from '../../components/common/Table';
+import { AlertMessage } from '../../components/common/AlertMessage';
+import { QuestionImportModal } from '../../components/admin/QuestionImportModal';
+import { QuestionExportActions } from '../../components/admin/QuestionExportActions';
+import { QuestionHistoryModal } from '../../components/admin/QuestionHistoryModal';
+import { DuplicateQuestionsModal } from '../../components/admin/DuplicateQuestionsModal';
 import { bibleBooks } from '../../constants/bibleBooks';
 import { 
   BookOpen, 
@@ -18,26 +24,64 @@ import {
   Award,
   Tag,
   Save,
+  X,
+  Upload,
+  History,
+  Copy,
+  Users,
 } from 'lucide-react';
-import { Question } from '../../types';
+import { AnswerComponent, Question, QuestionStatus } from '../../types';
+import { validateAnswerComponents } from '../../utils/answerRubric';
+import { formatVerseRange, validateVerseRange } from '../../utils/verseReferences';
+import { findDuplicateQuestions } from '../../utils/questionDuplicates';
+import { getQuestionStatus, getQuestionStatusActions, QUESTION_STATUS_LABELS } from '../../utils/questionStatus';
+import { isTeamQuestion } from '../../utils/teamQuestions';
+import { canReviewQuestions, isSuperAdmin } from '../../utils/permissions';
 
 
 export function QuestionManagement() {
-  const { questions, loading, fetchQuestions, createQuestion, updateQuestion, deleteQuestion } = useQuestion();
+  const {
+    questions,
+    loading,
+    fetchQuestions,
+    createQuestion,
+    updateQuestion,
+    setQuestionStatus,
+    reviewTeamQuestion,
+    deleteQuestion,
+  } = useQuestion();
+  const { user } = useAuth();
+  // Reviewers can open this page to approve questions; adding, importing and deleting stay with admins
+  const isAdmin = isSuperAdmin(user);
+  const canReview = canReviewQuestions(user);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedBook, setSelectedBook] = useState<string>('all');
+  const [selectedChapter, setSelectedChapter] = useState<string>('all');
   const [selectedTier, setSelectedTier] = useState<string>('all');
+  const [selectedStatus, setSelectedStatus] = useState<string>('all');
+  const [newQuestionStatus, setNewQuestionStatus] = useState<QuestionStatus>('draft');
+  const [statusError, setStatusError] = useState<string | null>(null);
   const [showQuestionModal, setShowQuestionModal] = useState(false);
   const [editingQuestion, setEditingQuestion] = useState<Question | null>(null);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [historyQuestion, setHistoryQuestion] = useState<Question | null>(null);
+  const [showDuplicatesModal, setShowDuplicatesModal] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     book_of_bible: '',
     chapter: 1,
+    verse_start: null as number | null,
+    verse_end: null as number | null,
     question: '',
     answer: '',
     points: 10,
     time_to_answer: 30,
     tier: 'free' as 'free' | 'pro' | 'enterprise',
+    answer_components: [] as AnswerComponent[],
   });
+  const rubricError = validateAnswerComponents(formData.answer_components, formData.points);
+  const verseError = validateVerseRange(formData.verse_start, formData.verse_end);
+  const [saveError, setSaveError] = useState<string | null>(null);
 
   // Load questions on component mount
   useEffect(() => {
@@ -50,13 +94,30 @@ export function QuestionManagement() {
                          question.answer.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          question.book_of_bible.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesBook = selectedBook === 'all' || question.book_of_bible === selectedBook;
+    const matchesChapter = selectedChapter === 'all' || question.chapter === Number(selectedChapter);
     const matchesTier = selectedTier === 'all' || question.tier === selectedTier;
+    const matchesStatus = selectedStatus === 'all' || getQuestionStatus(question) === selectedStatus;
     
-    return matchesSearch && matchesBook && matchesTier;
+    return matchesSearch && matchesBook && matchesChapter && matchesTier && matchesStatus;
   });
 
+  // Compares every pair within a chapter, so only rerun when the bank changes. Only admins can merge.
+  const duplicatePairs = useMemo(() => (isAdmin ? findDuplicateQuestions(questions) : []), [isAdmin, questions]);
+  const duplicateIds = new Set(duplicatePairs.flatMap(pair => [pair.first.id, pair.second.id]));
+
   // Get unique books from questions
   const availableBooks = Array.from(new Set(questions.map(q => q.book_of_bible))).sort();
+  const availableChapters = Array.from(new Set(
+    questions.filter(q => q.book_of_bible === selectedBook).map(q => q.chapter)
+  )).sort((a, b) => a - b);
+
+  // Names the filtered set in export file names and the study guide title
+  const exportLabel = [
+    selectedBook !== 'all' ? `${selectedBook}${selectedChapter !== 'all' ? ` ${selectedChapter}` : ''}` : '',
+    selectedTier !== 'all' ? selectedTier : '',
+    selectedStatus !== 'all' ? QUESTION_STATUS_LABELS[selectedStatus as QuestionStatus] : '',
+    searchTerm.trim(),
+  ].filter(Boolean).join(' ');
 
   // Define table columns
   const columns: TableColumn<Question>[] = [
@@ -68,6 +129,24 @@ export function QuestionManagement() {
           <p className="text-sm font-medium text-gray-900 line-clamp-2">
             {question.question}
           </p>
+          {duplicateIds.has(question.id) && (
+            <button
+              onClick={() => setShowDuplicatesModal(true)}
+              className="mt-1 inline-flex items-center space-x-1 text-xs text-yellow-700 hover:text-yellow-800"
+            >
+              <Copy className="h-3 w-3" />
+              <span>Probable duplicate</span>
+            </button>
+          )}
+          {isTeamQuestion(question) && (
+            <span
+              className="mt-1 flex items-center space-x-1 text-xs text-indigo-700"
+              title="Approving adds it to the question bank; sending it back returns it to the team"
+            >
+              <Users className="h-3 w-3" />
+              <span>Team nomination</span>
+            </span>
+          )}
         </div>
       ),
     },
@@ -77,7 +156,10 @@ export function QuestionManagement() {
       render: (question) => (
         <div className="text-sm text-gray-900">
           <div className="font-medium">{question.book_of_bible}</div>
-          <div className="text-gray-500">Chapter {question.chapter}</div>
+          <div className="text-gray-500">
+            Chapter {question.chapter}
+            {question.verse_start ? `, verses ${formatVerseRange(question)}` : ''}
+          </div>
         </div>
       ),
       className: 'whitespace-nowrap',
@@ -121,6 +203,32 @@ export function QuestionManagement() {
       render: (question) => <Badge type="tier" value={question.tier} showIcon />,
       className: 'whitespace-nowrap',
     },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (question) => (
+        <div className="space-y-1">
+          <Badge type="questionStatus" value={getQuestionStatus(question)} />
+          {question.review_note && (
+            <p className="text-xs text-gray-500 max-w-[12rem] line-clamp-2" title={question.review_note}>
+              {question.review_note}
+            </p>
+          )}
+          <div className="flex flex-wrap gap-x-2">
+            {getQuestionStatusActions(getQuestionStatus(question), canReview).map(action => (
+              <button
+                key={action.status}
+                onClick={() => handleChangeStatus(question, action.status)}
+                className="text-xs text-indigo-600 hover:text-indigo-700"
+              >
+                {action.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      ),
+      className: 'whitespace-nowrap',
+    },
     {
       key: 'actions',
       header: '',
@@ -133,11 +241,20 @@ export function QuestionManagement() {
             <Edit className="h-4 w-4" />
           </button>
           <button
-            onClick={() => handleDeleteQuestion(question.id)}
-            className="text-red-600 hover:text-red-700 transition-colors duration-200"
+            onClick={() => setHistoryQuestion(question)}
+            className="text-gray-500 hover:text-gray-700 transition-colors duration-200"
+            title={`Revision history${question.revision && question.revision > 1 ? ` (revision ${question.revision})` : ''}`}
           >
-            <Trash2 className="h-4 w-4" />
+            <History className="h-4 w-4" />
           </button>
+          {isAdmin && (
+            <button
+              onClick={() => handleDeleteQuestion(question.id)}
+              className="text-red-600 hover:text-red-700 transition-colors duration-200"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          )}
         </div>
       ),
       className: 'whitespace-nowrap text-right text-sm font-medium',
@@ -147,48 +264,110 @@ export function QuestionManagement() {
 
   const handleAddQuestion = () => {
     setEditingQuestion(null);
+    setSaveError(null);
+    setNewQuestionStatus('draft');
     setFormData({
       book_of_bible: '',
       chapter: 1,
+      verse_start: null,
+      verse_end: null,
       question: '',
       answer: '',
       points: 10,
       time_to_answer: 30,
       tier: 'free',
+      answer_components: [],
     });
     setShowQuestionModal(true);
   };
 
   const handleEditQuestion = (question: Question) => {
     setEditingQuestion(question);
+    setSaveError(null);
     setFormData({
       book_of_bible: question.book_of_bible,
       chapter: question.chapter,
+      verse_start: question.verse_start ?? null,
+      verse_end: question.verse_end ?? null,
       question: question.question,
       answer: question.answer,
       points: question.points,
       time_to_answer: question.time_to_answer,
       tier: question.tier,
+      answer_components: question.answer_components || [],
     });
     setShowQuestionModal(true);
   };
 
   const handleSaveQuestion = async () => {
+    const questionData = {
+      ...formData,
+      // A single verse is stored as a range of one
+      verse_end: formData.verse_start !== null ? formData.verse_end ?? formData.verse_start : null,
+      answer_components: formData.answer_components.length > 0 ? formData.answer_components : null,
+    };
+
+    setSaveError(null);
     try {
       if (editingQuestion) {
         // Update existing question
-        await updateQuestion(editingQuestion.id, formData);
+        await updateQuestion(editingQuestion.id, questionData);
       } else {
         // Add new question
-        await createQuestion(formData);
+        await createQuestion({ ...questionData, status: newQuestionStatus });
       }
       setShowQuestionModal(false);
     } catch (error) {
       console.error('Error saving question:', error);
-      // You could add error handling UI here
+      // The database rejects references outside the book's chapters and verses
+      setSaveError((error as { message?: string })?.message || 'Failed to save question');
+    }
+  };
+
+  const handleChangeStatus = async (question: Question, status: QuestionStatus) => {
+    // Sending a question back asks the reviewer what the author should fix
+    let reviewNote: string | null = null;
+    if (status === 'draft' && getQuestionStatus(question) === 'in_review') {
+      const note = window.prompt('What should be changed before this question is published?');
+      if (note === null) return;
+      reviewNote = note.trim() || null;
+    }
+
+    setStatusError(null);
+    try {
+      if (isTeamQuestion(question)) {
+        await reviewTeamQuestion(question.id, status === 'published', reviewNote);
+      } else {
+        await setQuestionStatus(question.id, status, reviewNote);
+      }
+    } catch (error) {
+      setStatusError((error as { message?: string })?.message || 'Failed to change question status');
     }
   };
 
+  const handleAddAnswerComponent = () => {
+    setFormData({
+      ...formData,
+      answer_components: [...formData.answer_components, { id: crypto.randomUUID(), text: '', points: 1 }],
+    });
+  };
+
+  const handleChangeAnswerComponent = (id: string, changes: Partial<AnswerComponent>) => {
+    setFormData({
+      ...formData,
+      answer_components: formData.answer_components.map(component =>
+        component.id === id ? { ...component, ...changes } : component
+      ),
+    });
+  };
+
+  const handleRemoveAnswerComponent = (id: string) => {
+    setFormData({
+      ...formData,
+      answer_components: formData.answer_components.filter(component => component.id !== id),
+    });
+  };
+
   const handleDeleteQuestion = async (questionId: string) => {
     if (confirm('Are you sure you want to delete this question?')) {
       try {
@@ -206,6 +385,7 @@ export function QuestionManagement() {
     pro: questions.filter(q => q.tier === 'pro').length,
     enterprise: questions.filter(q => q.tier === 'enterprise').length,
     books: availableBooks.length,
+    inReview: questions.filter(q => getQuestionStatus(q) === 'in_review').length,
   };
 
   if (loading) {
@@ -224,15 +404,54 @@ export function QuestionManagement() {
             <h1 className="text-xl sm:text-2xl font-bold text-gray-900 mb-2">Question Management</h1>
             <p className="text-sm sm:text-base text-gray-600">Manage quiz questions for the Pathfinder Bible Experience.</p>
           </div>
-          <button
-            onClick={handleAddQuestion}
-            className="flex items-center space-x-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors duration-200 self-start sm:self-auto"
-          >
-            <Plus className="h-4 w-4" />
-            <span>Add Question</span>
-          </button>
+          <div className="flex items-center space-x-2 self-start sm:self-auto">
+            {stats.inReview > 0 && (
+              <button
+                onClick={() => setSelectedStatus('in_review')}
+                className="flex items-center space-x-2 border border-yellow-300 bg-yellow-50 text-yellow-800 px-4 py-2 rounded-lg hover:bg-yellow-100 transition-colors duration-200"
+              >
+                <Clock className="h-4 w-4" />
+                <span>To Review ({stats.inReview})</span>
+              </button>
+            )}
+            {duplicatePairs.length > 0 && (
+              <button
+                onClick={() => setShowDuplicatesModal(true)}
+                className="flex items-center space-x-2 border border-yellow-300 bg-yellow-50 text-yellow-800 px-4 py-2 rounded-lg hover:bg-yellow-100 transition-colors duration-200"
+              >
+                <Copy className="h-4 w-4" />
+                <span>Duplicates ({duplicatePairs.length})</span>
+              </button>
+            )}
+            {isAdmin && (
+              <>
+                <button
+                  onClick={() => setShowImportModal(true)}
+                  className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors duration-200"
+                >
+                  <Upload className="h-4 w-4" />
+                  <span>Import</span>
+                </button>
+                <button
+                  onClick={handleAddQuestion}
+                  className="flex items-center space-x-2 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors duration-200"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Question</span>
+                </button>
+              </>
+            )}
+          </div>
         </div>
 
+        {statusError && (
+          <AlertMessage type="error" message={statusError} dismissible onDismiss={() => setStatusError(null)} className="mb-6" />
+        )}
+
+        {importMessage && (
+          <AlertMessage type="success" message={importMessage} dismissible onDismiss={() => setImportMessage(null)} className="mb-6" />
+        )}
+
         {/* Stats */}
         <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4 sm:gap-6 mb-6 sm:mb-8">
           <StatsCard
@@ -281,10 +500,13 @@ export function QuestionManagement() {
               />
             </div>
             
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-5 gap-4">
               <select
                 value={selectedBook}
-                onChange={(e) => setSelectedBook(e.target.value)}
+                onChange={(e) => {
+                  setSelectedBook(e.target.value);
+                  setSelectedChapter('all');
+                }}
                 className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all duration-200"
               >
                 <option value="all">All Books</option>
@@ -294,6 +516,20 @@ export function QuestionManagement() {
                   </option>
                 ))}
               </select>
+
+              <select
+                value={selectedChapter}
+                onChange={(e) => setSelectedChapter(e.target.value)}
+                disabled={selectedBook === 'all'}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all duration-200 disabled:bg-gray-50 disabled:text-gray-400"
+              >
+                <option value="all">All Chapters</option>
+                {availableChapters.map((chapter) => (
+                  <option key={chapter} value={chapter}>
+                    Chapter {chapter}
+                  </option>
+                ))}
+              </select>
               
               <select
                 value={selectedTier}
@@ -305,12 +541,28 @@ export function QuestionManagement() {
                 <option value="pro">Pro</option>
                 <option value="enterprise">Enterprise</option>
               </select>
+
+              <select
+                value={selectedStatus}
+                onChange={(e) => setSelectedStatus(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all duration-200"
+              >
+                <option value="all">All Statuses</option>
+                {(Object.keys(QUESTION_STATUS_LABELS) as QuestionStatus[]).map(status => (
+                  <option key={status} value={status}>{QUESTION_STATUS_LABELS[status]}</option>
+                ))}
+              </select>
               
               <div className="flex items-center text-sm text-gray-600">
                 <Filter className="h-4 w-4 mr-2" />
                 <span>{filteredQuestions.length} of {questions.length} questions</span>
               </div>
             </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 pt-4 border-t border-gray-100">
+              <span className="text-sm text-gray-600">Export the filtered questions:</span>
+              <QuestionExportActions label={exportLabel} questions={filteredQuestions} />
+            </div>
           </div>
         </div>
 
@@ -326,6 +578,20 @@ export function QuestionManagement() {
           }}
         />
 
+        <QuestionHistoryModal question={historyQuestion} onClose={() => setHistoryQuestion(null)} />
+
+        <DuplicateQuestionsModal
+          isOpen={showDuplicatesModal}
+          onClose={() => setShowDuplicatesModal(false)}
+          pairs={duplicatePairs}
+        />
+
+        <QuestionImportModal
+          isOpen={showImportModal}
+          onClose={() => setShowImportModal(false)}
+          onImported={(count) => setImportMessage(`Saved ${count} imported question${count !== 1 ? 's' : ''}.`)}
+        />
+
         {/* Question Modal */}
         <Modal
           isOpen={showQuestionModal}
@@ -342,7 +608,7 @@ export function QuestionManagement() {
               </button>
               <button
                 onClick={handleSaveQuestion}
-                disabled={!formData.book_of_bible || !formData.question || !formData.answer}
+                disabled={!formData.book_of_bible || !formData.question || !formData.answer || !!rubricError || !!verseError}
                 className="flex items-center space-x-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
               >
                 <Save className="h-4 w-4" />
@@ -352,6 +618,11 @@ export function QuestionManagement() {
           }
         >
           <div className="space-y-4">
+            {saveError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {saveError}
+              </div>
+            )}
             <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -385,6 +656,42 @@ export function QuestionManagement() {
                 />
               </div>
             </div>
+
+            <div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    First Verse (optional)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.verse_start ?? ''}
+                    onChange={(e) => setFormData({ ...formData, verse_start: e.target.value ? parseInt(e.target.value) : null })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all duration-200"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Last Verse (optional)
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.verse_end ?? ''}
+                    onChange={(e) => setFormData({ ...formData, verse_end: e.target.value ? parseInt(e.target.value) : null })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all duration-200"
+                    placeholder={formData.verse_start ? `${formData.verse_start}` : ''}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-2">
+                Leave both empty if the question covers the whole chapter. Verse-level study assignments only include questions with verses.
+              </p>
+              {verseError && (
+                <p className="text-sm text-red-600 mt-1">{verseError}</p>
+              )}
+            </div>
             
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -413,6 +720,59 @@ export function QuestionManagement() {
                 required
               />
             </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-sm font-medium text-gray-700">
+                  Answer Parts (optional)
+                </label>
+                <button
+                  type="button"
+                  onClick={handleAddAnswerComponent}
+                  className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800 transition-colors duration-200"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Part</span>
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mb-2">
+                For list answers, add each part with its points. Partial credit is then given part by part.
+              </p>
+              {formData.answer_components.length > 0 && (
+                <div className="space-y-2">
+                  {formData.answer_components.map((component, index) => (
+                    <div key={component.id} className="flex items-center space-x-2">
+                      <input
+                        type="text"
+                        value={component.text}
+                        onChange={(e) => handleChangeAnswerComponent(component.id, { text: e.target.value })}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all duration-200"
+                        placeholder={`Part ${index + 1}`}
+                      />
+                      <input
+                        type="number"
+                        min="1"
+                        value={component.points}
+                        onChange={(e) => handleChangeAnswerComponent(component.id, { points: parseInt(e.target.value) || 0 })}
+                        className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all duration-200"
+                        aria-label={`Points for part ${index + 1}`}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveAnswerComponent(component.id)}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors duration-200"
+                        title="Remove part"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                  {rubricError && (
+                    <p className="text-sm text-red-600">{rubricError}</p>
+                  )}
+                </div>
+              )}
+            </div>
             
             <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
               <div>
@@ -461,6 +821,23 @@ export function QuestionManagement() {
                 </select>
               </div>
             </div>
+
+            {!editingQuestion && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Save As
+                </label>
+                <select
+                  value={newQuestionStatus}
+                  onChange={(e) => setNewQuestionStatus(e.target.value as QuestionStatus)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent outline-none transition-all duration-200"
+                >
+                  <option value="draft">Draft</option>
+                  <option value="in_review">Submit for review</option>
+                  {canReview && <option value="published">Published (available in quizzes)</option>}
+                </select>
+              </div>
+            )}
           </div>
         </Modal>
       </div>
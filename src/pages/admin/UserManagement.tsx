@@ -178,6 +178,7 @@ export function UserManagement() {
               >
                 <option value="all">All Roles</option>
                 <option value="admin">System Admin</option>
+                <option value="reviewer">Question Reviewer</option>
                 <option value="user">User</option>
               </select>
               
@@ -3,7 +3,8 @@ export interface User {
   email: string;
   name: string;
   nickname?: string;
-  role: 'admin' | 'user';
+  // Reviewers approve questions but otherwise use the app like any other user
+  role: 'admin' | 'reviewer' | 'user';
   avatar?: string;
   createdAt: string;
   subscription?: Subscription;
@@ -141,6 +142,9 @@ export interface Question {
   id: string;
   book_of_bible: string;
   chapter: number;
+  // Verse range within the chapter; null for questions that cover the whole chapter
+  verse_start?: number | null;
+  verse_end?: number | null;
   question: string;
   answer: string;
   points: number;
@@ -149,14 +153,178 @@ export interface Question {
   created_at: string;
   updated_at: string;
   created_by?: string;
+  // Parts of a list-style answer, each worth some of the question's points
+  answer_components?: AnswerComponent[] | null;
+  // Goes up by one each time the question's content is edited
+  revision?: number;
+  // Only published questions go into new quizzes
+  status?: QuestionStatus;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  // Why a reviewer sent the question back to draft
+  review_note?: string | null;
+  // Set for questions in a team's private bank; null for the global bank
+  team_id?: string | null;
 }
 
+export type QuestionStatus = 'draft' | 'in_review' | 'published' | 'retired';
+
+// The fields of a question kept in its revision history
+export type QuestionRevisionField =
+  | 'book_of_bible'
+  | 'chapter'
+  | 'verse_start'
+  | 'verse_end'
+  | 'question'
+  | 'answer'
+  | 'answer_components'
+  | 'points'
+  | 'time_to_answer'
+  | 'tier';
+
+// A question's content as it was after one edit
+export interface QuestionRevision extends Pick<Question, QuestionRevisionField> {
+  id: string;
+  question_id: string;
+  revision: number;
+  // Fields that differ from the previous revision; empty for the first
+  changed_fields: QuestionRevisionField[];
+  changed_by: string | null;
+  changed_by_name?: string | null;
+  created_at: string;
+}
+
+export interface AnswerComponent {
+  id: string;
+  text: string;
+  points: number;
+}
+
+// Whether one part of a multi-part answer was given
+export interface AnswerComponentResult {
+  componentId: string;
+  text: string;
+  points: number;
+  earned: boolean;
+}
+
+// Everything needed to regenerate a quiz: the same definition always yields the
+// same questions in the same order from the same question bank
+export interface QuizDefinition {
+  source: 'quick-start' | 'custom';
+  // Books and chapters to draw from; empty means the whole question bank.
+  // Verses narrow an entry to questions tagged with those verses.
+  chapters: { book: string; chapters: number[]; verses?: number[] }[];
+  tiers: Question['tier'][];
+  seed: number;
+  count: number;
+  // Missing on older definitions, which are always shuffled
+  ordering?: QuizOrdering;
+}
+
+// 'reference' asks the drawn questions in book, chapter and verse order
+export type QuizOrdering = 'random' | 'reference';
+
+// A Create Your Own Quiz selection saved for reuse
+export interface QuizTemplateConfig {
+  chapters: { book: string; chapters: number[]; verses?: number[] }[];
+  tiers: Question['tier'][];
+  count: number;
+  ordering: QuizOrdering;
+  answer_mode: QuizAnswerMode;
+  timer?: QuizTimerSettings;
+}
+
+export interface QuizTemplate {
+  id: string;
+  name: string;
+  user_id: string;
+  team_id?: string | null;
+  // Published templates are listed for every member of the team
+  is_team_template: boolean;
+  config: QuizTemplateConfig;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SharedQuiz {
+  code: string;
+  title: string;
+  description?: string | null;
+  definition: QuizDefinition;
+  // The quiz's questions in the order they are asked; missing on codes made before they were saved
+  question_ids?: string[] | null;
+  answer_mode: QuizAnswerMode;
+  created_by: string;
+  team_id?: string | null;
+  created_at: string;
+}
+
+// Options for reading questions aloud during a quiz, saved per member
+export interface ReadAloudSettings {
+  enabled: boolean;
+  readAnswers: boolean;
+  voiceURI: string | null;
+  rate: number;
+  // Start the answer timer as soon as the question has been read
+  autoStartTimer: boolean;
+}
+
+// A member's self-rated recall after flipping a flashcard
+export type FlashcardConfidence = 'again' | 'hard' | 'good' | 'easy';
+
+// Flashcard reviews are not scored and never count towards XP
+export interface FlashcardReview {
+  id: string;
+  user_id: string;
+  team_id?: string | null;
+  question_id: string;
+  confidence: FlashcardConfidence;
+  reviewed_at: string;
+}
+
+// What members have reviewed with flashcards next to how they did when tested
+export interface ReviewCoverageRow {
+  book: string;
+  chapter: number;
+  flashcardReviews: number;
+  // Share of flashcard reviews rated good or easy, or null if none
+  confidentPercent: number | null;
+  quizAttempts: number;
+  // Share of quiz points earned, or null if not tested
+  quizScorePercent: number | null;
+}
+
+// How Quick Start picks questions for a member
+export type QuickStartStrategy = 'balanced' | 'weak-areas' | 'random';
+
 export interface QuestionContextType {
+  // The global bank as the user can read it, including drafts for reviewers, retired
+  // questions and team questions nominated for the bank
   questions: Question[];
+  // Questions in the user's team bank
+  teamQuestions: Question[];
+  // Questions that can go into new quizzes, with team questions when the team mixes them in
+  publishedQuestions: Question[];
+  includeTeamQuestions: boolean;
   loading: boolean;
   fetchQuestions: () => Promise<void>;
   createQuestion: (question: Omit<Question, 'id' | 'created_at' | 'updated_at' | 'created_by'>) => Promise<void>;
+  // Adds and updates questions in one transaction, so either all are saved or none are
+  importQuestions: (
+    newQuestions: Omit<Question, 'id' | 'created_at' | 'updated_at' | 'created_by'>[],
+    updatedQuestions?: Omit<Question, 'created_at' | 'updated_at' | 'created_by'>[]
+  ) => Promise<number>;
   updateQuestion: (id: string, question: Partial<Question>) => Promise<void>;
+  // Newest first, with the editor's name when it can be read
+  fetchQuestionRevisions: (questionId: string) => Promise<QuestionRevision[]>;
+  revertQuestion: (revision: QuestionRevision) => Promise<void>;
+  setQuestionStatus: (id: string, status: QuestionStatus, reviewNote?: string | null) => Promise<void>;
+  // Accepting moves a nominated team question into the global bank, published
+  reviewTeamQuestion: (id: string, accept: boolean, note?: string | null) => Promise<void>;
+  updateIncludeTeamQuestions: (include: boolean) => Promise<void>;
+  // Moves the removed question's answer history to the kept one, then deletes it; resolves to the logs moved
+  mergeQuestions: (keepId: string, removeId: string) => Promise<number>;
   deleteQuestion: (id: string) => Promise<void>;
 }
 
@@ -170,22 +338,44 @@ export interface Quiz {
   is_active: boolean;
 }
 
+export type QuizAnswerMode = 'self-graded' | 'typed';
+
+export type CompetitionPlacement = 'first' | 'second' | 'third' | 'participation';
+
+export interface CompetitionPlacementTier {
+  placement: CompetitionPlacement;
+  label: string;
+  minPercentage: number;
+}
+
 export interface QuizResult {
   questionId: string;
   pointsEarned: number;
   totalPoints: number;
   timeSpent: number;
   answeredAt: string;
+  // Typed-answer mode grading details
+  typedAnswer?: string;
+  autoGradedPoints?: number;
+  similarityScore?: number;
+  // client_log_id of the matching quiz_question_logs row, rewritten on regrade
+  logId?: string;
+  regradedAt?: string;
+  // Per-part breakdown for questions with an answer rubric
+  componentResults?: AnswerComponentResult[];
+  // The member's own grade, kept when a coach overrides pointsEarned in review
+  selfGradedPoints?: number;
 }
 
 export interface QuizSession {
   id: string;
-  type: 'quick-start' | 'custom' | 'study-assignment';
+  type: 'quick-start' | 'custom' | 'study-assignment' | 'live' | 'competition' | 'review' | 'retry' | 'assigned';
   title: string;
   description: string;
   user_id: string;
   team_id?: string;
   assignment_id?: string; // For study assignment quizzes
+  assigned_quiz_id?: string; // For fixed quizzes assigned by a coach
   questions: Question[];
   current_question_index: number;
   results: QuizResult[];
@@ -203,7 +393,47 @@ export interface QuizSession {
   total_points: number;
   max_points: number;
   estimated_minutes: number;
+  total_actual_time_spent_seconds?: number;
   bonus_xp?: number;
+  answer_mode?: QuizAnswerMode;
+  live_session_id?: string; // For hosted live quizzes (host and participants)
+  source_session_id?: string; // For retry sessions, the session whose missed questions are retried
+  quiz_definition?: QuizDefinition | null; // Set when the questions can be regenerated from a seed
+  share_code?: string | null; // For quizzes started from, or shared as, a share code
+  approval_status?: QuizApprovalStatus;
+  reviewed_at?: string | null; // Set once a coach has approved or rejected the quiz
+  review_note?: string | null;
+  timer_mode?: QuizTimerMode;
+  timer_multiplier?: number | null; // For 'multiplier' mode, e.g. 0.5 or 1.5
+  sprint_seconds?: number | null; // For 'sprint' mode, the length of the whole-quiz clock
+}
+
+// 'standard' counts down each question's own time, 'sprint' runs one clock for the whole quiz
+export type QuizTimerMode = 'standard' | 'untimed' | 'multiplier' | 'sprint';
+
+export interface QuizTimerSettings {
+  mode: QuizTimerMode;
+  multiplier?: number;
+  sprintSeconds?: number;
+}
+
+// Lets analytics compare results with and without the clock
+export type QuizTimingFilter = 'all' | 'timed' | 'untimed';
+
+export type QuizApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+// A completed quiz waiting in the coach review queue
+export interface PendingQuizReview {
+  id: string;
+  user_id: string;
+  user_name: string;
+  title: string;
+  type: QuizSession['type'];
+  completed_at: string;
+  total_points: number;
+  max_points: number;
+  questions: Question[];
+  results: QuizResult[];
 }
 
 export interface QuizSessionContextType {
@@ -214,6 +444,11 @@ export interface QuizSessionContextType {
   deleteQuizSession: (sessionId: string) => Promise<void>;
   getActiveSessionsForUser: (userId: string) => QuizSession[];
   getSessionForAssignment: (assignmentId: string, userId: string) => QuizSession | null;
+  recordQuestionLog: (log: QuizQuestionLogInsert, options?: { replace?: boolean }) => Promise<void>;
+  syncOfflineQueue: () => Promise<void>;
+  isOnline: boolean;
+  syncing: boolean;
+  pendingSyncCount: number;
 }
 
 export interface QuizAnswer {
@@ -235,8 +470,77 @@ export interface QuizQuestionLog {
   answered_at: string;
   is_correct: boolean;
   created_at: string;
+  typed_answer?: string | null;
+  auto_graded_points?: number | null;
+  similarity_score?: number | null;
+  // Generated on the device so an offline replay can't log the same answer twice
+  client_log_id?: string | null;
+  regraded_at?: string | null;
+  component_results?: AnswerComponentResult[] | null;
+  self_graded_points?: number | null;
+  reviewed_by?: string | null;
+  // Revision of the question the member was shown
+  question_revision?: number | null;
+  // Set when the log was moved here from a duplicate question that was merged away
+  merged_from_question_id?: string | null;
+}
+
+export type QuizQuestionLogInsert = Omit<QuizQuestionLog, 'id' | 'created_at'>;
+
+// Writes made while offline, kept on the device until they can be replayed
+// userId is the member who made the write; only their own queue is replayed when they sign in
+export type OfflineMutation =
+  | { id?: number; type: 'session-update'; userId: string; sessionId: string; updates: Partial<QuizSession>; queuedAt: string }
+  | { id?: number; type: 'question-log'; userId: string; sessionId: string; log: QuizQuestionLogInsert; queuedAt: string; replace?: boolean };
+
+export interface LiveQuizSession {
+  id: string;
+  host_id: string;
+  team_id: string;
+  host_quiz_session_id: string;
+  join_code: string;
+  title: string;
+  status: 'lobby' | 'active' | 'ended';
+  created_at: string;
+  updated_at: string;
+  ended_at?: string;
 }
 
+export interface LiveQuizParticipant {
+  userId: string;
+  name: string;
+  joinedAt: number;
+}
+
+// What participants see of a question; anything that gives the answer away stays with the host
+export type LiveQuizQuestion = Pick<
+  Question,
+  | 'id'
+  | 'book_of_bible'
+  | 'chapter'
+  | 'verse_start'
+  | 'verse_end'
+  | 'question'
+  | 'points'
+  | 'time_to_answer'
+  | 'tier'
+  | 'created_at'
+  | 'updated_at'
+  | 'revision'
+>;
+
+export type LiveQuizEvent =
+  | { type: 'join'; userId: string; name: string }
+  | { type: 'leave'; userId: string }
+  | { type: 'sync-request'; userId: string }
+  | { type: 'question'; questionIndex: number; totalQuestions: number; question: LiveQuizQuestion }
+  | { type: 'buzz'; userId: string; questionIndex: number }
+  | { type: 'submit-answer'; userId: string; questionIndex: number; answer: string; timeSpent: number }
+  | { type: 'reveal'; questionIndex: number; answer: string }
+  // Tells members the host saved this question's awards; members read their points from live_quiz_awards
+  | { type: 'award'; questionIndex: number; awards: Record<string, number> }
+  | { type: 'end' };
+
 export interface StudyItem {
   book: string;
   chapters: number[];
@@ -263,6 +567,46 @@ export interface StudyAssignment {
   quiz_session_id?: string;
 }
 
+// A fixed quiz a coach assigns to members: everyone answers the same questions,
+// in the same order, with the same time limits
+export interface AssignedQuiz {
+  id: string;
+  team_id: string;
+  created_by: string;
+  title: string;
+  description?: string | null;
+  questions: Question[];
+  answer_mode: QuizAnswerMode;
+  // Copied onto each member's session, so everyone plays on the same clock
+  timer_mode?: QuizTimerMode;
+  timer_multiplier?: number | null;
+  sprint_seconds?: number | null;
+  due_at: string;
+  created_at: string;
+  updated_at?: string;
+  members: AssignedQuizMember[];
+}
+
+export interface AssignedQuizMember {
+  assigned_quiz_id: string;
+  user_id: string;
+  quiz_session_id?: string | null;
+  completed_at?: string | null;
+}
+
+export type AssignedQuizStatus = 'not-started' | 'in-progress' | 'completed' | 'completed-late' | 'overdue';
+
+// One member's results for an assigned quiz, from get_assigned_quiz_results
+export interface AssignedQuizMemberResult {
+  user_id: string;
+  user_name: string;
+  completed_at: string | null;
+  quiz_session_id: string | null;
+  total_points: number | null;
+  max_points: number | null;
+  results: QuizResult[];
+}
+
 export interface UserStats {
   user_id: string;
   total_xp: number;
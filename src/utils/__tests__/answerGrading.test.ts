@@ -0,0 +1,69 @@
+import {
+  normalizeAnswer,
+  levenshteinDistance,
+  calculateAnswerSimilarity,
+  gradeTypedAnswer
+} from '../answerGrading';
+
+describe('Answer Grading Utils', () => {
+  describe('normalizeAnswer', () => {
+    it('should ignore case and punctuation', () => {
+      expect(normalizeAnswer('King of Babylon!')).toBe('king of babylon');
+    });
+
+    it('should drop articles and conjunctions', () => {
+      expect(normalizeAnswer('The lions and the den')).toBe('lions den');
+    });
+
+    it('should convert number words to digits', () => {
+      expect(normalizeAnswer('Seven times')).toBe('7 times');
+      expect(normalizeAnswer('the third day')).toBe('3 day');
+    });
+  });
+
+  describe('levenshteinDistance', () => {
+    it('should return 0 for identical strings', () => {
+      expect(levenshteinDistance('daniel', 'daniel')).toBe(0);
+    });
+
+    it('should count single character edits', () => {
+      expect(levenshteinDistance('nebuchadnezar', 'nebuchadnezzar')).toBe(1);
+    });
+  });
+
+  describe('calculateAnswerSimilarity', () => {
+    it('should return 1 for answers that only differ in formatting', () => {
+      expect(calculateAnswerSimilarity('shadrach meshach abednego', 'Shadrach, Meshach, and Abednego')).toBe(1);
+    });
+
+    it('should return 0 for an empty answer', () => {
+      expect(calculateAnswerSimilarity('', 'Daniel')).toBe(0);
+    });
+  });
+
+  describe('gradeTypedAnswer', () => {
+    it('should award full points for a correct answer with a typo', () => {
+      const grade = gradeTypedAnswer('Nebuchadnezar', { answer: 'Nebuchadnezzar', points: 2 });
+      expect(grade.verdict).toBe('correct');
+      expect(grade.suggestedPoints).toBe(2);
+    });
+
+    it('should suggest partial points for an incomplete list', () => {
+      const grade = gradeTypedAnswer('Shadrach and Meshach', { answer: 'Shadrach, Meshach, and Abednego', points: 3 });
+      expect(grade.verdict).toBe('partial');
+      expect(grade.suggestedPoints).toBeGreaterThan(0);
+      expect(grade.suggestedPoints).toBeLessThan(3);
+    });
+
+    it('should award no points for a wrong answer', () => {
+      const grade = gradeTypedAnswer('Darius', { answer: 'Nebuchadnezzar', points: 2 });
+      expect(grade.verdict).toBe('incorrect');
+      expect(grade.suggestedPoints).toBe(0);
+    });
+
+    it('should never suggest partial credit for single point questions', () => {
+      const grade = gradeTypedAnswer('Shadrach', { answer: 'Shadrach, Meshach, and Abednego', points: 1 });
+      expect(grade.suggestedPoints).toBe(0);
+    });
+  });
+});
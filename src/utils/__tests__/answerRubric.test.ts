@@ -0,0 +1,63 @@
+import {
+  calculateComponentMissRates,
+  getAnswerComponents,
+  hasAnswerRubric,
+  scoreAnswerComponents,
+  validateAnswerComponents
+} from '../answerRubric';
+import { AnswerComponent } from '../../types';
+
+const components: AnswerComponent[] = [
+  { id: 'shadrach', text: 'Shadrach', points: 1 },
+  { id: 'meshach', text: 'Meshach', points: 1 },
+  { id: 'abednego', text: 'Abednego', points: 1 },
+];
+
+describe('Answer Rubric Utils', () => {
+  describe('getAnswerComponents', () => {
+    it('should ignore blank parts', () => {
+      const question = { answer_components: [...components, { id: 'blank', text: '  ', points: 1 }] };
+
+      expect(getAnswerComponents(question).map(c => c.id)).toEqual(['shadrach', 'meshach', 'abednego']);
+      expect(hasAnswerRubric(question)).toBe(true);
+    });
+
+    it('should treat questions without parts as graded whole', () => {
+      expect(hasAnswerRubric({ answer_components: null })).toBe(false);
+      expect(hasAnswerRubric({ answer_components: [components[0]] })).toBe(false);
+    });
+  });
+
+  describe('validateAnswerComponents', () => {
+    it('should require the parts to add up to the question points', () => {
+      expect(validateAnswerComponents(components, 3)).toBeNull();
+      expect(validateAnswerComponents(components, 4)).toBe('Answer parts add up to 3 points but the question is worth 4');
+    });
+
+    it('should allow an empty rubric', () => {
+      expect(validateAnswerComponents([], 4)).toBeNull();
+    });
+  });
+
+  describe('scoreAnswerComponents', () => {
+    it('should add up the points for parts that were given', () => {
+      const { pointsEarned, componentResults } = scoreAnswerComponents(components, ['shadrach', 'abednego']);
+
+      expect(pointsEarned).toBe(2);
+      expect(componentResults.map(r => r.earned)).toEqual([true, false, true]);
+    });
+  });
+
+  describe('calculateComponentMissRates', () => {
+    it('should order parts by how often they are missed', () => {
+      const rates = calculateComponentMissRates([
+        scoreAnswerComponents(components, ['shadrach', 'meshach']).componentResults,
+        scoreAnswerComponents(components, ['shadrach']).componentResults,
+        null,
+      ]);
+
+      expect(rates.map(r => r.componentId)).toEqual(['abednego', 'meshach', 'shadrach']);
+      expect(rates.map(r => r.missRate)).toEqual([100, 50, 0]);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { buildAssignedQuizComparison, getAssignedQuizStatus } from '../assignedQuizUtils';
+import { AssignedQuizMemberResult, Question, QuizResult } from '../../types';
+
+const makeQuestion = (id: string): Question => ({
+  id,
+  book_of_bible: 'Daniel',
+  chapter: 3,
+  question: `Question ${id}`,
+  answer: `Answer ${id}`,
+  points: 2,
+  time_to_answer: 30,
+  tier: 'free',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+});
+
+const makeResult = (questionId: string, pointsEarned: number): QuizResult => ({
+  questionId,
+  pointsEarned,
+  totalPoints: 2,
+  timeSpent: 10,
+  answeredAt: '2025-03-01T10:00:00.000Z',
+});
+
+const makeMember = (userId: string, results: QuizResult[]): AssignedQuizMemberResult => ({
+  user_id: userId,
+  user_name: userId,
+  completed_at: results.length > 0 ? '2025-03-01T10:05:00.000Z' : null,
+  quiz_session_id: null,
+  total_points: null,
+  max_points: null,
+  results,
+});
+
+describe('Assigned Quiz Utils', () => {
+  describe('getAssignedQuizStatus', () => {
+    const quiz = { due_at: '2025-03-02T00:00:00.000Z' };
+    const beforeDue = new Date('2025-03-01T12:00:00.000Z');
+    const afterDue = new Date('2025-03-03T12:00:00.000Z');
+
+    it('should report completion, including late completion', () => {
+      expect(getAssignedQuizStatus(quiz, { completed_at: '2025-03-01T10:00:00.000Z' }, false, afterDue)).toBe('completed');
+      expect(getAssignedQuizStatus(quiz, { completed_at: '2025-03-02T10:00:00.000Z' }, false, afterDue)).toBe('completed-late');
+    });
+
+    it('should report unfinished quizzes as overdue after the due date', () => {
+      expect(getAssignedQuizStatus(quiz, { completed_at: null }, false, beforeDue)).toBe('not-started');
+      expect(getAssignedQuizStatus(quiz, { completed_at: null }, true, beforeDue)).toBe('in-progress');
+      expect(getAssignedQuizStatus(quiz, { completed_at: null }, true, afterDue)).toBe('overdue');
+    });
+  });
+
+  describe('buildAssignedQuizComparison', () => {
+    it('should line up each member against every question', () => {
+      const questions = [makeQuestion('q1'), makeQuestion('q2')];
+      const rows = buildAssignedQuizComparison(questions, [
+        makeMember('anna', [makeResult('q1', 2), makeResult('q2', 0)]),
+        makeMember('ben', [makeResult('q1', 1)]),
+        makeMember('cara', []),
+      ]);
+
+      expect(rows.map(row => row.question.id)).toEqual(['q1', 'q2']);
+      expect(rows[0].results.map(result => result?.pointsEarned ?? null)).toEqual([2, 1, null]);
+      expect(rows.map(row => row.answeredCount)).toEqual([2, 1]);
+      expect(rows.map(row => row.averagePercent)).toEqual([75, 0]);
+    });
+  });
+});
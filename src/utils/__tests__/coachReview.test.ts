@@ -0,0 +1,54 @@
+import { QuizResult } from '../../types';
+import { getReviewedTotal, getReviewOverrides } from '../coachReview';
+
+const makeResult = (questionId: string, pointsEarned: number, totalPoints = 20): QuizResult => ({
+  questionId,
+  pointsEarned,
+  totalPoints,
+  timeSpent: 12,
+  answeredAt: '2025-01-01T00:00:00Z',
+});
+
+const results = [makeResult('q-1', 20), makeResult('q-2', 10), makeResult('q-3', 0)];
+
+describe('getReviewOverrides', () => {
+  it('is empty when the coach changed nothing', () => {
+    expect(getReviewOverrides(results, {})).toEqual([]);
+  });
+
+  it('lists the grades the coach changed', () => {
+    expect(getReviewOverrides(results, { 'q-1': 10, 'q-3': 20 })).toEqual([
+      { questionId: 'q-1', pointsEarned: 10 },
+      { questionId: 'q-3', pointsEarned: 20 },
+    ]);
+  });
+
+  it('leaves out a grade set back to the member\'s own', () => {
+    expect(getReviewOverrides(results, { 'q-1': 20, 'q-2': 0 })).toEqual([
+      { questionId: 'q-2', pointsEarned: 0 },
+    ]);
+  });
+
+  it('counts a zero grade as a change', () => {
+    expect(getReviewOverrides(results, { 'q-1': 0 })).toEqual([{ questionId: 'q-1', pointsEarned: 0 }]);
+  });
+});
+
+describe('getReviewedTotal', () => {
+  it('is the member\'s own total when nothing was changed', () => {
+    expect(getReviewedTotal(results, {})).toBe(30);
+  });
+
+  it('uses the coach\'s grade in place of the member\'s', () => {
+    expect(getReviewedTotal(results, { 'q-1': 10, 'q-3': 20 })).toBe(40);
+    expect(getReviewedTotal(results, { 'q-2': 0 })).toBe(20);
+  });
+
+  it('counts each question once', () => {
+    expect(getReviewedTotal([...results, makeResult('q-2', 10)], {})).toBe(30);
+  });
+
+  it('is zero for a quiz with no answers', () => {
+    expect(getReviewedTotal([], { 'q-1': 20 })).toBe(0);
+  });
+});
@@ -0,0 +1,61 @@
+import { Question, QuizResult } from '../../types';
+import { buildCompetitionReport, getCompetitionPlacement } from '../competitionUtils';
+
+const makeRound = (pointsEarned: number, pointsPossible: number) => {
+  const questions: Question[] = [{
+    id: 'q-1',
+    book_of_bible: 'Daniel',
+    chapter: 1,
+    question: 'Who interpreted the king\'s dream?',
+    answer: 'Daniel',
+    points: pointsPossible,
+    time_to_answer: 30,
+    tier: 'free',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+  }];
+  const results: QuizResult[] = [{
+    questionId: 'q-1',
+    pointsEarned,
+    totalPoints: pointsPossible,
+    timeSpent: 20,
+    answeredAt: '2025-01-01T00:01:00Z',
+    typedAnswer: 'Daniel',
+  }];
+  return { questions, results };
+};
+
+describe('getCompetitionPlacement', () => {
+  it('places scores on a cutoff in that tier', () => {
+    expect(getCompetitionPlacement(90, 100).placement).toBe('first');
+    expect(getCompetitionPlacement(80, 100).placement).toBe('second');
+    expect(getCompetitionPlacement(70, 100).placement).toBe('third');
+  });
+
+  it('places scores just below a cutoff in the tier beneath it', () => {
+    expect(getCompetitionPlacement(8996, 10000).placement).toBe('second');
+    expect(getCompetitionPlacement(7996, 10000).placement).toBe('third');
+    expect(getCompetitionPlacement(6996, 10000).placement).toBe('participation');
+  });
+
+  it('gives participation when nothing was possible', () => {
+    expect(getCompetitionPlacement(0, 0).placement).toBe('participation');
+  });
+});
+
+describe('buildCompetitionReport', () => {
+  it('rounds the percentage for display without moving the placement', () => {
+    const { questions, results } = makeRound(8996, 10000);
+    const report = buildCompetitionReport(questions, results);
+
+    expect(report.percentage).toBe(90);
+    expect(report.placement.placement).toBe('second');
+    expect(report.pointsToNextPlacement).toBe(4);
+  });
+
+  it('counts the points to the next tier from the exact cutoff', () => {
+    const { questions, results } = makeRound(850, 1000);
+
+    expect(buildCompetitionReport(questions, results).pointsToNextPlacement).toBe(50);
+  });
+});
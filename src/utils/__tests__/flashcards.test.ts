@@ -0,0 +1,57 @@
+import { buildReviewCoverage, getLatestConfidence, orderFlashcardDeck } from '../flashcards';
+
+describe('getLatestConfidence', () => {
+  it('keeps the most recent rating for each question', () => {
+    const confidence = getLatestConfidence([
+      { question_id: 'q1', confidence: 'again', reviewed_at: '2025-03-01T10:00:00.000Z' },
+      { question_id: 'q1', confidence: 'good', reviewed_at: '2025-03-02T10:00:00.000Z' },
+      { question_id: 'q2', confidence: 'easy', reviewed_at: '2025-03-03T10:00:00.000Z' },
+      { question_id: 'q2', confidence: 'hard', reviewed_at: '2025-03-01T10:00:00.000Z' },
+    ]);
+
+    expect(confidence.q1).toBe('good');
+    expect(confidence.q2).toBe('easy');
+  });
+});
+
+describe('orderFlashcardDeck', () => {
+  it('puts the least confident cards first and keeps order otherwise', () => {
+    const deck = orderFlashcardDeck(
+      [{ id: 'easy' }, { id: 'new1' }, { id: 'again' }, { id: 'good' }, { id: 'new2' }, { id: 'hard' }],
+      { easy: 'easy', again: 'again', good: 'good', hard: 'hard' }
+    );
+
+    expect(deck.map(q => q.id)).toEqual(['again', 'hard', 'new1', 'new2', 'good', 'easy']);
+  });
+});
+
+describe('buildReviewCoverage', () => {
+  const daniel1 = { book_of_bible: 'Daniel', chapter: 1 };
+  const daniel2 = { book_of_bible: 'Daniel', chapter: 2 };
+
+  it('compares flashcard reviews with quiz results per chapter', () => {
+    const rows = buildReviewCoverage(
+      [
+        { points_earned: 2, total_points_possible: 2, questions: daniel2 },
+        { points_earned: 0, total_points_possible: 2, questions: daniel2 },
+      ],
+      [
+        { confidence: 'good', questions: daniel1 },
+        { confidence: 'again', questions: daniel1 },
+        { confidence: 'easy', questions: daniel2 },
+      ]
+    );
+
+    expect(rows.map(row => row.chapter)).toEqual([1, 2]);
+    expect(rows[0].flashcardReviews).toBe(2);
+    expect(rows[0].confidentPercent).toBe(50);
+    expect(rows[0].quizAttempts).toBe(0);
+    expect(rows[0].quizScorePercent).toBeNull();
+    expect(rows[1].confidentPercent).toBe(100);
+    expect(rows[1].quizScorePercent).toBe(50);
+  });
+
+  it('skips entries without question details', () => {
+    expect(buildReviewCoverage([{ points_earned: 1, total_points_possible: 1, questions: null }], [])).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { LiveQuizEvent, Question } from '../../types';
+import {
+  applyLiveHostEvent,
+  getLiveQuestionLogId,
+  initialLiveHostState,
+  isHostControlEvent,
+  toLiveQuizQuestion
+} from '../liveQuizUtils';
+
+const question: Question = {
+  id: 'q-1',
+  book_of_bible: 'Daniel',
+  chapter: 1,
+  verse_start: 1,
+  verse_end: 2,
+  question: 'Name the three friends given new names with Daniel',
+  answer: 'Shadrach, Meshach and Abednego',
+  points: 30,
+  time_to_answer: 30,
+  tier: 'free',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  answer_components: [
+    { id: 'c-shadrach', text: 'Shadrach', points: 10 },
+    { id: 'c-meshach', text: 'Meshach', points: 10 },
+    { id: 'c-abednego', text: 'Abednego', points: 10 },
+  ],
+  revision: 2,
+  status: 'published',
+  review_note: 'Answer is Shadrach, Meshach and Abednego',
+};
+
+describe('toLiveQuizQuestion', () => {
+  it('leaves out every field that gives the answer away', () => {
+    const liveQuestion = toLiveQuizQuestion(question);
+
+    expect('answer' in liveQuestion).toBe(false);
+    expect('answer_components' in liveQuestion).toBe(false);
+    expect('review_note' in liveQuestion).toBe(false);
+    expect(JSON.stringify(liveQuestion)).not.toContain('Shadrach');
+  });
+
+  it('keeps what participants need to show the question', () => {
+    expect(toLiveQuizQuestion(question)).toEqual({
+      id: 'q-1',
+      book_of_bible: 'Daniel',
+      chapter: 1,
+      verse_start: 1,
+      verse_end: 2,
+      question: 'Name the three friends given new names with Daniel',
+      points: 30,
+      time_to_answer: 30,
+      tier: 'free',
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z',
+      revision: 2,
+    });
+  });
+});
+
+describe('applyLiveHostEvent', () => {
+  const buzz = (userId: string, questionIndex = 0): LiveQuizEvent => ({ type: 'buzz', userId, questionIndex });
+
+  it('queues buzzes in the order the host receives them', () => {
+    let state = applyLiveHostEvent(initialLiveHostState, buzz('second'), 0, 2000);
+    state = applyLiveHostEvent(state, buzz('first'), 0, 2500);
+
+    expect(state.buzzes).toEqual([
+      { userId: 'second', buzzedAt: 2000 },
+      { userId: 'first', buzzedAt: 2500 },
+    ]);
+  });
+
+  it('ignores repeat buzzes and buzzes for other questions', () => {
+    let state = applyLiveHostEvent(initialLiveHostState, buzz('user-1'), 0, 1000);
+    state = applyLiveHostEvent(state, buzz('user-1'), 0, 1500);
+    state = applyLiveHostEvent(state, buzz('user-2', 1), 0, 1600);
+
+    expect(state.buzzes).toEqual([{ userId: 'user-1', buzzedAt: 1000 }]);
+  });
+});
+
+describe('isHostControlEvent', () => {
+  it('treats events that move the quiz on as host-only', () => {
+    expect(isHostControlEvent({ type: 'end' })).toBe(true);
+    expect(isHostControlEvent({ type: 'reveal', questionIndex: 0, answer: 'Daniel' })).toBe(true);
+    expect(isHostControlEvent({ type: 'award', questionIndex: 0, awards: {} })).toBe(true);
+    expect(isHostControlEvent({ type: 'question', questionIndex: 0, totalQuestions: 1, question: toLiveQuizQuestion(question) })).toBe(true);
+  });
+
+  it('lets members send their own events', () => {
+    expect(isHostControlEvent({ type: 'buzz', userId: 'user-1', questionIndex: 0 })).toBe(false);
+    expect(isHostControlEvent({ type: 'join', userId: 'user-1', name: 'Sam' })).toBe(false);
+  });
+});
+
+describe('getLiveQuestionLogId', () => {
+  const sessionId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+  it('gives the same id each time an award for a question is recorded', () => {
+    expect(getLiveQuestionLogId(sessionId, 3)).toBe(getLiveQuestionLogId(sessionId, 3));
+  });
+
+  it('gives each question and session its own id', () => {
+    expect(getLiveQuestionLogId(sessionId, 3)).not.toBe(getLiveQuestionLogId(sessionId, 4));
+    expect(getLiveQuestionLogId(sessionId, 3)).not.toBe(getLiveQuestionLogId('a8098c1a-f86e-11da-bd1a-00112444be1e', 3));
+  });
+
+  it('is a valid UUID for client_log_id', () => {
+    expect(getLiveQuestionLogId(sessionId, 0)).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  collectSessionUpdates,
+  mergeQuizResults,
+  replayQueuedWrites,
+  resolveOfflineSessionUpdates
+} from '../offlineSync';
+import { OfflineMutation, QuizQuestionLogInsert, QuizSession } from '../../types';
+
+const result = (questionId: string, pointsEarned: number, answeredAt: string) => ({
+  questionId,
+  pointsEarned,
+  totalPoints: 1,
+  timeSpent: 10,
+  answeredAt,
+});
+
+const remoteSession = (overrides: Partial<QuizSession> = {}): QuizSession => ({
+  id: 'session-1',
+  type: 'quick-start',
+  title: 'Quick Start',
+  description: '',
+  user_id: 'user-1',
+  questions: [],
+  current_question_index: 1,
+  results: [result('q1', 1, '2025-01-01T10:00:00.000Z')],
+  status: 'active',
+  show_answer: false,
+  time_left: 30,
+  timer_active: false,
+  timer_started: false,
+  has_time_expired: false,
+  total_points: 1,
+  max_points: 3,
+  created_at: '2025-01-01T09:00:00.000Z',
+  updated_at: '2025-01-01T10:00:00.000Z',
+  ...overrides,
+} as QuizSession);
+
+describe('Offline Sync Utils', () => {
+  describe('collectSessionUpdates', () => {
+    it('should merge queued writes per session with later writes winning', () => {
+      const mutations: OfflineMutation[] = [
+        { id: 1, type: 'session-update', userId: 'user-1', sessionId: 'a', updates: { time_left: 20, show_answer: false }, queuedAt: '2025-01-01T10:00:00.000Z' },
+        { id: 2, type: 'question-log', userId: 'user-1', sessionId: 'a', log: {} as QuizQuestionLogInsert, queuedAt: '2025-01-01T10:00:01.000Z' },
+        { id: 3, type: 'session-update', userId: 'user-1', sessionId: 'a', updates: { time_left: 10 }, queuedAt: '2025-01-01T10:00:02.000Z' },
+      ];
+
+      const pending = collectSessionUpdates(mutations).get('a');
+
+      expect(pending?.mutationIds).toEqual([1, 3]);
+      expect(pending?.updates).toEqual({ time_left: 10, show_answer: false });
+      expect(pending?.queuedAt).toBe('2025-01-01T10:00:02.000Z');
+    });
+  });
+
+  describe('mergeQuizResults', () => {
+    it('should keep answers from both devices and the latest answer per question', () => {
+      const merged = mergeQuizResults(
+        [result('q1', 1, '2025-01-01T10:00:00.000Z'), result('q2', 0, '2025-01-01T10:05:00.000Z')],
+        [result('q2', 1, '2025-01-01T10:01:00.000Z'), result('q3', 1, '2025-01-01T10:02:00.000Z')]
+      );
+
+      expect(merged.map(r => r.questionId)).toEqual(['q1', 'q2', 'q3']);
+      expect(merged[1].pointsEarned).toBe(0);
+    });
+
+    it('should prefer a regrade over the original answer', () => {
+      const merged = mergeQuizResults(
+        [result('q1', 1, '2025-01-01T10:05:00.000Z')],
+        [{ ...result('q1', 0, '2025-01-01T10:00:00.000Z'), regradedAt: '2025-01-01T10:10:00.000Z' }]
+      );
+
+      expect(merged[0].pointsEarned).toBe(0);
+    });
+  });
+
+  describe('resolveOfflineSessionUpdates', () => {
+    it('should never move the current question backwards', () => {
+      const resolved = resolveOfflineSessionUpdates(
+        remoteSession({ current_question_index: 2 }),
+        { current_question_index: 1 },
+        '2025-01-01T11:00:00.000Z'
+      );
+
+      expect(resolved.current_question_index).toBe(2);
+    });
+
+    it('should not replay a completion the server already has', () => {
+      const resolved = resolveOfflineSessionUpdates(
+        remoteSession({ status: 'completed' }),
+        { status: 'completed', completed_at: '2025-01-01T11:00:00.000Z' },
+        '2025-01-01T11:00:00.000Z'
+      );
+
+      expect(resolved.status).toBe(undefined);
+    });
+
+    it('should keep an offline completion even when the other device changed last', () => {
+      const resolved = resolveOfflineSessionUpdates(
+        remoteSession({ updated_at: '2025-01-01T12:00:00.000Z' }),
+        { status: 'completed', completed_at: '2025-01-01T11:00:00.000Z', time_left: 5 },
+        '2025-01-01T11:00:00.000Z'
+      );
+
+      expect(resolved.status).toBe('completed');
+      expect(resolved.time_left).toBe(undefined);
+    });
+  });
+});
+
+describe('replayQueuedWrites', () => {
+  const rejection = { message: 'new row violates row-level security policy' };
+
+  it('writes the whole batch at once when the server accepts it', async () => {
+    const batches: number[][] = [];
+    const outcome = await replayQueuedWrites([1, 2, 3], item => [item], async items => {
+      batches.push(items);
+    });
+
+    expect(batches).toEqual([[1, 2, 3]]);
+    expect(outcome).toEqual({ syncedIds: [1, 2, 3], rejectedIds: [], interrupted: false });
+  });
+
+  it('rejects only the writes the server refuses so the rest of the queue still syncs', async () => {
+    const outcome = await replayQueuedWrites([1, 2, 3], item => [item], async items => {
+      if (items.includes(2)) throw rejection;
+    });
+
+    expect(outcome).toEqual({ syncedIds: [1, 3], rejectedIds: [2], interrupted: false });
+  });
+
+  it('keeps writes queued when the connection drops', async () => {
+    let calls = 0;
+    const outcome = await replayQueuedWrites([1, 2, 3], item => [item], async items => {
+      calls++;
+      if (items.includes(2)) throw rejection;
+      if (calls > 2) throw new TypeError('Failed to fetch');
+    });
+
+    expect(outcome).toEqual({ syncedIds: [1], rejectedIds: [2], interrupted: true });
+  });
+});
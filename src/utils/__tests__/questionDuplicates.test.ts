@@ -0,0 +1,55 @@
+import { Question } from '../../types';
+import { calculateQuestionSimilarity, findDuplicateQuestions } from '../questionDuplicates';
+
+const makeQuestion = (overrides: Partial<Question>): Question => ({
+  id: 'q-1',
+  book_of_bible: 'Daniel',
+  chapter: 1,
+  verse_start: null,
+  verse_end: null,
+  question: 'Who was the king of Babylon?',
+  answer: 'Nebuchadnezzar',
+  points: 10,
+  time_to_answer: 30,
+  tier: 'free',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('calculateQuestionSimilarity', () => {
+  it('ignores case, punctuation and articles', () => {
+    expect(calculateQuestionSimilarity('Who was the king of Babylon?', 'who was king of babylon')).toBe(1);
+  });
+
+  it('matches reordered wording', () => {
+    expect(calculateQuestionSimilarity('Daniel refused what food?', 'What food did Daniel refuse?')).toBeGreaterThan(0.5);
+  });
+
+  it('scores unrelated questions low', () => {
+    expect(calculateQuestionSimilarity('Who was the king of Babylon?', 'How many days did they eat vegetables?')).toBeLessThan(0.5);
+  });
+});
+
+describe('findDuplicateQuestions', () => {
+  it('pairs near-identical questions in the same chapter, older first', () => {
+    const pairs = findDuplicateQuestions([
+      makeQuestion({ id: 'q-2', question: 'Who was king of Babylon?', created_at: '2025-02-01T00:00:00Z' }),
+      makeQuestion({ id: 'q-1' }),
+      makeQuestion({ id: 'q-3', chapter: 2 }),
+      makeQuestion({ id: 'q-4', question: 'How many days did they eat vegetables?', answer: 'Ten' }),
+    ]);
+
+    expect(pairs.map(pair => [pair.first.id, pair.second.id, pair.sameAnswer])).toEqual([['q-1', 'q-2', true]]);
+  });
+
+  it('skips questions about verses that do not overlap', () => {
+    const pairs = findDuplicateQuestions([
+      makeQuestion({ id: 'q-1', verse_start: 1, verse_end: 2 }),
+      makeQuestion({ id: 'q-2', verse_start: 5, verse_end: 5 }),
+      makeQuestion({ id: 'q-3', verse_start: 2, verse_end: 3, answer: 'Nebuchadnezzar king of Babylon' }),
+    ]);
+
+    expect(pairs.map(pair => [pair.first.id, pair.second.id, pair.sameAnswer])).toEqual([['q-1', 'q-3', false]]);
+  });
+});
@@ -0,0 +1,60 @@
+import { Question } from '../../types';
+import { buildQuestionsCsv, buildStudyGuideHtml, getQuestionExportFileName, sortQuestionsByReference } from '../questionExport';
+import { guessColumnMapping, parseQuestionFile, validateImportRows } from '../questionImport';
+
+const makeQuestion = (overrides: Partial<Question>): Question => ({
+  id: 'q-1',
+  book_of_bible: 'Daniel',
+  chapter: 1,
+  verse_start: null,
+  verse_end: null,
+  question: 'Who was the king of Babylon?',
+  answer: 'Nebuchadnezzar',
+  points: 10,
+  time_to_answer: 30,
+  tier: 'free',
+  created_by: 'admin',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const questions = [
+  makeQuestion({ id: 'q-3', book_of_bible: 'Ruth', chapter: 1, question: 'Where did Naomi return to?', answer: 'Bethlehem' }),
+  makeQuestion({ id: 'q-2', chapter: 2, verse_start: 4, verse_end: 7, question: 'What did the king say, "O king"?', answer: 'Live forever,\nthen tell the dream' }),
+  makeQuestion({ id: 'q-1' }),
+];
+
+describe('sortQuestionsByReference', () => {
+  it('orders by Bible book, chapter and verse', () => {
+    expect(sortQuestionsByReference(questions).map(question => question.id)).toEqual(['q-3', 'q-1', 'q-2']);
+  });
+});
+
+describe('buildQuestionsCsv', () => {
+  it('round-trips through the import as unchanged updates', () => {
+    const parsed = parseQuestionFile(buildQuestionsCsv(questions), 'export.csv');
+    const results = validateImportRows(parsed.rows, guessColumnMapping(parsed.headers), questions);
+
+    expect(results.map(result => result.errors)).toEqual([[], [], []]);
+    expect(results.map(result => result.questionId)).toEqual(['q-3', 'q-1', 'q-2']);
+    expect(results.every(result => result.unchanged)).toBe(true);
+    expect(results[2].data?.answer).toBe('Live forever,\nthen tell the dream');
+  });
+});
+
+describe('buildStudyGuideHtml', () => {
+  it('groups questions under book and chapter headings', () => {
+    const html = buildStudyGuideHtml('Study Guide', questions);
+    const headings = html.match(/<h[23]>[^<]*<\/h[23]>/g);
+
+    expect(headings).toEqual(['<h2>Ruth</h2>', '<h3>Chapter 1</h3>', '<h2>Daniel</h2>', '<h3>Chapter 1</h3>', '<h3>Chapter 2</h3>']);
+    expect(html).toContain('&quot;O king&quot;');
+  });
+});
+
+describe('getQuestionExportFileName', () => {
+  it('builds a file name from the filter label and date', () => {
+    expect(getQuestionExportFileName('Daniel 2 pro', 'csv', new Date('2025-10-01T12:00:00Z'))).toBe('questions-daniel-2-pro-2025-10-01.csv');
+  });
+});
@@ -0,0 +1,145 @@
+import { Question } from '../../types';
+import { guessColumnMapping, parseCsv, parseQuestionFile, validateImportRows } from '../questionImport';
+
+describe('parseCsv', () => {
+  it('handles quoted cells with commas, quotes and line breaks', () => {
+    const rows = parseCsv('Book,Question\r\nDaniel,"Who said ""no""?"\r\nRuth,"Where, and\nwhy?"\r\n\r\n');
+
+    expect(rows).toEqual([
+      ['Book', 'Question'],
+      ['Daniel', 'Who said "no"?'],
+      ['Ruth', 'Where, and\nwhy?'],
+    ]);
+  });
+});
+
+describe('parseQuestionFile', () => {
+  it('reads JSON arrays of question objects', () => {
+    const parsed = parseQuestionFile(JSON.stringify([{ book: 'Daniel', chapter: 1 }, { book: 'Ruth', points: 5 }]), 'set.json');
+
+    expect(parsed.headers).toEqual(['book', 'chapter', 'points']);
+    expect(parsed.rows[1]).toEqual({ book: 'Ruth', chapter: '', points: '5' });
+  });
+
+  it('rejects JSON that is not a list of questions', () => {
+    expect(() => parseQuestionFile('{"title": "Season"}', 'set.json')).toThrow('JSON files must contain an array of question objects');
+  });
+});
+
+describe('validateImportRows', () => {
+  const headers = ['Book', 'Chapter', 'Verse', 'Question', 'Answer', 'Points', 'Time', 'Tier'];
+  const mapping = guessColumnMapping(headers);
+  const row = (values: string[]) => Object.fromEntries(headers.map((header, index) => [header, values[index] ?? '']));
+  const existing: Question = {
+    id: 'q-1',
+    book_of_bible: 'Daniel',
+    chapter: 1,
+    verse_start: null,
+    verse_end: null,
+    question: 'Who was the king?',
+    answer: 'Nebuchadnezzar',
+    points: 10,
+    time_to_answer: 30,
+    tier: 'free',
+    created_by: 'admin',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+  };
+
+  it('guesses columns from common header names', () => {
+    expect(mapping.book_of_bible).toBe('Book');
+    expect(mapping.verse_start).toBe('Verse');
+    expect(mapping.time_to_answer).toBe('Time');
+    expect(mapping.verse_end).toBe('');
+  });
+
+  it('builds questions from valid rows and applies defaults', () => {
+    const [result] = validateImportRows([row(['daniel', '2', '4-7', 'Who interpreted the dream?', 'Daniel', '', '', ''])], mapping, []);
+
+    expect(result.errors).toEqual([]);
+    expect(result.data).toEqual({
+      book_of_bible: 'Daniel',
+      chapter: 2,
+      verse_start: 4,
+      verse_end: 7,
+      question: 'Who interpreted the dream?',
+      answer: 'Daniel',
+      points: 10,
+      time_to_answer: 30,
+      tier: 'free',
+    });
+  });
+
+  it('reports every problem with a row', () => {
+    const [result] = validateImportRows([row(['Hezekiah', '0', '', '', 'x', '500', '5', 'gold'])], mapping, []);
+
+    expect(result.data).toBeNull();
+    expect(result.errors).toEqual([
+      '"Hezekiah" is not a book of the Bible',
+      'Chapter must be a whole number from 1 to 150',
+      'Question is missing',
+      'Points must be a whole number from 1 to 100',
+      'Time must be from 10 to 300 seconds',
+      'Tier must be free, pro, enterprise',
+    ]);
+  });
+
+  it('flags likely duplicates in the bank and within the file', () => {
+    const results = validateImportRows(
+      [
+        row(['Daniel', '1', '', 'Who was the king?', 'Nebuchadnezzar']),
+        row(['Daniel', '2', '', 'What did he dream?', 'An image']),
+        row(['Daniel', '2', '', 'what did he DREAM', 'A statue']),
+      ],
+      mapping,
+      [existing]
+    );
+
+    expect(results.map(result => result.duplicateOf)).toEqual(['existing', null, 3]);
+  });
+
+  describe('rows with a question ID', () => {
+    const idHeaders = ['id', ...headers];
+    const idMapping = guessColumnMapping(idHeaders);
+    const idRow = (values: string[]) => Object.fromEntries(idHeaders.map((header, index) => [header, values[index] ?? '']));
+
+    it('update the matching question without counting it as a duplicate', () => {
+      const [result] = validateImportRows(
+        [idRow(['q-1', 'Daniel', '1', '', 'Who was the king?', 'King Nebuchadnezzar', '10', '30', 'free'])],
+        idMapping,
+        [existing]
+      );
+
+      expect(result.errors).toEqual([]);
+      expect(result.questionId).toBe('q-1');
+      expect(result.duplicateOf).toBeNull();
+      expect(result.unchanged).toBe(false);
+    });
+
+    it('are marked unchanged when nothing was edited', () => {
+      const [result] = validateImportRows(
+        [idRow(['q-1', 'Daniel', '1', '', 'Who was the king?', 'Nebuchadnezzar', '10', '30', 'free'])],
+        idMapping,
+        [existing]
+      );
+
+      expect(result.unchanged).toBe(true);
+    });
+
+    it('reject unknown and repeated IDs', () => {
+      const results = validateImportRows(
+        [
+          idRow(['q-9', 'Daniel', '1', '', 'Who was the king?', 'Nebuchadnezzar']),
+          idRow(['q-1', 'Daniel', '1', '', 'Who was the king?', 'Nebuchadnezzar']),
+          idRow(['q-1', 'Daniel', '1', '', 'Who was the king?', 'A king']),
+        ],
+        idMapping,
+        [existing]
+      );
+
+      expect(results[0].errors).toEqual(['No question has the ID q-9']);
+      expect(results[1].errors).toEqual([]);
+      expect(results[2].errors).toEqual(['Row 3 already updates this question']);
+    });
+  });
+});
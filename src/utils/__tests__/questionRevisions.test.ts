@@ -0,0 +1,82 @@
+import { QuestionRevision } from '../../types';
+import { getRevertUpdate, getRevisionChanges, summarizeAttemptsByRevision } from '../questionRevisions';
+
+const makeRevision = (overrides: Partial<QuestionRevision>): QuestionRevision => ({
+  id: 'r-1',
+  question_id: 'q-1',
+  revision: 1,
+  book_of_bible: 'Daniel',
+  chapter: 1,
+  verse_start: 1,
+  verse_end: 2,
+  question: 'Who was the king of Babylon?',
+  answer: 'Nebuchadnezzar',
+  answer_components: null,
+  points: 10,
+  time_to_answer: 30,
+  tier: 'free',
+  changed_fields: [],
+  changed_by: 'admin',
+  created_at: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('getRevisionChanges', () => {
+  it('lists each changed field with its old and new value', () => {
+    const first = makeRevision({});
+    const second = makeRevision({
+      id: 'r-2',
+      revision: 2,
+      answer: 'King Nebuchadnezzar',
+      points: 20,
+      answer_components: [{ id: 'c-1', text: 'King', points: 5 }],
+      changed_fields: ['points', 'answer', 'answer_components'],
+    });
+
+    expect(getRevisionChanges(second, first)).toEqual([
+      { field: 'answer', label: 'Answer', before: 'Nebuchadnezzar', after: 'King Nebuchadnezzar' },
+      { field: 'answer_components', label: 'Answer parts', before: '', after: 'King (5)' },
+      { field: 'points', label: 'Points', before: '10', after: '20' },
+    ]);
+  });
+
+  it('has no changes for the first revision', () => {
+    expect(getRevisionChanges(makeRevision({}))).toEqual([]);
+  });
+});
+
+describe('getRevertUpdate', () => {
+  it('copies only the question content', () => {
+    expect(getRevertUpdate(makeRevision({ verse_start: null, verse_end: null }))).toEqual({
+      question: 'Who was the king of Babylon?',
+      answer: 'Nebuchadnezzar',
+      answer_components: null,
+      book_of_bible: 'Daniel',
+      chapter: 1,
+      verse_start: null,
+      verse_end: null,
+      points: 10,
+      time_to_answer: 30,
+      tier: 'free',
+    });
+  });
+});
+
+describe('summarizeAttemptsByRevision', () => {
+  it('groups attempts by the revision answered, newest first', () => {
+    const summaries = summarizeAttemptsByRevision(
+      [
+        { question_revision: 1, is_correct: false },
+        { question_revision: null, is_correct: true },
+        { question_revision: 2, is_correct: true },
+        { question_revision: 1, is_correct: false },
+      ],
+      2
+    );
+
+    expect(summaries).toEqual([
+      { revision: 2, attempts: 1, correctAttempts: 1, accuracyRate: 100, isCurrent: true },
+      { revision: 1, attempts: 3, correctAttempts: 1, accuracyRate: 33, isCurrent: false },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  buildChapterAccuracy,
+  calculateQuestionWeight,
+  getChapterKey,
+  selectQuickStartQuestions
+} from '../questionSelection';
+import { Question } from '../../types';
+
+const makeQuestion = (id: string, book: string, chapter: number, points = 1): Question => ({
+  id,
+  book_of_bible: book,
+  chapter,
+  question: `Question ${id}`,
+  answer: `Answer ${id}`,
+  points,
+  time_to_answer: 30,
+  tier: 'free',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+});
+
+// Small deterministic random source so selections are repeatable
+const seededRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const questions = [
+  ...Array.from({ length: 10 }, (_, i) => makeQuestion(`a${i}`, 'Genesis', 1)),
+  ...Array.from({ length: 10 }, (_, i) => makeQuestion(`b${i}`, 'Genesis', 2)),
+  ...Array.from({ length: 10 }, (_, i) => makeQuestion(`c${i}`, 'Exodus', 1)),
+];
+
+const attempts = [
+  ...Array.from({ length: 10 }, (_, i) => ({ question_id: `a${i}`, points_earned: 0, total_points_possible: 1, answered_at: '2025-01-01T10:00:00.000Z' })),
+  ...Array.from({ length: 10 }, (_, i) => ({ question_id: `b${i}`, points_earned: 1, total_points_possible: 1, answered_at: '2025-01-01T10:00:00.000Z' })),
+];
+
+describe('Question Selection Utils', () => {
+  describe('buildChapterAccuracy', () => {
+    it('should smooth accuracy per chapter', () => {
+      const accuracy = buildChapterAccuracy(questions, attempts);
+
+      expect(accuracy.get('Genesis 1')).toBeCloseTo(1 / 12);
+      expect(accuracy.get('Genesis 2')).toBeCloseTo(11 / 12);
+      expect(accuracy.get('Exodus 1')).toBe(undefined);
+    });
+  });
+
+  describe('calculateQuestionWeight', () => {
+    it('should weight weak chapters higher when focusing on weak areas', () => {
+      const weak = calculateQuestionWeight('weak-areas', { accuracy: 0.1, difficulty: 0.5, recency: 1 });
+      const strong = calculateQuestionWeight('weak-areas', { accuracy: 0.9, difficulty: 0.5, recency: 1 });
+
+      expect(weak).toBeGreaterThan(strong);
+    });
+  });
+
+  describe('selectQuickStartQuestions', () => {
+    const now = new Date('2025-01-02T00:00:00.000Z');
+
+    it('should never pick more than requested or repeat a question', () => {
+      const selected = selectQuickStartQuestions(questions, attempts, 'random', 12, { now, random: seededRandom(1) });
+
+      expect(selected).toHaveLength(12);
+      expect(new Set(selected.map(q => q.id)).size).toBe(12);
+    });
+
+    it('should cover every chapter evenly with balanced coverage', () => {
+      const selected = selectQuickStartQuestions(questions, attempts, 'balanced', 9, { now, random: seededRandom(2) });
+      const perChapter = selected.reduce<Record<string, number>>((counts, q) => {
+        counts[getChapterKey(q)] = (counts[getChapterKey(q)] || 0) + 1;
+        return counts;
+      }, {});
+
+      expect(Object.keys(perChapter)).toHaveLength(3);
+      expect(Object.values(perChapter)).toEqual([3, 3, 3]);
+    });
+
+    it('should favor low-accuracy chapters when focusing on weak areas', () => {
+      const selected = selectQuickStartQuestions(questions, attempts, 'weak-areas', 10, { now, random: seededRandom(3) });
+      const weakCount = selected.filter(q => getChapterKey(q) === 'Genesis 1').length;
+      const strongCount = selected.filter(q => getChapterKey(q) === 'Genesis 2').length;
+
+      expect(weakCount).toBeGreaterThan(strongCount);
+    });
+  });
+});
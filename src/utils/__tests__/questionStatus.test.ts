@@ -0,0 +1,33 @@
+import { getQuestionStatus, getQuestionStatusActions, isQuestionPublished } from '../questionStatus';
+
+describe('isQuestionPublished', () => {
+  it('only lets published questions into new quizzes', () => {
+    expect(isQuestionPublished({ status: 'published' })).toBe(true);
+    expect(isQuestionPublished({ status: 'draft' })).toBe(false);
+    expect(isQuestionPublished({ status: 'in_review' })).toBe(false);
+    expect(isQuestionPublished({ status: 'retired' })).toBe(false);
+  });
+
+  it('treats questions without a status as published', () => {
+    expect(getQuestionStatus({})).toBe('published');
+    expect(isQuestionPublished({})).toBe(true);
+  });
+});
+
+describe('getQuestionStatusActions', () => {
+  it('lets reviewers approve or send back questions in review', () => {
+    expect(getQuestionStatusActions('in_review', true).map(action => action.status)).toEqual(['published', 'draft']);
+  });
+
+  it('limits authors to moving questions between draft and review', () => {
+    expect(getQuestionStatusActions('draft', false).map(action => action.status)).toEqual(['in_review']);
+    expect(getQuestionStatusActions('in_review', false).map(action => action.status)).toEqual(['draft']);
+    expect(getQuestionStatusActions('published', false)).toEqual([]);
+    expect(getQuestionStatusActions('retired', false)).toEqual([]);
+  });
+
+  it('lets reviewers retire and restore published questions', () => {
+    expect(getQuestionStatusActions('published', true).map(action => action.status)).toEqual(['retired']);
+    expect(getQuestionStatusActions('retired', true).map(action => action.status)).toEqual(['published']);
+  });
+});
@@ -0,0 +1,120 @@
+import { buildQuestionsFromDefinition, getMissingTiers, getTiersForPlan, orderSharedQuizQuestions } from '../quizDefinition';
+import { seededShuffle } from '../seededShuffle';
+import { Question, QuizDefinition } from '../../types';
+
+const makeQuestion = (id: string, book: string, chapter: number, tier: Question['tier'] = 'free'): Question => ({
+  id,
+  book_of_bible: book,
+  chapter,
+  question: `Question ${id}`,
+  answer: `Answer ${id}`,
+  points: 1,
+  time_to_answer: 30,
+  tier,
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+});
+
+const questions = [
+  ...Array.from({ length: 20 }, (_, i) => makeQuestion(`g${String(i).padStart(2, '0')}`, 'Genesis', (i % 4) + 1)),
+  ...Array.from({ length: 10 }, (_, i) => makeQuestion(`e${i}`, 'Exodus', 1, i < 5 ? 'free' : 'pro')),
+];
+
+const definition: QuizDefinition = {
+  source: 'custom',
+  chapters: [{ book: 'Genesis', chapters: [1, 2] }, { book: 'Exodus', chapters: [1] }],
+  tiers: ['free'],
+  seed: 12345,
+  count: 8,
+};
+
+describe('Quiz Definition Utils', () => {
+  describe('seededShuffle', () => {
+    it('should give the same order for the same seed', () => {
+      const items = Array.from({ length: 50 }, (_, i) => i);
+
+      expect(seededShuffle(items, 42)).toEqual(seededShuffle(items, 42));
+      expect(seededShuffle(items, 42)).not.toEqual(seededShuffle(items, 43));
+    });
+
+    it('should keep every item exactly once', () => {
+      const items = Array.from({ length: 50 }, (_, i) => i);
+      const shuffled = seededShuffle(items, 7);
+
+      expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+    });
+  });
+
+  describe('buildQuestionsFromDefinition', () => {
+    it('should regenerate the same quiz regardless of question bank order', () => {
+      const first = buildQuestionsFromDefinition(questions, definition).map(q => q.id);
+      const second = buildQuestionsFromDefinition([...questions].reverse(), definition).map(q => q.id);
+
+      expect(first).toHaveLength(8);
+      expect(second).toEqual(first);
+    });
+
+    it('should only draw from the selected chapters and tiers', () => {
+      const selected = buildQuestionsFromDefinition(questions, { ...definition, count: 100 });
+
+      expect(selected).toHaveLength(15);
+      expect(selected.every(q => q.tier === 'free')).toBe(true);
+      expect(selected.every(q => q.book_of_bible === 'Exodus' || q.chapter <= 2)).toBe(true);
+    });
+
+    it('should ask the same questions in reference order when requested', () => {
+      const shuffled = buildQuestionsFromDefinition(questions, definition);
+      const ordered = buildQuestionsFromDefinition(questions, { ...definition, ordering: 'reference' });
+
+      expect(ordered.map(q => q.id).sort()).toEqual(shuffled.map(q => q.id).sort());
+      expect(ordered.map(q => `${q.book_of_bible} ${q.chapter}`)).toEqual(
+        [...ordered]
+          .sort((a, b) => (a.book_of_bible === b.book_of_bible ? a.chapter - b.chapter : a.book_of_bible === 'Genesis' ? -1 : 1))
+          .map(q => `${q.book_of_bible} ${q.chapter}`)
+      );
+    });
+
+    it('should narrow a chapter to questions tagged with the selected verses', () => {
+      const tagged = [
+        { ...makeQuestion('v1', 'Daniel', 2), verse_start: 1, verse_end: 3 },
+        { ...makeQuestion('v2', 'Daniel', 2), verse_start: 10, verse_end: 10 },
+        makeQuestion('v3', 'Daniel', 2),
+      ];
+      const selected = buildQuestionsFromDefinition(tagged, {
+        ...definition,
+        chapters: [{ book: 'Daniel', chapters: [2], verses: [3, 4] }],
+        count: 10,
+      });
+
+      expect(selected.map(q => q.id)).toEqual(['v1']);
+    });
+  });
+
+  describe('orderSharedQuizQuestions', () => {
+    it('should give the saved questions in the saved order even after the bank changes', () => {
+      const shared = buildQuestionsFromDefinition(questions, definition);
+      const sharedIds = shared.map(q => q.id);
+      // Questions published since the code was made would change a rebuilt quiz
+      const grownBank = [...questions, ...Array.from({ length: 10 }, (_, i) => makeQuestion(`new${i}`, 'Genesis', 1))];
+
+      expect(buildQuestionsFromDefinition(grownBank, definition).map(q => q.id)).not.toEqual(sharedIds);
+      expect(orderSharedQuizQuestions([...grownBank].reverse(), sharedIds)?.map(q => q.id)).toEqual(sharedIds);
+    });
+
+    it('should return null when a saved question can no longer be read', () => {
+      const sharedIds = buildQuestionsFromDefinition(questions, definition).map(q => q.id);
+
+      expect(orderSharedQuizQuestions(questions.filter(q => q.id !== sharedIds[0]), sharedIds)).toBeNull();
+    });
+  });
+
+  describe('tiers', () => {
+    it('should include lower tiers with each plan', () => {
+      expect(getTiersForPlan('pro')).toEqual(['free', 'pro']);
+    });
+
+    it('should report tiers a member is missing', () => {
+      expect(getMissingTiers({ ...definition, tiers: ['free', 'pro'] }, ['free'])).toEqual(['pro']);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { buildQuizPacket, buildQuizPacketHtml, getQuizPacketFileName, getStudyItemsForQuestions } from '../quizPacket';
+import { Question } from '../../types';
+
+const makeQuestion = (id: string, book: string, chapter: number, overrides: Partial<Question> = {}): Question => ({
+  id,
+  book_of_bible: book,
+  chapter,
+  question: `Question ${id}`,
+  answer: `Answer ${id}`,
+  points: 2,
+  time_to_answer: 30,
+  tier: 'free',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('getStudyItemsForQuestions', () => {
+  it('groups chapters by book in the order books first appear', () => {
+    const items = getStudyItemsForQuestions([
+      makeQuestion('1', 'Daniel', 3),
+      makeQuestion('2', 'Esther', 1),
+      makeQuestion('3', 'Daniel', 1),
+      makeQuestion('4', 'Daniel', 3),
+    ]);
+
+    expect(items.map(item => item.book)).toEqual(['Daniel', 'Esther']);
+    expect(items[0].chapters).toEqual([1, 3]);
+    expect(items[1].chapters).toEqual([1]);
+  });
+});
+
+describe('buildQuizPacket', () => {
+  it('numbers questions and totals their points', () => {
+    const packet = buildQuizPacket('Practice', [
+      makeQuestion('1', 'Daniel', 1, { points: 1 }),
+      makeQuestion('2', 'Daniel', 2, { points: 3 }),
+    ]);
+
+    expect(packet.coverage).toBe('Daniel (Ch. 1-2)');
+    expect(packet.totalPoints).toBe(4);
+    expect(packet.questions.map(q => q.number)).toEqual([1, 2]);
+    expect(packet.questions[1].reference).toBe('Daniel 2');
+  });
+
+  it('prints the adjusted time for multiplier sessions', () => {
+    const packet = buildQuizPacket('Practice', [makeQuestion('1', 'Daniel', 1)], {
+      timer_mode: 'multiplier',
+      timer_multiplier: 1.5,
+    });
+
+    expect(packet.questions[0].timeSeconds).toBe(45);
+  });
+});
+
+describe('buildQuizPacketHtml', () => {
+  it('includes the three sections and escapes question text', () => {
+    const html = buildQuizPacketHtml(buildQuizPacket('Practice', [
+      makeQuestion('1', 'Daniel', 1, { question: 'Who said <"no">?' }),
+    ]));
+
+    expect(html).toContain('Answer Sheet');
+    expect(html).toContain('Answer Key');
+    expect(html).toContain('Who said &lt;&quot;no&quot;&gt;?');
+    expect(html).not.toContain('<"no">');
+  });
+});
+
+describe('getQuizPacketFileName', () => {
+  it('builds a file name from the title', () => {
+    const packet = buildQuizPacket('Daniel 1-3: Round #2', []);
+    expect(getQuizPacketFileName(packet, 'pdf')).toBe('daniel-1-3-round-2-packet.pdf');
+  });
+});
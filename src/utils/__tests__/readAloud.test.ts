@@ -0,0 +1,130 @@
+import { SpeechEngine } from '../../lib/speechEngine';
+import { Question } from '../../types';
+import {
+  createPendingStart,
+  createReadOnceTracker,
+  getAnswerSpeechText,
+  getQuestionSpeechText
+} from '../readAloud';
+
+// Engine that records what it was asked to read and finishes only when told to
+const createFakeSpeechEngine = () => {
+  const spoken: string[] = [];
+  const pending: (() => void)[] = [];
+
+  const engine: SpeechEngine = {
+    isSupported: true,
+    getVoices: () => [],
+    onVoicesChanged: () => () => undefined,
+    speak: (text) => new Promise<void>(resolve => {
+      spoken.push(text);
+      pending.push(resolve);
+    }),
+    cancel: () => {
+      pending.splice(0).forEach(resolve => resolve());
+    },
+  };
+
+  const finishReading = () => pending.shift()?.();
+  return { engine, spoken, finishReading };
+};
+
+// Lets promise callbacks run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const question: Question = {
+  id: 'q-1',
+  book_of_bible: 'Daniel',
+  chapter: 1,
+  question: 'Who was the king of Babylon?',
+  answer: 'Nebuchadnezzar',
+  points: 1,
+  time_to_answer: 30,
+  tier: 'free',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+};
+
+describe('speech text', () => {
+  it('reads the points before the question', () => {
+    expect(getQuestionSpeechText(question)).toBe('For 1 point. Who was the king of Babylon?');
+    expect(getQuestionSpeechText({ ...question, points: 3 })).toBe('For 3 points. Who was the king of Babylon?');
+  });
+
+  it('reads the answer', () => {
+    expect(getAnswerSpeechText(question)).toBe('Answer. Nebuchadnezzar');
+  });
+});
+
+describe('createPendingStart', () => {
+  it('starts the timer only after the question has been read', async () => {
+    const { engine, finishReading } = createFakeSpeechEngine();
+    const pendingStart = createPendingStart();
+    let started = false;
+
+    pendingStart.startAfter(engine.speak(getQuestionSpeechText(question)), () => { started = true; });
+    await flush();
+    expect(started).toBe(false);
+
+    finishReading();
+    await flush();
+    expect(started).toBe(true);
+  });
+
+  it('starts the timer when reading is cancelled', async () => {
+    const { engine } = createFakeSpeechEngine();
+    const pendingStart = createPendingStart();
+    let started = false;
+
+    pendingStart.startAfter(engine.speak(getQuestionSpeechText(question)), () => { started = true; });
+    engine.cancel();
+    await flush();
+    expect(started).toBe(true);
+  });
+
+  it('drops the pending start when the timer is started by hand or reset', async () => {
+    const { engine, finishReading } = createFakeSpeechEngine();
+    const pendingStart = createPendingStart();
+    let starts = 0;
+
+    pendingStart.startAfter(engine.speak(getQuestionSpeechText(question)), () => { starts++; });
+    pendingStart.cancel();
+    finishReading();
+    await flush();
+    expect(starts).toBe(0);
+  });
+
+  it('only lets the latest reading start the timer', async () => {
+    const { engine, finishReading } = createFakeSpeechEngine();
+    const pendingStart = createPendingStart();
+    const startedBy: string[] = [];
+
+    pendingStart.startAfter(engine.speak('first'), () => { startedBy.push('first'); });
+    pendingStart.startAfter(engine.speak('second'), () => { startedBy.push('second'); });
+    finishReading();
+    finishReading();
+    await flush();
+    expect(startedBy).toEqual(['second']);
+  });
+});
+
+describe('createReadOnceTracker', () => {
+  it('does not read the same question twice', () => {
+    const { engine, spoken } = createFakeSpeechEngine();
+    const tracker = createReadOnceTracker();
+    const read = () => engine.speak(getQuestionSpeechText(question));
+
+    expect(tracker.readOnce('session-1:0', read)).not.toBe(null);
+    expect(tracker.readOnce('session-1:0', read)).toBe(null);
+    expect(spoken).toHaveLength(1);
+  });
+
+  it('reads the next question', () => {
+    const { engine, spoken } = createFakeSpeechEngine();
+    const tracker = createReadOnceTracker();
+
+    tracker.readOnce('session-1:0', () => engine.speak('first'));
+    tracker.readOnce('session-1:1', () => engine.speak('second'));
+    expect(spoken).toEqual(['first', 'second']);
+  });
+});
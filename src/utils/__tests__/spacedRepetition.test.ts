@@ -0,0 +1,75 @@
+import {
+  calculateReviewQuality,
+  applySm2Review,
+  buildReviewSchedule,
+  getDueReviewItems,
+  initialReviewState,
+  MIN_EASE_FACTOR
+} from '../spacedRepetition';
+
+describe('Spaced Repetition Utils', () => {
+  describe('calculateReviewQuality', () => {
+    it('should rate quick full-credit answers highest', () => {
+      expect(calculateReviewQuality(2, 2, 5, 30)).toBe(5);
+    });
+
+    it('should rate slow full-credit answers as a pass', () => {
+      expect(calculateReviewQuality(2, 2, 45, 30)).toBe(3);
+    });
+
+    it('should rate partial and missed answers as failures', () => {
+      expect(calculateReviewQuality(1, 2, 10, 30)).toBe(2);
+      expect(calculateReviewQuality(0, 2, 10, 30)).toBe(0);
+    });
+  });
+
+  describe('applySm2Review', () => {
+    it('should grow the interval after repeated passes', () => {
+      const first = applySm2Review(initialReviewState, 5);
+      const second = applySm2Review(first, 5);
+      const third = applySm2Review(second, 5);
+
+      expect(first.intervalDays).toBe(1);
+      expect(second.intervalDays).toBe(6);
+      expect(third.intervalDays).toBeGreaterThan(6);
+    });
+
+    it('should reset repetitions on a failed review', () => {
+      const learned = applySm2Review(applySm2Review(initialReviewState, 5), 5);
+      const lapsed = applySm2Review(learned, 0);
+
+      expect(lapsed.repetitions).toBe(0);
+      expect(lapsed.intervalDays).toBe(1);
+    });
+
+    it('should never drop the ease factor below the minimum', () => {
+      let state = initialReviewState;
+      for (let i = 0; i < 10; i++) {
+        state = applySm2Review(state, 0);
+      }
+      expect(state.easeFactor).toBe(MIN_EASE_FACTOR);
+    });
+  });
+
+  describe('buildReviewSchedule', () => {
+    const logs = [
+      { question_id: 'q1', points_earned: 0, total_points_possible: 1, time_spent: 10, answered_at: '2025-01-01T10:00:00.000Z' },
+      { question_id: 'q2', points_earned: 1, total_points_possible: 1, time_spent: 5, answered_at: '2025-01-01T10:00:00.000Z' },
+      { question_id: 'q2', points_earned: 1, total_points_possible: 1, time_spent: 5, answered_at: '2025-01-02T10:00:00.000Z' },
+    ];
+
+    it('should schedule each question from its latest review', () => {
+      const schedule = buildReviewSchedule(logs, { q1: 30, q2: 30 });
+
+      expect(schedule.get('q1')?.dueAt).toBe('2025-01-02T10:00:00.000Z');
+      expect(schedule.get('q2')?.dueAt).toBe('2025-01-08T10:00:00.000Z');
+    });
+
+    it('should only return questions that are due', () => {
+      const schedule = buildReviewSchedule(logs, { q1: 30, q2: 30 });
+      const due = getDueReviewItems(schedule, new Date('2025-01-03T00:00:00.000Z'));
+
+      expect(due.map(item => item.questionId)).toEqual(['q1']);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { Question, QuizDefinition } from '../../types';
+import { buildQuestionsFromDefinition } from '../quizDefinition';
+import { getQuizQuestionPool, getShareableQuestionPool, getTeamQuestionActions, isQuestionBankEntry } from '../teamQuestions';
+
+const makeQuestion = (overrides: Partial<Question>): Question => ({
+  id: 'q-1',
+  book_of_bible: 'Daniel',
+  chapter: 1,
+  question: 'Who was the king of Babylon?',
+  answer: 'Nebuchadnezzar',
+  points: 10,
+  time_to_answer: 30,
+  tier: 'free',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  status: 'published',
+  team_id: null,
+  ...overrides,
+});
+
+describe('getQuizQuestionPool', () => {
+  const questions = [
+    makeQuestion({ id: 'bank' }),
+    makeQuestion({ id: 'bank-draft', status: 'draft' }),
+    makeQuestion({ id: 'team', team_id: 'team-1', status: 'draft' }),
+    makeQuestion({ id: 'team-nominated', team_id: 'team-1', status: 'in_review' }),
+    makeQuestion({ id: 'other-team', team_id: 'team-2', status: 'draft' }),
+  ];
+
+  it('mixes in the team\'s own questions whatever their status', () => {
+    expect(getQuizQuestionPool(questions, 'team-1', true).map(q => q.id)).toEqual(['bank', 'team', 'team-nominated']);
+  });
+
+  it('leaves team questions out when the team does not include them', () => {
+    expect(getQuizQuestionPool(questions, 'team-1', false).map(q => q.id)).toEqual(['bank']);
+  });
+
+  it('never includes another team\'s questions', () => {
+    expect(getQuizQuestionPool(questions, undefined, true).map(q => q.id)).toEqual(['bank']);
+  });
+});
+
+describe('getShareableQuestionPool', () => {
+  const bank = Array.from({ length: 12 }, (_, i) => makeQuestion({ id: `bank-${i}` }));
+  const creatorTeam = Array.from({ length: 6 }, (_, i) => makeQuestion({ id: `team-1-${i}`, team_id: 'team-1', status: 'draft' }));
+  const joinerTeam = Array.from({ length: 4 }, (_, i) => makeQuestion({ id: `team-2-${i}`, team_id: 'team-2', status: 'draft' }));
+  const definition: QuizDefinition = {
+    source: 'custom',
+    chapters: [{ book: 'Daniel', chapters: [1] }],
+    tiers: ['free'],
+    seed: 2024,
+    count: 8,
+  };
+
+  it('leaves out team questions', () => {
+    expect(getShareableQuestionPool([...bank, ...creatorTeam]).map(q => q.id)).toEqual(bank.map(q => q.id));
+  });
+
+  it('keeps the order of the rest of a quiz drawn with team questions', () => {
+    const creatorPool = getQuizQuestionPool([...bank, ...creatorTeam], 'team-1', true);
+    const quiz = buildQuestionsFromDefinition(creatorPool, { ...definition, count: 18 });
+    const shared = getShareableQuestionPool(quiz);
+
+    expect(quiz.some(q => q.team_id)).toBe(true);
+    expect(shared.map(q => q.id)).toEqual(quiz.filter(q => !q.team_id).map(q => q.id));
+  });
+
+  it('gives the same selection on both sides when a code without saved questions is rebuilt', () => {
+    const creatorPool = getQuizQuestionPool([...bank, ...creatorTeam], 'team-1', true);
+    const joinerPool = getQuizQuestionPool([...joinerTeam, ...bank], 'team-2', true);
+
+    const created = buildQuestionsFromDefinition(getShareableQuestionPool(creatorPool), definition);
+    const joined = buildQuestionsFromDefinition(getShareableQuestionPool(joinerPool), definition);
+
+    expect(created).toHaveLength(8);
+    expect(joined.map(q => q.id)).toEqual(created.map(q => q.id));
+  });
+});
+
+describe('isQuestionBankEntry', () => {
+  it('includes global questions and team nominations only', () => {
+    expect(isQuestionBankEntry(makeQuestion({ status: 'draft' }))).toBe(true);
+    expect(isQuestionBankEntry(makeQuestion({ team_id: 'team-1', status: 'in_review' }))).toBe(true);
+    expect(isQuestionBankEntry(makeQuestion({ team_id: 'team-1', status: 'draft' }))).toBe(false);
+  });
+});
+
+describe('getTeamQuestionActions', () => {
+  it('lets coaches nominate and withdraw team questions', () => {
+    expect(getTeamQuestionActions('draft').map(action => action.status)).toEqual(['in_review']);
+    expect(getTeamQuestionActions('in_review').map(action => action.status)).toEqual(['draft']);
+    expect(getTeamQuestionActions('published')).toEqual([]);
+  });
+});
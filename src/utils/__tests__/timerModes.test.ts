@@ -0,0 +1,104 @@
+import {
+  buildTimerSessionFields,
+  getQuestionTimeLimit,
+  getSessionTimerSettings,
+  getTimerModeLabel,
+  getTimerSearchParams,
+  isTimedSession,
+  setTimerSearchParams,
+  DEFAULT_SPRINT_SECONDS,
+} from '../timerModes';
+
+describe('getQuestionTimeLimit', () => {
+  it('uses the question time in standard mode', () => {
+    expect(getQuestionTimeLimit({ time_to_answer: 40 }, { timer_mode: 'standard' })).toBe(40);
+  });
+
+  it('falls back to 30 seconds when the question has no time', () => {
+    expect(getQuestionTimeLimit(undefined, {})).toBe(30);
+  });
+
+  it('scales the question time by the multiplier', () => {
+    expect(getQuestionTimeLimit({ time_to_answer: 30 }, { timer_mode: 'multiplier', timer_multiplier: 0.5 })).toBe(15);
+    expect(getQuestionTimeLimit({ time_to_answer: 30 }, { timer_mode: 'multiplier', timer_multiplier: 1.5 })).toBe(45);
+  });
+
+  it('never drops below five seconds', () => {
+    expect(getQuestionTimeLimit({ time_to_answer: 6 }, { timer_mode: 'multiplier', timer_multiplier: 0.5 })).toBe(5);
+  });
+});
+
+describe('buildTimerSessionFields', () => {
+  const questions = [{ time_to_answer: 20 }, { time_to_answer: 40 }];
+
+  it('starts the clock at the first question time', () => {
+    expect(buildTimerSessionFields({ mode: 'multiplier', multiplier: 1.5 }, questions)).toEqual({
+      timer_mode: 'multiplier',
+      timer_multiplier: 1.5,
+      sprint_seconds: null,
+      time_left: 30,
+    });
+  });
+
+  it('starts a sprint on the whole-quiz clock', () => {
+    const fields = buildTimerSessionFields({ mode: 'sprint' }, questions);
+    expect(fields.sprint_seconds).toBe(DEFAULT_SPRINT_SECONDS);
+    expect(fields.time_left).toBe(DEFAULT_SPRINT_SECONDS);
+    expect(fields.timer_multiplier).toBeNull();
+  });
+});
+
+describe('getSessionTimerSettings', () => {
+  it('round-trips the settings stored on a session', () => {
+    const settings = { mode: 'multiplier' as const, multiplier: 1.5 };
+    const fields = buildTimerSessionFields(settings, []);
+    expect(getSessionTimerSettings(fields)).toEqual({ mode: 'multiplier', multiplier: 1.5, sprintSeconds: undefined });
+  });
+
+  it('defaults older sessions to the standard timer', () => {
+    expect(getSessionTimerSettings({}).mode).toBe('standard');
+  });
+});
+
+describe('isTimedSession', () => {
+  it('treats sessions without a mode as timed', () => {
+    expect(isTimedSession({})).toBe(true);
+    expect(isTimedSession({ timer_mode: 'sprint' })).toBe(true);
+    expect(isTimedSession({ timer_mode: 'untimed' })).toBe(false);
+  });
+});
+
+describe('getTimerModeLabel', () => {
+  it('describes each mode', () => {
+    expect(getTimerModeLabel({ timer_mode: 'untimed' })).toBe('Untimed');
+    expect(getTimerModeLabel({ timer_mode: 'multiplier', timer_multiplier: 0.5 })).toBe('0.5x time');
+    expect(getTimerModeLabel({ timer_mode: 'sprint', sprint_seconds: 600 })).toBe('Sprint (10 min)');
+    expect(getTimerModeLabel({})).toBe('Standard timer');
+  });
+});
+
+describe('timer search params', () => {
+  const roundTrip = (settings: Parameters<typeof setTimerSearchParams>[1]) =>
+    getTimerSearchParams(new URLSearchParams(setTimerSearchParams(new URLSearchParams(), settings).toString()));
+
+  it('leaves the link alone for the standard timer', () => {
+    expect(setTimerSearchParams(new URLSearchParams('mode=typed'), { mode: 'standard' }).toString()).toBe('mode=typed');
+  });
+
+  it('round-trips each mode', () => {
+    expect(roundTrip({ mode: 'untimed' })).toEqual({ mode: 'untimed', multiplier: undefined, sprintSeconds: undefined });
+    expect(roundTrip({ mode: 'multiplier', multiplier: 1.5 })).toEqual({ mode: 'multiplier', multiplier: 1.5, sprintSeconds: undefined });
+    expect(roundTrip({ mode: 'sprint', sprintSeconds: 600 })).toEqual({ mode: 'sprint', multiplier: undefined, sprintSeconds: 600 });
+  });
+
+  it('defaults to the standard timer', () => {
+    expect(getTimerSearchParams(new URLSearchParams()).mode).toBe('standard');
+    expect(getTimerSearchParams(new URLSearchParams('timer=turbo')).mode).toBe('standard');
+  });
+
+  it('ignores values that aren\'t offered', () => {
+    expect(getTimerSearchParams(new URLSearchParams('timer=multiplier&multiplier=40')).multiplier).toBeUndefined();
+    expect(getTimerSearchParams(new URLSearchParams('timer=sprint&sprint=-60')).sprintSeconds).toBeUndefined();
+    expect(getTimerSearchParams(new URLSearchParams('timer=standard&sprint=600')).sprintSeconds).toBeUndefined();
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  compareByVerse,
+  formatQuestionReference,
+  getQuestionVerses,
+  questionMatchesVerses,
+  validateVerseRange
+} from '../verseReferences';
+import { filterQuestionsByStudyItems, getVersesForChapter } from '../quizUtils';
+import { Question } from '../../types';
+
+const makeQuestion = (id: string, chapter: number, verseStart: number | null = null, verseEnd: number | null = null): Question => ({
+  id,
+  book_of_bible: 'Daniel',
+  chapter,
+  verse_start: verseStart,
+  verse_end: verseEnd,
+  question: `Question ${id}`,
+  answer: `Answer ${id}`,
+  points: 1,
+  time_to_answer: 30,
+  tier: 'free',
+  created_at: '2025-01-01T00:00:00.000Z',
+  updated_at: '2025-01-01T00:00:00.000Z',
+});
+
+describe('verse references', () => {
+  it('lists the verses a question covers', () => {
+    expect(getQuestionVerses(makeQuestion('a', 1, 4, 6))).toEqual([4, 5, 6]);
+    expect(getQuestionVerses(makeQuestion('b', 1, 4))).toEqual([4]);
+    expect(getQuestionVerses(makeQuestion('c', 1))).toEqual([]);
+  });
+
+  it('matches questions whose range overlaps the selected verses', () => {
+    expect(questionMatchesVerses(makeQuestion('a', 1, 4, 6), [6, 7])).toBe(true);
+    expect(questionMatchesVerses(makeQuestion('a', 1, 4, 6), [7])).toBe(false);
+    expect(questionMatchesVerses(makeQuestion('c', 1), [1])).toBe(false);
+  });
+
+  it('formats references with and without verses', () => {
+    expect(formatQuestionReference(makeQuestion('a', 2, 4, 6))).toBe('Daniel 2:4-6');
+    expect(formatQuestionReference(makeQuestion('b', 2, 4, 4))).toBe('Daniel 2:4');
+    expect(formatQuestionReference(makeQuestion('c', 2))).toBe('Daniel 2');
+  });
+
+  it('orders by chapter, then verse, with untagged questions last in their chapter', () => {
+    const ordered = [makeQuestion('c', 1), makeQuestion('b', 1, 9), makeQuestion('d', 2, 1), makeQuestion('a', 1, 2)]
+      .sort(compareByVerse);
+
+    expect(ordered.map(q => q.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('validates verse ranges', () => {
+    expect(validateVerseRange(null, null)).toBeNull();
+    expect(validateVerseRange(3, null)).toBeNull();
+    expect(validateVerseRange(3, 5)).toBeNull();
+    expect(validateVerseRange(null, 5)).toBe('Enter the first verse as well as the last');
+    expect(validateVerseRange(0, 5)).toBe('Verses start at 1');
+    expect(validateVerseRange(5, 3)).toBe('The last verse cannot come before the first');
+  });
+
+  it('filters verse-level study items by verse range', () => {
+    const questions = [makeQuestion('a', 1, 1, 3), makeQuestion('b', 1, 8), makeQuestion('c', 1)];
+
+    expect(getVersesForChapter('Daniel', 1, questions)).toEqual([1, 2, 3, 8]);
+    expect(filterQuestionsByStudyItems(questions, [{ book: 'Daniel', chapters: [1], verses: [2] }]).map(q => q.id))
+      .toEqual(['a']);
+    expect(filterQuestionsByStudyItems(questions, [{ book: 'Daniel', chapters: [1] }])).toHaveLength(3);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Automatic grading utilities for typed-answer quizzes
+ */
+
+import { Question } from '../types';
+
+// Similarity at or above this is treated as a fully correct answer
+export const FULL_CREDIT_THRESHOLD = 0.85;
+
+// Similarity at or above this (but below full credit) earns partial credit
+export const PARTIAL_CREDIT_THRESHOLD = 0.5;
+
+// Articles and list conjunctions carry no meaning when comparing answers
+const IGNORED_WORDS = new Set(['a', 'an', 'the', 'and']);
+
+const NUMBER_WORDS: Record<string, string> = {
+  zero: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+  ten: '10',
+  eleven: '11',
+  twelve: '12',
+  thirteen: '13',
+  fourteen: '14',
+  fifteen: '15',
+  sixteen: '16',
+  seventeen: '17',
+  eighteen: '18',
+  nineteen: '19',
+  twenty: '20',
+  thirty: '30',
+  forty: '40',
+  fifty: '50',
+  sixty: '60',
+  seventy: '70',
+  eighty: '80',
+  ninety: '90',
+  hundred: '100',
+  thousand: '1000',
+  first: '1',
+  second: '2',
+  third: '3',
+  fourth: '4',
+  fifth: '5',
+  sixth: '6',
+  seventh: '7',
+  eighth: '8',
+  ninth: '9',
+  tenth: '10',
+};
+
+export type GradeVerdict = 'correct' | 'partial' | 'incorrect';
+
+export interface AnswerGrade {
+  verdict: GradeVerdict;
+  similarity: number;
+  suggestedPoints: number;
+  totalPoints: number;
+  normalizedAnswer: string;
+  normalizedExpected: string;
+}
+
+/**
+ * Split an answer into normalized tokens
+ * Lowercases, strips punctuation, drops articles and conjunctions and converts number words to digits
+ * @param text - Raw answer text
+ * @returns Array of normalized tokens
+ */
+export function tokenizeAnswer(text: string): string[] {
+  if (!text) return [];
+
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['\u2018\u2019`]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 0 && !IGNORED_WORDS.has(token))
+    .map(token => NUMBER_WORDS[token] || token);
+}
+
+/**
+ * Normalize an answer for comparison
+ * @param text - Raw answer text
+ * @returns Normalized answer string
+ */
+export function normalizeAnswer(text: string): string {
+  return tokenizeAnswer(text).join(' ');
+}
+
+/**
+ * Calculate the Levenshtein edit distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let previousRow = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const currentRow = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      currentRow[j] = Math.min(
+        previousRow[j] + 1,
+        currentRow[j - 1] + 1,
+        previousRow[j - 1] + cost
+      );
+    }
+    previousRow = currentRow;
+  }
+
+  return previousRow[b.length];
+}
+
+/**
+ * Character-level similarity between two strings (0 to 1)
+ */
+function stringSimilarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  return 1 - levenshteinDistance(a, b) / maxLength;
+}
+
+/**
+ * Fraction of expected tokens that appear in the given answer (0 to 1)
+ * Tokens match when they are within a small typo distance of each other
+ */
+function tokenCoverage(answerTokens: string[], expectedTokens: string[]): number {
+  if (expectedTokens.length === 0) return answerTokens.length === 0 ? 1 : 0;
+
+  const remaining = [...answerTokens];
+  let matched = 0;
+
+  expectedTokens.forEach(expected => {
+    const index = remaining.findIndex(token =>
+      token === expected || (expected.length > 3 && stringSimilarity(token, expected) >= 0.75)
+    );
+    if (index !== -1) {
+      matched++;
+      remaining.splice(index, 1);
+    }
+  });
+
+  return matched / expectedTokens.length;
+}
+
+/**
+ * Calculate fuzzy similarity between a typed answer and the expected answer
+ * @param answer - The member's typed answer
+ * @param expected - The correct answer
+ * @returns Similarity score between 0 and 1
+ */
+export function calculateAnswerSimilarity(answer: string, expected: string): number {
+  const answerTokens = tokenizeAnswer(answer);
+  const expectedTokens = tokenizeAnswer(expected);
+
+  if (answerTokens.length === 0) return 0;
+
+  const characterScore = stringSimilarity(answerTokens.join(' '), expectedTokens.join(' '));
+  const coverageScore = tokenCoverage(answerTokens, expectedTokens);
+
+  // Penalize answers that pad the expected tokens with lots of extra words
+  const precision = tokenCoverage(expectedTokens, answerTokens);
+  const tokenScore = (coverageScore * 2 + precision) / 3;
+
+  return Math.round(Math.max(characterScore, tokenScore) * 100) / 100;
+}
+
+/**
+ * Grade a typed answer against a question and suggest points
+ * @param answer - The member's typed answer
+ * @param question - The question being answered
+ * @returns Grade with verdict, similarity and suggested points
+ */
+export function gradeTypedAnswer(answer: string, question: Pick<Question, 'answer' | 'points'>): AnswerGrade {
+  const totalPoints = Number(question.points) || 0;
+  const similarity = calculateAnswerSimilarity(answer, question.answer);
+
+  let verdict: GradeVerdict;
+  let suggestedPoints: number;
+
+  if (similarity >= FULL_CREDIT_THRESHOLD) {
+    verdict = 'correct';
+    suggestedPoints = totalPoints;
+  } else if (similarity >= PARTIAL_CREDIT_THRESHOLD && totalPoints > 1) {
+    verdict = 'partial';
+    // Partial credit never rounds up to full marks
+    suggestedPoints = Math.min(totalPoints - 1, Math.max(1, Math.round(similarity * totalPoints)));
+  } else {
+    verdict = 'incorrect';
+    suggestedPoints = 0;
+  }
+
+  return {
+    verdict,
+    similarity,
+    suggestedPoints,
+    totalPoints,
+    normalizedAnswer: normalizeAnswer(answer),
+    normalizedExpected: normalizeAnswer(question.answer),
+  };
+}
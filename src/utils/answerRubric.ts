@@ -0,0 +1,100 @@
+import { AnswerComponent, AnswerComponentResult, Question } from '../types';
+
+export interface ComponentMissRate {
+  componentId: string;
+  text: string;
+  attempts: number;
+  misses: number;
+  missRate: number;
+}
+
+/**
+ * Get a question's answer parts, ignoring empty rows
+ * @param question - Question that may have a rubric
+ * @returns Answer parts; empty when the question is graded as a whole
+ */
+export function getAnswerComponents(question: Pick<Question, 'answer_components'>): AnswerComponent[] {
+  return (question.answer_components || []).filter(component => component.text.trim() && component.points > 0);
+}
+
+/**
+ * Whether partial credit should be given part by part
+ * @param question - Question that may have a rubric
+ * @returns True when the answer has more than one part
+ */
+export function hasAnswerRubric(question: Pick<Question, 'answer_components'>): boolean {
+  return getAnswerComponents(question).length > 1;
+}
+
+/**
+ * Check a rubric before saving it with a question
+ * @param components - Answer parts being edited
+ * @param questionPoints - Points the question is worth
+ * @returns An error message, or null when the rubric is valid or empty
+ */
+export function validateAnswerComponents(components: AnswerComponent[], questionPoints: number): string | null {
+  if (components.length === 0) return null;
+  if (components.some(component => !component.text.trim())) return 'Every answer part needs text';
+  if (components.some(component => !Number.isInteger(component.points) || component.points < 1)) {
+    return 'Every answer part must be worth at least 1 point';
+  }
+
+  const total = components.reduce((sum, component) => sum + component.points, 0);
+  if (total !== questionPoints) {
+    return `Answer parts add up to ${total} points but the question is worth ${questionPoints}`;
+  }
+
+  return null;
+}
+
+/**
+ * Score a multi-part answer from the parts that were given
+ * @param components - The question's answer parts
+ * @param earnedIds - Ids of the parts the member got right
+ * @returns Points earned and the per-part breakdown to record
+ */
+export function scoreAnswerComponents(
+  components: AnswerComponent[],
+  earnedIds: string[]
+): { pointsEarned: number; componentResults: AnswerComponentResult[] } {
+  const earned = new Set(earnedIds);
+  const componentResults = components.map(component => ({
+    componentId: component.id,
+    text: component.text,
+    points: component.points,
+    earned: earned.has(component.id),
+  }));
+
+  return {
+    pointsEarned: componentResults.reduce((sum, result) => sum + (result.earned ? result.points : 0), 0),
+    componentResults,
+  };
+}
+
+/**
+ * How often each answer part is missed across logged attempts
+ * @param breakdowns - component_results from quiz_question_logs for one question
+ * @returns Parts ordered from most to least often missed
+ */
+export function calculateComponentMissRates(breakdowns: (AnswerComponentResult[] | null | undefined)[]): ComponentMissRate[] {
+  const rates = new Map<string, ComponentMissRate>();
+
+  breakdowns.forEach(breakdown => {
+    (breakdown || []).forEach(result => {
+      const rate = rates.get(result.componentId) || {
+        componentId: result.componentId,
+        text: result.text,
+        attempts: 0,
+        misses: 0,
+        missRate: 0,
+      };
+      rate.attempts++;
+      if (!result.earned) rate.misses++;
+      rates.set(result.componentId, rate);
+    });
+  });
+
+  return Array.from(rates.values())
+    .map(rate => ({ ...rate, missRate: Math.round((rate.misses / rate.attempts) * 100) }))
+    .sort((a, b) => b.missRate - a.missRate);
+}
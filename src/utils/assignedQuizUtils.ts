@@ -0,0 +1,63 @@
+import { AssignedQuiz, AssignedQuizMember, AssignedQuizMemberResult, AssignedQuizStatus, Question, QuizResult } from '../types';
+
+export interface AssignedQuestionComparison {
+  question: Question;
+  // One entry per member, in the same order as the member results; null when unanswered
+  results: (QuizResult | null)[];
+  answeredCount: number;
+  // Average percentage of points earned by members who answered, or null if nobody has
+  averagePercent: number | null;
+}
+
+/**
+ * Where a member is with an assigned quiz
+ * @param quiz - Assigned quiz with its due date
+ * @param member - The member's assignment row
+ * @param hasActiveSession - Whether the member has started but not finished the quiz
+ * @param now - Current time
+ * @returns The member's status for the quiz
+ */
+export function getAssignedQuizStatus(
+  quiz: Pick<AssignedQuiz, 'due_at'>,
+  member: Pick<AssignedQuizMember, 'completed_at'> | undefined,
+  hasActiveSession: boolean,
+  now: Date = new Date()
+): AssignedQuizStatus {
+  const dueAt = new Date(quiz.due_at).getTime();
+
+  if (member?.completed_at) {
+    return new Date(member.completed_at).getTime() > dueAt ? 'completed-late' : 'completed';
+  }
+  if (now.getTime() > dueAt) return 'overdue';
+  return hasActiveSession ? 'in-progress' : 'not-started';
+}
+
+/**
+ * Line up every member's answer to each question of an assigned quiz
+ * @param questions - The assigned questions, in quiz order
+ * @param memberResults - Results for each assigned member
+ * @returns One row per question with each member's result
+ */
+export function buildAssignedQuizComparison(
+  questions: Question[],
+  memberResults: AssignedQuizMemberResult[]
+): AssignedQuestionComparison[] {
+  const resultsByMember = memberResults.map(member =>
+    new Map((member.results || []).map(result => [result.questionId, result]))
+  );
+
+  return questions.map(question => {
+    const results = resultsByMember.map(results => results.get(question.id) || null);
+    const answered = results.filter((result): result is QuizResult => result !== null && result.totalPoints > 0);
+    const averagePercent = answered.length > 0
+      ? Math.round(answered.reduce((sum, result) => sum + result.pointsEarned / result.totalPoints, 0) / answered.length * 100)
+      : null;
+
+    return {
+      question,
+      results,
+      answeredCount: answered.length,
+      averagePercent,
+    };
+  });
+}
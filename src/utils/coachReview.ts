@@ -0,0 +1,34 @@
+import { QuizResult } from '../types';
+
+export interface ReviewOverride {
+  questionId: string;
+  pointsEarned: number;
+}
+
+/**
+ * Grades a coach changed while reviewing a quiz. A grade set back to the member's
+ * own is not an override, so it isn't sent.
+ * @param results - Member's results as they submitted them
+ * @param grades - Points the coach picked, by question id
+ * @returns Overrides to save with the review
+ */
+export function getReviewOverrides(results: QuizResult[], grades: Record<string, number>): ReviewOverride[] {
+  const resultsByQuestion = new Map(results.map(result => [result.questionId, result]));
+  return Object.entries(grades)
+    .filter(([questionId, points]) => resultsByQuestion.get(questionId)?.pointsEarned !== points)
+    .map(([questionId, pointsEarned]) => ({ questionId, pointsEarned }));
+}
+
+/**
+ * Total a quiz would have with the coach's grades in place of the member's
+ * @param results - Member's results as they submitted them
+ * @param grades - Points the coach picked, by question id
+ * @returns Reviewed points total
+ */
+export function getReviewedTotal(results: QuizResult[], grades: Record<string, number>): number {
+  const resultsByQuestion = new Map(results.map(result => [result.questionId, result]));
+  return Array.from(resultsByQuestion.values()).reduce(
+    (sum, result) => sum + (grades[result.questionId] ?? result.pointsEarned),
+    0
+  );
+}
@@ -0,0 +1,86 @@
+import { CompetitionPlacementTier, Question, QuizResult } from '../types';
+import { COMPETITION_PLACEMENT_TIERS } from '../constants/competition';
+
+export interface CompetitionBookScore {
+  book: string;
+  pointsEarned: number;
+  pointsPossible: number;
+  percentage: number;
+}
+
+export interface CompetitionReport {
+  pointsEarned: number;
+  pointsPossible: number;
+  percentage: number;
+  placement: CompetitionPlacementTier;
+  // Next tier up and the points still needed to reach it (null when already in first place)
+  nextPlacement: CompetitionPlacementTier | null;
+  pointsToNextPlacement: number;
+  questionsAnswered: number;
+  blankAnswers: number;
+  fullCreditAnswers: number;
+  bookScores: CompetitionBookScore[];
+}
+
+/**
+ * Get the placement tier a competition score falls into. The cutoff is checked
+ * against the exact score, not the rounded percentage shown to members, so
+ * 89.96% stays in second place.
+ * @param pointsEarned - Points scored
+ * @param pointsPossible - Points available in the round
+ * @returns Matching placement tier
+ */
+export function getCompetitionPlacement(pointsEarned: number, pointsPossible: number): CompetitionPlacementTier {
+  const lowestTier = COMPETITION_PLACEMENT_TIERS[COMPETITION_PLACEMENT_TIERS.length - 1];
+  if (pointsPossible <= 0) return lowestTier;
+  return COMPETITION_PLACEMENT_TIERS.find(tier => pointsEarned * 100 >= tier.minPercentage * pointsPossible)
+    || lowestTier;
+}
+
+/**
+ * Build a competition-style score report from a judged round
+ * @param questions - Questions asked in the round
+ * @param results - Judged results for the round
+ * @returns Score report with placement and per-book breakdown
+ */
+export function buildCompetitionReport(questions: Question[], results: QuizResult[]): CompetitionReport {
+  const pointsEarned = results.reduce((sum, result) => sum + (Number(result.pointsEarned) || 0), 0);
+  const pointsPossible = questions.reduce((sum, question) => sum + (Number(question.points) || 0), 0);
+  const percentage = pointsPossible > 0 ? Math.round((pointsEarned / pointsPossible) * 1000) / 10 : 0;
+
+  const placement = getCompetitionPlacement(pointsEarned, pointsPossible);
+  const placementIndex = COMPETITION_PLACEMENT_TIERS.indexOf(placement);
+  const nextPlacement = placementIndex > 0 ? COMPETITION_PLACEMENT_TIERS[placementIndex - 1] : null;
+  const pointsToNextPlacement = nextPlacement
+    ? Math.max(0, Math.ceil((nextPlacement.minPercentage * pointsPossible) / 100) - pointsEarned)
+    : 0;
+
+  const resultsByQuestion = new Map(results.map(result => [result.questionId, result]));
+  const books = new Map<string, { pointsEarned: number; pointsPossible: number }>();
+
+  questions.forEach(question => {
+    const entry = books.get(question.book_of_bible) || { pointsEarned: 0, pointsPossible: 0 };
+    entry.pointsEarned += Number(resultsByQuestion.get(question.id)?.pointsEarned) || 0;
+    entry.pointsPossible += Number(question.points) || 0;
+    books.set(question.book_of_bible, entry);
+  });
+
+  const bookScores = Array.from(books.entries()).map(([book, score]) => ({
+    book,
+    ...score,
+    percentage: score.pointsPossible > 0 ? Math.round((score.pointsEarned / score.pointsPossible) * 100) : 0,
+  }));
+
+  return {
+    pointsEarned,
+    pointsPossible,
+    percentage,
+    placement,
+    nextPlacement,
+    pointsToNextPlacement,
+    questionsAnswered: results.length,
+    blankAnswers: results.filter(result => !result.typedAnswer?.trim()).length,
+    fullCreditAnswers: results.filter(result => result.totalPoints > 0 && result.pointsEarned === result.totalPoints).length,
+    bookScores,
+  };
+}
@@ -0,0 +1,121 @@
+import { FlashcardConfidence, FlashcardReview, Question, ReviewCoverageRow } from '../types';
+
+export const FLASHCARD_CONFIDENCE_OPTIONS: { value: FlashcardConfidence; label: string; description: string }[] = [
+  { value: 'again', label: 'Again', description: "Didn't know it" },
+  { value: 'hard', label: 'Hard', description: 'Got there slowly' },
+  { value: 'good', label: 'Good', description: 'Knew it' },
+  { value: 'easy', label: 'Easy', description: 'Knew it instantly' },
+];
+
+// Least confident cards come first; cards never rated sit between hard and good
+const CONFIDENCE_ORDER: Record<FlashcardConfidence | 'unrated', number> = {
+  again: 0,
+  hard: 1,
+  unrated: 2,
+  good: 3,
+  easy: 4,
+};
+
+export interface CoverageQuizLog {
+  points_earned: number;
+  total_points_possible: number;
+  questions: Pick<Question, 'book_of_bible' | 'chapter'> | null;
+}
+
+export interface CoverageFlashcardReview {
+  confidence: FlashcardConfidence;
+  questions: Pick<Question, 'book_of_bible' | 'chapter'> | null;
+}
+
+/**
+ * A member's current confidence in each question, from their most recent rating
+ * @param reviews - Flashcard reviews in any order
+ * @returns Confidence keyed by question id
+ */
+export function getLatestConfidence(
+  reviews: Pick<FlashcardReview, 'question_id' | 'confidence' | 'reviewed_at'>[]
+): Record<string, FlashcardConfidence> {
+  const latest: Record<string, { confidence: FlashcardConfidence; reviewedAt: number }> = {};
+
+  reviews.forEach(review => {
+    const reviewedAt = new Date(review.reviewed_at).getTime();
+    const current = latest[review.question_id];
+    if (!current || reviewedAt >= current.reviewedAt) {
+      latest[review.question_id] = { confidence: review.confidence, reviewedAt };
+    }
+  });
+
+  return Object.fromEntries(Object.entries(latest).map(([questionId, entry]) => [questionId, entry.confidence]));
+}
+
+/**
+ * Order a deck so the cards the member is least sure of come up first
+ * @param questions - Questions in the deck, in their original order
+ * @param confidence - Current confidence keyed by question id
+ * @returns New array, keeping the original order within each confidence level
+ */
+export function orderFlashcardDeck<T extends Pick<Question, 'id'>>(
+  questions: T[],
+  confidence: Record<string, FlashcardConfidence>
+): T[] {
+  return questions
+    .map((question, index) => ({ question, index, rank: CONFIDENCE_ORDER[confidence[question.id] || 'unrated'] }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(entry => entry.question);
+}
+
+/**
+ * Compare flashcard reviews with quiz answers for each book and chapter
+ * @param quizLogs - Quiz answers with their question's book and chapter
+ * @param flashcardReviews - Flashcard reviews with their question's book and chapter
+ * @returns One row per chapter that was reviewed or tested, in book and chapter order
+ */
+export function buildReviewCoverage(
+  quizLogs: CoverageQuizLog[],
+  flashcardReviews: CoverageFlashcardReview[]
+): ReviewCoverageRow[] {
+  const rows = new Map<string, ReviewCoverageRow & { confident: number; pointsEarned: number; pointsPossible: number }>();
+
+  const getRow = (question: Pick<Question, 'book_of_bible' | 'chapter'>) => {
+    const key = `${question.book_of_bible}:${question.chapter}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        book: question.book_of_bible,
+        chapter: question.chapter,
+        flashcardReviews: 0,
+        confidentPercent: null,
+        quizAttempts: 0,
+        quizScorePercent: null,
+        confident: 0,
+        pointsEarned: 0,
+        pointsPossible: 0,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+
+  flashcardReviews.forEach(review => {
+    if (!review.questions) return;
+    const row = getRow(review.questions);
+    row.flashcardReviews++;
+    if (review.confidence === 'good' || review.confidence === 'easy') row.confident++;
+  });
+
+  quizLogs.forEach(log => {
+    if (!log.questions) return;
+    const row = getRow(log.questions);
+    row.quizAttempts++;
+    row.pointsEarned += Number(log.points_earned) || 0;
+    row.pointsPossible += Number(log.total_points_possible) || 0;
+  });
+
+  return Array.from(rows.values())
+    .map(({ confident, pointsEarned, pointsPossible, ...row }) => ({
+      ...row,
+      confidentPercent: row.flashcardReviews > 0 ? Math.round((confident / row.flashcardReviews) * 100) : null,
+      quizScorePercent: pointsPossible > 0 ? Math.round((pointsEarned / pointsPossible) * 100) : null,
+    }))
+    .sort((a, b) => a.book.localeCompare(b.book) || a.chapter - b.chapter);
+}
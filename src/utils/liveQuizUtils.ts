@@ -0,0 +1,166 @@
+import { LiveQuizEvent, LiveQuizParticipant, LiveQuizQuestion, Question } from '../types';
+
+// Letters and digits that are hard to confuse when read aloud or typed on a phone
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+export const JOIN_CODE_LENGTH = 6;
+
+// Question fields broadcast to participants, listed explicitly so a new field
+// on questions isn't sent to the room until someone decides it's safe to
+const LIVE_QUIZ_QUESTION_FIELDS: (keyof LiveQuizQuestion)[] = [
+  'id',
+  'book_of_bible',
+  'chapter',
+  'verse_start',
+  'verse_end',
+  'question',
+  'points',
+  'time_to_answer',
+  'tier',
+  'created_at',
+  'updated_at',
+  'revision',
+];
+
+export interface LiveBuzz {
+  userId: string;
+  // When the host received the buzz; members' own clocks can't be trusted to order buzzes
+  buzzedAt: number;
+}
+
+export interface LiveSubmittedAnswer {
+  answer: string;
+  timeSpent: number;
+}
+
+export interface LiveHostState {
+  participants: LiveQuizParticipant[];
+  buzzes: LiveBuzz[];
+  answers: Record<string, LiveSubmittedAnswer>;
+  awards: Record<string, number>;
+}
+
+export const initialLiveHostState: LiveHostState = {
+  participants: [],
+  buzzes: [],
+  answers: {},
+  awards: {},
+};
+
+/**
+ * Generate a short join code for a live quiz
+ * @returns Upper-case join code without ambiguous characters
+ */
+export function generateJoinCode(length: number = JOIN_CODE_LENGTH): string {
+  const values = new Uint32Array(length);
+  crypto.getRandomValues(values);
+  return Array.from(values, value => JOIN_CODE_ALPHABET[value % JOIN_CODE_ALPHABET.length]).join('');
+}
+
+/**
+ * Normalize a join code typed by a member
+ */
+export function normalizeJoinCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Copy only the fields participants may see before broadcasting a question, so
+ * the answer and its components stay with the host
+ */
+export function toLiveQuizQuestion(question: Question): LiveQuizQuestion {
+  const liveQuestion: Partial<Record<keyof LiveQuizQuestion, unknown>> = {};
+  for (const field of LIVE_QUIZ_QUESTION_FIELDS) {
+    if (question[field] !== undefined) liveQuestion[field] = question[field];
+  }
+  return liveQuestion as LiveQuizQuestion;
+}
+
+/**
+ * Whether an event steers the quiz, so members only act on it when the host sent it
+ */
+export function isHostControlEvent(event: LiveQuizEvent): boolean {
+  return event.type === 'question' || event.type === 'reveal' || event.type === 'award' || event.type === 'end';
+}
+
+/**
+ * Log id for a member's answer to one live question. It is the same every time
+ * the award is recorded, so a re-delivered award can't log the answer twice.
+ * @param quizSessionId - Member's own quiz session for the live quiz
+ * @param questionIndex - Position of the question in the live quiz
+ * @returns UUID-formatted id for quiz_question_logs.client_log_id
+ */
+export function getLiveQuestionLogId(quizSessionId: string, questionIndex: number): string {
+  const key = `${quizSessionId}:${questionIndex}`;
+  // Four FNV-1a passes with different offsets give the 128 bits of a UUID
+  const hex = [0x811c9dc5, 0x050c5d1f, 0x2f8c1e4b, 0x6a09e667].map(offset => {
+    let hash = offset;
+    for (let i = 0; i < key.length; i++) {
+      hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }).join('');
+
+  // Version 8 marks a custom, non-random UUID
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-8${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Clear buzzes, answers and awards when the host moves to a new question
+ */
+export function resetLiveHostQuestion(state: LiveHostState): LiveHostState {
+  return { ...state, buzzes: [], answers: {}, awards: {} };
+}
+
+/**
+ * Apply an event received from a participant to the host's view of the room
+ * @param state - Current host state
+ * @param event - Event received over the transport
+ * @param currentQuestionIndex - Question the host is currently showing
+ * @param receivedAt - When the host received the event
+ * @returns Updated host state
+ */
+export function applyLiveHostEvent(
+  state: LiveHostState,
+  event: LiveQuizEvent,
+  currentQuestionIndex: number,
+  receivedAt: number = Date.now()
+): LiveHostState {
+  switch (event.type) {
+    case 'join':
+      if (state.participants.some(p => p.userId === event.userId)) return state;
+      return {
+        ...state,
+        participants: [...state.participants, { userId: event.userId, name: event.name, joinedAt: receivedAt }],
+      };
+
+    case 'leave':
+      return {
+        ...state,
+        participants: state.participants.filter(p => p.userId !== event.userId),
+      };
+
+    case 'buzz':
+      // Ignore late buzzes for previous questions and repeat buzzes.
+      // Buzzes queue in the order the host receives them.
+      if (event.questionIndex !== currentQuestionIndex) return state;
+      if (state.buzzes.some(b => b.userId === event.userId)) return state;
+      return {
+        ...state,
+        buzzes: [...state.buzzes, { userId: event.userId, buzzedAt: receivedAt }],
+      };
+
+    case 'submit-answer':
+      if (event.questionIndex !== currentQuestionIndex) return state;
+      return {
+        ...state,
+        answers: {
+          ...state.answers,
+          [event.userId]: { answer: event.answer, timeSpent: event.timeSpent },
+        },
+      };
+
+    default:
+      return state;
+  }
+}
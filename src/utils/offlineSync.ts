@@ -0,0 +1,166 @@
+import { OfflineMutation, QuizResult, QuizSession } from '../types';
+
+/**
+ * Helpers for replaying quiz writes that were queued while offline
+ */
+
+export interface PendingSessionUpdate {
+  mutationIds: number[];
+  updates: Partial<QuizSession>;
+  // When the newest of the merged writes was made on this device
+  queuedAt: string;
+}
+
+/**
+ * Check whether a failed request failed because the device is offline,
+ * as opposed to being rejected by the server
+ * @param error - Error thrown by fetch or returned by Supabase
+ * @returns True when the write should be queued and retried later
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+
+  const message = (error as { message?: string } | null)?.message || '';
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
+
+/**
+ * Merge queued session writes into one update per session, later writes winning
+ * @param mutations - Queued writes, oldest first
+ * @returns Pending update keyed by session id
+ */
+export function collectSessionUpdates(mutations: OfflineMutation[]): Map<string, PendingSessionUpdate> {
+  const pending = new Map<string, PendingSessionUpdate>();
+
+  mutations.forEach(mutation => {
+    if (mutation.type !== 'session-update') return;
+
+    const existing = pending.get(mutation.sessionId);
+    pending.set(mutation.sessionId, {
+      mutationIds: [...(existing?.mutationIds || []), ...(mutation.id !== undefined ? [mutation.id] : [])],
+      updates: { ...existing?.updates, ...mutation.updates },
+      queuedAt: mutation.queuedAt,
+    });
+  });
+
+  return pending;
+}
+
+/**
+ * Merge two sets of results by question. When both devices answered the same
+ * question, the answer given or regraded last is kept.
+ * @param remoteResults - Results already saved on the server
+ * @param localResults - Results recorded on this device
+ * @returns Merged results, in server order followed by new local answers
+ */
+export function mergeQuizResults(remoteResults: QuizResult[], localResults: QuizResult[]): QuizResult[] {
+  const merged = new Map<string, QuizResult>();
+
+  const gradedAt = (result: QuizResult) => new Date(result.regradedAt || result.answeredAt).getTime();
+
+  [...remoteResults, ...localResults].forEach(result => {
+    const existing = merged.get(result.questionId);
+    if (!existing || gradedAt(result) >= gradedAt(existing)) {
+      merged.set(result.questionId, result);
+    }
+  });
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Resolve offline writes against the server copy of a session that may have
+ * been changed on another device in the meantime:
+ * - Answers from both devices are kept, merged by question (latest answer wins)
+ * - The current question never moves backwards
+ * - Once either side has completed the session it stays completed. A completion
+ *   already saved by another device is not replayed, so XP is only awarded once
+ * - Timer and display state come from whichever device changed the session last
+ * @param remote - Session as currently stored on the server
+ * @param local - Merged offline updates for the session
+ * @param queuedAt - When the newest offline update was made
+ * @returns Updates to write to the server
+ */
+export function resolveOfflineSessionUpdates(
+  remote: QuizSession,
+  local: Partial<QuizSession>,
+  queuedAt: string
+): Partial<QuizSession> {
+  const remoteChangedLast = new Date(remote.updated_at).getTime() > new Date(queuedAt).getTime();
+  const resolved: Partial<QuizSession> = remoteChangedLast ? {} : { ...local };
+
+  if (local.results) {
+    resolved.results = mergeQuizResults(remote.results || [], local.results);
+  }
+
+  if (local.current_question_index !== undefined) {
+    resolved.current_question_index = Math.max(remote.current_question_index, local.current_question_index);
+  }
+
+  delete resolved.status;
+  delete resolved.completed_at;
+  if (remote.status !== 'completed' && local.status === 'completed') {
+    resolved.status = 'completed';
+    resolved.completed_at = local.completed_at;
+  }
+
+  return resolved;
+}
+
+export interface ReplayOutcome {
+  // Queue ids of writes the server accepted
+  syncedIds: number[];
+  // Queue ids of writes the server refused; retrying them would fail the same way
+  rejectedIds: number[];
+  // The connection dropped; whatever isn't synced or rejected stays queued
+  interrupted: boolean;
+}
+
+/**
+ * Replay queued writes in one request. When the server rejects the batch, each
+ * write is retried on its own so a single bad write can't hold up the rest of
+ * the queue. Only network errors leave writes queued for the next attempt.
+ * @param items - Queued writes, oldest first
+ * @param getIds - Queue ids behind each write
+ * @param write - Sends writes to the server, throwing when they fail
+ * @returns Which queued writes to remove and whether the replay was cut short
+ */
+export async function replayQueuedWrites<T>(
+  items: T[],
+  getIds: (item: T) => number[],
+  write: (items: T[]) => Promise<void>
+): Promise<ReplayOutcome> {
+  const outcome: ReplayOutcome = { syncedIds: [], rejectedIds: [], interrupted: false };
+  if (items.length === 0) return outcome;
+
+  try {
+    await write(items);
+    outcome.syncedIds = items.flatMap(getIds);
+    return outcome;
+  } catch (error) {
+    if (isNetworkError(error)) {
+      outcome.interrupted = true;
+      return outcome;
+    }
+    if (items.length === 1) {
+      outcome.rejectedIds = getIds(items[0]);
+      return outcome;
+    }
+  }
+
+  for (const item of items) {
+    try {
+      await write([item]);
+      outcome.syncedIds.push(...getIds(item));
+    } catch (error) {
+      if (isNetworkError(error)) {
+        outcome.interrupted = true;
+        break;
+      }
+      outcome.rejectedIds.push(...getIds(item));
+    }
+  }
+
+  return outcome;
+}
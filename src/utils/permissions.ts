@@ -36,6 +36,14 @@ export function isSuperAdmin(user: User | null): boolean {
   return user?.role === 'admin';
 }
 
+/**
+ * Check if user can review questions
+ * Reviewers approve, retire and restore questions; super admins can too
+ */
+export function canReviewQuestions(user: User | null): boolean {
+  return user?.role === 'admin' || user?.role === 'reviewer';
+}
+
 /**
  * Check if user is a team owner
  */
@@ -0,0 +1,97 @@
+import { Question } from '../types';
+import { levenshteinDistance, normalizeAnswer, tokenizeAnswer } from './answerGrading';
+import { getQuestionVerses } from './verseReferences';
+
+// Wording at least this similar within a chapter is flagged as a probable duplicate
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.8;
+
+export interface DuplicateQuestionPair {
+  // The older question, suggested as the one to keep
+  first: Question;
+  second: Question;
+  similarity: number;
+  // Whether both questions expect the same answer once normalized
+  sameAnswer: boolean;
+}
+
+/**
+ * How alike two questions are worded, ignoring case, punctuation, articles and word order
+ * @param a - First question text
+ * @param b - Second question text
+ * @returns Similarity from 0 to 1
+ */
+export function calculateQuestionSimilarity(a: string, b: string): number {
+  const tokensA = tokenizeAnswer(a);
+  const tokensB = tokenizeAnswer(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  // Shared words, so a reordered question still matches
+  const remaining = [...tokensB];
+  let shared = 0;
+  tokensA.forEach(token => {
+    const index = remaining.indexOf(token);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  });
+  const wordScore = (2 * shared) / (tokensA.length + tokensB.length);
+
+  // The edit distance can't beat the length ratio, so skip it when that is already too low
+  const textA = tokensA.join(' ');
+  const textB = tokensB.join(' ');
+  const longest = Math.max(textA.length, textB.length);
+  const characterScore = Math.min(textA.length, textB.length) / longest > wordScore
+    ? 1 - levenshteinDistance(textA, textB) / longest
+    : 0;
+
+  return Math.round(Math.max(characterScore, wordScore) * 100) / 100;
+}
+
+// Questions tagged with verses that don't overlap ask about different passages
+const versesOverlap = (a: Question, b: Question): boolean => {
+  const versesA = getQuestionVerses(a);
+  const versesB = getQuestionVerses(b);
+  if (versesA.length === 0 || versesB.length === 0) return true;
+  return versesA.some(verse => versesB.includes(verse));
+};
+
+/**
+ * Find probable duplicates among questions in the same book and chapter
+ * @param questions - Question bank
+ * @param threshold - Lowest similarity to flag
+ * @returns Pairs of probable duplicates, most similar first
+ */
+export function findDuplicateQuestions(questions: Question[], threshold = DUPLICATE_SIMILARITY_THRESHOLD): DuplicateQuestionPair[] {
+  const byChapter = new Map<string, Question[]>();
+  questions.forEach(question => {
+    const key = `${question.book_of_bible}|${question.chapter}`;
+    byChapter.set(key, [...(byChapter.get(key) || []), question]);
+  });
+
+  const pairs: DuplicateQuestionPair[] = [];
+
+  byChapter.forEach(chapterQuestions => {
+    const sorted = [...chapterQuestions].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const first = sorted[i];
+        const second = sorted[j];
+        if (!versesOverlap(first, second)) continue;
+
+        const similarity = calculateQuestionSimilarity(first.question, second.question);
+        if (similarity < threshold) continue;
+
+        pairs.push({
+          first,
+          second,
+          similarity,
+          sameAnswer: normalizeAnswer(first.answer) === normalizeAnswer(second.answer),
+        });
+      }
+    }
+  });
+
+  return pairs.sort((a, b) => b.similarity - a.similarity);
+}
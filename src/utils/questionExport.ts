@@ -0,0 +1,161 @@
+import { Question } from '../types';
+import { bibleBooks } from '../constants/bibleBooks';
+import { QuestionImportField } from './questionImport';
+import { escapeHtml } from './quizPacket';
+import { compareByVerse, formatVerseRange } from './verseReferences';
+
+// Column names match the import's field names, so an exported file maps itself on re-import
+export const QUESTION_EXPORT_COLUMNS: QuestionImportField[] = [
+  'id',
+  'book_of_bible',
+  'chapter',
+  'verse_start',
+  'verse_end',
+  'question',
+  'answer',
+  'points',
+  'time_to_answer',
+  'tier',
+];
+
+const toCsvCell = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Sort questions in Bible order: by book, chapter and then verse
+ * @param questions - Questions to sort
+ * @returns New array in reading order
+ */
+export function sortQuestionsByReference<T extends Pick<Question, 'book_of_bible' | 'chapter' | 'verse_start' | 'verse_end'>>(questions: T[]): T[] {
+  const bookIndex = (book: string) => {
+    const index = bibleBooks.indexOf(book);
+    return index === -1 ? bibleBooks.length : index;
+  };
+
+  return [...questions].sort((a, b) =>
+    bookIndex(a.book_of_bible) - bookIndex(b.book_of_bible) ||
+    a.book_of_bible.localeCompare(b.book_of_bible) ||
+    compareByVerse(a, b)
+  );
+}
+
+/**
+ * CSV export that can be edited in a spreadsheet and imported again as updates
+ * @param questions - Questions to export
+ * @returns CSV text with a header row
+ */
+export function buildQuestionsCsv(questions: Question[]): string {
+  const rows = sortQuestionsByReference(questions).map(question =>
+    QUESTION_EXPORT_COLUMNS.map(column => toCsvCell(question[column])).join(',')
+  );
+  return [QUESTION_EXPORT_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * JSON export for backups. Includes answer parts, which the CSV leaves out.
+ * @param questions - Questions to export
+ * @returns Pretty-printed JSON array
+ */
+export function buildQuestionsJson(questions: Question[]): string {
+  const items = sortQuestionsByReference(questions).map(question => ({
+    ...Object.fromEntries(QUESTION_EXPORT_COLUMNS.map(column => [column, question[column] ?? null])),
+    answer_components: question.answer_components ?? null,
+  }));
+  return JSON.stringify(items, null, 2);
+}
+
+/**
+ * Printable study guide with questions and answers grouped by book and chapter
+ * @param title - Heading for the guide
+ * @param questions - Questions to include
+ * @returns Complete HTML document
+ */
+export function buildStudyGuideHtml(title: string, questions: Question[]): string {
+  const sections: string[] = [];
+  let currentBook = '';
+  let currentChapter = 0;
+  let items: string[] = [];
+
+  const closeChapter = () => {
+    if (items.length > 0) sections.push(`<ol>${items.join('')}\n    </ol>`);
+    items = [];
+  };
+
+  sortQuestionsByReference(questions).forEach(question => {
+    if (question.book_of_bible !== currentBook) {
+      closeChapter();
+      currentBook = question.book_of_bible;
+      currentChapter = 0;
+      sections.push(`<h2>${escapeHtml(currentBook)}</h2>`);
+    }
+    if (question.chapter !== currentChapter) {
+      closeChapter();
+      currentChapter = question.chapter;
+      sections.push(`<h3>Chapter ${currentChapter}</h3>`);
+    }
+
+    const verses = formatVerseRange(question);
+    items.push(`
+      <li>
+        <span class="meta">${verses ? `v. ${verses} &middot; ` : ''}${question.points} pts</span>
+        <div class="question">${escapeHtml(question.question)}</div>
+        <div class="answer">${escapeHtml(question.answer)}</div>
+      </li>`);
+  });
+  closeChapter();
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    @page { margin: 0.75in; }
+    body { font-family: Georgia, 'Times New Roman', serif; color: #111; font-size: 12pt; line-height: 1.4; }
+    h1 { font-size: 18pt; margin: 0 0 4px; }
+    .summary { margin: 0 0 16px; color: #444; border-bottom: 2px solid #111; padding-bottom: 8px; }
+    h2 { font-size: 16pt; margin: 24px 0 0; page-break-after: avoid; break-after: avoid; }
+    h2 ~ h2 { page-break-before: always; break-before: page; }
+    h3 { font-size: 13pt; margin: 16px 0 4px; color: #333; page-break-after: avoid; break-after: avoid; }
+    ol { padding-left: 24px; margin: 0; }
+    li { margin-bottom: 12px; page-break-inside: avoid; break-inside: avoid; }
+    .meta { float: right; margin-left: 12px; color: #444; font-size: 10pt; }
+    .answer { margin-top: 2px; color: #333; font-style: italic; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="summary">${questions.length} questions</p>
+  ${sections.join('\n  ')}
+</body>
+</html>`;
+}
+
+/**
+ * File name for an export, e.g. "questions-daniel-2025-10-01.csv"
+ * @param label - What was exported, such as the filtered book
+ * @param extension - File extension without the dot
+ * @param date - Export date
+ * @returns Safe file name
+ */
+export function getQuestionExportFileName(label: string, extension: string, date: Date = new Date()): string {
+  const slug = label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `questions${slug ? `-${slug}` : ''}-${date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+/**
+ * Save generated text as a file in the browser
+ * @param content - File contents
+ * @param fileName - Name to save as
+ * @param type - MIME type
+ */
+export function downloadTextFile(content: string, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
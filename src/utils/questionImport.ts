@@ -0,0 +1,277 @@
+import { Question } from '../types';
+import { bibleBooks } from '../constants/bibleBooks';
+import { validateVerseRange } from './verseReferences';
+
+export type QuestionImportData = Omit<Question, 'id' | 'created_at' | 'updated_at' | 'created_by'>;
+
+export type QuestionImportField =
+  | 'id'
+  | 'book_of_bible'
+  | 'chapter'
+  | 'verse_start'
+  | 'verse_end'
+  | 'question'
+  | 'answer'
+  | 'points'
+  | 'time_to_answer'
+  | 'tier';
+
+// Column in the uploaded file for each question field; '' when not mapped
+export type ImportColumnMapping = Record<QuestionImportField, string>;
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+export interface QuestionImportRow {
+  // Row number as seen in the file, counting a CSV header row
+  rowNumber: number;
+  data: QuestionImportData | null;
+  // Set when the row updates an existing question instead of adding one
+  questionId: string | null;
+  // An update that matches the question as it already is
+  unchanged: boolean;
+  errors: string[];
+  // 'existing' for a question already in the bank, or the row number of an earlier row in the file
+  duplicateOf: 'existing' | number | null;
+}
+
+export const QUESTION_IMPORT_FIELDS: { field: QuestionImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'id', label: 'Question ID (for updates)', required: false, aliases: ['question id', 'uuid'] },
+  { field: 'book_of_bible', label: 'Book', required: true, aliases: ['book', 'book of bible', 'bible book'] },
+  { field: 'chapter', label: 'Chapter', required: true, aliases: ['ch', 'chap'] },
+  { field: 'verse_start', label: 'Verse / First Verse', required: false, aliases: ['verse', 'verses', 'start verse', 'first verse'] },
+  { field: 'verse_end', label: 'Last Verse', required: false, aliases: ['end verse', 'last verse', 'to verse'] },
+  { field: 'question', label: 'Question', required: true, aliases: ['question text', 'q'] },
+  { field: 'answer', label: 'Answer', required: true, aliases: ['answer text', 'a'] },
+  { field: 'points', label: 'Points', required: false, aliases: ['pts', 'point value'] },
+  { field: 'time_to_answer', label: 'Time (seconds)', required: false, aliases: ['time', 'seconds', 'time limit'] },
+  { field: 'tier', label: 'Tier', required: false, aliases: ['plan', 'level'] },
+];
+
+// Used when a column is not mapped or a cell is empty, matching the question form
+export const IMPORT_DEFAULTS = {
+  points: 10,
+  time_to_answer: 30,
+  tier: 'free' as Question['tier'],
+};
+
+const MAX_CHAPTER = 150;
+// Matches the length checks on the questions table
+const QUESTION_LENGTH = { min: 10, max: 1000 };
+const MAX_ANSWER_LENGTH = 2000;
+const TIERS: Question['tier'][] = ['free', 'pro', 'enterprise'];
+
+const normalizeHeader = (header: string): string =>
+  header.trim().toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ');
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with commas, line
+ * breaks and doubled quotes, as exported by spreadsheet apps.
+ * @param text - CSV file contents
+ * @returns Rows of cell values, without blank lines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Read an uploaded question file into rows keyed by column name
+ * @param text - File contents
+ * @param fileName - Name of the file, used to tell JSON from CSV
+ * @returns Column names and rows
+ * @throws Error when a JSON file isn't an array of question objects
+ */
+export function parseQuestionFile(text: string, fileName: string): ParsedImportFile {
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const parsed = JSON.parse(text);
+    const items = Array.isArray(parsed) ? parsed : parsed?.questions;
+    if (!Array.isArray(items) || items.some(item => !item || typeof item !== 'object')) {
+      throw new Error('JSON files must contain an array of question objects');
+    }
+
+    const headers = [...new Set(items.flatMap(item => Object.keys(item)))];
+    const rows = items.map(item =>
+      Object.fromEntries(headers.map(header => [header, item[header] === null || item[header] === undefined ? '' : String(item[header])]))
+    );
+    return { headers, rows };
+  }
+
+  const [headerRow, ...dataRows] = parseCsv(text);
+  if (!headerRow) return { headers: [], rows: [] };
+
+  const headers = headerRow.map(header => header.trim());
+  const rows = dataRows.map(cells => Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? ''])));
+  return { headers, rows };
+}
+
+/**
+ * Match file columns to question fields by name
+ * @param headers - Column names from the file
+ * @returns Mapping with '' for fields no column matched
+ */
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping = {} as ImportColumnMapping;
+
+  QUESTION_IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const names = [normalizeHeader(field), ...aliases];
+    mapping[field] = headers.find(header => names.includes(normalizeHeader(header))) || '';
+  });
+
+  return mapping;
+}
+
+/**
+ * Key used to spot the same question asked twice in a chapter
+ * @param question - Question with book, chapter and text
+ * @returns Key that ignores case, punctuation and spacing
+ */
+export function getQuestionDuplicateKey(question: Pick<Question, 'book_of_bible' | 'chapter' | 'question'>): string {
+  const text = question.question.toLowerCase().replace(/[^a-z0-9\s]/g, '').replace(/\s+/g, ' ').trim();
+  return `${question.book_of_bible.toLowerCase()}|${question.chapter}|${text}`;
+}
+
+// NaN for anything but digits, so "12abc" or "1.5" fail validation
+const parseWholeNumber = (value: string): number => (/^\d+$/.test(value) ? parseInt(value, 10) : NaN);
+
+const isSameQuestion = (data: QuestionImportData, existing: Question): boolean =>
+  data.book_of_bible === existing.book_of_bible &&
+  data.chapter === existing.chapter &&
+  data.verse_start === (existing.verse_start ?? null) &&
+  data.verse_end === (existing.verse_end ?? null) &&
+  data.question === existing.question &&
+  data.answer === existing.answer &&
+  data.points === existing.points &&
+  data.time_to_answer === existing.time_to_answer &&
+  data.tier === existing.tier;
+
+/**
+ * Validate each row of an import without saving anything. Rows with a question
+ * ID update that question, so an exported file can be edited and imported again.
+ * @param rows - Rows read from the file
+ * @param mapping - Column for each question field
+ * @param existingQuestions - Question bank, for updates and duplicate checks
+ * @param firstRowNumber - Number shown for the first row; 2 for CSV files, where row 1 is the header
+ * @returns One result per row, with the question to insert when the row is valid
+ */
+export function validateImportRows(
+  rows: Record<string, string>[],
+  mapping: ImportColumnMapping,
+  existingQuestions: Question[],
+  firstRowNumber = 2
+): QuestionImportRow[] {
+  const existingById = new Map(existingQuestions.map(question => [question.id, question]));
+  const existingKeys = new Map(existingQuestions.map(question => [getQuestionDuplicateKey(question), question.id]));
+  const fileKeys = new Map<string, number>();
+  const fileIds = new Map<string, number>();
+
+  return rows.map((row, index) => {
+    const rowNumber = index + firstRowNumber;
+    const errors: string[] = [];
+    const cell = (field: QuestionImportField) => (mapping[field] ? (row[mapping[field]] || '').trim() : '');
+
+    const questionId = cell('id') || null;
+    const existing = questionId ? existingById.get(questionId) : undefined;
+    if (questionId && !existing) errors.push(`No question has the ID ${questionId}`);
+    if (questionId && fileIds.has(questionId)) errors.push(`Row ${fileIds.get(questionId)} already updates this question`);
+    if (questionId && !fileIds.has(questionId)) fileIds.set(questionId, rowNumber);
+
+    const bookCell = cell('book_of_bible').replace(/\s+/g, ' ');
+    const book = bibleBooks.find(name => name.toLowerCase() === bookCell.toLowerCase());
+    if (!bookCell) errors.push('Book is missing');
+    else if (!book) errors.push(`"${bookCell}" is not a book of the Bible`);
+
+    const chapter = parseWholeNumber(cell('chapter'));
+    if (!cell('chapter')) errors.push('Chapter is missing');
+    else if (!chapter || chapter < 1 || chapter > MAX_CHAPTER) errors.push(`Chapter must be a whole number from 1 to ${MAX_CHAPTER}`);
+
+    // A single verse column may hold a range such as "4-7"
+    const verseCell = cell('verse_start');
+    const verseRange = verseCell.match(/^(\d+)\s*[-–]\s*(\d+)$/);
+    const verseStart = verseRange ? parseInt(verseRange[1], 10) : verseCell ? parseWholeNumber(verseCell) : null;
+    const verseEnd = verseRange ? parseInt(verseRange[2], 10) : cell('verse_end') ? parseWholeNumber(cell('verse_end')) : null;
+    const verseError = Number.isNaN(verseStart) || Number.isNaN(verseEnd)
+      ? 'Verses must be whole numbers'
+      : validateVerseRange(verseStart, verseEnd);
+    if (verseError) errors.push(verseError);
+
+    const question = cell('question');
+    const answer = cell('answer');
+    if (!question) errors.push('Question is missing');
+    else if (question.length < QUESTION_LENGTH.min || question.length > QUESTION_LENGTH.max) {
+      errors.push(`Question must be ${QUESTION_LENGTH.min} to ${QUESTION_LENGTH.max} characters`);
+    }
+    if (!answer) errors.push('Answer is missing');
+    else if (answer.length > MAX_ANSWER_LENGTH) errors.push(`Answer must be at most ${MAX_ANSWER_LENGTH} characters`);
+
+    const points = cell('points') ? parseWholeNumber(cell('points')) : IMPORT_DEFAULTS.points;
+    if (!points || points < 1 || points > 100) errors.push('Points must be a whole number from 1 to 100');
+
+    const timeToAnswer = cell('time_to_answer') ? parseWholeNumber(cell('time_to_answer')) : IMPORT_DEFAULTS.time_to_answer;
+    if (!timeToAnswer || timeToAnswer < 10 || timeToAnswer > 300) errors.push('Time must be from 10 to 300 seconds');
+
+    const tier = (cell('tier').toLowerCase() || IMPORT_DEFAULTS.tier) as Question['tier'];
+    if (!TIERS.includes(tier)) errors.push(`Tier must be ${TIERS.join(', ')}`);
+
+    if (errors.length > 0) {
+      return { rowNumber, data: null, questionId, unchanged: false, errors, duplicateOf: null };
+    }
+
+    const data: QuestionImportData = {
+      book_of_bible: book!,
+      chapter: chapter!,
+      verse_start: verseStart,
+      verse_end: verseStart !== null ? verseEnd ?? verseStart : null,
+      question,
+      answer,
+      points: points!,
+      time_to_answer: timeToAnswer!,
+      tier,
+    };
+
+    // An update isn't a duplicate of the question it updates
+    const key = getQuestionDuplicateKey(data);
+    const matchesExisting = existingKeys.has(key) && existingKeys.get(key) !== questionId;
+    const duplicateOf = matchesExisting ? 'existing' : fileKeys.get(key) ?? null;
+    if (!fileKeys.has(key)) fileKeys.set(key, rowNumber);
+
+    return { rowNumber, data, questionId, unchanged: !!existing && isSameQuestion(data, existing), errors, duplicateOf };
+  });
+}
@@ -0,0 +1,104 @@
+import { Question, QuestionRevision, QuestionRevisionField } from '../types';
+
+export interface RevisionChange {
+  field: QuestionRevisionField;
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface RevisionAttemptSummary {
+  revision: number;
+  attempts: number;
+  correctAttempts: number;
+  accuracyRate: number;
+  isCurrent: boolean;
+}
+
+// In the order changes are listed in the history panel
+export const QUESTION_REVISION_FIELDS: { field: QuestionRevisionField; label: string }[] = [
+  { field: 'question', label: 'Question' },
+  { field: 'answer', label: 'Answer' },
+  { field: 'answer_components', label: 'Answer parts' },
+  { field: 'book_of_bible', label: 'Book' },
+  { field: 'chapter', label: 'Chapter' },
+  { field: 'verse_start', label: 'First verse' },
+  { field: 'verse_end', label: 'Last verse' },
+  { field: 'points', label: 'Points' },
+  { field: 'time_to_answer', label: 'Time (seconds)' },
+  { field: 'tier', label: 'Tier' },
+];
+
+/**
+ * Show a revision field as text for a diff
+ * @param revision - Revision or question holding the field
+ * @param field - Field to show
+ * @returns Readable value; empty when the field is not set
+ */
+export function formatRevisionValue(revision: Pick<Question, QuestionRevisionField>, field: QuestionRevisionField): string {
+  if (field === 'answer_components') {
+    return (revision.answer_components || []).map(component => `${component.text} (${component.points})`).join('; ');
+  }
+
+  const value = revision[field];
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Field-level changes made by a revision
+ * @param revision - Revision to describe
+ * @param previous - Revision before it, if loaded
+ * @returns One change per edited field; empty for the first revision
+ */
+export function getRevisionChanges(revision: QuestionRevision, previous?: QuestionRevision): RevisionChange[] {
+  return QUESTION_REVISION_FIELDS
+    .filter(({ field }) => revision.changed_fields.includes(field))
+    .map(({ field, label }) => ({
+      field,
+      label,
+      before: previous ? formatRevisionValue(previous, field) : '',
+      after: formatRevisionValue(revision, field),
+    }));
+}
+
+/**
+ * Fields to save to put a question back the way it was at a revision
+ * @param revision - Revision to revert to
+ * @returns Update for the question
+ */
+export function getRevertUpdate(revision: QuestionRevision): Pick<Question, QuestionRevisionField> {
+  return Object.fromEntries(
+    QUESTION_REVISION_FIELDS.map(({ field }) => [field, revision[field] ?? null])
+  ) as Pick<Question, QuestionRevisionField>;
+}
+
+/**
+ * Accuracy for each revision of a question that members answered
+ * @param logs - Logged attempts at one question
+ * @param currentRevision - Question's current revision
+ * @returns One summary per revision, newest first. Logs without a revision count as revision 1.
+ */
+export function summarizeAttemptsByRevision(
+  logs: { question_revision?: number | null; is_correct: boolean }[],
+  currentRevision: number
+): RevisionAttemptSummary[] {
+  const byRevision = new Map<number, { attempts: number; correct: number }>();
+
+  logs.forEach(log => {
+    const revision = log.question_revision ?? 1;
+    const stats = byRevision.get(revision) || { attempts: 0, correct: 0 };
+    stats.attempts++;
+    if (log.is_correct) stats.correct++;
+    byRevision.set(revision, stats);
+  });
+
+  return Array.from(byRevision.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([revision, stats]) => ({
+      revision,
+      attempts: stats.attempts,
+      correctAttempts: stats.correct,
+      accuracyRate: Math.round((stats.correct / stats.attempts) * 100),
+      isCurrent: revision === currentRevision,
+    }));
+}
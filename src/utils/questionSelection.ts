@@ -0,0 +1,159 @@
+import { Question, QuickStartStrategy } from '../types';
+
+/**
+ * Weighted question selection for Quick Start, driven by a member's quiz_question_logs history
+ */
+
+// Days after a question was last attempted before it counts as fresh again
+export const RECENCY_FULL_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface QuestionAttempt {
+  question_id: string;
+  points_earned: number;
+  total_points_possible: number;
+  answered_at: string;
+}
+
+export interface QuestionWeightFactors {
+  // Past accuracy for the question's chapter, 0 to 1
+  accuracy: number;
+  // Question difficulty relative to the pool, 0 (easiest) to 1 (hardest)
+  difficulty: number;
+  // How long since the question was last attempted, 0 (just now) to 1 (never or long ago)
+  recency: number;
+}
+
+export interface SelectionOptions {
+  now?: Date;
+  random?: () => number;
+}
+
+/**
+ * Key used to group questions by chapter
+ * @param question - Question with its book and chapter
+ * @returns Key such as "Genesis 3"
+ */
+export function getChapterKey(question: Pick<Question, 'book_of_bible' | 'chapter'>): string {
+  return `${question.book_of_bible} ${question.chapter}`;
+}
+
+/**
+ * Work out a member's accuracy per chapter. Accuracy is smoothed toward 50% so a
+ * chapter with one missed question isn't treated as a total weak spot, and chapters
+ * with no history sit in the middle.
+ * @param questions - Question bank, used to find each logged question's chapter
+ * @param attempts - Logged answers
+ * @returns Accuracy from 0 to 1 keyed by chapter
+ */
+export function buildChapterAccuracy(questions: Question[], attempts: QuestionAttempt[]): Map<string, number> {
+  const chapterByQuestion = new Map(questions.map(q => [q.id, getChapterKey(q)]));
+  const totals = new Map<string, { earned: number; possible: number }>();
+
+  attempts.forEach(attempt => {
+    const chapter = chapterByQuestion.get(attempt.question_id);
+    if (!chapter) return;
+
+    const total = totals.get(chapter) || { earned: 0, possible: 0 };
+    total.earned += Number(attempt.points_earned) || 0;
+    total.possible += Number(attempt.total_points_possible) || 0;
+    totals.set(chapter, total);
+  });
+
+  const accuracy = new Map<string, number>();
+  totals.forEach((total, chapter) => {
+    accuracy.set(chapter, (total.earned + 1) / (total.possible + 2));
+  });
+  return accuracy;
+}
+
+/**
+ * Weight a question for a strategy. Higher weights are more likely to be picked.
+ * @param strategy - Selection strategy
+ * @param factors - Accuracy, difficulty and recency for the question
+ * @returns Positive weight
+ */
+export function calculateQuestionWeight(strategy: QuickStartStrategy, factors: QuestionWeightFactors): number {
+  switch (strategy) {
+    case 'weak-areas':
+      return 0.1 + 2 * (1 - factors.accuracy) + 0.5 * factors.difficulty + 0.5 * factors.recency;
+    case 'balanced':
+      return 0.25 + factors.recency;
+    default:
+      return 1;
+  }
+}
+
+// Weighted random order without replacement: each item gets random^(1/weight) and
+// the largest keys come first, so heavier items tend to lead
+function weightedShuffle<T>(items: T[], getWeight: (item: T) => number, random: () => number): T[] {
+  return items
+    .map(item => ({ item, key: Math.pow(random(), 1 / Math.max(getWeight(item), 0.0001)) }))
+    .sort((a, b) => b.key - a.key)
+    .map(entry => entry.item);
+}
+
+/**
+ * Pick Quick Start questions for a member
+ * @param questions - Questions the member can access
+ * @param attempts - The member's logged answers
+ * @param strategy - Selection strategy
+ * @param count - Most questions to pick
+ * @param options - Clock and random source, for tests
+ * @returns Selected questions in the order they should be asked
+ */
+export function selectQuickStartQuestions(
+  questions: Question[],
+  attempts: QuestionAttempt[],
+  strategy: QuickStartStrategy,
+  count: number,
+  { now = new Date(), random = Math.random }: SelectionOptions = {}
+): Question[] {
+  if (strategy === 'random') {
+    return weightedShuffle(questions, () => 1, random).slice(0, count);
+  }
+
+  const chapterAccuracy = buildChapterAccuracy(questions, attempts);
+  const lastAttemptTimes = new Map<string, number>();
+  attempts.forEach(attempt => {
+    const answeredAt = new Date(attempt.answered_at).getTime();
+    if (answeredAt > (lastAttemptTimes.get(attempt.question_id) || 0)) {
+      lastAttemptTimes.set(attempt.question_id, answeredAt);
+    }
+  });
+
+  // Point values reflect difficulty
+  const points = questions.map(q => Number(q.points) || 0);
+  const minPoints = Math.min(...points);
+  const maxPoints = Math.max(...points);
+
+  const getWeight = (question: Question) => {
+    const lastAttemptAt = lastAttemptTimes.get(question.id);
+    return calculateQuestionWeight(strategy, {
+      accuracy: chapterAccuracy.get(getChapterKey(question)) ?? 0.5,
+      difficulty: maxPoints > minPoints ? ((Number(question.points) || 0) - minPoints) / (maxPoints - minPoints) : 0.5,
+      recency: lastAttemptAt === undefined ? 1 : Math.min(1, (now.getTime() - lastAttemptAt) / (RECENCY_FULL_DAYS * DAY_MS)),
+    });
+  };
+
+  const ordered = weightedShuffle(questions, getWeight, random);
+  if (strategy === 'weak-areas') return ordered.slice(0, count);
+
+  // Balanced coverage takes one question from each chapter in turn
+  const byChapter = new Map<string, Question[]>();
+  ordered.forEach(question => {
+    const chapter = getChapterKey(question);
+    byChapter.set(chapter, [...(byChapter.get(chapter) || []), question]);
+  });
+
+  const chapterQueues = weightedShuffle(Array.from(byChapter.values()), () => 1, random);
+  const selected: Question[] = [];
+  while (selected.length < count && chapterQueues.some(queue => queue.length > 0)) {
+    chapterQueues.forEach(queue => {
+      const next = queue.shift();
+      if (next && selected.length < count) selected.push(next);
+    });
+  }
+  return selected;
+}
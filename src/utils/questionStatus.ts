@@ -0,0 +1,57 @@
+import { Question, QuestionStatus } from '../types';
+
+export const QUESTION_STATUS_LABELS: Record<QuestionStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  published: 'Published',
+  retired: 'Retired',
+};
+
+export interface QuestionStatusAction {
+  status: QuestionStatus;
+  label: string;
+}
+
+/**
+ * Questions saved before the review workflow have no status and count as published
+ * @param question - Question to check
+ * @returns The question's workflow status
+ */
+export function getQuestionStatus(question: Pick<Question, 'status'>): QuestionStatus {
+  return question.status ?? 'published';
+}
+
+/**
+ * Whether a question can be picked for a new quiz, study assignment or flashcard deck.
+ * Retired questions stay in the bank for past results and analytics only.
+ * @param question - Question to check
+ * @returns True for published questions
+ */
+export function isQuestionPublished(question: Pick<Question, 'status'>): boolean {
+  return getQuestionStatus(question) === 'published';
+}
+
+/**
+ * Status changes offered for a question, matching what the database allows
+ * @param status - Question's current status
+ * @param canReview - Whether the user is a question reviewer
+ * @returns Actions in the order they should be shown
+ */
+export function getQuestionStatusActions(status: QuestionStatus, canReview: boolean): QuestionStatusAction[] {
+  switch (status) {
+    case 'draft':
+      return canReview
+        ? [{ status: 'published', label: 'Publish' }, { status: 'in_review', label: 'Submit for review' }]
+        : [{ status: 'in_review', label: 'Submit for review' }];
+    case 'in_review':
+      return canReview
+        ? [{ status: 'published', label: 'Approve' }, { status: 'draft', label: 'Send back' }]
+        : [{ status: 'draft', label: 'Withdraw' }];
+    case 'published':
+      return canReview ? [{ status: 'retired', label: 'Retire' }] : [];
+    case 'retired':
+      return canReview ? [{ status: 'published', label: 'Restore' }] : [];
+    default:
+      return [];
+  }
+}
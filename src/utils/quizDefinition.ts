@@ -0,0 +1,71 @@
+import { Question, QuizDefinition } from '../types';
+import { seededShuffle } from './seededShuffle';
+import { compareByVerse, questionMatchesVerses } from './verseReferences';
+
+// Share codes are short enough to write on a whiteboard, e.g. "K7F2"
+export const SHARE_CODE_LENGTH = 4;
+
+const TIER_ORDER: Question['tier'][] = ['free', 'pro', 'enterprise'];
+
+/**
+ * Tiers included with a subscription plan, matching getAccessibleQuestions
+ * @param plan - Subscription plan
+ * @returns Tiers the plan can access
+ */
+export function getTiersForPlan(plan: Question['tier'] = 'free'): Question['tier'][] {
+  return TIER_ORDER.slice(0, TIER_ORDER.indexOf(plan) + 1);
+}
+
+/**
+ * Regenerate a quiz's questions. Questions are ordered by id before shuffling so
+ * the result doesn't depend on the order the question bank was loaded in.
+ * @param questions - Question bank
+ * @param definition - Filters, seed, count and ordering
+ * @returns Questions in the order they should be asked
+ */
+export function buildQuestionsFromDefinition(questions: Question[], definition: QuizDefinition): Question[] {
+  const entriesByBook = new Map(definition.chapters.map(entry => [entry.book, entry]));
+  const bookOrder = definition.chapters.map(entry => entry.book);
+
+  const pool = questions
+    .filter(q => definition.tiers.includes(q.tier))
+    .filter(q => {
+      if (entriesByBook.size === 0) return true;
+      const entry = entriesByBook.get(q.book_of_bible);
+      if (!entry || !entry.chapters.includes(q.chapter)) return false;
+      return !entry.verses || entry.verses.length === 0 || questionMatchesVerses(q, entry.verses);
+    })
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+
+  const selected = seededShuffle(pool, definition.seed).slice(0, definition.count);
+  if (definition.ordering !== 'reference') return selected;
+
+  // The shuffle still decides which questions are drawn, only the order changes
+  return selected.sort((a, b) =>
+    bookOrder.indexOf(a.book_of_bible) - bookOrder.indexOf(b.book_of_bible) ||
+    compareByVerse(a, b) ||
+    (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+}
+
+/**
+ * Put the questions loaded for a shared quiz back in the order they were saved in
+ * @param questions - Questions read for the shared quiz, in any order
+ * @param questionIds - Ids saved with the share code, in the order they are asked
+ * @returns Questions in order, or null when any of them couldn't be read
+ */
+export function orderSharedQuizQuestions(questions: Question[], questionIds: string[]): Question[] | null {
+  const questionsById = new Map(questions.map(question => [question.id, question]));
+  const ordered = questionIds.map(id => questionsById.get(id));
+  return ordered.every((question): question is Question => !!question) ? ordered : null;
+}
+
+/**
+ * Tiers a shared quiz draws from that a member can't access
+ * @param definition - Shared quiz definition
+ * @param accessibleTiers - Tiers the member can access
+ * @returns Missing tiers; empty when the member gets exactly the same questions
+ */
+export function getMissingTiers(definition: QuizDefinition, accessibleTiers: string[]): Question['tier'][] {
+  return definition.tiers.filter(tier => !accessibleTiers.includes(tier));
+}
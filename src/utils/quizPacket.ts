@@ -0,0 +1,180 @@
+import { Question, QuizSession, StudyItem } from '../types';
+import { formatStudyItemsForAssignment } from './quizHelpers';
+import { getQuestionTimeLimit } from './timerModes';
+import { formatQuestionReference } from './verseReferences';
+
+export interface QuizPacketQuestion {
+  number: number;
+  question: string;
+  answer: string;
+  points: number;
+  timeSeconds: number;
+  reference: string;
+}
+
+// Everything printed in a paper practice packet
+export interface QuizPacket {
+  title: string;
+  // Books and chapters the questions cover, formatted like study assignments
+  coverage: string;
+  questions: QuizPacketQuestion[];
+  totalPoints: number;
+}
+
+/**
+ * Books and chapters covered by a set of questions, in the order they first appear
+ * @param questions - Questions in the packet
+ * @returns Study items with each book's chapters sorted
+ */
+export function getStudyItemsForQuestions(questions: Pick<Question, 'book_of_bible' | 'chapter'>[]): StudyItem[] {
+  const chaptersByBook = new Map<string, Set<number>>();
+
+  questions.forEach(question => {
+    const chapters = chaptersByBook.get(question.book_of_bible) || new Set<number>();
+    chapters.add(question.chapter);
+    chaptersByBook.set(question.book_of_bible, chapters);
+  });
+
+  return Array.from(chaptersByBook.entries()).map(([book, chapters]) => ({
+    book,
+    chapters: Array.from(chapters).sort((a, b) => a - b),
+  }));
+}
+
+/**
+ * Number the questions for a printed packet
+ * @param title - Packet title
+ * @param questions - Questions in the order they will be asked
+ * @param timer - Timer fields of the session the questions came from, so adjusted times are printed
+ * @returns Packet ready to render as HTML or PDF
+ */
+export function buildQuizPacket(
+  title: string,
+  questions: Question[],
+  timer: Pick<QuizSession, 'timer_mode' | 'timer_multiplier' | 'sprint_seconds'> = {}
+): QuizPacket {
+  return {
+    title,
+    coverage: formatStudyItemsForAssignment(getStudyItemsForQuestions(questions)),
+    questions: questions.map((question, index) => ({
+      number: index + 1,
+      question: question.question,
+      answer: question.answer,
+      points: Number(question.points) || 0,
+      timeSeconds: getQuestionTimeLimit(question, timer),
+      reference: formatQuestionReference(question),
+    })),
+    totalPoints: questions.reduce((sum, question) => sum + (Number(question.points) || 0), 0),
+  };
+}
+
+/**
+ * Escape text for use in generated HTML
+ * @param text - Plain text
+ * @returns Text safe to place in element content or attributes
+ */
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatPoints = (points: number): string => `${points} pt${points !== 1 ? 's' : ''}`;
+
+/**
+ * Print-optimized HTML document with the questions, an answer sheet and an answer key,
+ * each starting on a new page
+ * @param packet - Packet to render
+ * @returns Complete HTML document
+ */
+export function buildQuizPacketHtml(packet: QuizPacket): string {
+  const title = escapeHtml(packet.title);
+  const summary = `${escapeHtml(packet.coverage)} &middot; ${packet.questions.length} questions &middot; ${formatPoints(packet.totalPoints)}`;
+  const header = (section: string) => `
+    <header>
+      <h1>${title}</h1>
+      <p class="summary">${summary}</p>
+      <h2>${section}</h2>
+    </header>`;
+
+  const questionItems = packet.questions.map(q => `
+      <li>
+        <span class="meta">${formatPoints(q.points)} &middot; ${q.timeSeconds}s</span>
+        ${escapeHtml(q.question)}
+      </li>`).join('');
+
+  const answerSheetRows = packet.questions.map(q => `
+        <tr>
+          <td class="number">${q.number}.</td>
+          <td class="line"></td>
+          <td class="score">____ / ${q.points}</td>
+        </tr>`).join('');
+
+  const answerKeyRows = packet.questions.map(q => `
+        <tr>
+          <td class="number">${q.number}.</td>
+          <td>${escapeHtml(q.answer)}</td>
+          <td class="reference">${escapeHtml(q.reference)}</td>
+          <td class="score">${formatPoints(q.points)}</td>
+        </tr>`).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${title}</title>
+  <style>
+    @page { margin: 0.75in; }
+    body { font-family: Georgia, 'Times New Roman', serif; color: #111; font-size: 12pt; line-height: 1.4; }
+    header { border-bottom: 2px solid #111; margin-bottom: 16px; padding-bottom: 8px; }
+    h1 { font-size: 18pt; margin: 0; }
+    h2 { font-size: 14pt; margin: 8px 0 0; text-transform: uppercase; letter-spacing: 0.05em; }
+    .summary { margin: 4px 0 0; color: #444; }
+    .name { margin: 12px 0 0; }
+    section + section { page-break-before: always; break-before: page; }
+    ol { padding-left: 24px; }
+    li { margin-bottom: 14px; page-break-inside: avoid; break-inside: avoid; }
+    .meta { float: right; margin-left: 12px; color: #444; font-size: 10pt; }
+    table { width: 100%; border-collapse: collapse; }
+    tr { page-break-inside: avoid; break-inside: avoid; }
+    td { padding: 10px 6px; vertical-align: bottom; }
+    td.number { width: 32px; text-align: right; }
+    td.line { border-bottom: 1px solid #999; }
+    td.score { width: 90px; text-align: right; white-space: nowrap; }
+    td.reference { width: 120px; color: #444; white-space: nowrap; }
+    .key td { border-bottom: 1px solid #ddd; vertical-align: top; }
+  </style>
+</head>
+<body>
+  <section>
+    ${header('Questions')}
+    <ol>${questionItems}
+    </ol>
+  </section>
+  <section>
+    ${header('Answer Sheet')}
+    <p class="name">Name: ______________________________ &nbsp; Date: ______________ &nbsp; Score: ______ / ${packet.totalPoints}</p>
+    <table>${answerSheetRows}
+    </table>
+  </section>
+  <section>
+    ${header('Answer Key')}
+    <table class="key">${answerKeyRows}
+    </table>
+  </section>
+</body>
+</html>`;
+}
+
+/**
+ * File name for a downloaded packet, based on its title
+ * @param packet - Packet being downloaded
+ * @param extension - File extension without the dot
+ * @returns Safe file name
+ */
+export function getQuizPacketFileName(packet: QuizPacket, extension: string): string {
+  const slug = packet.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'quiz'}-packet.${extension}`;
+}
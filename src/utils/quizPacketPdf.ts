@@ -0,0 +1,102 @@
+import type { jsPDF } from 'jspdf';
+import { QuizPacket, getQuizPacketFileName } from './quizPacket';
+
+const PAGE_MARGIN = 54;
+const LINE_HEIGHT = 16;
+
+// Writes top to bottom, starting a new page whenever the next block won't fit
+class PacketWriter {
+  private y = PAGE_MARGIN;
+
+  constructor(private doc: jsPDF) {}
+
+  get width() {
+    return this.doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.doc.internal.pageSize.getHeight() - PAGE_MARGIN) {
+      this.doc.addPage();
+      this.y = PAGE_MARGIN;
+    }
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.y = PAGE_MARGIN;
+  }
+
+  header(packet: QuizPacket, section: string) {
+    this.doc.setFont('times', 'bold').setFontSize(18);
+    this.doc.text(packet.title, PAGE_MARGIN, this.y + 12);
+    this.y += 28;
+    this.doc.setFont('times', 'normal').setFontSize(11);
+    this.doc.text(`${packet.coverage} · ${packet.questions.length} questions · ${packet.totalPoints} pts`, PAGE_MARGIN, this.y);
+    this.y += 20;
+    this.doc.setFont('times', 'bold').setFontSize(13);
+    this.doc.text(section.toUpperCase(), PAGE_MARGIN, this.y);
+    this.y += 8;
+    this.doc.setLineWidth(1.5).line(PAGE_MARGIN, this.y, PAGE_MARGIN + this.width, this.y);
+    this.y += 20;
+    this.doc.setFont('times', 'normal').setFontSize(12);
+  }
+
+  // Numbered block of wrapped text with a right-aligned note on the first line
+  numberedBlock(number: number, text: string, note: string, indent = 24) {
+    const noteWidth = this.doc.getTextWidth(note) + 12;
+    const lines: string[] = this.doc.splitTextToSize(text, this.width - indent - noteWidth);
+    this.ensureSpace(lines.length * LINE_HEIGHT + 8);
+
+    this.doc.text(`${number}.`, PAGE_MARGIN + indent - 6, this.y, { align: 'right' });
+    this.doc.text(lines, PAGE_MARGIN + indent, this.y);
+    this.doc.text(note, PAGE_MARGIN + this.width, this.y, { align: 'right' });
+    this.y += lines.length * LINE_HEIGHT + 8;
+  }
+
+  // Numbered blank line to write an answer on
+  answerLine(number: number, points: number) {
+    this.ensureSpace(LINE_HEIGHT * 2);
+    this.y += LINE_HEIGHT;
+    const scoreText = `____ / ${points}`;
+    const scoreWidth = this.doc.getTextWidth(scoreText) + 12;
+    this.doc.text(`${number}.`, PAGE_MARGIN + 18, this.y, { align: 'right' });
+    this.doc.setLineWidth(0.5).line(PAGE_MARGIN + 24, this.y + 2, PAGE_MARGIN + this.width - scoreWidth, this.y + 2);
+    this.doc.text(scoreText, PAGE_MARGIN + this.width, this.y, { align: 'right' });
+    this.y += LINE_HEIGHT;
+  }
+
+  line(text: string) {
+    this.ensureSpace(LINE_HEIGHT);
+    this.doc.text(text, PAGE_MARGIN, this.y);
+    this.y += LINE_HEIGHT;
+  }
+}
+
+/**
+ * Generate the packet as a PDF in the browser and download it
+ * @param packet - Packet to render
+ */
+export async function downloadQuizPacketPdf(packet: QuizPacket): Promise<void> {
+  // Loaded on demand so the PDF library isn't part of every page load
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'pt', format: 'letter' });
+  const writer = new PacketWriter(doc);
+
+  writer.header(packet, 'Questions');
+  packet.questions.forEach(q => {
+    writer.numberedBlock(q.number, q.question, `${q.points} pts · ${q.timeSeconds}s`);
+  });
+
+  writer.newPage();
+  writer.header(packet, 'Answer Sheet');
+  writer.line(`Name: ____________________________   Date: ____________   Score: _____ / ${packet.totalPoints}`);
+  packet.questions.forEach(q => writer.answerLine(q.number, q.points));
+
+  writer.newPage();
+  writer.header(packet, 'Answer Key');
+  packet.questions.forEach(q => {
+    writer.numberedBlock(q.number, q.answer, `${q.reference} · ${q.points} pts`);
+  });
+
+  doc.save(getQuizPacketFileName(packet, 'pdf'));
+}
@@ -1,6 +1,7 @@
-import { Question } from '../types';
-import { Zap, Edit, Calendar, Trophy } from 'lucide-react';
+import { Question, QuizResult, QuizSession } from '../types';
+import { Zap, Edit, Calendar, Trophy, Radio, Medal, Brain, RotateCcw, ClipboardList } from 'lucide-react';
 import { StudyItem } from '../types';
+import { getQuestionVerses, questionMatchesVerses } from './verseReferences';
 
 /**
  * Filters questions based on user's subscription tier access
@@ -91,10 +92,7 @@ export function filterQuestionsByStudyItems(
 
       if (item.verses && item.verses.length > 0) {
         // Filter by specific verses if provided
-        const verseFilteredQuestions = bookChapterQuestions.filter(q => {
-          const questionVerse = q.verse || 1; // Default to verse 1 if not specified
-          return item.verses!.includes(questionVerse);
-        });
+        const verseFilteredQuestions = bookChapterQuestions.filter(q => questionMatchesVerses(q, item.verses!));
 
         developerLog?.(`🔍 filterQuestionsByStudyItems: After verse filtering (verses ${item.verses.join(', ')}): ${verseFilteredQuestions.length} questions`);
         filteredQuestions = [...filteredQuestions, ...verseFilteredQuestions];
@@ -137,13 +135,13 @@ export function getChaptersForBook(book: string, questions: Question[]): number[
  * @param book - Bible book name
  * @param chapter - Chapter number
  * @param questions - Array of questions to search
- * @returns Sorted array of verse numbers
+ * @returns Sorted array of verse numbers covered by at least one question's verse range
  */
 export function getVersesForChapter(book: string, chapter: number, questions: Question[]): number[] {
   const chapterQuestions = questions.filter(q => 
     q.book_of_bible === book && q.chapter === chapter
   );
-  const verses = [...new Set(chapterQuestions.map(q => q.verse || 1))].sort((a, b) => a - b);
+  const verses = [...new Set(chapterQuestions.flatMap(q => getQuestionVerses(q)))].sort((a, b) => a - b);
   return verses;
 }
 
@@ -157,6 +155,62 @@ export function getAvailableBooksFromQuestions(questions: Question[]): string[]
   return books;
 }
 
+/**
+ * Get the questions a member missed or only partially answered in a session
+ * @param session - Quiz session with results
+ * @returns Questions where points earned were below the points possible, in quiz order
+ */
+export function getMissedQuestions(session: Pick<QuizSession, 'questions' | 'results'>): Question[] {
+  const missedIds = new Set(
+    session.results
+      .filter(result => Number(result.pointsEarned) < Number(result.totalPoints))
+      .map(result => result.questionId)
+  );
+  return session.questions.filter(question => missedIds.has(question.id));
+}
+
+/**
+ * Record a graded answer. A question that was already graded (after an undo or a
+ * regrade) keeps its place, log id, answer time and time spent.
+ * @param results - Results recorded so far
+ * @param result - New grade for a question
+ * @returns Results with the grade added or replaced
+ */
+export function upsertQuizResult(results: QuizResult[], result: QuizResult): QuizResult[] {
+  const index = results.findIndex(existing => existing.questionId === result.questionId);
+  if (index === -1) return [...results, result];
+
+  const previous = results[index];
+  const regraded: QuizResult = {
+    ...result,
+    logId: previous.logId || result.logId,
+    answeredAt: previous.answeredAt,
+    timeSpent: previous.timeSpent,
+    regradedAt: result.regradedAt || new Date().toISOString(),
+  };
+
+  return results.map((existing, i) => (i === index ? regraded : existing));
+}
+
+/**
+ * Follow retry links back to the original session
+ * @param sessions - The member's quiz sessions
+ * @param sessionId - Session to start from
+ * @returns Sessions in the retry chain, original first and the given session last
+ */
+export function getRetryChain(sessions: QuizSession[], sessionId: string): QuizSession[] {
+  const sessionsById = new Map(sessions.map(session => [session.id, session]));
+  const chain: QuizSession[] = [];
+  let current = sessionsById.get(sessionId);
+
+  while (current && !chain.includes(current)) {
+    chain.unshift(current);
+    current = current.source_session_id ? sessionsById.get(current.source_session_id) : undefined;
+  }
+
+  return chain;
+}
+
 /**
  * Get display name for quiz type
  * @param type - The quiz type string
@@ -170,6 +224,16 @@ export function getQuizTypeDisplayName(type: string): string {
       return 'Custom Quiz';
     case 'study-assignment':
       return 'Study Assignment';
+    case 'live':
+      return 'Live Quiz';
+    case 'competition':
+      return 'Competition';
+    case 'review':
+      return 'Review';
+    case 'retry':
+      return 'Retry';
+    case 'assigned':
+      return 'Assigned Quiz';
     default:
       return 'Quiz';
   }
@@ -186,6 +250,16 @@ export function getQuizTypeIcon(type: string) {
       return Edit;
     case 'study-assignment':
       return Calendar;
+    case 'live':
+      return Radio;
+    case 'competition':
+      return Medal;
+    case 'review':
+      return Brain;
+    case 'retry':
+      return RotateCcw;
+    case 'assigned':
+      return ClipboardList;
     default:
       return Trophy;
   }
@@ -0,0 +1,67 @@
+import { Question } from '../types';
+
+/**
+ * Text read aloud for a question
+ * @param question - Question being asked
+ * @returns Points and question text
+ */
+export function getQuestionSpeechText(question: Pick<Question, 'points' | 'question'>): string {
+  const points = Number(question.points) || 0;
+  return `For ${points} ${points === 1 ? 'point' : 'points'}. ${question.question}`;
+}
+
+/**
+ * Text read aloud when an answer is shown
+ * @param question - Question being answered
+ * @returns Answer text
+ */
+export function getAnswerSpeechText(question: Pick<Question, 'answer'>): string {
+  return `Answer. ${question.answer}`;
+}
+
+export interface PendingStart {
+  // Calls start once ready settles, unless cancelled or replaced first
+  startAfter: (ready: Promise<unknown>, start: () => void) => void;
+  cancel: () => void;
+}
+
+/**
+ * Tracks a start that waits on something else, such as a question being read.
+ * Only the latest request can start; cancelling drops it.
+ */
+export function createPendingStart(): PendingStart {
+  let token = 0;
+
+  return {
+    startAfter: (ready, start) => {
+      const current = ++token;
+      const run = () => {
+        if (token === current) start();
+      };
+      ready.then(run, run);
+    },
+    cancel: () => {
+      token++;
+    },
+  };
+}
+
+export interface ReadOnceTracker {
+  // Runs read the first time a key is seen; returns null for keys already read
+  readOnce: (key: string, read: () => Promise<void>) => Promise<void> | null;
+}
+
+/**
+ * Remembers which question was read last, so re-renders don't read it again
+ */
+export function createReadOnceTracker(): ReadOnceTracker {
+  let lastKey: string | null = null;
+
+  return {
+    readOnce: (key, read) => {
+      if (lastKey === key) return null;
+      lastKey = key;
+      return read();
+    },
+  };
+}
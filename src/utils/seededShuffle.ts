@@ -0,0 +1,47 @@
+/**
+ * Reproducible randomness for quiz generation, so the same seed always yields the same quiz
+ */
+
+/**
+ * Generate a random 32-bit seed
+ * @returns Unsigned 32-bit integer
+ */
+export function generateQuizSeed(): number {
+  const values = new Uint32Array(1);
+  crypto.getRandomValues(values);
+  return values[0];
+}
+
+/**
+ * Create a deterministic random number generator (mulberry32)
+ * @param seed - 32-bit seed
+ * @returns Function returning numbers in [0, 1), the same sequence for the same seed
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Unbiased Fisher-Yates shuffle driven by a seed
+ * @param items - Items to shuffle; not modified
+ * @param seed - 32-bit seed
+ * @returns Shuffled copy of the items
+ */
+export function seededShuffle<T>(items: T[], seed: number): T[] {
+  const random = createSeededRandom(seed);
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  return shuffled;
+}
@@ -0,0 +1,143 @@
+/**
+ * SM-2 spaced-repetition scheduling built from a member's quiz_question_logs history
+ */
+
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+// Lowest recall quality (0-5) that still counts as remembering the answer
+export const PASSING_QUALITY = 3;
+// Most due questions asked in a single review session
+export const REVIEW_SESSION_MAX_QUESTIONS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ReviewLogEntry {
+  question_id: string;
+  points_earned: number;
+  total_points_possible: number;
+  time_spent: number;
+  answered_at: string;
+}
+
+export interface ReviewState {
+  repetitions: number;
+  easeFactor: number;
+  intervalDays: number;
+}
+
+export interface ReviewScheduleItem extends ReviewState {
+  questionId: string;
+  lastReviewedAt: string;
+  dueAt: string;
+}
+
+export const initialReviewState: ReviewState = {
+  repetitions: 0,
+  easeFactor: DEFAULT_EASE_FACTOR,
+  intervalDays: 0,
+};
+
+/**
+ * Convert a logged answer into an SM-2 recall quality
+ * @param pointsEarned - Points earned for the answer
+ * @param totalPoints - Points possible for the question
+ * @param timeSpent - Seconds taken to answer
+ * @param timeToAnswer - Seconds allowed for the question, if known
+ * @returns Quality from 0 (no recall) to 5 (perfect, quick recall)
+ */
+export function calculateReviewQuality(
+  pointsEarned: number,
+  totalPoints: number,
+  timeSpent: number,
+  timeToAnswer?: number
+): number {
+  const ratio = totalPoints > 0 ? pointsEarned / totalPoints : 0;
+
+  if (ratio >= 1) {
+    if (!timeToAnswer) return 4;
+    if (timeSpent <= timeToAnswer / 2) return 5;
+    return timeSpent <= timeToAnswer ? 4 : 3;
+  }
+
+  if (ratio >= 0.5) return 2;
+  return ratio > 0 ? 1 : 0;
+}
+
+/**
+ * Apply one review to a question's SM-2 state
+ * @param state - State before the review
+ * @param quality - Recall quality from 0 to 5
+ * @returns State after the review
+ */
+export function applySm2Review(state: ReviewState, quality: number): ReviewState {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  if (quality < PASSING_QUALITY) {
+    return { repetitions: 0, easeFactor, intervalDays: 1 };
+  }
+
+  let intervalDays: number;
+  if (state.repetitions === 0) {
+    intervalDays = 1;
+  } else if (state.repetitions === 1) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(state.intervalDays * state.easeFactor);
+  }
+
+  return { repetitions: state.repetitions + 1, easeFactor, intervalDays };
+}
+
+/**
+ * Replay a member's answer history to schedule every question they've seen
+ * @param logs - Logged answers in any order
+ * @param timeToAnswerByQuestion - Allowed answer time per question id
+ * @returns Schedule keyed by question id
+ */
+export function buildReviewSchedule(
+  logs: ReviewLogEntry[],
+  timeToAnswerByQuestion: Record<string, number> = {}
+): Map<string, ReviewScheduleItem> {
+  const schedule = new Map<string, ReviewScheduleItem>();
+  const sortedLogs = [...logs].sort(
+    (a, b) => new Date(a.answered_at).getTime() - new Date(b.answered_at).getTime()
+  );
+
+  sortedLogs.forEach(log => {
+    const previous = schedule.get(log.question_id) || initialReviewState;
+    const quality = calculateReviewQuality(
+      Number(log.points_earned) || 0,
+      Number(log.total_points_possible) || 0,
+      Number(log.time_spent) || 0,
+      timeToAnswerByQuestion[log.question_id]
+    );
+    const next = applySm2Review(previous, quality);
+
+    schedule.set(log.question_id, {
+      questionId: log.question_id,
+      ...next,
+      lastReviewedAt: log.answered_at,
+      dueAt: new Date(new Date(log.answered_at).getTime() + next.intervalDays * DAY_MS).toISOString(),
+    });
+  });
+
+  return schedule;
+}
+
+/**
+ * Get scheduled questions that are due, most overdue first
+ * @param schedule - Schedule from buildReviewSchedule
+ * @param now - Point in time to check against
+ * @returns Due schedule items
+ */
+export function getDueReviewItems(
+  schedule: Map<string, ReviewScheduleItem>,
+  now: Date = new Date()
+): ReviewScheduleItem[] {
+  return Array.from(schedule.values())
+    .filter(item => new Date(item.dueAt).getTime() <= now.getTime())
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime());
+}
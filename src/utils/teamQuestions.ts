@@ -0,0 +1,71 @@
+import { Question, QuestionStatus } from '../types';
+import { isQuestionPublished, QuestionStatusAction } from './questionStatus';
+
+// What the workflow statuses mean while a question is still in a team's own bank
+export const TEAM_QUESTION_STATUS_LABELS: Partial<Record<QuestionStatus, string>> = {
+  draft: 'Team only',
+  in_review: 'Nominated',
+};
+
+/**
+ * Whether a question belongs to a team's private bank rather than the global bank
+ * @param question - Question to check
+ * @returns True for team questions
+ */
+export function isTeamQuestion(question: Pick<Question, 'team_id'>): boolean {
+  return !!question.team_id;
+}
+
+/**
+ * Questions shown in question management: the global bank plus team questions
+ * nominated for it
+ * @param question - Question to check
+ * @returns True when reviewers look after the question
+ */
+export function isQuestionBankEntry(question: Pick<Question, 'team_id' | 'status'>): boolean {
+  return !isTeamQuestion(question) || question.status === 'in_review';
+}
+
+/**
+ * Status changes a team coach can make to one of the team's questions
+ * @param status - Question's current status
+ * @returns Nominate or withdraw, depending on the status
+ */
+export function getTeamQuestionActions(status: QuestionStatus): QuestionStatusAction[] {
+  switch (status) {
+    case 'draft':
+      return [{ status: 'in_review', label: 'Nominate for question bank' }];
+    case 'in_review':
+      return [{ status: 'draft', label: 'Withdraw nomination' }];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Questions that can go into a member's new quizzes: the published global bank,
+ * plus the member's own team questions when the team mixes them in
+ * @param questions - Every question the member can read
+ * @param teamId - Member's team
+ * @param includeTeamQuestions - Whether the team mixes its questions into quizzes
+ * @returns Questions to pick quiz questions from
+ */
+export function getQuizQuestionPool(
+  questions: Question[],
+  teamId: string | undefined,
+  includeTeamQuestions: boolean
+): Question[] {
+  return questions.filter(question => isTeamQuestion(question)
+    ? includeTeamQuestions && question.team_id === teamId
+    : isQuestionPublished(question));
+}
+
+/**
+ * Questions that go into a share code. Team questions are private to one team, so
+ * they're left out of the shared copy of a quiz.
+ * @param questions - Quiz questions, or the questions a quiz definition picks from
+ * @returns Questions from the global bank only, in the same order
+ */
+export function getShareableQuestionPool(questions: Question[]): Question[] {
+  return questions.filter(question => !isTeamQuestion(question));
+}
@@ -0,0 +1,130 @@
+import { Question, QuizSession, QuizTimerMode, QuizTimerSettings } from '../types';
+
+type SessionTimer = Pick<QuizSession, 'timer_mode' | 'timer_multiplier' | 'sprint_seconds'>;
+
+export const DEFAULT_QUESTION_SECONDS = 30;
+export const MIN_QUESTION_SECONDS = 5;
+export const DEFAULT_SPRINT_SECONDS = 300;
+export const TIMER_MULTIPLIER_OPTIONS = [0.5, 0.75, 1.5, 2];
+
+export const DEFAULT_TIMER_SETTINGS: QuizTimerSettings = { mode: 'standard' };
+
+/**
+ * Seconds allowed for a single question under the session's timer mode
+ * @param question - Question being asked
+ * @param session - Session timer fields
+ * @returns Seconds on the question clock
+ */
+export function getQuestionTimeLimit(question: Pick<Question, 'time_to_answer'> | undefined, session: SessionTimer): number {
+  const baseSeconds = question?.time_to_answer || DEFAULT_QUESTION_SECONDS;
+
+  if (session.timer_mode === 'multiplier' && session.timer_multiplier) {
+    return Math.max(MIN_QUESTION_SECONDS, Math.round(baseSeconds * session.timer_multiplier));
+  }
+
+  return baseSeconds;
+}
+
+/**
+ * Whether the session runs a single clock for the whole quiz
+ * @param session - Session timer fields
+ * @returns True for sprint sessions
+ */
+export function isSprintSession(session: SessionTimer): boolean {
+  return session.timer_mode === 'sprint';
+}
+
+/**
+ * Whether the session is played against a clock at all
+ * @param session - Session timer fields
+ * @returns False for untimed study sessions
+ */
+export function isTimedSession(session: SessionTimer): boolean {
+  return session.timer_mode !== 'untimed';
+}
+
+/**
+ * Session fields for a new quiz, including the starting clock
+ * @param settings - Timer mode chosen when creating the quiz
+ * @param questions - Questions in the order they will be asked
+ * @returns Fields to spread into the new session
+ */
+export function buildTimerSessionFields(
+  settings: QuizTimerSettings,
+  questions: Pick<Question, 'time_to_answer'>[]
+): SessionTimer & Pick<QuizSession, 'time_left'> {
+  const fields: SessionTimer = {
+    timer_mode: settings.mode,
+    timer_multiplier: settings.mode === 'multiplier' ? settings.multiplier || 1 : null,
+    sprint_seconds: settings.mode === 'sprint' ? settings.sprintSeconds || DEFAULT_SPRINT_SECONDS : null,
+  };
+
+  return {
+    ...fields,
+    time_left: fields.sprint_seconds || getQuestionTimeLimit(questions[0], fields),
+  };
+}
+
+/**
+ * Timer settings a session was created with, for starting another quiz on the same clock
+ * @param session - Session timer fields
+ * @returns Timer settings, standard for sessions created before timer modes
+ */
+export function getSessionTimerSettings(session: SessionTimer): QuizTimerSettings {
+  return {
+    mode: session.timer_mode || 'standard',
+    multiplier: session.timer_multiplier ?? undefined,
+    sprintSeconds: session.sprint_seconds ?? undefined,
+  };
+}
+
+const TIMER_MODES: QuizTimerMode[] = ['standard', 'untimed', 'multiplier', 'sprint'];
+
+/**
+ * Add the timer settings to a quiz link, for quizzes that start as soon as they're opened
+ * @param params - Search params of the link
+ * @param settings - Timer mode chosen before starting
+ * @returns The same params; nothing is added for the standard timer
+ */
+export function setTimerSearchParams(params: URLSearchParams, settings: QuizTimerSettings): URLSearchParams {
+  if (settings.mode !== 'standard') params.set('timer', settings.mode);
+  if (settings.mode === 'multiplier' && settings.multiplier) params.set('multiplier', String(settings.multiplier));
+  if (settings.mode === 'sprint' && settings.sprintSeconds) params.set('sprint', String(settings.sprintSeconds));
+  return params;
+}
+
+/**
+ * Timer settings from a quiz link. Anything that isn't one of the offered choices
+ * falls back to its default.
+ * @param params - Search params of the link
+ * @returns Timer settings, standard when the link has none
+ */
+export function getTimerSearchParams(params: URLSearchParams): QuizTimerSettings {
+  const mode = TIMER_MODES.find(option => option === params.get('timer')) || 'standard';
+  const multiplier = Number(params.get('multiplier'));
+  const sprintSeconds = Math.round(Number(params.get('sprint')));
+
+  return {
+    mode,
+    multiplier: mode === 'multiplier' && TIMER_MULTIPLIER_OPTIONS.includes(multiplier) ? multiplier : undefined,
+    sprintSeconds: mode === 'sprint' && sprintSeconds >= MIN_QUESTION_SECONDS ? sprintSeconds : undefined,
+  };
+}
+
+/**
+ * Short description of a session's timer mode for labels
+ * @param session - Session timer fields
+ * @returns Label such as "Untimed" or "1.5x time"
+ */
+export function getTimerModeLabel(session: SessionTimer): string {
+  switch (session.timer_mode) {
+    case 'untimed':
+      return 'Untimed';
+    case 'multiplier':
+      return `${session.timer_multiplier || 1}x time`;
+    case 'sprint':
+      return `Sprint (${Math.round((session.sprint_seconds || DEFAULT_SPRINT_SECONDS) / 60)} min)`;
+    default:
+      return 'Standard timer';
+  }
+}
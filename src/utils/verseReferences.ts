@@ -0,0 +1,80 @@
+import { Question } from '../types';
+
+type VerseRange = Pick<Question, 'verse_start' | 'verse_end'>;
+type QuestionReference = Pick<Question, 'book_of_bible' | 'chapter' | 'verse_start' | 'verse_end'>;
+
+/**
+ * Verses a question is drawn from
+ * @param question - Question with an optional verse range
+ * @returns Every verse in the range; empty when the question only has a chapter
+ */
+export function getQuestionVerses(question: VerseRange): number[] {
+  if (!question.verse_start) return [];
+  const end = Math.max(question.verse_end || question.verse_start, question.verse_start);
+  return Array.from({ length: end - question.verse_start + 1 }, (_, index) => question.verse_start! + index);
+}
+
+/**
+ * Whether a question's verse range overlaps any of the given verses
+ * @param question - Question with an optional verse range
+ * @param verses - Selected verses
+ * @returns True when at least one verse is covered. Questions without a verse
+ * range never match, since they could be from anywhere in the chapter.
+ */
+export function questionMatchesVerses(question: VerseRange, verses: number[]): boolean {
+  if (!question.verse_start) return false;
+  const end = question.verse_end || question.verse_start;
+  return verses.some(verse => verse >= question.verse_start! && verse <= end);
+}
+
+/**
+ * Format a verse range, e.g. "4" or "4-7"
+ * @param question - Question with an optional verse range
+ * @returns Formatted range, or an empty string when there is none
+ */
+export function formatVerseRange(question: VerseRange): string {
+  if (!question.verse_start) return '';
+  const end = question.verse_end || question.verse_start;
+  return end > question.verse_start ? `${question.verse_start}-${end}` : `${question.verse_start}`;
+}
+
+/**
+ * Format a question's bible reference, e.g. "Daniel 2:4-7"
+ * @param question - Question with book, chapter and optional verse range
+ * @returns Reference with verses when the question has them
+ */
+export function formatQuestionReference(question: QuestionReference): string {
+  const verses = formatVerseRange(question);
+  return verses
+    ? `${question.book_of_bible} ${question.chapter}:${verses}`
+    : `${question.book_of_bible} ${question.chapter}`;
+}
+
+/**
+ * Compare questions by chapter and then by first verse, for reading order.
+ * Questions without verses come after the verse-tagged questions of their chapter.
+ * @param a - First question
+ * @param b - Second question
+ * @returns Negative, zero or positive as for Array.prototype.sort
+ */
+export function compareByVerse(a: QuestionReference, b: QuestionReference): number {
+  return a.chapter - b.chapter || (a.verse_start || Infinity) - (b.verse_start || Infinity) || 0;
+}
+
+/**
+ * Check a verse range before saving it with a question. The database checks the
+ * range against the chapter's verse count when bible_books has one.
+ * @param verseStart - First verse, or null for a whole-chapter question
+ * @param verseEnd - Last verse, or null for a single verse
+ * @returns An error message, or null when the range is valid or empty
+ */
+export function validateVerseRange(verseStart: number | null, verseEnd: number | null): string | null {
+  if (verseStart === null) {
+    return verseEnd === null ? null : 'Enter the first verse as well as the last';
+  }
+  if (!Number.isInteger(verseStart) || verseStart < 1) return 'Verses start at 1';
+  if (verseEnd !== null && (!Number.isInteger(verseEnd) || verseEnd < verseStart)) {
+    return 'The last verse cannot come before the first';
+  }
+  return null;
+}
@@ -0,0 +1,27 @@
+/*
+  # Add typed-answer mode to quiz sessions
+
+  1. Modified Tables
+    - `quiz_sessions`
+      - `answer_mode` (text, 'self-graded' or 'typed', defaults to 'self-graded')
+    - `quiz_question_logs`
+      - `typed_answer` (text, the answer typed by the member in typed-answer mode)
+      - `auto_graded_points` (integer, points suggested by the automatic grader)
+      - `similarity_score` (numeric, fuzzy match score between 0 and 1)
+
+  2. Notes
+    - `points_earned` remains the final (possibly overridden) score, so existing
+      analytics continue to work unchanged
+    - Comparing `points_earned` with `auto_graded_points` shows where members or
+      coaches overrode the automatic grade
+*/
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS answer_mode text NOT NULL DEFAULT 'self-graded'
+  CHECK (answer_mode IN ('self-graded', 'typed'));
+
+ALTER TABLE public.quiz_question_logs
+  ADD COLUMN IF NOT EXISTS typed_answer text,
+  ADD COLUMN IF NOT EXISTS auto_graded_points integer,
+  ADD COLUMN IF NOT EXISTS similarity_score numeric(4,2)
+  CHECK (similarity_score IS NULL OR (similarity_score >= 0 AND similarity_score <= 1));
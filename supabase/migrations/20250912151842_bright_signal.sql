@@ -0,0 +1,123 @@
+/*
+  # Hosted live quiz sessions
+
+  1. New Tables
+    - `live_quiz_sessions`
+      - `id` (uuid, primary key)
+      - `host_id` (uuid, the coach hosting the quiz)
+      - `team_id` (uuid, team whose members may join)
+      - `host_quiz_session_id` (uuid, the host's own quiz session)
+      - `join_code` (text, short unique code members type to join)
+      - `title` (text)
+      - `status` (text, 'lobby', 'active' or 'ended')
+      - `ended_at`, `created_at`, `updated_at` (timestamps)
+    - `live_quiz_participants`
+      - `live_session_id` (uuid, foreign key to live_quiz_sessions)
+      - `user_id` (uuid, the joining member)
+      - `quiz_session_id` (uuid, the member's own quiz session)
+      - `joined_at` (timestamp)
+
+  2. Modified Tables
+    - `quiz_sessions`
+      - `type` now also accepts 'live'
+      - `live_session_id` (uuid, links host and participant sessions to the live quiz)
+
+  3. Security
+    - Hosts (team owners/admins) manage their own live sessions
+    - Team members can look up live sessions of their team to join by code
+    - Members can only register themselves as participants
+
+  4. Notes
+    - Questions and answers travel over Realtime broadcast; every member still
+      writes their own quiz_sessions and quiz_question_logs rows, so existing
+      analytics pick up live quiz results unchanged
+*/
+
+CREATE TABLE IF NOT EXISTS public.live_quiz_sessions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  host_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  host_quiz_session_id uuid REFERENCES public.quiz_sessions(id) ON DELETE SET NULL,
+  join_code text NOT NULL,
+  title text NOT NULL,
+  status text NOT NULL DEFAULT 'lobby' CHECK (status IN ('lobby', 'active', 'ended')),
+  ended_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Join codes only need to be unique among sessions that can still be joined
+CREATE UNIQUE INDEX IF NOT EXISTS idx_live_quiz_sessions_open_join_code
+  ON public.live_quiz_sessions(join_code)
+  WHERE status <> 'ended';
+CREATE INDEX IF NOT EXISTS idx_live_quiz_sessions_team_id ON public.live_quiz_sessions(team_id);
+
+CREATE TABLE IF NOT EXISTS public.live_quiz_participants (
+  live_session_id uuid NOT NULL REFERENCES public.live_quiz_sessions(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quiz_session_id uuid REFERENCES public.quiz_sessions(id) ON DELETE SET NULL,
+  joined_at timestamptz DEFAULT now(),
+  PRIMARY KEY (live_session_id, user_id)
+);
+
+-- Allow live quizzes as a quiz session type
+ALTER TABLE public.quiz_sessions DROP CONSTRAINT IF EXISTS quiz_sessions_type_check;
+ALTER TABLE public.quiz_sessions
+  ADD CONSTRAINT quiz_sessions_type_check
+  CHECK (type IN ('quick-start', 'custom', 'study-assignment', 'live'));
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS live_session_id uuid REFERENCES public.live_quiz_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_live_session_id ON public.quiz_sessions(live_session_id);
+
+-- Enable RLS
+ALTER TABLE public.live_quiz_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.live_quiz_participants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "live_quiz_sessions_host_access" ON public.live_quiz_sessions
+  FOR ALL TO authenticated
+  USING (host_id = auth.uid())
+  WITH CHECK (
+    host_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = live_quiz_sessions.team_id
+      AND tm.user_id = auth.uid()
+      AND tm.role IN ('owner', 'admin')
+      AND tm.status = 'active'
+    )
+  );
+
+CREATE POLICY "live_quiz_sessions_team_member_view" ON public.live_quiz_sessions
+  FOR SELECT TO authenticated
+  USING (
+    team_id IN (
+      SELECT team_id FROM public.user_profiles
+      WHERE id = auth.uid()
+      AND team_id IS NOT NULL
+    )
+  );
+
+CREATE POLICY "live_quiz_participants_own_access" ON public.live_quiz_participants
+  FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.live_quiz_sessions lqs
+      JOIN public.user_profiles up ON up.team_id = lqs.team_id
+      WHERE lqs.id = live_quiz_participants.live_session_id
+      AND lqs.status <> 'ended'
+      AND up.id = auth.uid()
+    )
+  );
+
+CREATE POLICY "live_quiz_participants_host_view" ON public.live_quiz_participants
+  FOR SELECT TO authenticated
+  USING (
+    live_session_id IN (
+      SELECT id FROM public.live_quiz_sessions
+      WHERE host_id = auth.uid()
+    )
+  );
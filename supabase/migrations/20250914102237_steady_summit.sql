@@ -0,0 +1,16 @@
+/*
+  # Competition simulation quiz type
+
+  1. Modified Tables
+    - `quiz_sessions`
+      - `type` now also accepts 'competition'
+
+  2. Notes
+    - Competition rounds store the team's written answers in `results` and
+      only record points once the answer sheet has been judged
+*/
+
+ALTER TABLE public.quiz_sessions DROP CONSTRAINT IF EXISTS quiz_sessions_type_check;
+ALTER TABLE public.quiz_sessions
+  ADD CONSTRAINT quiz_sessions_type_check
+  CHECK (type IN ('quick-start', 'custom', 'study-assignment', 'live', 'competition'));
@@ -0,0 +1,23 @@
+/*
+  # Spaced-repetition review quiz type
+
+  1. Modified Tables
+    - `quiz_sessions`
+      - `type` now also accepts 'review'
+
+  2. Indexes
+    - `quiz_question_logs (user_id, answered_at)` to replay a member's answer
+      history when building their review queue
+
+  3. Notes
+    - Review schedules are derived from quiz_question_logs on the client, so no
+      scheduling state is stored
+*/
+
+ALTER TABLE public.quiz_sessions DROP CONSTRAINT IF EXISTS quiz_sessions_type_check;
+ALTER TABLE public.quiz_sessions
+  ADD CONSTRAINT quiz_sessions_type_check
+  CHECK (type IN ('quick-start', 'custom', 'study-assignment', 'live', 'competition', 'review'));
+
+CREATE INDEX IF NOT EXISTS idx_quiz_question_logs_user_answered_at
+  ON public.quiz_question_logs(user_id, answered_at);
@@ -0,0 +1,22 @@
+/*
+  # Retry missed questions
+
+  1. Modified Tables
+    - `quiz_sessions`
+      - `type` now also accepts 'retry'
+      - `source_session_id` (uuid, the session whose missed questions are retried)
+
+  2. Notes
+    - Retry sessions can themselves be retried, so following source_session_id
+      walks the whole retry chain back to the original quiz
+*/
+
+ALTER TABLE public.quiz_sessions DROP CONSTRAINT IF EXISTS quiz_sessions_type_check;
+ALTER TABLE public.quiz_sessions
+  ADD CONSTRAINT quiz_sessions_type_check
+  CHECK (type IN ('quick-start', 'custom', 'study-assignment', 'live', 'competition', 'review', 'retry'));
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS source_session_id uuid REFERENCES public.quiz_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_source_session_id ON public.quiz_sessions(source_session_id);
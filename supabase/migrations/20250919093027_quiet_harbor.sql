@@ -0,0 +1,20 @@
+/*
+  # Offline quiz sync
+
+  1. Modified Tables
+    - `quiz_question_logs`
+      - `client_log_id` (uuid, generated on the device that answered the question)
+
+  2. Notes
+    - Answers logged offline are replayed when the device reconnects. The unique
+      client_log_id lets a replay upsert with ignoreDuplicates, so a log that was
+      already written before the connection dropped is not counted twice
+*/
+
+ALTER TABLE public.quiz_question_logs
+  ADD COLUMN IF NOT EXISTS client_log_id uuid;
+
+ALTER TABLE public.quiz_question_logs
+  DROP CONSTRAINT IF EXISTS quiz_question_logs_client_log_id_key;
+ALTER TABLE public.quiz_question_logs
+  ADD CONSTRAINT quiz_question_logs_client_log_id_key UNIQUE (client_log_id);
@@ -0,0 +1,48 @@
+/*
+  # Quick Start question selection strategy
+
+  1. Modified Tables
+    - `teams`
+      - `quick_start_strategy` (text, how Quick Start picks questions for the team:
+        'balanced', 'weak-areas' or 'random')
+
+  2. New Functions
+    - `set_team_quick_start_strategy` lets team owners and admins (coaches) change
+      the strategy. Team admins can't update the teams row directly under RLS.
+*/
+
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS quick_start_strategy text NOT NULL DEFAULT 'balanced';
+
+ALTER TABLE public.teams DROP CONSTRAINT IF EXISTS teams_quick_start_strategy_check;
+ALTER TABLE public.teams
+  ADD CONSTRAINT teams_quick_start_strategy_check
+  CHECK (quick_start_strategy IN ('balanced', 'weak-areas', 'random'));
+
+CREATE OR REPLACE FUNCTION public.set_team_quick_start_strategy(
+    p_team_id uuid,
+    p_strategy text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.team_id = p_team_id
+          AND tm.user_id = auth.uid()
+          AND tm.role IN ('owner', 'admin')
+          AND tm.status = 'active'
+    ) THEN
+        RAISE EXCEPTION 'Only team coaches can change the Quick Start strategy';
+    END IF;
+
+    UPDATE public.teams
+    SET quick_start_strategy = p_strategy
+    WHERE id = p_team_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_team_quick_start_strategy(uuid, text) TO authenticated;
@@ -0,0 +1,58 @@
+/*
+  # Shareable quiz codes
+
+  1. New Tables
+    - `shared_quizzes`
+      - `code` (text, primary key, short code members type in)
+      - `title`, `description` (text)
+      - `definition` (jsonb, filters + seed + count used to regenerate the questions)
+      - `answer_mode` (text)
+      - `created_by` (uuid), `team_id` (uuid)
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `quiz_sessions`
+      - `quiz_definition` (jsonb, set when the session's questions came from a seeded definition)
+      - `share_code` (text, the shared quiz the session was started from or shared as)
+
+  3. Security
+    - Any signed-in member who knows a code can read it; only the creator can add or remove codes
+
+  4. Notes
+    - Questions are not stored with the code. Every member regenerates them from the
+      definition with the same seeded shuffle, so sessions with the same share_code
+      can be compared question by question
+*/
+
+CREATE TABLE IF NOT EXISTS public.shared_quizzes (
+  code text PRIMARY KEY CHECK (char_length(code) BETWEEN 4 AND 8),
+  title text NOT NULL,
+  description text,
+  definition jsonb NOT NULL,
+  answer_mode text NOT NULL DEFAULT 'self-graded' CHECK (answer_mode IN ('self-graded', 'typed')),
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id uuid REFERENCES public.teams(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shared_quizzes_created_by ON public.shared_quizzes(created_by);
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS quiz_definition jsonb,
+  ADD COLUMN IF NOT EXISTS share_code text REFERENCES public.shared_quizzes(code) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_share_code ON public.quiz_sessions(share_code);
+
+ALTER TABLE public.shared_quizzes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "shared_quizzes_read_by_code" ON public.shared_quizzes
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "shared_quizzes_creator_insert" ON public.shared_quizzes
+  FOR INSERT TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "shared_quizzes_creator_delete" ON public.shared_quizzes
+  FOR DELETE TO authenticated
+  USING (created_by = auth.uid());
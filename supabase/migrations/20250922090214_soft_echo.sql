@@ -0,0 +1,16 @@
+/*
+  # Read-aloud quiz settings
+
+  1. Modified Tables
+    - `user_profiles`
+      - `read_aloud_settings` (jsonb, speech options for reading questions aloud:
+        enabled, readAnswers, voiceURI, rate, autoStartTimer)
+
+  2. Notes
+    - Null means the member hasn't changed anything and the app defaults apply
+    - Voices are named by the browser's voiceURI, so a voice picked on one device
+      falls back to the default voice on devices that don't have it
+*/
+
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS read_aloud_settings jsonb;
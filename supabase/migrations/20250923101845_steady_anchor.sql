@@ -0,0 +1,25 @@
+/*
+  # Regrade quiz answers
+
+  1. Modified Tables
+    - `quiz_question_logs`
+      - `regraded_at` (timestamptz, when the answer was last regraded; null if never)
+
+  2. Security
+    - Members can update their own question logs, so an undo or regrade rewrites
+      the existing row (matched on `client_log_id`) instead of adding a second one
+
+  3. Notes
+    - `points_earned` and `is_correct` always hold the current grade, so analytics
+      keep reading one row per answered question
+*/
+
+ALTER TABLE public.quiz_question_logs
+  ADD COLUMN IF NOT EXISTS regraded_at timestamptz;
+
+DROP POLICY IF EXISTS "Users can update their own quiz question logs" ON public.quiz_question_logs;
+CREATE POLICY "Users can update their own quiz question logs"
+ON public.quiz_question_logs FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
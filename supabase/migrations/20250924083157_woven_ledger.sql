@@ -0,0 +1,24 @@
+/*
+  # Multi-part answer rubrics
+
+  1. Modified Tables
+    - `questions`
+      - `answer_components` (jsonb, optional list of answer parts, each
+        `{ id, text, points }`; the parts' points add up to the question's points)
+    - `quiz_question_logs`
+      - `component_results` (jsonb, which answer parts were given, each
+        `{ componentId, text, points, earned }`)
+
+  2. Notes
+    - Questions without a rubric keep a single partial-credit number
+    - Part text and points are copied into each log so later edits to a
+      question's rubric don't change how past answers read
+*/
+
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS answer_components jsonb
+  CHECK (answer_components IS NULL OR jsonb_typeof(answer_components) = 'array');
+
+ALTER TABLE public.quiz_question_logs
+  ADD COLUMN IF NOT EXISTS component_results jsonb
+  CHECK (component_results IS NULL OR jsonb_typeof(component_results) = 'array');
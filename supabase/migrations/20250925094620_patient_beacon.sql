@@ -0,0 +1,253 @@
+/*
+  # Coach review queue for self-graded quizzes
+
+  1. Modified Tables
+    - `teams`
+      - `require_quiz_review` (boolean, when on, self-graded quizzes completed by
+        members wait in the coach review queue before counting on leaderboards)
+    - `quiz_sessions`
+      - `reviewed_by` (uuid, coach who approved or rejected the quiz)
+      - `reviewed_at` (timestamptz)
+      - `review_note` (text, optional note to the member)
+    - `quiz_question_logs`
+      - `self_graded_points` (integer, the member's own grade when a coach changed it)
+      - `reviewed_by` (uuid, coach who changed the grade)
+
+  2. New Functions
+    - `set_team_quiz_review_required` lets coaches turn the review queue on or off
+    - `get_team_review_queue` lists the team's pending quizzes with member names
+    - `review_quiz_session` applies per-question point overrides, then approves or
+      rejects the quiz. Results, total_points, question logs and the member's XP
+      are updated together, so leaderboards pick up the coach's grades.
+
+  3. Triggers
+    - Completing a self-graded quiz on a team that requires review sets
+      `approval_status` to 'pending', unless the member is a coach
+
+  4. Notes
+    - Leaderboard functions already only count approved quizzes
+    - XP is adjusted by the change in total_points rather than recalculated, so
+      bonus XP already awarded is kept. Levels use the same 500 XP per level as
+      XP_PER_LEVEL in the app.
+*/
+
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS require_quiz_review boolean NOT NULL DEFAULT false;
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS review_note text;
+
+ALTER TABLE public.quiz_question_logs
+  ADD COLUMN IF NOT EXISTS self_graded_points integer,
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_team_approval_status
+  ON public.quiz_sessions(team_id, approval_status);
+
+CREATE OR REPLACE FUNCTION public.is_team_coach(p_team_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.team_id = p_team_id
+          AND tm.user_id = auth.uid()
+          AND tm.role IN ('owner', 'admin')
+          AND tm.status = 'active'
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_team_quiz_review_required(
+    p_team_id uuid,
+    p_required boolean
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_team_coach(p_team_id) THEN
+        RAISE EXCEPTION 'Only team coaches can change quiz review settings';
+    END IF;
+
+    UPDATE public.teams
+    SET require_quiz_review = p_required
+    WHERE id = p_team_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_quiz_pending_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'completed'
+       AND OLD.status IS DISTINCT FROM 'completed'
+       AND NEW.team_id IS NOT NULL
+       AND COALESCE(NEW.answer_mode, 'self-graded') = 'self-graded'
+       AND EXISTS (SELECT 1 FROM public.teams t WHERE t.id = NEW.team_id AND t.require_quiz_review)
+       AND NOT EXISTS (
+           SELECT 1 FROM public.team_members tm
+           WHERE tm.team_id = NEW.team_id
+             AND tm.user_id = NEW.user_id
+             AND tm.role IN ('owner', 'admin')
+       ) THEN
+        NEW.approval_status := 'pending';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS mark_quiz_pending_review ON public.quiz_sessions;
+CREATE TRIGGER mark_quiz_pending_review
+  BEFORE UPDATE ON public.quiz_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.mark_quiz_pending_review();
+
+CREATE OR REPLACE FUNCTION public.get_team_review_queue(p_team_id uuid)
+RETURNS TABLE (
+    id uuid,
+    user_id uuid,
+    user_name text,
+    title text,
+    type text,
+    completed_at timestamptz,
+    total_points integer,
+    max_points integer,
+    questions jsonb,
+    results jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_team_coach(p_team_id) THEN
+        RAISE EXCEPTION 'Only team coaches can review quizzes';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        qs.id,
+        qs.user_id,
+        up.name AS user_name,
+        qs.title,
+        qs.type,
+        qs.completed_at,
+        qs.total_points,
+        qs.max_points,
+        qs.questions,
+        qs.results
+    FROM public.quiz_sessions qs
+    INNER JOIN public.user_profiles up ON up.id = qs.user_id
+    WHERE qs.team_id = p_team_id
+      AND qs.status = 'completed'
+      AND qs.approval_status = 'pending'
+    ORDER BY qs.completed_at ASC;
+END;
+$$;
+
+-- p_overrides: [{ "questionId": "...", "pointsEarned": 2 }, ...]
+CREATE OR REPLACE FUNCTION public.review_quiz_session(
+    p_session_id uuid,
+    p_overrides jsonb,
+    p_status text,
+    p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _session public.quiz_sessions%ROWTYPE;
+    _results jsonb;
+    _total_points integer;
+    _new_total_xp integer;
+BEGIN
+    IF p_status NOT IN ('approved', 'rejected') THEN
+        RAISE EXCEPTION 'Invalid review status: %', p_status;
+    END IF;
+
+    SELECT * INTO _session FROM public.quiz_sessions WHERE id = p_session_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Quiz session not found';
+    END IF;
+
+    IF _session.team_id IS NULL OR NOT public.is_team_coach(_session.team_id) THEN
+        RAISE EXCEPTION 'Only team coaches can review quizzes';
+    END IF;
+
+    -- Rewrite overridden results, remembering the member's own grade
+    SELECT COALESCE(jsonb_agg(
+        CASE
+            WHEN o.points IS NOT NULL AND o.points <> (r.value->>'pointsEarned')::integer THEN
+                r.value || jsonb_build_object(
+                    'pointsEarned', LEAST(GREATEST(o.points, 0), (r.value->>'totalPoints')::integer),
+                    'selfGradedPoints', COALESCE(r.value->'selfGradedPoints', r.value->'pointsEarned')
+                )
+            ELSE r.value
+        END
+        ORDER BY r.ordinality
+    ), '[]'::jsonb)
+    INTO _results
+    FROM jsonb_array_elements(COALESCE(_session.results, '[]'::jsonb)) WITH ORDINALITY AS r(value, ordinality)
+    LEFT JOIN (
+        SELECT o.value->>'questionId' AS question_id, (o.value->>'pointsEarned')::integer AS points
+        FROM jsonb_array_elements(COALESCE(p_overrides, '[]'::jsonb)) AS o(value)
+    ) o ON o.question_id = r.value->>'questionId';
+
+    SELECT COALESCE(SUM((r.value->>'pointsEarned')::integer), 0)
+    INTO _total_points
+    FROM jsonb_array_elements(_results) AS r(value);
+
+    UPDATE public.quiz_sessions
+    SET results = _results,
+        total_points = _total_points,
+        approval_status = p_status,
+        reviewed_by = auth.uid(),
+        reviewed_at = now(),
+        review_note = NULLIF(trim(COALESCE(p_note, '')), '')
+    WHERE id = p_session_id;
+
+    -- Keep the question logs that analytics read in step with the results
+    UPDATE public.quiz_question_logs qql
+    SET self_graded_points = COALESCE(qql.self_graded_points, qql.points_earned),
+        points_earned = (r.value->>'pointsEarned')::integer,
+        is_correct = (r.value->>'pointsEarned')::integer = qql.total_points_possible,
+        reviewed_by = auth.uid(),
+        regraded_at = now()
+    FROM jsonb_array_elements(_results) AS r(value)
+    WHERE qql.quiz_session_id = p_session_id
+      AND qql.question_id::text = r.value->>'questionId'
+      AND qql.points_earned <> (r.value->>'pointsEarned')::integer;
+
+    IF _total_points <> COALESCE(_session.total_points, 0) THEN
+        UPDATE public.user_stats
+        SET total_xp = GREATEST(total_xp + (_total_points - COALESCE(_session.total_points, 0)), 0)
+        WHERE user_id = _session.user_id
+        RETURNING total_xp INTO _new_total_xp;
+
+        IF _new_total_xp IS NOT NULL THEN
+            UPDATE public.user_stats
+            SET current_level = (_new_total_xp / 500) + 1
+            WHERE user_id = _session.user_id;
+        END IF;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_team_coach(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_team_quiz_review_required(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_team_review_queue(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_quiz_session(uuid, jsonb, text, text) TO authenticated;
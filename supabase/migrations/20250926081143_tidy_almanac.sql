@@ -0,0 +1,72 @@
+/*
+  # Saved custom quiz templates
+
+  1. New Tables
+    - `quiz_templates`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `user_id` (uuid, member who saved the template)
+      - `team_id` (uuid, team the template can be published to)
+      - `is_team_template` (boolean, listed for every member of the team when true)
+      - `config` (jsonb, books/chapters, tiers, question count, ordering and answer mode)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Members manage their own templates
+    - Members can read the published templates of teams they belong to
+    - Only team owners and admins can publish a template, or edit and remove
+      templates already published to their team
+
+  3. Notes
+    - Templates only store the selection. Questions are drawn with a new seed each
+      time a quiz is started from one, like any other custom quiz
+*/
+
+CREATE TABLE IF NOT EXISTS public.quiz_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 100),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id uuid REFERENCES public.teams(id) ON DELETE CASCADE,
+  is_team_template boolean NOT NULL DEFAULT false,
+  config jsonb NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (NOT is_team_template OR team_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_templates_user_id ON public.quiz_templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_quiz_templates_team_id ON public.quiz_templates(team_id) WHERE is_team_template;
+
+ALTER TABLE public.quiz_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "quiz_templates_owner_read" ON public.quiz_templates
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "quiz_templates_team_read" ON public.quiz_templates
+  FOR SELECT TO authenticated
+  USING (
+    is_team_template
+    AND EXISTS (
+      SELECT 1 FROM public.team_members tm
+      WHERE tm.team_id = quiz_templates.team_id
+        AND tm.user_id = auth.uid()
+        AND tm.status = 'active'
+    )
+  );
+
+CREATE POLICY "quiz_templates_owner_insert" ON public.quiz_templates
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (NOT is_team_template OR public.is_team_coach(team_id))
+  );
+
+CREATE POLICY "quiz_templates_owner_update" ON public.quiz_templates
+  FOR UPDATE TO authenticated
+  USING (user_id = auth.uid() OR (is_team_template AND public.is_team_coach(team_id)))
+  WITH CHECK (NOT is_team_template OR public.is_team_coach(team_id));
+
+CREATE POLICY "quiz_templates_owner_delete" ON public.quiz_templates
+  FOR DELETE TO authenticated
+  USING (user_id = auth.uid() OR (is_team_template AND public.is_team_coach(team_id)));
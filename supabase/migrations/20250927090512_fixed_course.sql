@@ -0,0 +1,182 @@
+/*
+  # Coach-assigned fixed quizzes
+
+  1. New Tables
+    - `assigned_quizzes`
+      - `id` (uuid, primary key)
+      - `team_id` (uuid), `created_by` (uuid)
+      - `title`, `description` (text)
+      - `questions` (jsonb, the exact questions in the order they are asked, with
+        each question's time limit in `time_to_answer`)
+      - `answer_mode` (text)
+      - `due_at` (timestamptz)
+      - `created_at`, `updated_at` (timestamptz)
+    - `assigned_quiz_members`
+      - `assigned_quiz_id` (uuid), `user_id` (uuid)
+      - `quiz_session_id` (uuid, the member's completed session)
+      - `completed_at` (timestamptz)
+
+  2. Modified Tables
+    - `quiz_sessions`
+      - `assigned_quiz_id` (uuid)
+      - `type` now also accepts 'assigned'
+
+  3. New Functions
+    - `get_assigned_quiz_results` returns every assigned member's results so coaches
+      can compare answers question by question
+
+  4. Triggers
+    - Completing a session for an assigned quiz records the completion against the
+      member's assignment
+
+  5. Security
+    - Team owners and admins create, edit and remove assigned quizzes for their team
+    - Members can read the quizzes assigned to them and their own assignment rows
+
+  6. Notes
+    - Questions are copied into the assignment, so later edits to the question bank
+      don't change a quiz members have already been given
+*/
+
+CREATE TABLE IF NOT EXISTS public.assigned_quizzes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL CHECK (char_length(trim(title)) BETWEEN 1 AND 100),
+  description text,
+  questions jsonb NOT NULL CHECK (jsonb_typeof(questions) = 'array' AND jsonb_array_length(questions) > 0),
+  answer_mode text NOT NULL DEFAULT 'self-graded' CHECK (answer_mode IN ('self-graded', 'typed')),
+  due_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.assigned_quiz_members (
+  assigned_quiz_id uuid NOT NULL REFERENCES public.assigned_quizzes(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quiz_session_id uuid REFERENCES public.quiz_sessions(id) ON DELETE SET NULL,
+  completed_at timestamptz,
+  PRIMARY KEY (assigned_quiz_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assigned_quizzes_team_id ON public.assigned_quizzes(team_id);
+CREATE INDEX IF NOT EXISTS idx_assigned_quiz_members_user_id ON public.assigned_quiz_members(user_id);
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS assigned_quiz_id uuid REFERENCES public.assigned_quizzes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_assigned_quiz_id ON public.quiz_sessions(assigned_quiz_id);
+
+ALTER TABLE public.quiz_sessions DROP CONSTRAINT IF EXISTS quiz_sessions_type_check;
+ALTER TABLE public.quiz_sessions ADD CONSTRAINT quiz_sessions_type_check
+  CHECK (type IN ('quick-start', 'custom', 'study-assignment', 'live', 'competition', 'review', 'retry', 'assigned'));
+
+ALTER TABLE public.assigned_quizzes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.assigned_quiz_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "assigned_quizzes_coach_all" ON public.assigned_quizzes
+  FOR ALL TO authenticated
+  USING (public.is_team_coach(team_id))
+  WITH CHECK (public.is_team_coach(team_id) AND created_by = auth.uid());
+
+CREATE POLICY "assigned_quizzes_member_read" ON public.assigned_quizzes
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assigned_quiz_members aqm
+      WHERE aqm.assigned_quiz_id = assigned_quizzes.id
+        AND aqm.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "assigned_quiz_members_coach_all" ON public.assigned_quiz_members
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.assigned_quizzes aq
+      WHERE aq.id = assigned_quiz_members.assigned_quiz_id
+        AND public.is_team_coach(aq.team_id)
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.assigned_quizzes aq
+      WHERE aq.id = assigned_quiz_members.assigned_quiz_id
+        AND public.is_team_coach(aq.team_id)
+    )
+  );
+
+CREATE POLICY "assigned_quiz_members_own_read" ON public.assigned_quiz_members
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.record_assigned_quiz_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.assigned_quiz_id IS NOT NULL
+       AND NEW.status = 'completed'
+       AND OLD.status IS DISTINCT FROM 'completed' THEN
+        UPDATE public.assigned_quiz_members
+        SET quiz_session_id = NEW.id,
+            completed_at = COALESCE(NEW.completed_at, now())
+        WHERE assigned_quiz_id = NEW.assigned_quiz_id
+          AND user_id = NEW.user_id
+          AND completed_at IS NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_assigned_quiz_completion ON public.quiz_sessions;
+CREATE TRIGGER record_assigned_quiz_completion
+  AFTER UPDATE ON public.quiz_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_assigned_quiz_completion();
+
+CREATE OR REPLACE FUNCTION public.get_assigned_quiz_results(p_assigned_quiz_id uuid)
+RETURNS TABLE (
+    user_id uuid,
+    user_name text,
+    completed_at timestamptz,
+    quiz_session_id uuid,
+    total_points integer,
+    max_points integer,
+    results jsonb
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.assigned_quizzes aq
+        WHERE aq.id = p_assigned_quiz_id
+          AND public.is_team_coach(aq.team_id)
+    ) THEN
+        RAISE EXCEPTION 'Only team coaches can view assigned quiz results';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        aqm.user_id,
+        up.name AS user_name,
+        aqm.completed_at,
+        aqm.quiz_session_id,
+        qs.total_points,
+        qs.max_points,
+        COALESCE(qs.results, '[]'::jsonb) AS results
+    FROM public.assigned_quiz_members aqm
+    INNER JOIN public.user_profiles up ON up.id = aqm.user_id
+    LEFT JOIN public.quiz_sessions qs ON qs.id = aqm.quiz_session_id
+    WHERE aqm.assigned_quiz_id = p_assigned_quiz_id
+    ORDER BY up.name ASC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_assigned_quiz_results(uuid) TO authenticated;
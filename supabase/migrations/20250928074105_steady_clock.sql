@@ -0,0 +1,26 @@
+/*
+  # Quiz Timer Modes
+
+  1. Modified Tables
+    - `quiz_sessions`
+      - `timer_mode` (text, 'standard', 'untimed', 'multiplier' or 'sprint', defaults to 'standard')
+      - `timer_multiplier` (numeric, scales each question's time in 'multiplier' mode)
+      - `sprint_seconds` (integer, length of the single whole-quiz clock in 'sprint' mode)
+
+  2. Notes
+    - The mode is chosen when the quiz is created and kept on the session so a
+      resumed quiz runs the same clock
+    - In sprint mode `time_left` holds the time remaining on the whole-quiz clock
+    - Existing sessions keep the standard per-question timer
+*/
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS timer_mode text NOT NULL DEFAULT 'standard'
+    CHECK (timer_mode IN ('standard', 'untimed', 'multiplier', 'sprint')),
+  ADD COLUMN IF NOT EXISTS timer_multiplier numeric(3,2)
+    CHECK (timer_multiplier IS NULL OR (timer_multiplier > 0 AND timer_multiplier <= 5)),
+  ADD COLUMN IF NOT EXISTS sprint_seconds integer
+    CHECK (sprint_seconds IS NULL OR sprint_seconds > 0);
+
+-- Analytics filter timed and untimed results by team
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_timer_mode ON public.quiz_sessions(team_id, timer_mode);
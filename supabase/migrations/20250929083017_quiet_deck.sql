@@ -0,0 +1,47 @@
+/*
+  # Flashcard study mode
+
+  1. New Tables
+    - `flashcard_reviews`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, member who reviewed the card)
+      - `team_id` (uuid, member's team when the card was reviewed)
+      - `question_id` (uuid, question shown on the card)
+      - `confidence` (text, 'again', 'hard', 'good' or 'easy')
+      - `reviewed_at` (timestamptz)
+
+  2. Security
+    - Members add and read their own reviews
+    - Team owners and admins can read their team's reviews for analytics
+
+  3. Notes
+    - Flashcards are not scored. Reviews are kept apart from `quiz_question_logs`
+      so they never count towards quiz scores, XP or achievements
+    - A member's confidence in a question is their most recent rating
+*/
+
+CREATE TABLE IF NOT EXISTS public.flashcard_reviews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id uuid REFERENCES public.teams(id) ON DELETE CASCADE,
+  question_id uuid NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  confidence text NOT NULL CHECK (confidence IN ('again', 'hard', 'good', 'easy')),
+  reviewed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_user_question ON public.flashcard_reviews(user_id, question_id, reviewed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_team_reviewed_at ON public.flashcard_reviews(team_id, reviewed_at);
+
+ALTER TABLE public.flashcard_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "flashcard_reviews_owner_read" ON public.flashcard_reviews
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "flashcard_reviews_coach_read" ON public.flashcard_reviews
+  FOR SELECT TO authenticated
+  USING (team_id IS NOT NULL AND public.is_team_coach(team_id));
+
+CREATE POLICY "flashcard_reviews_owner_insert" ON public.flashcard_reviews
+  FOR INSERT TO authenticated
+  WITH CHECK (user_id = auth.uid());
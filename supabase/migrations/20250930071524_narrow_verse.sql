@@ -0,0 +1,78 @@
+/*
+  # Verse references on questions
+
+  1. Modified Tables
+    - `questions`
+      - `verse_start` (integer, first verse the question is drawn from)
+      - `verse_end` (integer, last verse; equal to `verse_start` for a single verse)
+    - `bible_books`
+      - `chapter_verse_counts` (integer[], number of verses in each chapter, indexed by chapter)
+
+  2. Modified Functions
+    - `validate_bible_reference` also checks the chapter and verse range against
+      `bible_books` when the book is listed there
+
+  3. Notes
+    - Questions without a verse range cover the whole chapter. They are left out
+      when a study item or custom quiz narrows a chapter to specific verses
+    - `verse_end` is filled in from `verse_start` when only one verse is given
+*/
+
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS verse_start integer;
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS verse_end integer;
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_verse_range_check;
+ALTER TABLE public.questions ADD CONSTRAINT questions_verse_range_check CHECK (
+  (verse_start IS NULL AND verse_end IS NULL)
+  OR (verse_start >= 1 AND verse_end >= verse_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_questions_book_chapter_verse
+  ON public.questions(book_of_bible, chapter, verse_start);
+
+ALTER TABLE public.bible_books ADD COLUMN IF NOT EXISTS chapter_verse_counts integer[];
+
+CREATE OR REPLACE FUNCTION validate_bible_reference()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  book_record public.bible_books%ROWTYPE;
+  chapter_verses integer;
+BEGIN
+  IF NEW.book_of_bible IS NULL OR trim(NEW.book_of_bible) = '' THEN
+    RAISE EXCEPTION 'Book of bible cannot be empty';
+  END IF;
+
+  -- Normalize book name
+  NEW.book_of_bible := trim(initcap(NEW.book_of_bible));
+
+  -- A single verse only needs verse_start
+  IF NEW.verse_start IS NOT NULL AND NEW.verse_end IS NULL THEN
+    NEW.verse_end := NEW.verse_start;
+  END IF;
+
+  IF NEW.verse_start IS NULL AND NEW.verse_end IS NOT NULL THEN
+    RAISE EXCEPTION 'A verse range needs a first verse';
+  END IF;
+
+  IF NEW.verse_end < NEW.verse_start THEN
+    RAISE EXCEPTION 'Invalid verse range %-%', NEW.verse_start, NEW.verse_end;
+  END IF;
+
+  -- Books missing from bible_books are not checked any further
+  SELECT * INTO book_record FROM public.bible_books WHERE name = NEW.book_of_bible;
+  IF FOUND THEN
+    IF NEW.chapter < 1 OR NEW.chapter > book_record.max_chapters THEN
+      RAISE EXCEPTION '% has no chapter %', NEW.book_of_bible, NEW.chapter;
+    END IF;
+
+    chapter_verses := book_record.chapter_verse_counts[NEW.chapter];
+    IF chapter_verses IS NOT NULL AND NEW.verse_end > chapter_verses THEN
+      RAISE EXCEPTION '% % has only % verses', NEW.book_of_bible, NEW.chapter, chapter_verses;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,69 @@
+/*
+  # Question import as one transaction
+
+  1. New Functions
+    - `import_questions` adds new questions and updates existing ones, keyed by
+      question id, from an imported file. Either every row is saved or none are.
+
+  2. Security
+    - Runs with the caller's permissions, so the questions policies decide who can
+      import. An update that matches no question the caller can manage fails the
+      whole import instead of being skipped.
+
+  3. Notes
+    - Lets an exported spreadsheet be edited and imported again as updates
+    - `answer_components` and `created_by` of updated questions are left unchanged
+*/
+
+CREATE OR REPLACE FUNCTION public.import_questions(
+    p_new_questions jsonb,
+    p_updated_questions jsonb
+)
+RETURNS SETOF public.questions
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    expected_updates integer := jsonb_array_length(COALESCE(p_updated_questions, '[]'::jsonb));
+    applied_updates integer;
+BEGIN
+    RETURN QUERY
+    INSERT INTO public.questions (
+        book_of_bible, chapter, verse_start, verse_end, question, answer,
+        points, time_to_answer, tier, created_by
+    )
+    SELECT q.book_of_bible, q.chapter, q.verse_start, q.verse_end, q.question, q.answer,
+           q.points, q.time_to_answer, q.tier, auth.uid()
+    FROM jsonb_to_recordset(COALESCE(p_new_questions, '[]'::jsonb)) AS q(
+        book_of_bible text, chapter integer, verse_start integer, verse_end integer,
+        question text, answer text, points integer, time_to_answer integer, tier text
+    )
+    RETURNING *;
+
+    RETURN QUERY
+    UPDATE public.questions AS existing
+    SET book_of_bible = q.book_of_bible,
+        chapter = q.chapter,
+        verse_start = q.verse_start,
+        verse_end = q.verse_end,
+        question = q.question,
+        answer = q.answer,
+        points = q.points,
+        time_to_answer = q.time_to_answer,
+        tier = q.tier
+    FROM jsonb_to_recordset(COALESCE(p_updated_questions, '[]'::jsonb)) AS q(
+        id uuid, book_of_bible text, chapter integer, verse_start integer, verse_end integer,
+        question text, answer text, points integer, time_to_answer integer, tier text
+    )
+    WHERE existing.id = q.id
+    RETURNING existing.*;
+
+    GET DIAGNOSTICS applied_updates = ROW_COUNT;
+    IF applied_updates <> expected_updates THEN
+        RAISE EXCEPTION 'Only % of % questions to update could be found', applied_updates, expected_updates;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_questions(jsonb, jsonb) TO authenticated;
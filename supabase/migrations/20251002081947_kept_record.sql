@@ -0,0 +1,167 @@
+/*
+  # Question revision history
+
+  1. Modified Tables
+    - `questions`
+      - `revision` (integer, starts at 1 and goes up each time the question's content changes)
+    - `quiz_question_logs`
+      - `question_revision` (integer, revision of the question the member answered)
+
+  2. New Tables
+    - `question_revisions`
+      - `id` (uuid, primary key)
+      - `question_id` (uuid, question that was created or edited)
+      - `revision` (integer, the question's revision after the change)
+      - Copy of the question's content at that revision: `book_of_bible`, `chapter`,
+        `verse_start`, `verse_end`, `question`, `answer`, `answer_components`,
+        `points`, `time_to_answer`, `tier`
+      - `changed_fields` (text[], columns that differ from the previous revision; empty when created)
+      - `changed_by` (uuid, user who made the change)
+      - `created_at` (timestamptz)
+
+  3. Security
+    - Revisions can be read by anyone who can read the question
+    - Revisions are only written by triggers on `questions`
+
+  4. Notes
+    - Reverting is an ordinary update back to an older revision's content, so it is
+      recorded as a new revision and the history is never rewritten
+    - Logs inserted without a revision get the question's current revision
+    - Existing questions and logs start at revision 1
+*/
+
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 1;
+ALTER TABLE public.quiz_question_logs ADD COLUMN IF NOT EXISTS question_revision integer;
+
+UPDATE public.quiz_question_logs SET question_revision = 1 WHERE question_revision IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.question_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id uuid NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  revision integer NOT NULL,
+  book_of_bible text NOT NULL,
+  chapter integer NOT NULL,
+  verse_start integer,
+  verse_end integer,
+  question text NOT NULL,
+  answer text NOT NULL,
+  answer_components jsonb,
+  points integer NOT NULL,
+  time_to_answer integer NOT NULL,
+  tier text NOT NULL,
+  changed_fields text[] NOT NULL DEFAULT '{}',
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (question_id, revision)
+);
+
+ALTER TABLE public.question_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "question_revisions_read" ON public.question_revisions
+  FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.questions q WHERE q.id = question_id));
+
+-- Every existing question starts its history at revision 1
+INSERT INTO public.question_revisions (
+  question_id, revision, book_of_bible, chapter, verse_start, verse_end, question, answer,
+  answer_components, points, time_to_answer, tier, changed_by, created_at
+)
+SELECT id, revision, book_of_bible, chapter, verse_start, verse_end, question, answer,
+       answer_components, points, time_to_answer, tier, created_by, COALESCE(updated_at, created_at, now())
+FROM public.questions
+ON CONFLICT (question_id, revision) DO NOTHING;
+
+-- Bumps the revision when content changes. Named to run after validate_bible_reference_trigger,
+-- so a verse range it fills in isn't mistaken for an edit.
+CREATE OR REPLACE FUNCTION public.version_question()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.revision := 1;
+  ELSIF (NEW.book_of_bible, NEW.chapter, NEW.verse_start, NEW.verse_end, NEW.question, NEW.answer,
+         NEW.answer_components, NEW.points, NEW.time_to_answer, NEW.tier)
+        IS DISTINCT FROM
+        (OLD.book_of_bible, OLD.chapter, OLD.verse_start, OLD.verse_end, OLD.question, OLD.answer,
+         OLD.answer_components, OLD.points, OLD.time_to_answer, OLD.tier) THEN
+    NEW.revision := OLD.revision + 1;
+  ELSE
+    NEW.revision := OLD.revision;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS version_question_trigger ON public.questions;
+CREATE TRIGGER version_question_trigger
+  BEFORE INSERT OR UPDATE ON public.questions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.version_question();
+
+CREATE OR REPLACE FUNCTION public.record_question_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  changed text[] := '{}';
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.revision = OLD.revision THEN
+      RETURN NULL;
+    END IF;
+
+    IF NEW.book_of_bible IS DISTINCT FROM OLD.book_of_bible THEN changed := changed || 'book_of_bible'; END IF;
+    IF NEW.chapter IS DISTINCT FROM OLD.chapter THEN changed := changed || 'chapter'; END IF;
+    IF NEW.verse_start IS DISTINCT FROM OLD.verse_start THEN changed := changed || 'verse_start'; END IF;
+    IF NEW.verse_end IS DISTINCT FROM OLD.verse_end THEN changed := changed || 'verse_end'; END IF;
+    IF NEW.question IS DISTINCT FROM OLD.question THEN changed := changed || 'question'; END IF;
+    IF NEW.answer IS DISTINCT FROM OLD.answer THEN changed := changed || 'answer'; END IF;
+    IF NEW.answer_components IS DISTINCT FROM OLD.answer_components THEN changed := changed || 'answer_components'; END IF;
+    IF NEW.points IS DISTINCT FROM OLD.points THEN changed := changed || 'points'; END IF;
+    IF NEW.time_to_answer IS DISTINCT FROM OLD.time_to_answer THEN changed := changed || 'time_to_answer'; END IF;
+    IF NEW.tier IS DISTINCT FROM OLD.tier THEN changed := changed || 'tier'; END IF;
+  END IF;
+
+  INSERT INTO public.question_revisions (
+    question_id, revision, book_of_bible, chapter, verse_start, verse_end, question, answer,
+    answer_components, points, time_to_answer, tier, changed_fields, changed_by
+  ) VALUES (
+    NEW.id, NEW.revision, NEW.book_of_bible, NEW.chapter, NEW.verse_start, NEW.verse_end, NEW.question, NEW.answer,
+    NEW.answer_components, NEW.points, NEW.time_to_answer, NEW.tier, changed, COALESCE(auth.uid(), NEW.created_by)
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_question_revision_trigger ON public.questions;
+CREATE TRIGGER record_question_revision_trigger
+  AFTER INSERT OR UPDATE ON public.questions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_question_revision();
+
+-- Older clients and queued offline logs don't send a revision
+CREATE OR REPLACE FUNCTION public.set_question_log_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.question_revision IS NULL THEN
+    SELECT q.revision INTO NEW.question_revision FROM public.questions q WHERE q.id = NEW.question_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_question_log_revision_trigger ON public.quiz_question_logs;
+CREATE TRIGGER set_question_log_revision_trigger
+  BEFORE INSERT ON public.quiz_question_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_question_log_revision();
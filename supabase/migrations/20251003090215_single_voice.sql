@@ -0,0 +1,66 @@
+/*
+  # Merge duplicate questions
+
+  1. Modified Tables
+    - `quiz_question_logs`
+      - `merged_from_question_id` (uuid, question the log was recorded against before it was merged away)
+
+  2. New Functions
+    - `merge_questions` keeps one question and deletes its duplicate, moving the
+      duplicate's answer logs and flashcard reviews to the kept question first
+
+  3. Security
+    - Only system admins can merge questions
+
+  4. Notes
+    - Moved logs lose their `question_revision`, which numbered the deleted question's
+      revisions rather than the kept question's
+    - Quiz session snapshots are left as they were taken
+*/
+
+ALTER TABLE public.quiz_question_logs ADD COLUMN IF NOT EXISTS merged_from_question_id uuid;
+
+CREATE OR REPLACE FUNCTION public.merge_questions(
+    p_keep_id uuid,
+    p_remove_id uuid
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    moved_logs integer;
+BEGIN
+    IF NOT public.is_admin() THEN
+        RAISE EXCEPTION 'Only admins can merge questions';
+    END IF;
+
+    IF p_keep_id = p_remove_id THEN
+        RAISE EXCEPTION 'A question cannot be merged into itself';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.questions WHERE id = p_keep_id)
+       OR NOT EXISTS (SELECT 1 FROM public.questions WHERE id = p_remove_id) THEN
+        RAISE EXCEPTION 'Both questions must exist to merge them';
+    END IF;
+
+    UPDATE public.quiz_question_logs
+    SET question_id = p_keep_id,
+        merged_from_question_id = COALESCE(merged_from_question_id, p_remove_id),
+        question_revision = NULL
+    WHERE question_id = p_remove_id;
+
+    GET DIAGNOSTICS moved_logs = ROW_COUNT;
+
+    UPDATE public.flashcard_reviews
+    SET question_id = p_keep_id
+    WHERE question_id = p_remove_id;
+
+    DELETE FROM public.questions WHERE id = p_remove_id;
+
+    RETURN moved_logs;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_questions(uuid, uuid) TO authenticated;
@@ -0,0 +1,228 @@
+/*
+  # Question review workflow
+
+  1. Modified Tables
+    - `questions`
+      - `status` (text, 'draft', 'in_review', 'published' or 'retired')
+      - `reviewed_by` (uuid, reviewer who last published or sent back the question)
+      - `reviewed_at` (timestamptz)
+      - `review_note` (text, reviewer's note when sending a question back to draft)
+
+  2. New Functions
+    - `is_question_reviewer` is true for system admins and users whose
+      `user_profiles.role` is 'reviewer'
+    - `enforce_question_status` trigger keeps status changes to the workflow
+
+  3. Modified Functions
+    - `import_questions` takes a `status` for each new question, defaulting to draft
+
+  4. Security
+    - Members and anonymous users only see published and retired questions
+    - Reviewers can see and update every question but not add or delete them
+    - Only reviewers can publish, retire or restore questions. Authors move their
+      questions between draft and in review.
+    - When someone who isn't a reviewer edits a published question, it goes back
+      to review and is left out of new quizzes until a reviewer approves the edit
+
+  5. Notes
+    - Existing questions are published
+    - Only published questions go into new quizzes. Retired questions stay readable
+      so past quizzes and analytics still show them.
+*/
+
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'draft';
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS reviewed_at timestamptz;
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS review_note text;
+
+UPDATE public.questions SET status = 'published';
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_status_check;
+ALTER TABLE public.questions ADD CONSTRAINT questions_status_check
+  CHECK (status IN ('draft', 'in_review', 'published', 'retired'));
+
+CREATE INDEX IF NOT EXISTS idx_questions_status ON public.questions(status);
+
+CREATE OR REPLACE FUNCTION public.is_question_reviewer()
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_profiles
+    WHERE id = auth.uid()
+    AND role IN ('admin', 'reviewer')
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_question_reviewer() TO authenticated;
+
+-- Runs before version_question_trigger and record_question_revision_trigger
+CREATE OR REPLACE FUNCTION public.enforce_question_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  reviewer boolean := public.is_question_reviewer();
+BEGIN
+  -- Migrations and the service role aren't signed in as anyone
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('draft', 'in_review') AND NOT reviewer THEN
+      RAISE EXCEPTION 'Only question reviewers can publish questions';
+    END IF;
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT reviewer AND (NEW.status IN ('published', 'retired') OR OLD.status IN ('published', 'retired')) THEN
+      RAISE EXCEPTION 'Only question reviewers can publish, retire or restore questions';
+    END IF;
+  ELSIF OLD.status = 'published' AND NOT reviewer
+    AND (NEW.book_of_bible, NEW.chapter, NEW.verse_start, NEW.verse_end, NEW.question, NEW.answer,
+         NEW.answer_components, NEW.points, NEW.time_to_answer, NEW.tier)
+        IS DISTINCT FROM
+        (OLD.book_of_bible, OLD.chapter, OLD.verse_start, OLD.verse_end, OLD.question, OLD.answer,
+         OLD.answer_components, OLD.points, OLD.time_to_answer, OLD.tier) THEN
+    NEW.status := 'in_review';
+  END IF;
+
+  -- Publishing, or sending a question back to draft, is a review decision
+  IF reviewer AND (
+    (TG_OP = 'INSERT' AND NEW.status = 'published')
+    OR (TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status AND NEW.status IN ('published', 'draft'))
+  ) THEN
+    NEW.reviewed_by := auth.uid();
+    NEW.reviewed_at := now();
+  END IF;
+
+  IF NEW.status <> 'draft' THEN
+    NEW.review_note := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_question_status_trigger ON public.questions;
+CREATE TRIGGER enforce_question_status_trigger
+  BEFORE INSERT OR UPDATE ON public.questions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_question_status();
+
+-- Members only see questions that have been published
+DROP POLICY IF EXISTS "Users can view questions based on their subscription tier" ON public.questions;
+DROP POLICY IF EXISTS "Anonymous users can view free questions" ON public.questions;
+DROP POLICY IF EXISTS "Users without subscriptions can view free questions" ON public.questions;
+
+CREATE POLICY "Users can view questions based on their subscription tier"
+  ON public.questions
+  FOR SELECT
+  TO authenticated
+  USING (
+    status IN ('published', 'retired')
+    AND CASE tier
+      WHEN 'free' THEN true
+      WHEN 'pro' THEN EXISTS (
+        SELECT 1 FROM subscriptions s
+        WHERE s.user_id = auth.uid()
+        AND s.status = 'active'
+        AND s.plan IN ('pro', 'enterprise')
+      )
+      WHEN 'enterprise' THEN EXISTS (
+        SELECT 1 FROM subscriptions s
+        WHERE s.user_id = auth.uid()
+        AND s.status = 'active'
+        AND s.plan = 'enterprise'
+      )
+      ELSE false
+    END
+  );
+
+CREATE POLICY "Anonymous users can view free questions"
+  ON public.questions
+  FOR SELECT
+  TO anon
+  USING (tier = 'free' AND status IN ('published', 'retired'));
+
+CREATE POLICY "Users without subscriptions can view free questions"
+  ON public.questions
+  FOR SELECT
+  TO authenticated
+  USING (
+    tier = 'free'
+    AND status IN ('published', 'retired')
+    AND NOT EXISTS (
+      SELECT 1 FROM subscriptions s
+      WHERE s.user_id = auth.uid()
+      AND s.status = 'active'
+    )
+  );
+
+CREATE POLICY "Question reviewers can view all questions"
+  ON public.questions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_question_reviewer());
+
+CREATE POLICY "Question reviewers can update questions"
+  ON public.questions
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_question_reviewer())
+  WITH CHECK (public.is_question_reviewer());
+
+CREATE OR REPLACE FUNCTION public.import_questions(
+    p_new_questions jsonb,
+    p_updated_questions jsonb
+)
+RETURNS SETOF public.questions
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+    expected_updates integer := jsonb_array_length(COALESCE(p_updated_questions, '[]'::jsonb));
+    applied_updates integer;
+BEGIN
+    RETURN QUERY
+    INSERT INTO public.questions (
+        book_of_bible, chapter, verse_start, verse_end, question, answer,
+        points, time_to_answer, tier, status, created_by
+    )
+    SELECT q.book_of_bible, q.chapter, q.verse_start, q.verse_end, q.question, q.answer,
+           q.points, q.time_to_answer, q.tier, COALESCE(q.status, 'draft'), auth.uid()
+    FROM jsonb_to_recordset(COALESCE(p_new_questions, '[]'::jsonb)) AS q(
+        book_of_bible text, chapter integer, verse_start integer, verse_end integer,
+        question text, answer text, points integer, time_to_answer integer, tier text, status text
+    )
+    RETURNING *;
+
+    RETURN QUERY
+    UPDATE public.questions AS existing
+    SET book_of_bible = q.book_of_bible,
+        chapter = q.chapter,
+        verse_start = q.verse_start,
+        verse_end = q.verse_end,
+        question = q.question,
+        answer = q.answer,
+        points = q.points,
+        time_to_answer = q.time_to_answer,
+        tier = q.tier
+    FROM jsonb_to_recordset(COALESCE(p_updated_questions, '[]'::jsonb)) AS q(
+        id uuid, book_of_bible text, chapter integer, verse_start integer, verse_end integer,
+        question text, answer text, points integer, time_to_answer integer, tier text
+    )
+    WHERE existing.id = q.id
+    RETURNING existing.*;
+
+    GET DIAGNOSTICS applied_updates = ROW_COUNT;
+    IF applied_updates <> expected_updates THEN
+        RAISE EXCEPTION 'Only % of % questions to update could be found', applied_updates, expected_updates;
+    END IF;
+END;
+$$;
@@ -0,0 +1,211 @@
+/*
+  # Team question banks
+
+  1. Modified Tables
+    - `questions`
+      - `team_id` (uuid, team whose private bank the question belongs to; null for
+        the global question bank)
+    - `teams`
+      - `include_team_questions` (boolean, whether the team's own questions are
+        mixed into its members' quizzes)
+
+  2. New Functions
+    - `is_team_member` is true for active members of the team, coaches included
+    - `set_team_questions_included` lets coaches turn mixing team questions into
+      quizzes on or off
+    - `review_team_question` lets a reviewer accept a nominated team question into
+      the global bank, or send it back to the team with a note
+
+  3. Security
+    - Team questions are only visible to the team's active members, and only the
+      team's coaches (owners and admins) can add, edit or delete them
+    - Reviewers and system admins only see a team's questions once the team
+      nominates them for the global bank
+    - Replaces the old "Team admins can manage questions for their team" policy,
+      which let coaches edit questions written by anyone on their team
+
+  4. Notes
+    - A team question is a draft until the team nominates it, which puts it in
+      review. Accepting it publishes it and moves it into the global bank with its
+      answer history; declining returns it to draft with the reviewer's note.
+    - Team questions can't be published or retired while they belong to a team
+*/
+
+ALTER TABLE public.questions
+  ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES public.teams(id) ON DELETE CASCADE;
+
+ALTER TABLE public.teams
+  ADD COLUMN IF NOT EXISTS include_team_questions boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_questions_team_id ON public.questions(team_id);
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_team_status_check;
+ALTER TABLE public.questions ADD CONSTRAINT questions_team_status_check
+  CHECK (team_id IS NULL OR status IN ('draft', 'in_review'));
+
+CREATE OR REPLACE FUNCTION public.is_team_member(p_team_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM public.team_members tm
+        WHERE tm.team_id = p_team_id
+          AND tm.user_id = auth.uid()
+          AND tm.status = 'active'
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_team_member(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_team_questions_included(
+    p_team_id uuid,
+    p_included boolean
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.is_team_coach(p_team_id) THEN
+        RAISE EXCEPTION 'Only team coaches can change team question settings';
+    END IF;
+
+    UPDATE public.teams
+    SET include_team_questions = p_included
+    WHERE id = p_team_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_team_questions_included(uuid, boolean) TO authenticated;
+
+-- Global bank questions are the only ones members see outside their team
+DROP POLICY IF EXISTS "Users can view questions based on their subscription tier" ON public.questions;
+DROP POLICY IF EXISTS "Anonymous users can view free questions" ON public.questions;
+DROP POLICY IF EXISTS "Users without subscriptions can view free questions" ON public.questions;
+
+CREATE POLICY "Users can view questions based on their subscription tier"
+  ON public.questions
+  FOR SELECT
+  TO authenticated
+  USING (
+    team_id IS NULL
+    AND status IN ('published', 'retired')
+    AND CASE tier
+      WHEN 'free' THEN true
+      WHEN 'pro' THEN EXISTS (
+        SELECT 1 FROM subscriptions s
+        WHERE s.user_id = auth.uid()
+        AND s.status = 'active'
+        AND s.plan IN ('pro', 'enterprise')
+      )
+      WHEN 'enterprise' THEN EXISTS (
+        SELECT 1 FROM subscriptions s
+        WHERE s.user_id = auth.uid()
+        AND s.status = 'active'
+        AND s.plan = 'enterprise'
+      )
+      ELSE false
+    END
+  );
+
+CREATE POLICY "Anonymous users can view free questions"
+  ON public.questions
+  FOR SELECT
+  TO anon
+  USING (team_id IS NULL AND tier = 'free' AND status IN ('published', 'retired'));
+
+CREATE POLICY "Users without subscriptions can view free questions"
+  ON public.questions
+  FOR SELECT
+  TO authenticated
+  USING (
+    team_id IS NULL
+    AND tier = 'free'
+    AND status IN ('published', 'retired')
+    AND NOT EXISTS (
+      SELECT 1 FROM subscriptions s
+      WHERE s.user_id = auth.uid()
+      AND s.status = 'active'
+    )
+  );
+
+-- Admins and reviewers look after the global bank and the nominations sent to it
+DROP POLICY IF EXISTS "System admins can manage all questions" ON public.questions;
+DROP POLICY IF EXISTS "Question reviewers can view all questions" ON public.questions;
+DROP POLICY IF EXISTS "Question reviewers can update questions" ON public.questions;
+
+CREATE POLICY "System admins can manage all questions"
+  ON public.questions
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin() AND (team_id IS NULL OR status = 'in_review'))
+  WITH CHECK (public.is_admin() AND team_id IS NULL);
+
+CREATE POLICY "Question reviewers can view all questions"
+  ON public.questions
+  FOR SELECT
+  TO authenticated
+  USING (public.is_question_reviewer() AND (team_id IS NULL OR status = 'in_review'));
+
+-- Nominations are accepted or declined through review_team_question
+CREATE POLICY "Question reviewers can update questions"
+  ON public.questions
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_question_reviewer() AND (team_id IS NULL OR status = 'in_review'))
+  WITH CHECK (public.is_question_reviewer() AND (team_id IS NULL OR status = 'in_review'));
+
+DROP POLICY IF EXISTS "Team admins can manage questions for their team" ON public.questions;
+
+CREATE POLICY "Team members can view their team's questions"
+  ON public.questions
+  FOR SELECT
+  TO authenticated
+  USING (team_id IS NOT NULL AND public.is_team_member(team_id));
+
+CREATE POLICY "Team coaches can manage their team's questions"
+  ON public.questions
+  FOR ALL
+  TO authenticated
+  USING (team_id IS NOT NULL AND public.is_team_coach(team_id))
+  WITH CHECK (team_id IS NOT NULL AND public.is_team_coach(team_id));
+
+CREATE OR REPLACE FUNCTION public.review_team_question(
+    p_question_id uuid,
+    p_accept boolean,
+    p_note text DEFAULT NULL
+)
+RETURNS public.questions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    reviewed public.questions;
+BEGIN
+    IF NOT public.is_question_reviewer() THEN
+        RAISE EXCEPTION 'Only question reviewers can review team nominations';
+    END IF;
+
+    UPDATE public.questions
+    SET team_id = CASE WHEN p_accept THEN NULL ELSE team_id END,
+        status = CASE WHEN p_accept THEN 'published' ELSE 'draft' END,
+        review_note = CASE WHEN p_accept THEN NULL ELSE NULLIF(trim(p_note), '') END
+    WHERE id = p_question_id
+      AND team_id IS NOT NULL
+      AND status = 'in_review'
+    RETURNING * INTO reviewed;
+
+    IF reviewed.id IS NULL THEN
+        RAISE EXCEPTION 'Question has not been nominated by a team';
+    END IF;
+
+    RETURN reviewed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_team_question(uuid, boolean, text) TO authenticated;
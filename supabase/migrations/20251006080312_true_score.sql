@@ -0,0 +1,53 @@
+/*
+  # Live quiz awards recorded by the host
+
+  1. New Tables
+    - `live_quiz_awards`
+      - `live_session_id` (uuid, foreign key to live_quiz_sessions)
+      - `question_index` (integer, position of the question in the live quiz)
+      - `user_id` (uuid, the member awarded)
+      - `points` (integer)
+      - `created_at` (timestamp)
+
+  2. Security
+    - Only the host of a live session can record or change its awards
+    - Members can read their own awards; the host can read all of the session's
+
+  3. Notes
+    - The `award` broadcast only tells members that awards are ready. Members read
+      their points from this table, so a broadcast from anyone but the host can't
+      grant points.
+*/
+
+CREATE TABLE IF NOT EXISTS public.live_quiz_awards (
+  live_session_id uuid NOT NULL REFERENCES public.live_quiz_sessions(id) ON DELETE CASCADE,
+  question_index integer NOT NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  points integer NOT NULL DEFAULT 0 CHECK (points >= 0),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (live_session_id, question_index, user_id)
+);
+
+ALTER TABLE public.live_quiz_awards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "live_quiz_awards_host_access" ON public.live_quiz_awards
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.live_quiz_sessions lqs
+      WHERE lqs.id = live_quiz_awards.live_session_id
+      AND lqs.host_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.live_quiz_sessions lqs
+      WHERE lqs.id = live_quiz_awards.live_session_id
+      AND lqs.host_id = auth.uid()
+      AND lqs.status <> 'ended'
+    )
+  );
+
+CREATE POLICY "live_quiz_awards_own_view" ON public.live_quiz_awards
+  FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
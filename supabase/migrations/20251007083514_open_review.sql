@@ -0,0 +1,37 @@
+/*
+  # Queue typed-answer quizzes for coach review
+
+  1. Triggers
+    - `mark_quiz_pending_review` no longer checks the quiz's answer mode. On a
+      team that requires review, every quiz a member completes waits in the
+      coach review queue, whether they graded themselves or typed their answers.
+
+  2. Notes
+    - Typed answers are only suggested grades until the member accepts or changes
+      them, so they need a coach's check as much as self-graded ones. The review
+      card already shows the typed answer next to each question.
+*/
+
+CREATE OR REPLACE FUNCTION public.mark_quiz_pending_review()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status = 'completed'
+       AND OLD.status IS DISTINCT FROM 'completed'
+       AND NEW.team_id IS NOT NULL
+       AND EXISTS (SELECT 1 FROM public.teams t WHERE t.id = NEW.team_id AND t.require_quiz_review)
+       AND NOT EXISTS (
+           SELECT 1 FROM public.team_members tm
+           WHERE tm.team_id = NEW.team_id
+             AND tm.user_id = NEW.user_id
+             AND tm.role IN ('owner', 'admin')
+       ) THEN
+        NEW.approval_status := 'pending';
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
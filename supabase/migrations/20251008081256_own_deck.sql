@@ -0,0 +1,21 @@
+/*
+  # Only team members can file flashcard reviews under a team
+
+  1. Security
+    - `flashcard_reviews_owner_insert` now also requires the member to be an
+      active member of the review's `team_id`, or the review to have no team.
+      Before, a member could file reviews under any team and skew that team's
+      reviewed vs tested coverage for its coaches.
+
+  2. Notes
+    - Reviews already stored are left as they are
+*/
+
+DROP POLICY IF EXISTS "flashcard_reviews_owner_insert" ON public.flashcard_reviews;
+
+CREATE POLICY "flashcard_reviews_owner_insert" ON public.flashcard_reviews
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND (team_id IS NULL OR public.is_team_member(team_id))
+  );
@@ -0,0 +1,20 @@
+/*
+  # Save the questions of a shared quiz with its code
+
+  1. Modified Tables
+    - `shared_quizzes`
+      - `question_ids` (uuid[], the quiz's questions in the order they are asked)
+
+  2. Notes
+    - Members joining a code now get exactly these questions in this order, even
+      if questions were published, retired, imported or merged since the code was
+      made. Before, every member rebuilt the quiz from the definition, so any
+      change to the bank in between changed their questions.
+    - Questions are read through the usual question policies, so a member still
+      only gets questions their plan includes
+    - Codes made before this change have no `question_ids` and are still rebuilt
+      from their definition
+*/
+
+ALTER TABLE public.shared_quizzes
+  ADD COLUMN IF NOT EXISTS question_ids uuid[];
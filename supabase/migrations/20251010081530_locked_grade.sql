@@ -0,0 +1,76 @@
+/*
+  # Regrade question logs through a function
+
+  1. Security
+    - Drop "Users can update their own quiz question logs". It let members rewrite
+      any column of their logs, including points on a quiz a coach had reviewed.
+
+  2. New Functions
+    - `regrade_question_log` rewrites the grade of one of the caller's own logs,
+      matched on `client_log_id`. Only the columns an undo or regrade changes are
+      written: points, typed answer, auto-grade details and `regraded_at`.
+      `is_correct` is worked out from the points, which are kept within the
+      question's points. Returns false when the log hasn't been saved yet, so the
+      app can insert it instead.
+
+  3. Notes
+    - A regrade is refused once the quiz has been reviewed (`reviewed_at` is set)
+      or rejected. A quiz only leaves 'pending' through a coach's review, which
+      stamps `reviewed_at`, so a regrade can't change a grade the coach has seen.
+*/
+
+DROP POLICY IF EXISTS "Users can update their own quiz question logs" ON public.quiz_question_logs;
+
+CREATE OR REPLACE FUNCTION public.regrade_question_log(
+    p_client_log_id uuid,
+    p_points_earned integer,
+    p_typed_answer text,
+    p_auto_graded_points integer,
+    p_similarity_score numeric,
+    p_component_results jsonb,
+    p_regraded_at timestamptz
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _log public.quiz_question_logs%ROWTYPE;
+    _session public.quiz_sessions%ROWTYPE;
+    _points integer;
+BEGIN
+    SELECT * INTO _log
+    FROM public.quiz_question_logs
+    WHERE client_log_id = p_client_log_id
+      AND user_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN false;
+    END IF;
+
+    SELECT * INTO _session FROM public.quiz_sessions WHERE id = _log.quiz_session_id;
+
+    IF _session.reviewed_at IS NOT NULL
+       OR COALESCE(_session.approval_status, 'approved') NOT IN ('pending', 'approved') THEN
+        RAISE EXCEPTION 'This quiz has already been reviewed and can no longer be regraded';
+    END IF;
+
+    _points := LEAST(GREATEST(COALESCE(p_points_earned, 0), 0), _log.total_points_possible);
+
+    UPDATE public.quiz_question_logs
+    SET points_earned = _points,
+        is_correct = _points = _log.total_points_possible,
+        typed_answer = p_typed_answer,
+        auto_graded_points = p_auto_graded_points,
+        similarity_score = p_similarity_score,
+        component_results = p_component_results,
+        regraded_at = COALESCE(p_regraded_at, now())
+    WHERE id = _log.id;
+
+    RETURN true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.regrade_question_log(uuid, integer, text, integer, numeric, jsonb, timestamptz) TO authenticated;
@@ -0,0 +1,56 @@
+/*
+  # Only count assigned quizzes taken as assigned
+
+  1. Triggers
+    - `record_assigned_quiz_completion` now only marks an assignment complete when
+      the completed session asked the assigned questions, in the assigned order,
+      with the assigned answer mode. Before, any session tagged with the
+      assignment counted, whatever questions it held.
+
+  2. Notes
+    - Questions are compared by id, so the copy in the session can still carry
+      the question as it was shown
+    - A session that doesn't match is still saved as a completed quiz; it just
+      doesn't complete the assignment
+*/
+
+CREATE OR REPLACE FUNCTION public.record_assigned_quiz_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _assigned public.assigned_quizzes%ROWTYPE;
+BEGIN
+    IF NEW.assigned_quiz_id IS NOT NULL
+       AND NEW.status = 'completed'
+       AND OLD.status IS DISTINCT FROM 'completed' THEN
+        SELECT * INTO _assigned FROM public.assigned_quizzes WHERE id = NEW.assigned_quiz_id;
+
+        IF NOT FOUND
+           OR jsonb_typeof(NEW.questions) IS DISTINCT FROM 'array'
+           OR COALESCE(NEW.answer_mode, 'self-graded') <> _assigned.answer_mode
+           OR ARRAY(
+                SELECT q.value->>'id'
+                FROM jsonb_array_elements(NEW.questions) WITH ORDINALITY AS q(value, ordinality)
+                ORDER BY q.ordinality
+              ) IS DISTINCT FROM ARRAY(
+                SELECT q.value->>'id'
+                FROM jsonb_array_elements(_assigned.questions) WITH ORDINALITY AS q(value, ordinality)
+                ORDER BY q.ordinality
+              ) THEN
+            RETURN NEW;
+        END IF;
+
+        UPDATE public.assigned_quiz_members
+        SET quiz_session_id = NEW.id,
+            completed_at = COALESCE(NEW.completed_at, now())
+        WHERE assigned_quiz_id = NEW.assigned_quiz_id
+          AND user_id = NEW.user_id
+          AND completed_at IS NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
@@ -0,0 +1,70 @@
+/*
+  # Timer modes for assigned quizzes
+
+  1. Modified Tables
+    - `assigned_quizzes`
+      - `timer_mode` (text, 'standard', 'untimed', 'multiplier' or 'sprint', defaults to 'standard')
+      - `timer_multiplier` (numeric, scales each question's time in 'multiplier' mode)
+      - `sprint_seconds` (integer, length of the single whole-quiz clock in 'sprint' mode)
+
+  2. Triggers
+    - `record_assigned_quiz_completion` also checks that the session ran the
+      assigned timer mode before marking the assignment complete
+
+  3. Notes
+    - The columns match the timer columns on `quiz_sessions`; members' sessions
+      copy them when they start the quiz
+    - Existing assignments keep the standard per-question timer
+*/
+
+ALTER TABLE public.assigned_quizzes
+  ADD COLUMN IF NOT EXISTS timer_mode text NOT NULL DEFAULT 'standard'
+    CHECK (timer_mode IN ('standard', 'untimed', 'multiplier', 'sprint')),
+  ADD COLUMN IF NOT EXISTS timer_multiplier numeric(3,2)
+    CHECK (timer_multiplier IS NULL OR (timer_multiplier > 0 AND timer_multiplier <= 5)),
+  ADD COLUMN IF NOT EXISTS sprint_seconds integer
+    CHECK (sprint_seconds IS NULL OR sprint_seconds > 0);
+
+CREATE OR REPLACE FUNCTION public.record_assigned_quiz_completion()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    _assigned public.assigned_quizzes%ROWTYPE;
+BEGIN
+    IF NEW.assigned_quiz_id IS NOT NULL
+       AND NEW.status = 'completed'
+       AND OLD.status IS DISTINCT FROM 'completed' THEN
+        SELECT * INTO _assigned FROM public.assigned_quizzes WHERE id = NEW.assigned_quiz_id;
+
+        IF NOT FOUND
+           OR jsonb_typeof(NEW.questions) IS DISTINCT FROM 'array'
+           OR COALESCE(NEW.answer_mode, 'self-graded') <> _assigned.answer_mode
+           OR COALESCE(NEW.timer_mode, 'standard') <> _assigned.timer_mode
+           OR NEW.timer_multiplier IS DISTINCT FROM _assigned.timer_multiplier
+           OR NEW.sprint_seconds IS DISTINCT FROM _assigned.sprint_seconds
+           OR ARRAY(
+                SELECT q.value->>'id'
+                FROM jsonb_array_elements(NEW.questions) WITH ORDINALITY AS q(value, ordinality)
+                ORDER BY q.ordinality
+              ) IS DISTINCT FROM ARRAY(
+                SELECT q.value->>'id'
+                FROM jsonb_array_elements(_assigned.questions) WITH ORDINALITY AS q(value, ordinality)
+                ORDER BY q.ordinality
+              ) THEN
+            RETURN NEW;
+        END IF;
+
+        UPDATE public.assigned_quiz_members
+        SET quiz_session_id = NEW.id,
+            completed_at = COALESCE(NEW.completed_at, now())
+        WHERE assigned_quiz_id = NEW.assigned_quiz_id
+          AND user_id = NEW.user_id
+          AND completed_at IS NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;